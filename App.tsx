@@ -1,11 +1,15 @@
-import React, { useState, useCallback } from 'react';
-import { Link } from 'react-router-dom';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, PerspectiveCamera } from '@react-three/drei';
+import * as THREE from 'three';
 import { PineTree } from './components/PineTree';
 import { OrnamentMesh, GhostOrnament } from './components/Ornaments';
 import { EditableOrnament } from './components/EditableOrnament';
-import { TreeTopper } from './components/TreeTopper';
+import { SelectionGizmo, OrnamentChange } from './components/SelectionGizmo';
+import { SelectionBox } from './components/SelectionBox';
+import { TreeTopper, getTopperPosition } from './components/TreeTopper';
+import { Garland } from './components/Garland';
 import { DecorationPanel } from './components/DecorationPanel';
 import { ControlPanel } from './components/ControlPanel';
 import { SceneEnvironment } from './components/SceneEnvironment';
@@ -14,27 +18,61 @@ import { CartIcon } from './components/CartIcon';
 import { CartDrawer } from './components/CartDrawer';
 import { CheckoutForm } from './components/CheckoutForm';
 import { OrderConfirmation } from './components/OrderConfirmation';
+import { StripeCheckout } from './components/StripeCheckout';
 import { SharePanel } from './components/SharePanel';
-import { useTreeStore } from './data/treeStore';
+import { CollabPanel } from './components/CollabPanel';
+import { RemoteCursors } from './components/RemoteCursors';
+import { useTreeStore, TreeMutationOptions } from './data/treeStore';
 import { useCartStore } from './data/cartStore';
+import { downloadTreeAsGLB } from './data/gltfExport';
+import { getRoomFromURL, setRoomInURL } from './data/collabSync';
+import { getSessionId } from './data/sessionStore';
+import { calculatePricing } from './data/pricing';
+import { OutOfStockError } from './data/inventory';
+import { exportTree } from './data/treeExport';
+import { MIN_GARLAND_POINTS, createSpiralPoints, getGarlandMeters } from './data/garlands';
+import { AutoDecorateOptions, generateOrnamentLayout } from './data/autoDecorate';
+import { resolvePlacement, resolvePlacements } from './data/ornamentPlacement';
+import { ORNAMENT_SURFACE_OFFSET } from './data/treeSurface';
+import { DEFAULT_SYMMETRY, getSymmetricPlacements, getSymmetryCopyCount } from './data/symmetry';
+import {
+  OrnamentClip,
+  copyOrnamentsToClipboard,
+  parseOrnamentClip,
+  placeOrnamentClip,
+  readOrnamentClipFromClipboard,
+  serializeOrnamentClip,
+} from './data/ornamentClipboard';
+import { api } from './convex-dev';
 import { useAuth } from './hooks/useAuth';
+import { useCollabSession } from './hooks/useCollabSession';
+import { useTreeSession } from './hooks/useTreeSession';
 import { SCENE_THEMES, SceneTheme, DEFAULT_THEME } from './data/themes';
 import {
   TREE_PRODUCTS,
   getOrnamentProductByType,
   getTopperProductByType,
+  getGarlandProductByType,
 } from './data/products';
 import {
   OrnamentType,
   TopperType,
   EditorMode,
   TransformMode,
+  SymmetrySettings,
   OrnamentData,
+  TreeTopperData,
+  GarlandData,
+  GarlandType,
+  LightPattern,
   TreeProduct,
   ShippingAddress,
   Order,
+  SessionInvite,
+  SubscriptionTier,
+  StripeCheckoutSession,
 } from './types';
-import { ShoppingCart, User, LogOut } from 'lucide-react';
+import { ShoppingCart, User, LogOut, Package, Shield } from 'lucide-react';
 
 export default function App() {
   // Tree Store (data layer - ready for Convex)
@@ -44,9 +82,47 @@ export default function App() {
   const cartStore = useCartStore();
 
   // Auth
-  const { user, logout, isLoading: authLoading } = useAuth();
+  const { user, token, logout, upgradeSubscription, isLoading: authLoading } = useAuth();
   const [showUserMenu, setShowUserMenu] = useState(false);
 
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  // Real-time collaboration (room is a shared session ID, set by /join/:code)
+  const [roomId, setRoomId] = useState<string | null>(getRoomFromURL);
+  const treeSession = useTreeSession(roomId);
+  const collab = useCollabSession(store, {
+    // Wait for our role so a viewer never shares its local tree
+    roomId: treeSession.isLoading ? null : roomId,
+    userId: treeSession.userId,
+    userName: treeSession.userName,
+    avatarUrl: user?.avatarUrl,
+    role: treeSession.role ?? 'editor',
+  });
+
+  useEffect(() => {
+    store.setSessionRole(treeSession.role);
+  }, [store.setSessionRole, treeSession.role]);
+
+  // Quotas follow the signed-in user's tier (guests get the free tier)
+  useEffect(() => {
+    store.setCurrentUser(user, token);
+  }, [store.setCurrentUser, user, token]);
+
+  // Upgrades are paid on the Stripe checkout page; the webhook changes the tier
+  const handleUpgrade = useCallback(
+    async (tier: SubscriptionTier) => {
+      if (!user) {
+        navigate('/signup');
+        return;
+      }
+      const result = await upgradeSubscription(tier);
+      if (result.success) setCheckoutSession(result.checkoutSession!);
+    },
+    [user, navigate, upgradeSubscription]
+  );
+  const canEdit = store.canEdit();
+
   // Theme state
   const [currentTheme, setCurrentTheme] = useState<SceneTheme>(DEFAULT_THEME);
 
@@ -56,9 +132,16 @@ export default function App() {
   const [selectedTopperType, setSelectedTopperType] = useState<TopperType>('star');
   const [selectedColor, setSelectedColor] = useState<string>(DEFAULT_THEME.ornamentColors[0]);
   const [activePlacement, setActivePlacement] = useState<[number, number, number] | null>(null);
+  const [symmetry, setSymmetry] = useState<SymmetrySettings>(DEFAULT_SYMMETRY);
+
+  // Garland mode state: the strand being drawn is kept here until it's finished
+  const [garlandType, setGarlandType] = useState<GarlandType>('lights');
+  const [lightPattern, setLightPattern] = useState<LightPattern>('twinkle');
+  const [garlandColors, setGarlandColors] = useState<string[]>(['#ffe9b0']);
+  const [draftGarlandPoints, setDraftGarlandPoints] = useState<[number, number, number][]>([]);
 
   // Edit mode state
-  const [selectedOrnamentId, setSelectedOrnamentId] = useState<string | null>(null);
+  const [selectedOrnamentIds, setSelectedOrnamentIds] = useState<string[]>([]);
   const [transformMode, setTransformMode] = useState<TransformMode>('translate');
   const [welcomeDismissed, setWelcomeDismissed] = useState(false);
 
@@ -66,8 +149,14 @@ export default function App() {
   const [selectedTreeProduct, setSelectedTreeProduct] = useState<TreeProduct>(TREE_PRODUCTS[1]); // Medium by default
   const [isCartOpen, setIsCartOpen] = useState(false);
   const [isCheckoutOpen, setIsCheckoutOpen] = useState(false);
+  // Open Stripe Checkout Session while the customer is on the payment page
+  const [checkoutSession, setCheckoutSession] = useState<StripeCheckoutSession | null>(null);
   const [isOrderConfirmationOpen, setIsOrderConfirmationOpen] = useState(false);
   const [completedOrder, setCompletedOrder] = useState<Order | null>(null);
+  const [cartError, setCartError] = useState<string | null>(null);
+
+  // Root of the decorated tree in the scene graph (used for 3D export)
+  const decoratedTreeRef = useRef<THREE.Group>(null);
 
   // Update tree config when theme changes
   const handleThemeChange = useCallback((theme: SceneTheme) => {
@@ -80,12 +169,15 @@ export default function App() {
   }, [store]);
 
   // Calculate tree top position based on config
-  const treeTopY = 1.0 + 4 * (store.treeConfig.height * 0.18) + store.treeConfig.height * 0.25 + 0.3;
-  const treeTopPosition: [number, number, number] = [0, treeTopY - 1, 0];
+  const treeTopPosition = getTopperPosition(store.treeConfig);
 
   // Handlers
   const handleTreeHover = useCallback(
     (e: any) => {
+      if (collab.isActive) {
+        collab.updateCursor([e.point.x, e.point.y, e.point.z]);
+      }
+
       if (mode !== 'decorate') {
         if (activePlacement) setActivePlacement(null);
         return;
@@ -98,42 +190,121 @@ export default function App() {
       if (!normal) return;
 
       const pos: [number, number, number] = [
-        point.x + normal.x * 0.15,
-        point.y + normal.y * 0.15,
-        point.z + normal.z * 0.15,
+        point.x + normal.x * ORNAMENT_SURFACE_OFFSET,
+        point.y + normal.y * ORNAMENT_SURFACE_OFFSET,
+        point.z + normal.z * ORNAMENT_SURFACE_OFFSET,
       ];
-      setActivePlacement(pos);
+      // Nudged clear of ornaments already there; no ghost where there's no room
+      setActivePlacement(
+        resolvePlacement(store.treeConfig, { type: selectedOrnamentType, scale: 1, position: pos }, store.ornaments)
+      );
     },
-    [mode, activePlacement]
+    [
+      mode,
+      activePlacement,
+      collab.isActive,
+      collab.updateCursor,
+      selectedOrnamentType,
+      store.treeConfig,
+      store.ornaments,
+    ]
   );
 
+  // The aimed ornament and its symmetric copies, each kept clear of the
+  // ornaments already on the tree (copies with no room are left out)
+  const placeSymmetricCopies = useCallback(
+    (position: [number, number, number], rotationY: number) =>
+      resolvePlacements(
+        store.treeConfig,
+        getSymmetricPlacements(position, rotationY, symmetry).map((copy) => ({
+          ...copy,
+          type: selectedOrnamentType,
+          scale: 1,
+        })),
+        store.ornaments
+      ),
+    [symmetry, selectedOrnamentType, store.treeConfig, store.ornaments]
+  );
+
+  // Where the ghost preview shows a copy. A click only places when every
+  // copy has room, so an incomplete set is shown as blocked.
+  const ghostPreview = useMemo(() => {
+    if (mode !== 'decorate' || !activePlacement) return { positions: [], blocked: false };
+    const copies = placeSymmetricCopies(activePlacement, 0);
+    return {
+      positions: copies.map((copy) => copy.position),
+      blocked: copies.length !== getSymmetryCopyCount(symmetry),
+    };
+  }, [mode, activePlacement, placeSymmetricCopies, symmetry]);
+
   const handleTreeClick = useCallback(
     async (e: any) => {
+      if (mode === 'garland') {
+        e.stopPropagation();
+        const normal = e.face?.normal?.clone()?.transformDirection(e.object.matrixWorld)?.normalize();
+        if (!normal) return;
+        const point: [number, number, number] = [
+          e.point.x + normal.x * 0.08,
+          e.point.y + normal.y * 0.08,
+          e.point.z + normal.z * 0.08,
+        ];
+        setDraftGarlandPoints((points) => [...points, point]);
+        return;
+      }
+
       if (mode !== 'decorate' || !activePlacement) return;
 
       e.stopPropagation();
 
-      if (!store.canAddOrnament()) {
-        console.warn('Quota exceeded');
-        return;
-      }
+      // Check again: an ornament may have been placed here since the last hover
+      const position = resolvePlacement(
+        store.treeConfig,
+        { type: selectedOrnamentType, scale: 1, position: activePlacement },
+        store.ornaments
+      );
+      if (!position) return;
 
       // Calculate rotation to face camera at time of placement
       const camera = e.camera;
-      const dx = camera.position.x - activePlacement[0];
-      const dz = camera.position.z - activePlacement[2];
+      const dx = camera.position.x - position[0];
+      const dz = camera.position.z - position[2];
       const rotationY = Math.atan2(dx, dz);
 
-      // Add ornament to tree visualization only (not cart)
-      await store.addOrnament({
-        type: selectedOrnamentType,
-        color: selectedColor,
-        position: activePlacement,
-        rotation: [0, rotationY, 0] as [number, number, number],
-        scale: 1,
-      });
+      // With symmetry on, every copy is placed or none are: a copy with no
+      // room (or one that lands on another, mirrored near the front) blocks the click
+      const copies = placeSymmetricCopies(position, rotationY);
+      if (copies.length !== getSymmetryCopyCount(symmetry)) {
+        console.warn(`No room for all ${getSymmetryCopyCount(symmetry)} symmetric copies here`);
+        return;
+      }
+      const check = store.checkOrnament({ type: selectedOrnamentType, color: selectedColor }, copies.length);
+      if (!check.allowed) {
+        console.warn(`Quota exceeded: ${check.error}`);
+        return;
+      }
+
+      // Add ornaments to tree visualization only (not cart)
+      if (copies.length === 1) {
+        await store.addOrnament({ ...copies[0], color: selectedColor });
+      } else {
+        await store.addOrnaments(copies.map((copy) => ({ ...copy, color: selectedColor })));
+      }
     },
-    [mode, activePlacement, selectedOrnamentType, selectedColor, store]
+    [mode, activePlacement, selectedOrnamentType, selectedColor, store, placeSymmetricCopies, symmetry]
+  );
+
+  // Fill the tree procedurally. Ornaments with no room are dropped and the
+  // store stops at the ornament limit.
+  const handleAutoDecorate = useCallback(
+    async (options: Omit<AutoDecorateOptions, 'seed'>) => {
+      const layout = generateOrnamentLayout(
+        store.treeConfig,
+        { ...options, count: Math.min(options.count, store.getRemainingOrnaments()), seed: Math.random() },
+        store.ornaments.map((o) => o.position)
+      );
+      await store.addOrnaments(resolvePlacements(store.treeConfig, layout, store.ornaments));
+    },
+    [store]
   );
 
   const handleTreeOut = useCallback(() => {
@@ -162,6 +333,47 @@ export default function App() {
     setMode('view');
   }, [mode, selectedTopperType, selectedColor, store]);
 
+  // Garland handlers
+  const handleFinishGarland = useCallback(async () => {
+    if (draftGarlandPoints.length < MIN_GARLAND_POINTS) return;
+    await store.addGarland({
+      type: garlandType,
+      colors: garlandColors,
+      pattern: lightPattern,
+      points: draftGarlandPoints,
+    });
+    setDraftGarlandPoints([]);
+  }, [draftGarlandPoints, garlandType, garlandColors, lightPattern, store]);
+
+  const handleCancelGarland = useCallback(() => {
+    setDraftGarlandPoints([]);
+  }, []);
+
+  const handleAutoSpiral = useCallback(async () => {
+    await store.addGarland({
+      type: garlandType,
+      colors: garlandColors,
+      pattern: lightPattern,
+      points: createSpiralPoints(store.treeConfig),
+    });
+    setDraftGarlandPoints([]);
+  }, [garlandType, garlandColors, lightPattern, store]);
+
+  const handleRemoveGarland = useCallback(
+    async (id: string, e?: any) => {
+      e?.stopPropagation();
+      await store.removeGarland(id);
+    },
+    [store]
+  );
+
+  const handleGarlandPatternChange = useCallback(
+    async (id: string, pattern: LightPattern) => {
+      await store.updateGarland(id, { pattern });
+    },
+    [store]
+  );
+
   // Tree product selection handler - just updates the selection, doesn't add to cart
   const handleSelectTreeProduct = useCallback(
     (product: TreeProduct) => {
@@ -170,96 +382,379 @@ export default function App() {
     []
   );
 
-  // Add entire decorated tree to cart (tree + ornaments + topper as a bundle)
-  const handleAddToCart = useCallback(async () => {
-    // Add tree to cart
-    await cartStore.addTreeToCart(selectedTreeProduct);
+  // Add a decorated tree to cart (tree + ornaments + topper as a bundle)
+  const addDecoratedTreeToCart = useCallback(
+    async (
+      treeProduct: TreeProduct,
+      ornaments: OrnamentData[],
+      topper: TreeTopperData | null,
+      garlands: GarlandData[]
+    ) => {
+      setCartError(null);
+      try {
+        // Add tree to cart
+        await cartStore.addTreeToCart(treeProduct);
 
-    // Add all placed ornaments to cart
-    for (const ornament of store.ornaments) {
-      const ornamentProduct = getOrnamentProductByType(ornament.type);
-      if (ornamentProduct) {
-        await cartStore.addOrnamentToCart(ornamentProduct, ornament.color, ornament.position);
-      }
-    }
+        // Add all placed ornaments to cart
+        for (const ornament of ornaments) {
+          const ornamentProduct = getOrnamentProductByType(ornament.type);
+          if (ornamentProduct) {
+            await cartStore.addOrnamentToCart(ornamentProduct, ornament.color, ornament.position);
+          }
+        }
 
-    // Add topper to cart if present
-    if (store.topper) {
-      const topperProduct = getTopperProductByType(store.topper.type);
-      if (topperProduct) {
-        await cartStore.addTopperToCart(topperProduct, store.topper.color);
+        // Add topper to cart if present
+        if (topper) {
+          const topperProduct = getTopperProductByType(topper.type);
+          if (topperProduct) {
+            await cartStore.addTopperToCart(topperProduct, topper.color);
+          }
+        }
+
+        // Garlands are sold by the meter
+        for (const garland of garlands) {
+          const garlandProduct = getGarlandProductByType(garland.type);
+          if (garlandProduct) {
+            await cartStore.addGarlandToCart(garlandProduct, getGarlandMeters(garland.points), garland.colors[0]);
+          }
+        }
+      } catch (error) {
+        // Whatever was added before running out stays in the cart
+        if (!(error instanceof OutOfStockError)) throw error;
+        setCartError(error.message);
       }
-    }
-  }, [selectedTreeProduct, store.ornaments, store.topper, cartStore]);
+    },
+    [cartStore]
+  );
+
+  const handleAddToCart = useCallback(
+    () => addDecoratedTreeToCart(selectedTreeProduct, store.ornaments, store.topper, store.garlands),
+    [addDecoratedTreeToCart, selectedTreeProduct, store.ornaments, store.topper, store.garlands]
+  );
+
+  // "Reorder this tree" on /orders/:orderId: restore the ordered tree and put it in the cart
+  const reorderOrderId = (location.state as { reorderOrderId?: string } | null)?.reorderOrderId;
+  useEffect(() => {
+    if (!reorderOrderId || !user) return;
+    navigate(location.pathname + location.search, { replace: true, state: null });
+
+    api.orders.getById({ orderId: reorderOrderId }).then(async (order) => {
+      if (!order || order.userId !== user.id) return;
+
+      await store.importFromData(
+        exportTree(
+          order.ornamentsSnapshot,
+          order.topperSnapshot,
+          order.treeConfigSnapshot,
+          order.garlandsSnapshot ?? [],
+          { name: `Order ${order.id.toUpperCase()}` }
+        )
+      );
+
+      const treeItem = order.cartSnapshot.items.find((item) => item.productType === 'tree');
+      const treeProduct = TREE_PRODUCTS.find((p) => p.id === treeItem?.productId) ?? selectedTreeProduct;
+      setSelectedTreeProduct(treeProduct);
+      await addDecoratedTreeToCart(
+        treeProduct,
+        order.ornamentsSnapshot,
+        order.topperSnapshot,
+        order.garlandsSnapshot ?? []
+      );
+      setIsCartOpen(true);
+    });
+    // Runs once per reorder request (the state is cleared above)
+  }, [reorderOrderId, user]);
 
   // Checkout handler
   const handleCheckout = useCallback(async (address: ShippingAddress) => {
     if (!cartStore.cart) return;
 
-    // Calculate totals
-    const shippingCost = cartStore.subtotal >= 50000 ? 0 : 1999;
-    const tax = Math.round(cartStore.subtotal * 0.08);
-    const total = cartStore.subtotal + shippingCost + tax;
-
-    // Create a mock order (in real app, this would go through Stripe)
-    const order: Order = {
-      id: `order_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
-      sessionId: 'local-session',
-      cartSnapshot: cartStore.cart,
-      shippingAddress: address,
-      stripeSessionId: `mock_stripe_${Date.now()}`,
-      status: 'paid',
-      subtotal: cartStore.subtotal,
-      shippingCost,
-      tax,
-      total,
-      treeConfigSnapshot: store.treeConfig,
-      ornamentsSnapshot: store.ornaments,
-      topperSnapshot: store.topper,
-      createdAt: Date.now(),
-      paidAt: Date.now(),
-    };
+    // Same breakdown the checkout form showed
+    const pricing = calculatePricing(
+      cartStore.cart.items,
+      address,
+      cartStore.cart.discounts,
+      cartStore.cart.currency
+    );
+
+    // Hold the stock while the customer pays; paying commits it, cancelling releases it
+    const reservation = await api.inventory.reserve({
+      sessionId: cartStore.ownerId,
+      items: cartStore.cart.items,
+    });
+    if (!reservation.success) {
+      throw new Error(reservation.error || 'Some items are no longer available');
+    }
+    const reservationId = reservation.reservation!.id;
+
+    // Payment happens on the (simulated) Stripe checkout page; the webhook marks the order paid.
+    // The session expires with the reservation, which cancels the order.
+    const result = await api.stripe.createCheckoutSession({
+      amountTotal: pricing.total,
+      currency: pricing.currency,
+      customerEmail: address.email,
+      clientReferenceId: getSessionId(),
+      expiresAt: Math.floor(reservation.reservation!.expiresAt / 1000),
+    });
+    if (!result.success) {
+      await api.inventory.release({ reservationId });
+      throw new Error(result.error || 'Could not start payment');
+    }
+
+    try {
+      await api.orders.create({
+        sessionId: getSessionId(),
+        userId: user?.id,
+        cartSnapshot: cartStore.cart,
+        shippingAddress: address,
+        stripeSessionId: result.checkoutSession!.id,
+        subtotal: pricing.subtotal,
+        shippingCost: pricing.shippingCost,
+        tax: pricing.tax,
+        total: pricing.total,
+        priceBreakdown: pricing,
+        treeConfigSnapshot: store.treeConfig,
+        ornamentsSnapshot: store.ornaments,
+        topperSnapshot: store.topper,
+        garlandsSnapshot: store.garlands,
+        reservationId,
+        actor: user ? { type: 'customer', id: user.id, name: user.name } : undefined,
+      });
+    } catch (error) {
+      // e.g. the promo code ran out meanwhile
+      await api.stripe.expireCheckoutSession({ checkoutSessionId: result.checkoutSession!.id });
+      await api.inventory.release({ reservationId });
+      throw error;
+    }
+
+    setCheckoutSession(result.checkoutSession!);
+    setIsCheckoutOpen(false);
+  }, [cartStore, store, user]);
+
+  const handlePaymentComplete = useCallback(async (paidSession: StripeCheckoutSession) => {
+    // A tier upgrade: useAuth picks up the new tier from the webhook
+    if (paidSession.metadata.subscription_tier) {
+      setCheckoutSession(null);
+      return;
+    }
+
+    const order = await api.orders.getByStripeSession({ stripeSessionId: paidSession.id });
 
     // Clear cart and show confirmation
     await cartStore.clearCart();
+    setCheckoutSession(null);
     setCompletedOrder(order);
-    setIsCheckoutOpen(false);
     setIsOrderConfirmationOpen(true);
-  }, [cartStore, store]);
+  }, [cartStore]);
+
+  const handlePaymentCancel = useCallback(async (openSession: StripeCheckoutSession) => {
+    // Expiring the session cancels the pending order; the cart is kept
+    await api.stripe.expireCheckoutSession({ checkoutSessionId: openSession.id });
+    setCheckoutSession(null);
+    if (!openSession.metadata.subscription_tier) setIsCheckoutOpen(true);
+  }, []);
+
+  const handleDownloadGLB = useCallback(async () => {
+    if (!decoratedTreeRef.current) return;
+    await downloadTreeAsGLB(decoratedTreeRef.current);
+  }, []);
+
+  // Collaboration session handlers
+  const handleStartSession = useCallback(async () => {
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+    const result = await treeSession.createSession(store.treeConfig);
+    if (!result.success) return;
+    setRoomInURL(result.session!.id);
+    setRoomId(result.session!.id);
+  }, [user, navigate, treeSession.createSession, store.treeConfig]);
+
+  const handleJoinWithCode = useCallback(
+    (code: string) => {
+      navigate(`/join/${encodeURIComponent(code)}`);
+    },
+    [navigate]
+  );
+
+  const handleCreateInvite = useCallback(
+    async (role: SessionInvite['role'], expiresInMs: number) => {
+      const result = await treeSession.createInvite(role, expiresInMs);
+      if (!result.success) console.error('Failed to create invite:', result.error);
+    },
+    [treeSession.createInvite]
+  );
+
+  const handleRevokeInvite = useCallback(
+    async (code: string) => {
+      await treeSession.revokeInvite(code);
+    },
+    [treeSession.revokeInvite]
+  );
+
+  const handleLeaveSession = useCallback(() => {
+    setRoomInURL(null);
+    setRoomId(null);
+  }, []);
 
   const handleClearAll = useCallback(async () => {
     await store.clearOrnaments();
     await store.setTopper(null);
+    await store.clearGarlands();
   }, [store]);
 
   // Edit mode handlers
-  const handleOrnamentSelect = useCallback((id: string) => {
-    setSelectedOrnamentId(id);
+  const selectedOrnaments = useMemo(
+    () => store.ornaments.filter((o) => selectedOrnamentIds.includes(o.id)),
+    [store.ornaments, selectedOrnamentIds]
+  );
+
+  // Shift-click toggles an ornament in or out of the selection
+  const handleOrnamentSelect = useCallback((id: string, additive: boolean) => {
+    setSelectedOrnamentIds((ids) => {
+      if (!additive) return [id];
+      return ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id];
+    });
+  }, []);
+
+  const handleBoxSelect = useCallback((boxed: string[]) => {
+    setSelectedOrnamentIds((ids) => [...ids, ...boxed.filter((id) => !ids.includes(id))]);
   }, []);
 
   const handleOrnamentDeselect = useCallback(() => {
-    setSelectedOrnamentId(null);
+    setSelectedOrnamentIds([]);
   }, []);
 
-  const handleOrnamentUpdate = useCallback(
-    async (id: string, updates: Partial<OrnamentData>) => {
-      await store.updateOrnament(id, updates);
+  const handleSelectionTransform = useCallback(
+    async (changes: OrnamentChange[], options?: TreeMutationOptions) => {
+      await store.updateOrnaments(changes, options);
     },
     [store]
   );
 
-  const handleOrnamentDelete = useCallback(
-    async (id: string) => {
-      await store.removeOrnament(id);
-      setSelectedOrnamentId(null);
+  const handleRecolorSelection = useCallback(
+    async (color: string) => {
+      await store.updateOrnaments(selectedOrnamentIds.map((id) => ({ id, updates: { color } })));
+    },
+    [selectedOrnamentIds, store]
+  );
+
+  const handleDeleteSelection = useCallback(async () => {
+    await store.removeOrnaments(selectedOrnamentIds);
+    setSelectedOrnamentIds([]);
+  }, [selectedOrnamentIds, store]);
+
+  // Copy / paste (also across tabs, through the system clipboard)
+  const handleCopySelection = useCallback(async () => {
+    if (selectedOrnaments.length === 0) return;
+    await copyOrnamentsToClipboard(selectedOrnaments, store.treeConfig);
+  }, [selectedOrnaments, store.treeConfig]);
+
+  // The pasted ornaments become the selection, ready to be moved into place
+  const pasteOrnaments = useCallback(
+    async (clip: OrnamentClip) => {
+      const added = await store.addOrnaments(placeOrnamentClip(clip, store.treeConfig, store.ornaments));
+      if (added.length === 0) return;
+      setMode('edit');
+      setSelectedOrnamentIds(added.map((o) => o.id));
     },
     [store]
   );
 
+  const handlePaste = useCallback(async () => {
+    const clip = await readOrnamentClipFromClipboard();
+    if (clip) await pasteOrnaments(clip);
+  }, [pasteOrnaments]);
+
+  // Drop ornaments from the selection once undo/redo or another participant removes them
+  useEffect(() => {
+    const remaining = selectedOrnamentIds.filter((id) => store.ornaments.some((o) => o.id === id));
+    if (remaining.length !== selectedOrnamentIds.length) {
+      setSelectedOrnamentIds(remaining);
+    }
+  }, [selectedOrnamentIds, store.ornaments]);
+
+  // Selection shortcuts: Ctrl+C / Ctrl+V (Cmd on macOS), Delete, Escape
+  useEffect(() => {
+    const isTyping = (target: EventTarget | null) => {
+      const element = target as HTMLElement | null;
+      return !!element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.isContentEditable);
+    };
+
+    // The copy and paste events carry the clipboard without asking for permission
+    const handleCopy = (e: ClipboardEvent) => {
+      if (mode !== 'edit' || selectedOrnaments.length === 0 || isTyping(e.target) || !e.clipboardData) return;
+      e.preventDefault();
+      e.clipboardData.setData('text/plain', serializeOrnamentClip(selectedOrnaments, store.treeConfig));
+    };
+
+    const handlePasteEvent = (e: ClipboardEvent) => {
+      if (!canEdit || isTyping(e.target) || !e.clipboardData) return;
+      const clip = parseOrnamentClip(e.clipboardData.getData('text/plain'));
+      if (!clip) return;
+      e.preventDefault();
+      pasteOrnaments(clip);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (mode !== 'edit' || selectedOrnamentIds.length === 0 || isTyping(e.target)) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        handleDeleteSelection();
+      } else if (e.key === 'Escape') {
+        setSelectedOrnamentIds([]);
+      }
+    };
+
+    window.addEventListener('copy', handleCopy);
+    window.addEventListener('paste', handlePasteEvent);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('copy', handleCopy);
+      window.removeEventListener('paste', handlePasteEvent);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [mode, canEdit, selectedOrnaments, selectedOrnamentIds, store.treeConfig, pasteOrnaments, handleDeleteSelection]);
+
+  // Undo / redo keyboard shortcuts (Ctrl+Z / Ctrl+Shift+Z, Cmd on macOS)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+
+      // Leave native undo alone while typing in form fields
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        store.redo();
+      } else {
+        store.undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [store]);
+
+  // Viewers are kept in view mode
+  useEffect(() => {
+    if (!canEdit && mode !== 'view') {
+      setSelectedOrnamentIds([]);
+      setMode('view');
+    }
+  }, [canEdit, mode]);
+
   // Handle mode change - clear selection when leaving edit mode
   const handleModeChange = useCallback((newMode: EditorMode) => {
     if (newMode !== 'edit') {
-      setSelectedOrnamentId(null);
+      setSelectedOrnamentIds([]);
+    }
+    if (newMode !== 'garland') {
+      setDraftGarlandPoints([]);
     }
     setMode(newMode);
   }, []);
@@ -278,6 +773,8 @@ export default function App() {
         {/* Scene Environment (lights, snow, ground, etc.) */}
         <SceneEnvironment theme={currentTheme} />
 
+        {/* Decorated tree: everything inside is included in GLB export */}
+        <group ref={decoratedTreeRef} name="decorated-tree">
         {/* Tree */}
         <group position={[0, -2, 0]}>
           <PineTree
@@ -303,12 +800,9 @@ export default function App() {
               <EditableOrnament
                 key={orn.id}
                 data={orn}
-                isSelected={selectedOrnamentId === orn.id}
-                editMode={transformMode}
-                onSelect={() => handleOrnamentSelect(orn.id)}
+                isSelected={selectedOrnamentIds.includes(orn.id)}
+                onSelect={(additive) => handleOrnamentSelect(orn.id, additive)}
                 onDeselect={handleOrnamentDeselect}
-                onUpdate={(updates) => handleOrnamentUpdate(orn.id, updates)}
-                onDelete={() => handleOrnamentDelete(orn.id)}
               />
             ) : (
               <OrnamentMesh
@@ -318,17 +812,63 @@ export default function App() {
               />
             )
           )}
+        </group>
 
-          {/* Ghost Ornament Preview */}
-          {mode === 'decorate' && activePlacement && (
-            <GhostOrnament
-              type={selectedOrnamentType}
-              color={selectedColor}
-              position={activePlacement}
+        {/* Garlands */}
+        <group>
+          {store.garlands.map((garland) => (
+            <Garland
+              key={garland.id}
+              data={garland}
+              onClick={mode === 'view' ? (e) => handleRemoveGarland(garland.id, e) : undefined}
             />
-          )}
+          ))}
+        </group>
         </group>
 
+        {/* Selection: one gizmo for every selected ornament, shift-drag to box select */}
+        {mode === 'edit' && (
+          <>
+            <SelectionGizmo
+              ornaments={selectedOrnaments}
+              mode={transformMode}
+              onTransform={handleSelectionTransform}
+            />
+            <SelectionBox ornaments={store.ornaments} enabled={canEdit} onSelect={handleBoxSelect} />
+          </>
+        )}
+
+        {/* Garland being drawn */}
+        {mode === 'garland' && draftGarlandPoints.length > 0 && (
+          <group>
+            <Garland
+              data={{ type: garlandType, colors: garlandColors, pattern: lightPattern, points: draftGarlandPoints }}
+              isDraft
+            />
+            {draftGarlandPoints.map((point, i) => (
+              <mesh key={i} position={point}>
+                <sphereGeometry args={[0.06, 12, 12]} />
+                <meshBasicMaterial color="#ffffff" transparent opacity={0.7} />
+              </mesh>
+            ))}
+          </group>
+        )}
+
+        {/* Ghost Ornament Preview */}
+        {ghostPreview.positions.map((position, i) => (
+          <GhostOrnament
+            key={i}
+            type={selectedOrnamentType}
+            color={selectedColor}
+            position={position}
+            glow={i === 0 && !ghostPreview.blocked}
+            blocked={ghostPreview.blocked}
+          />
+        ))}
+
+        {/* Other participants' cursors */}
+        <RemoteCursors cursors={collab.cursors} />
+
         <OrbitControls
           makeDefault
           minPolarAngle={0.3}
@@ -353,7 +893,7 @@ export default function App() {
             treeConfig={store.treeConfig}
             onTreeConfigChange={store.updateTreeConfig}
             ornamentCount={store.ornaments.length}
-            maxOrnaments={store.currentUser?.quota.maxOrnaments ?? 100}
+            maxOrnaments={store.currentUser.quota.maxOrnaments}
             selectedTreeProduct={selectedTreeProduct}
             onSelectTreeProduct={handleSelectTreeProduct}
             hasTreeInCart={cartStore.hasTree}
@@ -387,6 +927,22 @@ export default function App() {
                           <p className="text-sm text-white font-medium truncate">{user.name || 'User'}</p>
                           <p className="text-xs text-gray-400 truncate">{user.email}</p>
                         </div>
+                        <Link
+                          to="/orders"
+                          className="w-full px-4 py-2.5 text-left text-sm text-gray-300 hover:bg-white/5 flex items-center gap-2"
+                        >
+                          <Package size={16} />
+                          My Orders
+                        </Link>
+                        {user.role === 'admin' && (
+                          <Link
+                            to="/admin"
+                            className="w-full px-4 py-2.5 text-left text-sm text-gray-300 hover:bg-white/5 flex items-center gap-2"
+                          >
+                            <Shield size={16} />
+                            Admin
+                          </Link>
+                        )}
                         <button
                           onClick={() => {
                             logout();
@@ -448,14 +1004,36 @@ export default function App() {
               <ShoppingCart size={20} />
               <span>Add to Cart</span>
             </button>
+            {cartError && (
+              <p className="max-w-[220px] text-right text-xs text-red-300 bg-black/40 backdrop-blur-md px-3 py-1.5 rounded-lg">
+                {cartError}
+              </p>
+            )}
 
             {/* Cart Button */}
             <CartIcon
               itemCount={cartStore.itemCount}
               subtotal={cartStore.subtotal}
+              currency={cartStore.cart?.currency ?? cartStore.currency}
               onClick={() => setIsCartOpen(true)}
             />
 
+            {/* Collaboration Panel */}
+            <CollabPanel
+              roomId={roomId}
+              peerId={collab.peerId}
+              status={collab.status}
+              participants={collab.participants}
+              role={treeSession.role}
+              sessionName={treeSession.session?.name}
+              invites={treeSession.invites}
+              onCreateInvite={handleCreateInvite}
+              onRevokeInvite={handleRevokeInvite}
+              onStartSession={handleStartSession}
+              onJoinWithCode={handleJoinWithCode}
+              onLeaveSession={handleLeaveSession}
+            />
+
             {/* Christmas Music Panel */}
             <ChristmasMusicPanel />
           </div>
@@ -465,6 +1043,7 @@ export default function App() {
         <SharePanel
           onCopyShareURL={store.copyShareURL}
           onDownloadJSON={store.downloadAsJSON}
+          onDownloadGLB={handleDownloadGLB}
           onImportFromCode={store.importFromCode}
           onImportFromData={store.importFromData}
           onSaveToStorage={store.saveToStorage}
@@ -487,17 +1066,40 @@ export default function App() {
           onColorChange={setSelectedColor}
           onClearAll={handleClearAll}
           ornamentCount={store.ornaments.length}
-          maxOrnaments={store.currentUser?.quota.maxOrnaments ?? 100}
+          maxOrnaments={store.currentUser.quota.maxOrnaments}
           topperSet={!!store.topper}
           transformMode={transformMode}
           onTransformModeChange={setTransformMode}
-          selectedOrnamentId={selectedOrnamentId}
-          onDeleteSelectedOrnament={() => selectedOrnamentId && handleOrnamentDelete(selectedOrnamentId)}
+          selectedCount={selectedOrnamentIds.length}
+          onDeleteSelection={handleDeleteSelection}
+          onRecolorSelection={handleRecolorSelection}
+          onCopySelection={handleCopySelection}
+          onPaste={handlePaste}
+          garlandType={garlandType}
+          onGarlandTypeChange={setGarlandType}
+          lightPattern={lightPattern}
+          onLightPatternChange={setLightPattern}
+          garlandColors={garlandColors}
+          onGarlandColorsChange={setGarlandColors}
+          draftPointCount={draftGarlandPoints.length}
+          onFinishGarland={handleFinishGarland}
+          onCancelGarland={handleCancelGarland}
+          onAutoSpiral={handleAutoSpiral}
+          garlands={store.garlands}
+          onGarlandPatternChange={handleGarlandPatternChange}
+          onRemoveGarland={(id) => handleRemoveGarland(id)}
+          themeColors={currentTheme.ornamentColors}
+          onAutoDecorate={handleAutoDecorate}
+          symmetry={symmetry}
+          onSymmetryChange={setSymmetry}
+          isReadOnly={!canEdit}
+          quota={store.currentUser.quota}
+          onUpgrade={handleUpgrade}
         />
       </div>
 
       {/* Welcome Overlay */}
-      {!welcomeDismissed && mode === 'view' && store.ornaments.length === 0 && !store.topper && (
+      {!welcomeDismissed && mode === 'view' && store.ornaments.length === 0 && !store.topper && store.garlands.length === 0 && (
         <div className="absolute inset-0 pointer-events-none flex items-center justify-center">
           <div className="pointer-events-auto bg-black/70 backdrop-blur-xl px-8 py-6 rounded-2xl border border-white/10 text-center max-w-md">
             <h2 className="text-xl font-semibold mb-3">Welcome to Tree Shop!</h2>
@@ -530,6 +1132,8 @@ export default function App() {
         onUpdateQuantity={cartStore.updateQuantity}
         onRemoveItem={cartStore.removeFromCart}
         onClearCart={cartStore.clearCart}
+        onApplyPromoCode={cartStore.applyPromoCode}
+        onRemovePromoCode={cartStore.removePromoCode}
         onCheckout={() => {
           setIsCartOpen(false);
           setIsCheckoutOpen(true);
@@ -546,6 +1150,13 @@ export default function App() {
         />
       )}
 
+      {/* Payment */}
+      <StripeCheckout
+        checkoutSession={checkoutSession}
+        onPaid={handlePaymentComplete}
+        onCancel={handlePaymentCancel}
+      />
+
       {/* Order Confirmation */}
       <OrderConfirmation
         isOpen={isOrderConfirmationOpen}
@@ -1,6 +1,6 @@
-import React from 'react';
-import { X, Minus, Plus, Trash2, ShoppingBag, ArrowRight } from 'lucide-react';
-import { Cart, CartItem, formatPrice } from '../types';
+import React, { useState } from 'react';
+import { X, Minus, Plus, Trash2, ShoppingBag, ArrowRight, Tag } from 'lucide-react';
+import { Cart, CartItem, CurrencyCode, formatPrice } from '../types';
 import { PriceTag, CartTotal } from './PriceTag';
 import {
   TREE_PRODUCTS,
@@ -9,7 +9,10 @@ import {
   getTreeProduct,
   getOrnamentProduct,
   getTopperProduct,
+  getGarlandProduct,
 } from '../data/products';
+import { getProductQuantities } from '../data/inventory';
+import { useStock } from '../hooks/useStock';
 
 interface CartDrawerProps {
   isOpen: boolean;
@@ -19,6 +22,8 @@ interface CartDrawerProps {
   onRemoveItem: (itemId: string) => void;
   onClearCart: () => void;
   onCheckout: () => void;
+  onApplyPromoCode: (code: string) => Promise<{ success: boolean; error?: string }>;
+  onRemovePromoCode: () => void;
 }
 
 const getProductName = (item: CartItem): string => {
@@ -29,6 +34,8 @@ const getProductName = (item: CartItem): string => {
       return getOrnamentProduct(item.productId)?.name || 'Ornament';
     case 'topper':
       return getTopperProduct(item.productId)?.name || 'Tree Topper';
+    case 'garland':
+      return getGarlandProduct(item.productId)?.name || 'Garland';
     default:
       return 'Item';
   }
@@ -48,6 +55,10 @@ const getProductDescription = (item: CartItem): string => {
       const color = item.customization?.color || '';
       return color ? `Color: ${color}` : '';
     }
+    case 'garland': {
+      const color = item.customization?.color || '';
+      return color ? `${item.quantity} m, color: ${color}` : `${item.quantity} m`;
+    }
     default:
       return '';
   }
@@ -55,11 +66,14 @@ const getProductDescription = (item: CartItem): string => {
 
 interface CartItemRowProps {
   item: CartItem;
+  currency: CurrencyCode;
   onUpdateQuantity: (quantity: number) => void;
   onRemove: () => void;
+  // False once the cart holds all available units of the product
+  canIncrease: boolean;
 }
 
-const CartItemRow: React.FC<CartItemRowProps> = ({ item, onUpdateQuantity, onRemove }) => {
+const CartItemRow: React.FC<CartItemRowProps> = ({ item, currency, onUpdateQuantity, onRemove, canIncrease }) => {
   const name = getProductName(item);
   const description = getProductDescription(item);
   const isTree = item.productType === 'tree';
@@ -81,7 +95,8 @@ const CartItemRow: React.FC<CartItemRowProps> = ({ item, onUpdateQuantity, onRem
       >
         {isTree && <span className="text-lg">🎄</span>}
         {isTopper && <span className="text-lg">⭐</span>}
-        {!isTree && !isTopper && <span className="text-lg">🎁</span>}
+        {item.productType === 'garland' && <span className="text-lg">✨</span>}
+        {item.productType === 'ornament' && <span className="text-lg">🎁</span>}
       </div>
 
       {/* Item details */}
@@ -93,7 +108,7 @@ const CartItemRow: React.FC<CartItemRowProps> = ({ item, onUpdateQuantity, onRem
               <p className="text-gray-400 text-xs mt-0.5">{description}</p>
             )}
           </div>
-          <PriceTag amount={item.unitPrice * item.quantity} size="sm" />
+          <PriceTag amount={item.unitPrice * item.quantity} currency={currency} size="sm" />
         </div>
 
         {/* Quantity controls - only for ornaments */}
@@ -109,13 +124,17 @@ const CartItemRow: React.FC<CartItemRowProps> = ({ item, onUpdateQuantity, onRem
               <span className="w-8 text-center text-sm">{item.quantity}</span>
               <button
                 onClick={() => onUpdateQuantity(item.quantity + 1)}
-                className="w-6 h-6 rounded bg-white/10 hover:bg-white/20 flex items-center justify-center transition-colors"
+                disabled={!canIncrease}
+                title={canIncrease ? undefined : 'No more in stock'}
+                className="w-6 h-6 rounded bg-white/10 hover:bg-white/20 disabled:opacity-30 disabled:hover:bg-white/10 flex items-center justify-center transition-colors"
               >
                 <Plus size={12} />
               </button>
             </div>
           ) : (
-            <span className="text-xs text-gray-500">Qty: {item.quantity}</span>
+            <span className="text-xs text-gray-500">
+              {item.productType === 'garland' ? `${item.quantity} m` : `Qty: ${item.quantity}`}
+            </span>
           )}
 
           <button
@@ -130,6 +149,71 @@ const CartItemRow: React.FC<CartItemRowProps> = ({ item, onUpdateQuantity, onRem
   );
 };
 
+interface PromoCodeFieldProps {
+  cart: Cart;
+  onApply: (code: string) => Promise<{ success: boolean; error?: string }>;
+  onRemove: () => void;
+}
+
+const PromoCodeField: React.FC<PromoCodeFieldProps> = ({ cart, onApply, onRemove }) => {
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    setIsApplying(true);
+    const result = await onApply(code);
+    setIsApplying(false);
+    if (result.success) {
+      setCode('');
+      setError(null);
+    } else {
+      setError(result.error || 'Invalid code');
+    }
+  };
+
+  if (cart.promoCode) {
+    return (
+      <div className="mb-3">
+        <div className="flex items-center gap-2 text-sm">
+          <Tag size={14} className="text-green-400" />
+          <span className="font-mono text-white">{cart.promoCode}</span>
+          <button
+            onClick={onRemove}
+            className="ml-auto text-xs text-gray-400 hover:text-red-400 transition-colors"
+          >
+            Remove
+          </button>
+        </div>
+        {cart.promoError && <p className="text-xs text-yellow-400 mt-1">{cart.promoError}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleApply} className="mb-3">
+      <div className="flex gap-2">
+        <input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="Promo code"
+          className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white font-mono uppercase placeholder-gray-500 placeholder:normal-case focus:outline-none focus:border-green-500/50"
+        />
+        <button
+          type="submit"
+          disabled={!code.trim() || isApplying}
+          className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm transition-colors"
+        >
+          Apply
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+    </form>
+  );
+};
+
 export const CartDrawer: React.FC<CartDrawerProps> = ({
   isOpen,
   onClose,
@@ -138,11 +222,15 @@ export const CartDrawer: React.FC<CartDrawerProps> = ({
   onRemoveItem,
   onClearCart,
   onCheckout,
+  onApplyPromoCode,
+  onRemovePromoCode,
 }) => {
   const items = cart?.items || [];
   const subtotal = cart?.subtotal || 0;
   const hasItems = items.length > 0;
   const hasTree = items.some((item) => item.productType === 'tree');
+  const { getAvailable } = useStock();
+  const quantities = getProductQuantities(items);
 
   return (
     <>
@@ -195,8 +283,10 @@ export const CartDrawer: React.FC<CartDrawerProps> = ({
                   <CartItemRow
                     key={item.id}
                     item={item}
+                    currency={cart!.currency}
                     onUpdateQuantity={(qty) => onUpdateQuantity(item.id, qty)}
                     onRemove={() => onRemoveItem(item.id)}
+                    canIncrease={(quantities.get(item.productId) ?? 0) < getAvailable(item.productId)}
                   />
                 ))}
               </div>
@@ -211,8 +301,11 @@ export const CartDrawer: React.FC<CartDrawerProps> = ({
                   Clear cart
                 </button>
 
-                {/* Totals */}
-                <CartTotal subtotal={subtotal} />
+                {/* Promo code */}
+                <PromoCodeField cart={cart!} onApply={onApplyPromoCode} onRemove={onRemovePromoCode} />
+
+                {/* Totals (bundle and promo discounts; shipping and VAT come at checkout) */}
+                <CartTotal subtotal={subtotal} currency={cart?.currency} discounts={cart?.discounts} />
 
                 {/* Checkout warning if no tree */}
                 {!hasTree && (
@@ -1,10 +1,11 @@
 import React from 'react';
 import { ShoppingCart } from 'lucide-react';
-import { formatPrice } from '../types';
+import { CurrencyCode, formatPrice } from '../types';
 
 interface CartIconProps {
   itemCount: number;
   subtotal: number;
+  currency: CurrencyCode;
   onClick: () => void;
   className?: string;
 }
@@ -12,6 +13,7 @@ interface CartIconProps {
 export const CartIcon: React.FC<CartIconProps> = ({
   itemCount,
   subtotal,
+  currency,
   onClick,
   className = '',
 }) => {
@@ -41,7 +43,7 @@ export const CartIcon: React.FC<CartIconProps> = ({
 
       {subtotal > 0 && (
         <span className="text-green-400 font-medium text-sm">
-          {formatPrice(subtotal)}
+          {formatPrice(subtotal, currency)}
         </span>
       )}
 
@@ -1,7 +1,9 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { X, CreditCard, Truck, ArrowLeft, Loader2 } from 'lucide-react';
 import { ShippingAddress, Cart, formatPrice } from '../types';
-import { CartTotal } from './PriceTag';
+import { PriceSummary } from './PriceTag';
+import { convertAmount } from '../data/currency';
+import { calculatePricing, getShippingZone, DEFAULT_COUNTRY, DESTINATIONS, PricingError } from '../data/pricing';
 
 interface CheckoutFormProps {
   isOpen: boolean;
@@ -34,12 +36,13 @@ export const CheckoutForm: React.FC<CheckoutFormProps> = ({
     city: 'Zürich',
     state: 'ZH',
     postalCode: '8001',
-    country: 'CH',
+    country: DEFAULT_COUNTRY,
   });
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
-    setFormData((prev) => ({ ...prev, [name]: value }));
+    // Cantons only apply to Switzerland
+    setFormData((prev) => ({ ...prev, [name]: value, ...(name === 'country' && { state: '' }) }));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -56,19 +59,27 @@ export const CheckoutForm: React.FC<CheckoutFormProps> = ({
     }
   };
 
+  // Shipping zone and VAT follow the destination (the postal code can change the zone)
+  const { country, postalCode } = formData;
+  const pricing = useMemo(() => {
+    try {
+      return calculatePricing(cart.items, { country, postalCode }, cart.discounts, cart.currency);
+    } catch (err) {
+      if (err instanceof PricingError) return null;
+      throw err;
+    }
+  }, [cart.items, cart.discounts, cart.currency, country, postalCode]);
+  const shippingZone = getShippingZone({ country, postalCode });
+  const isSwiss = country === 'CH';
+
   const isValid =
     formData.fullName.trim() &&
     formData.email.trim() &&
     formData.addressLine1.trim() &&
     formData.city.trim() &&
-    formData.state &&
-    formData.postalCode.trim();
-
-  // Calculate shipping based on cart subtotal
-  const shippingCost = cart.subtotal >= 50000 ? 0 : 1999; // Free shipping over CHF 500
-  const taxRate = 0.08; // 8% tax
-  const tax = Math.round(cart.subtotal * taxRate);
-  const total = cart.subtotal + shippingCost + tax;
+    (formData.state || !isSwiss) &&
+    formData.postalCode.trim() &&
+    pricing;
 
   if (!isOpen) return null;
 
@@ -202,23 +213,36 @@ export const CheckoutForm: React.FC<CheckoutFormProps> = ({
                     />
                   </div>
 
-                  <div>
-                    <label className="block text-xs text-gray-400 mb-1">Canton *</label>
-                    <select
-                      name="state"
-                      value={formData.state}
-                      onChange={handleChange}
-                      required
-                      className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-green-500/50"
-                    >
-                      <option value="">Select...</option>
-                      {SWISS_CANTONS.map((canton) => (
-                        <option key={canton} value={canton}>
-                          {canton}
-                        </option>
-                      ))}
-                    </select>
-                  </div>
+                  {isSwiss ? (
+                    <div>
+                      <label className="block text-xs text-gray-400 mb-1">Canton *</label>
+                      <select
+                        name="state"
+                        value={formData.state}
+                        onChange={handleChange}
+                        required
+                        className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-green-500/50"
+                      >
+                        <option value="">Select...</option>
+                        {SWISS_CANTONS.map((canton) => (
+                          <option key={canton} value={canton}>
+                            {canton}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ) : (
+                    <div>
+                      <label className="block text-xs text-gray-400 mb-1">Region</label>
+                      <input
+                        type="text"
+                        name="state"
+                        value={formData.state}
+                        onChange={handleChange}
+                        className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-green-500/50"
+                      />
+                    </div>
+                  )}
                 </div>
 
                 <div className="grid grid-cols-2 gap-3">
@@ -231,19 +255,25 @@ export const CheckoutForm: React.FC<CheckoutFormProps> = ({
                       onChange={handleChange}
                       placeholder="8001"
                       required
-                      pattern="[0-9]{4}"
+                      pattern={DESTINATIONS[country]?.postalCodePattern}
                       className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-green-500/50"
                     />
                   </div>
 
                   <div>
-                    <label className="block text-xs text-gray-400 mb-1">Country</label>
-                    <input
-                      type="text"
-                      value="United States"
-                      disabled
-                      className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-400"
-                    />
+                    <label className="block text-xs text-gray-400 mb-1">Country *</label>
+                    <select
+                      name="country"
+                      value={country}
+                      onChange={handleChange}
+                      className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-green-500/50"
+                    >
+                      {Object.values(DESTINATIONS).map((destination) => (
+                        <option key={destination.code} value={destination.code}>
+                          {destination.name}
+                        </option>
+                      ))}
+                    </select>
                   </div>
                 </div>
               </div>
@@ -253,15 +283,15 @@ export const CheckoutForm: React.FC<CheckoutFormProps> = ({
             <div className="space-y-3 pt-2">
               <h3 className="text-sm font-medium text-gray-300">Order Summary</h3>
               <div className="bg-white/5 rounded-lg p-3">
-                <CartTotal
-                  subtotal={cart.subtotal}
-                  shipping={shippingCost}
-                  tax={tax}
-                  total={total}
-                />
-                {shippingCost === 0 && (
+                {pricing ? (
+                  <PriceSummary breakdown={pricing} />
+                ) : (
+                  <p className="text-xs text-red-400 text-center">We don't ship to this destination yet</p>
+                )}
+                {pricing?.freeShipping && shippingZone?.freeShippingThreshold !== undefined && (
                   <p className="text-xs text-green-400 mt-2 text-center">
-                    Free shipping on orders over CHF 500
+                    Free shipping on orders over{' '}
+                    {formatPrice(convertAmount(shippingZone.freeShippingThreshold, cart.currency), cart.currency)}
                   </p>
                 )}
               </div>
@@ -294,7 +324,7 @@ export const CheckoutForm: React.FC<CheckoutFormProps> = ({
               ) : (
                 <>
                   <CreditCard size={18} />
-                  Pay {formatPrice(total)}
+                  Pay {formatPrice(pricing?.total ?? 0, cart.currency)}
                 </>
               )}
             </button>
@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { Users, Copy, Check, LogOut, Plus, Eye, Pencil, Crown, X } from 'lucide-react';
+import { SessionInvite, SessionParticipant, SessionRole } from '../types';
+import { CollabTransportStatus, getParticipantColor, getInviteURL } from '../data/collabSync';
+
+interface CollabPanelProps {
+  roomId: string | null;
+  peerId: string;
+  status: CollabTransportStatus;
+  participants: SessionParticipant[];
+  role: SessionRole | null;
+  sessionName?: string;
+  // Owner only: active invite codes
+  invites: SessionInvite[];
+  onCreateInvite: (role: SessionInvite['role'], expiresInMs: number) => Promise<void>;
+  onRevokeInvite: (code: string) => Promise<void>;
+  onStartSession: () => void;
+  onJoinWithCode: (code: string) => void;
+  onLeaveSession: () => void;
+}
+
+const STATUS_LABELS: Record<CollabTransportStatus, { label: string; className: string }> = {
+  connecting: { label: 'Connecting', className: 'bg-yellow-600/30 text-yellow-300' },
+  connected: { label: 'Live', className: 'bg-green-600/30 text-green-300' },
+  disconnected: { label: 'Offline', className: 'bg-red-600/30 text-red-300' },
+};
+
+const ROLE_BADGES: Record<SessionRole, { label: string; icon: React.ReactNode; className: string }> = {
+  owner: { label: 'Owner', icon: <Crown size={10} />, className: 'bg-yellow-600/30 text-yellow-300' },
+  editor: { label: 'Editor', icon: <Pencil size={10} />, className: 'bg-green-600/30 text-green-300' },
+  viewer: { label: 'Viewer', icon: <Eye size={10} />, className: 'bg-blue-600/30 text-blue-300' },
+};
+
+const INVITE_EXPIRY_OPTIONS = [
+  { label: '1 hour', value: 60 * 60 * 1000 },
+  { label: '1 day', value: 24 * 60 * 60 * 1000 },
+  { label: '7 days', value: 7 * 24 * 60 * 60 * 1000 },
+];
+
+const RoleBadge: React.FC<{ role: SessionRole }> = ({ role }) => {
+  const badge = ROLE_BADGES[role];
+  return (
+    <span className={`inline-flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded ${badge.className}`}>
+      {badge.icon}
+      {badge.label}
+    </span>
+  );
+};
+
+export const CollabPanel: React.FC<CollabPanelProps> = ({
+  roomId,
+  peerId,
+  status,
+  participants,
+  role,
+  sessionName,
+  invites,
+  onCreateInvite,
+  onRevokeInvite,
+  onStartSession,
+  onJoinWithCode,
+  onLeaveSession,
+}) => {
+  const [joinCode, setJoinCode] = useState('');
+  const [inviteRole, setInviteRole] = useState<SessionInvite['role']>('editor');
+  const [inviteExpiry, setInviteExpiry] = useState(INVITE_EXPIRY_OPTIONS[1].value);
+  const [copiedCode, setCopiedCode] = useState<string | null>(null);
+
+  const handleCopyInvite = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(getInviteURL(code));
+      setCopiedCode(code);
+      setTimeout(() => setCopiedCode(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy invite link:', error);
+    }
+  };
+
+  const handleJoin = () => {
+    const code = joinCode.trim().toUpperCase();
+    if (!code) return;
+    onJoinWithCode(code);
+    setJoinCode('');
+  };
+
+  const statusStyle = STATUS_LABELS[status];
+
+  return (
+    <div className="bg-black/50 backdrop-blur-md p-4 rounded-xl border border-white/10 w-72">
+      <div className="flex items-center gap-2 mb-3">
+        <Users size={18} className="text-blue-400" />
+        <h2 className="text-sm font-bold text-white">Decorate Together</h2>
+        {roomId && (
+          <span className={`text-[10px] px-1.5 py-0.5 rounded ml-auto ${statusStyle.className}`}>
+            {statusStyle.label}
+          </span>
+        )}
+      </div>
+
+      {roomId ? (
+        <div className="space-y-3">
+          {/* Session & own role */}
+          <div className="flex items-center gap-2">
+            <div className="flex-1 text-xs text-white truncate">{sessionName || 'Shared tree'}</div>
+            {role && <RoleBadge role={role} />}
+          </div>
+
+          {/* Invites (owner only) */}
+          {role === 'owner' && (
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as SessionInvite['role'])}
+                  className="flex-1 min-w-0 bg-black/50 border border-white/10 rounded-lg px-2 py-1.5 text-white text-xs"
+                >
+                  <option value="editor">Can edit</option>
+                  <option value="viewer">Can view</option>
+                </select>
+                <select
+                  value={inviteExpiry}
+                  onChange={(e) => setInviteExpiry(Number(e.target.value))}
+                  className="flex-1 min-w-0 bg-black/50 border border-white/10 rounded-lg px-2 py-1.5 text-white text-xs"
+                >
+                  {INVITE_EXPIRY_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => onCreateInvite(inviteRole, inviteExpiry)}
+                  className="px-2 py-1.5 rounded-lg bg-blue-600/20 text-blue-300 hover:bg-blue-600/30 transition-colors"
+                  title="Create invite"
+                >
+                  <Plus size={14} />
+                </button>
+              </div>
+
+              {invites.map((invite) => (
+                <div key={invite.code} className="flex items-center gap-2 text-xs">
+                  <span className="font-mono text-white">{invite.code}</span>
+                  <RoleBadge role={invite.role} />
+                  <span
+                    className="text-gray-500 truncate"
+                    title={`Expires ${new Date(invite.expiresAt).toLocaleString()}`}
+                  >
+                    {invite.uses} joined
+                  </span>
+                  <button
+                    onClick={() => handleCopyInvite(invite.code)}
+                    className="ml-auto text-blue-300 hover:text-blue-200 transition-colors"
+                    title="Copy invite link"
+                  >
+                    {copiedCode === invite.code ? <Check size={14} /> : <Copy size={14} />}
+                  </button>
+                  <button
+                    onClick={() => onRevokeInvite(invite.code)}
+                    className="text-gray-500 hover:text-red-400 transition-colors"
+                    title="Revoke invite"
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Participants */}
+          <div className="space-y-1">
+            {participants.map((participant) => (
+              <div key={participant.userId} className="flex items-center gap-2 text-xs text-gray-300">
+                <span
+                  className="w-2 h-2 rounded-full"
+                  style={{ backgroundColor: getParticipantColor(participant.userId) }}
+                />
+                <span className="truncate">{participant.userName}</span>
+                {participant.userId === peerId && <span className="text-gray-500">(you)</span>}
+                {participant.role === 'viewer' && <Eye size={12} className="ml-auto text-gray-500" />}
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={onLeaveSession}
+            className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-gray-300 transition-colors text-xs"
+          >
+            <LogOut size={14} />
+            Leave session
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <button
+            onClick={onStartSession}
+            className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-blue-600/20 text-blue-300 hover:bg-blue-600/30 transition-colors text-xs"
+          >
+            <Plus size={14} />
+            Start live session
+          </button>
+          <div className="flex gap-2">
+            <input
+              value={joinCode}
+              onChange={(e) => setJoinCode(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleJoin()}
+              placeholder="Invite code"
+              className="flex-1 min-w-0 bg-black/50 border border-white/10 rounded-lg px-3 py-1.5 text-white text-xs font-mono uppercase"
+            />
+            <button
+              onClick={handleJoin}
+              disabled={!joinCode.trim()}
+              className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed text-white text-xs transition-colors"
+            >
+              Join
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
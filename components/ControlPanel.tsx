@@ -1,7 +1,11 @@
 import React, { useState } from 'react';
 import { SCENE_THEMES, SceneTheme, ThemeId } from '../data/themes';
-import { TreeConfig, TreeProduct, formatPrice } from '../types';
+import { CurrencyCode, TreeConfig, TreeProduct, formatPrice } from '../types';
 import { TREE_PRODUCTS } from '../data/products';
+import { CURRENCIES } from '../data/currency';
+import { getStockLabel } from '../data/inventory';
+import { useCurrency } from '../hooks/useCurrency';
+import { useStock } from '../hooks/useStock';
 import { useAction, api } from '../lib/convex';
 import {
   Palette,
@@ -46,6 +50,9 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
   const [isGenerating, setIsGenerating] = useState(false);
   const [aiError, setAiError] = useState<string | null>(null);
 
+  const { getAvailable } = useStock();
+  const { currency, setCurrency, price } = useCurrency();
+
   // Use the Convex-style action hook for AI theme generation
   const generateTheme = useAction(api.ai.generateTheme);
 
@@ -158,14 +165,30 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
           {/* Shop Tab - Tree Selection */}
           {activeTab === 'shop' && (
             <div className="p-3 space-y-3">
-              <div className="text-[10px] text-gray-500 uppercase tracking-wide">
-                Select Your Tree
+              <div className="flex items-center justify-between">
+                <div className="text-[10px] text-gray-500 uppercase tracking-wide">
+                  Select Your Tree
+                </div>
+                <select
+                  value={currency}
+                  onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+                  aria-label="Currency"
+                  className="bg-white/5 border border-white/10 rounded-md px-1.5 py-0.5 text-[10px] text-gray-300 focus:outline-none focus:ring-1 focus:ring-green-400"
+                >
+                  {Object.values(CURRENCIES).map((c) => (
+                    <option key={c.code} value={c.code} className="bg-gray-900">
+                      {c.code.toUpperCase()}
+                    </option>
+                  ))}
+                </select>
               </div>
 
               <div className="space-y-2">
                 {TREE_PRODUCTS.map((tree) => {
                   const isSelected = selectedTreeProduct?.id === tree.id;
                   const isInCart = hasTreeInCart && isSelected;
+                  const available = getAvailable(tree.id);
+                  const stockLabel = getStockLabel(available);
 
                   return (
                     <button
@@ -191,13 +214,23 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                         </div>
                         <div className="text-right">
                           <div className="text-green-400 font-semibold text-sm">
-                            {formatPrice(tree.price.amount)}
+                            {formatPrice(price(tree.price.amount), currency)}
                           </div>
-                          {isInCart && (
+                          {isInCart ? (
                             <div className="flex items-center gap-1 text-[10px] text-green-400">
                               <Check size={10} />
                               In cart
                             </div>
+                          ) : (
+                            stockLabel && (
+                              <div
+                                className={`text-[10px] ${
+                                  available <= 0 ? 'text-red-400' : 'text-amber-400'
+                                }`}
+                              >
+                                {stockLabel}
+                              </div>
+                            )
                           )}
                         </div>
                       </div>
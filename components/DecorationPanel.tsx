@@ -5,9 +5,16 @@ import {
   OrnamentType,
   OrnamentCategory,
   ORNAMENT_CATEGORIES,
+  ORNAMENT_TYPES,
   TopperType,
   EditorMode,
   TransformMode,
+  SymmetrySettings,
+  SubscriptionTier,
+  UserQuota,
+  GarlandData,
+  GarlandType,
+  LightPattern,
   formatPrice,
 } from '../types';
 import { OrnamentPreview } from './Ornaments';
@@ -17,7 +24,26 @@ import {
   TOPPER_PRODUCTS,
   getOrnamentProductByType,
   getTopperProductByType,
+  GARLAND_PRODUCTS,
+  getGarlandProductByType,
 } from '../data/products';
+import { LIGHT_PATTERNS, getGarlandMeters } from '../data/garlands';
+import {
+  AUTO_DECORATE_STYLES,
+  AutoDecorateOptions,
+  AutoDecorateStyle,
+  MAX_AUTO_DECORATE_COUNT,
+} from '../data/autoDecorate';
+import { COLOR_PALETTES, ColorPalette } from '../data/themes';
+import { DEFAULT_SYMMETRY, MAX_SYMMETRY, MIN_SYMMETRY, getSymmetryCopyCount } from '../data/symmetry';
+import { useCurrency } from '../hooks/useCurrency';
+import {
+  QuotaCheck,
+  TIER_LABELS,
+  checkOrnamentQuota,
+  checkTopperQuota,
+  isSpecialOrnament,
+} from '../data/quotas';
 import {
   Sparkles,
   TreeDeciduous,
@@ -32,26 +58,22 @@ import {
   ChevronUp,
   Move,
   RotateCw,
+  Scale3D,
+  Copy,
+  ClipboardPaste,
   MousePointer2,
   Bell,
   Circle,
+  Eye,
+  Lock,
+  Lightbulb,
+  WandSparkles,
+  Orbit,
+  FlipHorizontal2,
+  Check,
+  X,
 } from 'lucide-react';
 
-// ============================================
-// COLOR PALETTES
-// ============================================
-
-export const COLOR_PALETTES = {
-  classic: ['#ff0000', '#ffd700', '#008000', '#c0c0c0', '#ffffff'],
-  winter: ['#87ceeb', '#b0e0e6', '#ffffff', '#add8e6', '#e0ffff'],
-  candy: ['#ff69b4', '#ff1493', '#ffffff', '#ff6b6b', '#ffd93d'],
-  royal: ['#4b0082', '#ffd700', '#800020', '#c0c0c0', '#1a1a2e'],
-  natural: ['#8b4513', '#228b22', '#daa520', '#f5deb3', '#2e8b57'],
-  modern: ['#000000', '#ffffff', '#ff0000', '#ffd700', '#c0c0c0'],
-};
-
-export type ColorPalette = keyof typeof COLOR_PALETTES;
-
 // ============================================
 // ORNAMENT ICONS
 // ============================================
@@ -144,6 +166,34 @@ interface QuotaDisplayProps {
   label: string;
 }
 
+interface UpgradePromptProps {
+  check: QuotaCheck;
+  onUpgrade?: (tier: SubscriptionTier) => void;
+}
+
+/**
+ * Explains why the current selection can't be placed and offers the tier that allows it
+ */
+const UpgradePrompt: React.FC<UpgradePromptProps> = ({ check, onUpgrade }) => (
+  <div className="p-2 rounded-lg bg-yellow-500/10 border border-yellow-500/30 text-[11px] text-yellow-200 space-y-1.5">
+    <div className="flex items-start gap-1.5">
+      <Lock size={12} className="mt-0.5 shrink-0" />
+      <span>
+        {check.error}
+        {check.requiredTier && ` — available on ${TIER_LABELS[check.requiredTier]}`}
+      </span>
+    </div>
+    {check.requiredTier && onUpgrade && (
+      <button
+        onClick={() => onUpgrade(check.requiredTier!)}
+        className="w-full py-1 rounded bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-100 font-medium transition-colors"
+      >
+        Upgrade to {TIER_LABELS[check.requiredTier]}
+      </button>
+    )}
+  </div>
+);
+
 const QuotaDisplay: React.FC<QuotaDisplayProps> = ({ used, max, label }) => {
   const percentage = max === Infinity ? 0 : (used / max) * 100;
   const isNearLimit = percentage > 80;
@@ -171,6 +221,238 @@ const QuotaDisplay: React.FC<QuotaDisplayProps> = ({ used, max, label }) => {
   );
 };
 
+// ============================================
+// GARLAND LIST
+// ============================================
+
+interface GarlandListProps {
+  garlands: GarlandData[];
+  onPatternChange?: (id: string, pattern: LightPattern) => void;
+  onRemove?: (id: string) => void;
+}
+
+/**
+ * Garlands on the tree with their length and price; lights can switch pattern
+ */
+const GarlandList: React.FC<GarlandListProps> = ({ garlands, onPatternChange, onRemove }) => {
+  const { currency, price } = useCurrency();
+
+  if (garlands.length === 0) {
+    return (
+      <div className="p-3 rounded-lg bg-white/5 text-center text-gray-400 text-xs">
+        No garlands yet
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1.5 max-h-40 overflow-y-auto">
+      {garlands.map((garland) => {
+        const product = getGarlandProductByType(garland.type);
+        const meters = getGarlandMeters(garland.points);
+        return (
+          <div key={garland.id} className="p-2 rounded-lg bg-white/5 space-y-1">
+            <div className="flex items-center gap-1.5">
+              <div className="flex -space-x-1">
+                {garland.colors.map((color) => (
+                  <span
+                    key={color}
+                    className="w-3 h-3 rounded-full border border-black/40"
+                    style={{ backgroundColor: color }}
+                  />
+                ))}
+              </div>
+              <span className="text-xs text-white truncate flex-1">{product?.name ?? garland.type}</span>
+              {onRemove && (
+                <button
+                  onClick={() => onRemove(garland.id)}
+                  className="text-red-400 hover:text-red-300"
+                  title="Remove garland"
+                >
+                  <Trash2 size={12} />
+                </button>
+              )}
+            </div>
+            <div className="flex items-center justify-between gap-2 text-[10px] text-gray-400">
+              <span>
+                {meters} m
+                {product && ` · ${formatPrice(price(product.price.amount) * meters, currency)}`}
+              </span>
+              {garland.type === 'lights' && onPatternChange && (
+                <select
+                  value={garland.pattern}
+                  onChange={(e) => onPatternChange(garland.id, e.target.value as LightPattern)}
+                  className="bg-white/10 border border-white/10 rounded px-1 py-0.5 text-gray-300"
+                >
+                  {LIGHT_PATTERNS.map((pattern) => (
+                    <option key={pattern.id} value={pattern.id}>
+                      {pattern.label}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+// ============================================
+// AUTO-DECORATE
+// ============================================
+
+// Where auto-decorate takes its colors from: the scene theme or a palette
+type PaletteSource = 'theme' | ColorPalette;
+
+interface AutoDecoratePanelProps {
+  themeColors: string[];
+  // Room left under the ornament limit
+  remaining: number;
+  quota?: UserQuota;
+  initialType: OrnamentType;
+  onAutoDecorate: (options: Omit<AutoDecorateOptions, 'seed'>) => void;
+}
+
+/**
+ * Fills the tree in one go: how many, which ornaments, which colors, what layout
+ */
+const AutoDecoratePanel: React.FC<AutoDecoratePanelProps> = ({
+  themeColors,
+  remaining,
+  quota,
+  initialType,
+  onAutoDecorate,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [style, setStyle] = useState<AutoDecorateStyle>('even');
+  const [count, setCount] = useState(40);
+  const [types, setTypes] = useState<OrnamentType[]>([initialType]);
+  const [paletteSource, setPaletteSource] = useState<PaletteSource>('theme');
+
+  const colors = paletteSource === 'theme' ? themeColors : COLOR_PALETTES[paletteSource];
+  const maxCount = Math.min(remaining, MAX_AUTO_DECORATE_COUNT);
+  const isLocked = (type: OrnamentType) =>
+    !!quota && !quota.canUseSpecialOrnaments && isSpecialOrnament(type);
+
+  // Keep at least one type selected
+  const toggleType = (type: OrnamentType) => {
+    if (!types.includes(type)) {
+      setTypes([...types, type]);
+    } else if (types.length > 1) {
+      setTypes(types.filter((t) => t !== type));
+    }
+  };
+
+  return (
+    <div className="rounded-lg bg-white/5 overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-3 py-2 flex items-center justify-between hover:bg-white/5 transition-colors"
+      >
+        <div className="flex items-center gap-2">
+          <WandSparkles size={16} />
+          <span className="text-sm font-medium">Auto-decorate</span>
+        </div>
+        {isOpen ? (
+          <ChevronUp size={16} className="text-gray-400" />
+        ) : (
+          <ChevronDown size={16} className="text-gray-400" />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-2">
+          <div className="flex gap-1">
+            {AUTO_DECORATE_STYLES.map((option) => (
+              <button
+                key={option.id}
+                onClick={() => setStyle(option.id)}
+                className={`flex-1 px-2 py-1.5 rounded-lg text-xs transition-all ${
+                  style === option.id
+                    ? 'bg-green-600/30 ring-1 ring-green-400 text-green-200'
+                    : 'bg-white/5 hover:bg-white/10 text-gray-300'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-6 gap-1">
+            {ORNAMENT_TYPES.map((type) => (
+              <button
+                key={type}
+                onClick={() => toggleType(type)}
+                disabled={isLocked(type)}
+                className={`p-1.5 rounded flex items-center justify-center transition-all disabled:opacity-30 disabled:cursor-not-allowed ${
+                  types.includes(type) ? 'bg-green-600/30 ring-1 ring-green-400' : 'bg-white/5 hover:bg-white/10'
+                }`}
+                style={{ color: colors[0] }}
+                title={type.replace(/([A-Z])/g, ' $1').trim()}
+              >
+                <OrnamentIcon type={type} className="w-4 h-4" />
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <select
+              value={paletteSource}
+              onChange={(e) => setPaletteSource(e.target.value as PaletteSource)}
+              className="text-xs bg-white/10 border border-white/10 rounded px-2 py-1 text-gray-300"
+            >
+              <option value="theme">Theme colors</option>
+              {Object.keys(COLOR_PALETTES).map((palette) => (
+                <option key={palette} value={palette}>
+                  {palette.charAt(0).toUpperCase() + palette.slice(1)}
+                </option>
+              ))}
+            </select>
+            <div className="flex -space-x-1">
+              {colors.map((color) => (
+                <span
+                  key={color}
+                  className="w-3 h-3 rounded-full border border-black/40"
+                  style={{ backgroundColor: color }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="range"
+              min={1}
+              max={Math.max(1, maxCount)}
+              value={Math.min(count, Math.max(1, maxCount))}
+              onChange={(e) => setCount(Number(e.target.value))}
+              disabled={maxCount === 0}
+              className="flex-1 accent-green-500"
+            />
+            <button
+              onClick={() =>
+                onAutoDecorate({
+                  style,
+                  count: Math.min(count, maxCount),
+                  types: types.filter((t) => !isLocked(t)),
+                  colors,
+                })
+              }
+              disabled={maxCount === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-green-600/30 text-green-300 hover:bg-green-600/40 disabled:opacity-30 disabled:cursor-not-allowed text-xs transition-colors"
+            >
+              <WandSparkles size={12} />
+              Add {Math.min(count, maxCount)}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
 // ============================================
 // MAIN DECORATION PANEL
 // ============================================
@@ -191,8 +473,37 @@ interface DecorationPanelProps {
   // Edit mode props
   transformMode?: TransformMode;
   onTransformModeChange?: (mode: TransformMode) => void;
-  selectedOrnamentId?: string | null;
-  onDeleteSelectedOrnament?: () => void;
+  selectedCount?: number;
+  onDeleteSelection?: () => void;
+  onRecolorSelection?: (color: string) => void;
+  onCopySelection?: () => void;
+  onPaste?: () => void;
+  // Garland mode props
+  garlandType?: GarlandType;
+  onGarlandTypeChange?: (type: GarlandType) => void;
+  lightPattern?: LightPattern;
+  onLightPatternChange?: (pattern: LightPattern) => void;
+  garlandColors?: string[];
+  onGarlandColorsChange?: (colors: string[]) => void;
+  // Points clicked so far for the strand being drawn
+  draftPointCount?: number;
+  onFinishGarland?: () => void;
+  onCancelGarland?: () => void;
+  onAutoSpiral?: () => void;
+  garlands?: GarlandData[];
+  onGarlandPatternChange?: (id: string, pattern: LightPattern) => void;
+  onRemoveGarland?: (id: string) => void;
+  // Auto-decorate (decorate mode); colors default to the scene theme's
+  themeColors?: string[];
+  onAutoDecorate?: (options: Omit<AutoDecorateOptions, 'seed'>) => void;
+  // Symmetric placement (decorate mode)
+  symmetry?: SymmetrySettings;
+  onSymmetryChange?: (symmetry: SymmetrySettings) => void;
+  // Viewers in a shared session can only look
+  isReadOnly?: boolean;
+  // Subscription limits; blocked selections show an upgrade prompt
+  quota?: UserQuota;
+  onUpgrade?: (tier: SubscriptionTier) => void;
 }
 
 export const DecorationPanel: React.FC<DecorationPanelProps> = ({
@@ -210,16 +521,74 @@ export const DecorationPanel: React.FC<DecorationPanelProps> = ({
   topperSet,
   transformMode = 'translate',
   onTransformModeChange,
-  selectedOrnamentId,
-  onDeleteSelectedOrnament,
+  selectedCount = 0,
+  onDeleteSelection,
+  onRecolorSelection,
+  onCopySelection,
+  onPaste,
+  garlandType = 'lights',
+  onGarlandTypeChange,
+  lightPattern = 'steady',
+  onLightPatternChange,
+  garlandColors = [],
+  onGarlandColorsChange,
+  draftPointCount = 0,
+  onFinishGarland,
+  onCancelGarland,
+  onAutoSpiral,
+  garlands = [],
+  onGarlandPatternChange,
+  onRemoveGarland,
+  themeColors = [],
+  onAutoDecorate,
+  symmetry = DEFAULT_SYMMETRY,
+  onSymmetryChange,
+  isReadOnly = false,
+  quota,
+  onUpgrade,
 }) => {
   const [expandedCategory, setExpandedCategory] = useState<OrnamentCategory | null>('classic');
+  const { currency, price } = useCurrency();
   const [activePalette, setActivePalette] = useState<ColorPalette>('classic');
   const [showPreview, setShowPreview] = useState(true);
   const [isCollapsed, setIsCollapsed] = useState(false);
 
   const TOPPER_TYPES: TopperType[] = ['star', 'snowflake'];
 
+  // Garland strands cycle through several colors; keep at least one
+  const isColorSelected = (color: string) =>
+    mode === 'garland' ? garlandColors.includes(color) : selectedColor === color;
+  const handleColorPick = (color: string) => {
+    if (mode !== 'garland') {
+      onColorChange(color);
+    } else if (!garlandColors.includes(color)) {
+      onGarlandColorsChange?.([...garlandColors, color]);
+    } else if (garlandColors.length > 1) {
+      onGarlandColorsChange?.(garlandColors.filter((c) => c !== color));
+    }
+  };
+  // The color picker fires while dragging, so for garlands it edits the last color
+  const handleCustomColor = (color: string) => {
+    if (mode === 'garland') {
+      onGarlandColorsChange?.([...garlandColors.slice(0, -1), color]);
+    } else {
+      onColorChange(color);
+    }
+  };
+
+  // What the quota says about placing the current selection (every symmetric copy counts)
+  const quotaCheck: QuotaCheck | null = !quota
+    ? null
+    : mode === 'decorate'
+      ? checkOrnamentQuota(
+          quota,
+          { type: selectedOrnamentType, color: selectedColor },
+          getSymmetryCopyCount(symmetry)
+        )
+      : mode === 'topper'
+        ? checkTopperQuota(quota, { color: selectedColor }, topperSet)
+        : null;
+
   return (
     <div className="absolute bottom-0 left-0 right-0 pointer-events-none p-4">
       <div className="pointer-events-auto max-w-4xl mx-auto">
@@ -259,7 +628,9 @@ export const DecorationPanel: React.FC<DecorationPanelProps> = ({
             </button>
             <button
               onClick={() => onModeChange('decorate')}
-              className={`flex-1 px-4 py-3 text-sm font-medium transition-all flex items-center justify-center gap-2 ${
+              disabled={isReadOnly}
+              title={isReadOnly ? 'Viewers cannot change the tree' : undefined}
+              className={`flex-1 px-4 py-3 text-sm font-medium transition-all flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:text-gray-400 ${
                 mode === 'decorate'
                   ? 'bg-green-600/30 text-green-300 border-b-2 border-green-400'
                   : 'text-gray-400 hover:text-white hover:bg-white/5'
@@ -270,7 +641,9 @@ export const DecorationPanel: React.FC<DecorationPanelProps> = ({
             </button>
             <button
               onClick={() => onModeChange('edit')}
-              className={`flex-1 px-4 py-3 text-sm font-medium transition-all flex items-center justify-center gap-2 ${
+              disabled={isReadOnly}
+              title={isReadOnly ? 'Viewers cannot change the tree' : undefined}
+              className={`flex-1 px-4 py-3 text-sm font-medium transition-all flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:text-gray-400 ${
                 mode === 'edit'
                   ? 'bg-blue-600/30 text-blue-300 border-b-2 border-blue-400'
                   : 'text-gray-400 hover:text-white hover:bg-white/5'
@@ -281,7 +654,9 @@ export const DecorationPanel: React.FC<DecorationPanelProps> = ({
             </button>
             <button
               onClick={() => onModeChange('topper')}
-              className={`flex-1 px-4 py-3 text-sm font-medium transition-all flex items-center justify-center gap-2 ${
+              disabled={isReadOnly}
+              title={isReadOnly ? 'Viewers cannot change the tree' : undefined}
+              className={`flex-1 px-4 py-3 text-sm font-medium transition-all flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:text-gray-400 ${
                 mode === 'topper'
                   ? 'bg-yellow-600/30 text-yellow-300 border-b-2 border-yellow-400'
                   : 'text-gray-400 hover:text-white hover:bg-white/5'
@@ -290,6 +665,19 @@ export const DecorationPanel: React.FC<DecorationPanelProps> = ({
               <Crown size={16} />
               Topper {topperSet && '✓'}
             </button>
+            <button
+              onClick={() => onModeChange('garland')}
+              disabled={isReadOnly}
+              title={isReadOnly ? 'Viewers cannot change the tree' : undefined}
+              className={`flex-1 px-4 py-3 text-sm font-medium transition-all flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:text-gray-400 ${
+                mode === 'garland'
+                  ? 'bg-amber-600/30 text-amber-300 border-b-2 border-amber-400'
+                  : 'text-gray-400 hover:text-white hover:bg-white/5'
+              }`}
+            >
+              <Lightbulb size={16} />
+              Lights
+            </button>
           </div>
 
           {/* Content Area */}
@@ -331,26 +719,31 @@ export const DecorationPanel: React.FC<DecorationPanelProps> = ({
                                 {ORNAMENT_CATEGORIES[category].map((type) => {
                                   const isSelected = selectedOrnamentType === type;
                                   const product = getOrnamentProductByType(type);
+                                  const isLocked =
+                                    !!quota && !quota.canUseSpecialOrnaments && isSpecialOrnament(type);
 
                                   return (
                                     <button
                                       key={type}
                                       onClick={() => onOrnamentTypeChange(type as OrnamentType)}
-                                      className={`p-2 rounded-lg transition-all flex flex-col items-center gap-1 ${
+                                      className={`relative p-2 rounded-lg transition-all flex flex-col items-center gap-1 ${
                                         isSelected
                                           ? 'bg-green-600/30 ring-2 ring-green-400'
                                           : 'bg-white/5 hover:bg-white/10'
                                       }`}
                                       style={{ color: selectedColor }}
-                                      title={product?.name || type}
+                                      title={isLocked ? `${product?.name || type} (paid plans)` : product?.name || type}
                                     >
+                                      {isLocked && (
+                                        <Lock size={10} className="absolute top-1 right-1 text-yellow-400" />
+                                      )}
                                       <OrnamentIcon type={type as OrnamentType} className="w-5 h-5" />
                                       <span className="text-[10px] text-gray-400 capitalize">
                                         {type.replace(/([A-Z])/g, ' $1').trim()}
                                       </span>
                                       {product && (
                                         <span className="text-[9px] text-green-400 font-medium">
-                                          {formatPrice(product.price.amount)}
+                                          {formatPrice(price(product.price.amount), currency)}
                                         </span>
                                       )}
                                     </button>
@@ -361,6 +754,64 @@ export const DecorationPanel: React.FC<DecorationPanelProps> = ({
                           </div>
                         ))}
                       </div>
+
+                      {onSymmetryChange && (
+                        <div className="rounded-lg bg-white/5 px-3 py-2 space-y-2">
+                          <div className="flex items-center gap-2">
+                            <button
+                              onClick={() => onSymmetryChange({ ...symmetry, enabled: !symmetry.enabled })}
+                              className={`flex items-center gap-1.5 px-2 py-1 rounded-lg text-sm transition-all ${
+                                symmetry.enabled
+                                  ? 'bg-green-600/30 ring-1 ring-green-400 text-green-200'
+                                  : 'text-gray-300 hover:bg-white/10'
+                              }`}
+                              title="Place copies evenly around the trunk"
+                            >
+                              <Orbit size={16} />
+                              Symmetry
+                            </button>
+                            {symmetry.enabled && (
+                              <>
+                                <input
+                                  type="range"
+                                  min={MIN_SYMMETRY}
+                                  max={MAX_SYMMETRY}
+                                  value={symmetry.count}
+                                  onChange={(e) => onSymmetryChange({ ...symmetry, count: Number(e.target.value) })}
+                                  className="flex-1 accent-green-500"
+                                />
+                                <span className="w-6 text-right text-xs text-gray-300">×{symmetry.count}</span>
+                                <button
+                                  onClick={() => onSymmetryChange({ ...symmetry, mirror: !symmetry.mirror })}
+                                  className={`p-1 rounded transition-all ${
+                                    symmetry.mirror
+                                      ? 'bg-green-600/30 ring-1 ring-green-400 text-green-200'
+                                      : 'text-gray-400 hover:bg-white/10'
+                                  }`}
+                                  title="Mirror each copy as well"
+                                >
+                                  <FlipHorizontal2 size={14} />
+                                </button>
+                              </>
+                            )}
+                          </div>
+                          {symmetry.enabled && (
+                            <p className="text-[10px] text-gray-500">
+                              Each click places {getSymmetryCopyCount(symmetry)} ornaments
+                            </p>
+                          )}
+                        </div>
+                      )}
+
+                      {onAutoDecorate && (
+                        <AutoDecoratePanel
+                          themeColors={themeColors}
+                          remaining={Math.max(0, maxOrnaments - ornamentCount)}
+                          quota={quota}
+                          initialType={selectedOrnamentType}
+                          onAutoDecorate={onAutoDecorate}
+                        />
+                      )}
                     </>
                   )}
 
@@ -388,7 +839,7 @@ export const DecorationPanel: React.FC<DecorationPanelProps> = ({
                               <span className="text-[10px] text-gray-400 capitalize">{product?.name || type}</span>
                               {product && (
                                 <span className="text-[9px] text-green-400 font-medium">
-                                  {formatPrice(product.price.amount)}
+                                  {formatPrice(price(product.price.amount), currency)}
                                 </span>
                               )}
                             </button>
@@ -398,6 +849,79 @@ export const DecorationPanel: React.FC<DecorationPanelProps> = ({
                     </div>
                   )}
 
+                  {mode === 'garland' && (
+                    <div className="space-y-3">
+                      <h3 className="text-xs font-semibold uppercase text-gray-400 tracking-wide">
+                        Garlands
+                      </h3>
+                      <div className="grid grid-cols-2 gap-2">
+                        {GARLAND_PRODUCTS.map((product) => (
+                          <button
+                            key={product.id}
+                            onClick={() => onGarlandTypeChange?.(product.type)}
+                            className={`p-3 rounded-lg transition-all flex flex-col items-center gap-1 ${
+                              garlandType === product.type
+                                ? 'bg-amber-600/30 ring-2 ring-amber-400'
+                                : 'bg-white/5 hover:bg-white/10'
+                            }`}
+                            style={{ color: garlandColors[0] }}
+                          >
+                            {product.type === 'lights' ? <Lightbulb className="w-6 h-6" /> : <Circle className="w-6 h-6" />}
+                            <span className="text-[10px] text-gray-400">{product.name}</span>
+                            <span className="text-[9px] text-green-400 font-medium">
+                              {formatPrice(price(product.price.amount), currency)} / m
+                            </span>
+                          </button>
+                        ))}
+                      </div>
+
+                      {garlandType === 'lights' && (
+                        <div className="flex gap-1">
+                          {LIGHT_PATTERNS.map((pattern) => (
+                            <button
+                              key={pattern.id}
+                              onClick={() => onLightPatternChange?.(pattern.id)}
+                              className={`flex-1 px-2 py-1.5 rounded-lg text-xs transition-all ${
+                                lightPattern === pattern.id
+                                  ? 'bg-amber-600/30 ring-1 ring-amber-400 text-amber-200'
+                                  : 'bg-white/5 hover:bg-white/10 text-gray-300'
+                              }`}
+                            >
+                              {pattern.label}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+
+                      <div className="flex gap-2">
+                        <button
+                          onClick={onFinishGarland}
+                          disabled={draftPointCount < 2}
+                          className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg bg-green-600/30 text-green-300 hover:bg-green-600/40 disabled:opacity-30 disabled:cursor-not-allowed text-sm transition-colors"
+                        >
+                          <Check size={14} />
+                          Finish ({draftPointCount} pts)
+                        </button>
+                        <button
+                          onClick={onCancelGarland}
+                          disabled={draftPointCount === 0}
+                          className="px-3 py-2 rounded-lg bg-white/5 text-gray-300 hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                          title="Discard the strand being drawn"
+                        >
+                          <X size={14} />
+                        </button>
+                        <button
+                          onClick={onAutoSpiral}
+                          className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-white/5 text-gray-300 hover:bg-white/10 text-sm transition-colors"
+                          title="Wind a garland from the base to the top"
+                        >
+                          <WandSparkles size={14} />
+                          Spiral
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
                   {mode === 'edit' && (
                     <div className="space-y-4">
                       <h3 className="text-xs font-semibold uppercase text-gray-400 tracking-wide">
@@ -426,21 +950,95 @@ export const DecorationPanel: React.FC<DecorationPanelProps> = ({
                           <RotateCw size={18} />
                           Rotate
                         </button>
-                      </div>
-
-                      {selectedOrnamentId && (
                         <button
-                          onClick={onDeleteSelectedOrnament}
-                          className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-lg bg-red-600/20 text-red-400 hover:bg-red-600/30 hover:text-red-300 transition-colors"
+                          onClick={() => onTransformModeChange?.('scale')}
+                          className={`flex-1 px-4 py-3 rounded-lg transition-all flex items-center justify-center gap-2 ${
+                            transformMode === 'scale'
+                              ? 'bg-blue-600/30 ring-2 ring-blue-400 text-blue-300'
+                              : 'bg-white/5 hover:bg-white/10 text-gray-300'
+                          }`}
                         >
-                          <Trash2 size={16} />
-                          Delete Selected Ornament
+                          <Scale3D size={18} />
+                          Scale
                         </button>
-                      )}
+                      </div>
+
+                      {selectedCount > 0 ? (
+                        <>
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm text-gray-300">
+                              {selectedCount} selected
+                            </span>
+                            <div className="flex gap-2">
+                              <button
+                                onClick={onCopySelection}
+                                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/5 text-gray-300 hover:bg-white/10 text-sm transition-colors"
+                                title="Copy (Ctrl+C)"
+                              >
+                                <Copy size={14} />
+                                Copy
+                              </button>
+                              <button
+                                onClick={onPaste}
+                                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/5 text-gray-300 hover:bg-white/10 text-sm transition-colors"
+                                title="Paste (Ctrl+V)"
+                              >
+                                <ClipboardPaste size={14} />
+                                Paste
+                              </button>
+                            </div>
+                          </div>
+
+                          <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                              <h3 className="text-xs font-semibold uppercase text-gray-400 tracking-wide">
+                                Recolor
+                              </h3>
+                              <select
+                                value={activePalette}
+                                onChange={(e) => setActivePalette(e.target.value as ColorPalette)}
+                                className="text-xs bg-white/10 border border-white/10 rounded px-2 py-1 text-gray-300"
+                              >
+                                {Object.keys(COLOR_PALETTES).map((palette) => (
+                                  <option key={palette} value={palette}>
+                                    {palette.charAt(0).toUpperCase() + palette.slice(1)}
+                                  </option>
+                                ))}
+                              </select>
+                            </div>
+                            <div className="flex gap-2">
+                              {COLOR_PALETTES[activePalette].map((color) => (
+                                <button
+                                  key={color}
+                                  onClick={() => onRecolorSelection?.(color)}
+                                  className="w-8 h-8 rounded-full border-2 border-transparent transition-transform hover:scale-110"
+                                  style={{ backgroundColor: color }}
+                                />
+                              ))}
+                            </div>
+                          </div>
 
-                      {!selectedOrnamentId && (
-                        <div className="p-4 rounded-lg bg-white/5 text-center text-gray-400 text-sm">
-                          Click on an ornament to select it
+                          <button
+                            onClick={onDeleteSelection}
+                            className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-lg bg-red-600/20 text-red-400 hover:bg-red-600/30 hover:text-red-300 transition-colors"
+                          >
+                            <Trash2 size={16} />
+                            {selectedCount === 1 ? 'Delete Selected Ornament' : `Delete ${selectedCount} Ornaments`}
+                          </button>
+                        </>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <div className="flex-1 p-4 rounded-lg bg-white/5 text-center text-gray-400 text-sm">
+                            Click on an ornament to select it
+                          </div>
+                          <button
+                            onClick={onPaste}
+                            className="flex items-center gap-1.5 px-3 py-4 rounded-lg bg-white/5 text-gray-300 hover:bg-white/10 text-sm transition-colors"
+                            title="Paste (Ctrl+V)"
+                          >
+                            <ClipboardPaste size={14} />
+                            Paste
+                          </button>
                         </div>
                       )}
                     </div>
@@ -469,9 +1067,9 @@ export const DecorationPanel: React.FC<DecorationPanelProps> = ({
                         {COLOR_PALETTES[activePalette].map((color) => (
                           <button
                             key={color}
-                            onClick={() => onColorChange(color)}
+                            onClick={() => handleColorPick(color)}
                             className={`w-8 h-8 rounded-full border-2 transition-transform hover:scale-110 ${
-                              selectedColor === color
+                              isColorSelected(color)
                                 ? 'border-white scale-110 ring-2 ring-white/50'
                                 : 'border-transparent'
                             }`}
@@ -480,11 +1078,15 @@ export const DecorationPanel: React.FC<DecorationPanelProps> = ({
                         ))}
                         <div className="w-px h-6 bg-white/20" />
                         <label className="relative w-8 h-8 cursor-pointer rounded-full overflow-hidden border-2 border-white/30 flex items-center justify-center hover:border-white transition-colors">
-                          <Palette size={14} />
+                          {quota && !quota.canUseCustomColors ? (
+                            <Lock size={12} className="text-yellow-400" />
+                          ) : (
+                            <Palette size={14} />
+                          )}
                           <input
                             type="color"
-                            value={selectedColor}
-                            onChange={(e) => onColorChange(e.target.value)}
+                            value={mode === 'garland' ? garlandColors[garlandColors.length - 1] : selectedColor}
+                            onChange={(e) => handleCustomColor(e.target.value)}
                             className="absolute opacity-0 w-full h-full top-0 left-0 cursor-pointer"
                           />
                         </label>
@@ -493,8 +1095,22 @@ export const DecorationPanel: React.FC<DecorationPanelProps> = ({
                   )}
                 </div>
 
-                {/* Right: Preview & Quota - hide in edit mode */}
-                {mode !== 'edit' && (
+                {/* Right: garlands on the tree */}
+                {mode === 'garland' && (
+                  <div className="w-56 space-y-2">
+                    <h3 className="text-xs font-semibold uppercase text-gray-400 tracking-wide">
+                      On the tree
+                    </h3>
+                    <GarlandList
+                      garlands={garlands}
+                      onPatternChange={onGarlandPatternChange}
+                      onRemove={onRemoveGarland}
+                    />
+                  </div>
+                )}
+
+                {/* Right: Preview & Quota - hide in edit and garland mode */}
+                {mode !== 'edit' && mode !== 'garland' && (
                   <div className="w-48 space-y-3">
                     {/* 3D Preview */}
                     <div className="relative">
@@ -525,6 +1141,9 @@ export const DecorationPanel: React.FC<DecorationPanelProps> = ({
                         max={maxOrnaments}
                         label="Ornaments"
                       />
+                      {quotaCheck && !quotaCheck.allowed && (
+                        <UpgradePrompt check={quotaCheck} onUpgrade={onUpgrade} />
+                      )}
                     </div>
 
                     {/* Clear Button */}
@@ -542,9 +1161,13 @@ export const DecorationPanel: React.FC<DecorationPanelProps> = ({
 
               {/* Help Text */}
               <div className="mt-4 pt-3 border-t border-white/10 text-xs text-gray-500 text-center">
-                {mode === 'decorate' && 'Click on the tree to place ornaments. Click ornaments to remove.'}
-                {mode === 'edit' && 'Click an ornament to select it, then drag the gizmo to move or rotate.'}
+                {mode === 'decorate' &&
+                  'Click on the tree to place ornaments (with Symmetry, copies go all the way round), or let Auto-decorate fill it. Click ornaments to remove.'}
+                {mode === 'edit' &&
+                  'Click an ornament to select it (Shift-click or Shift-drag to select more), then drag the gizmo to move, rotate or scale them together. Ctrl+C / Ctrl+V copies and pastes.'}
                 {mode === 'topper' && 'Click the top of the tree to place your topper.'}
+                {mode === 'garland' &&
+                  'Click points on the tree to draw a strand, then Finish. Or let Spiral wind one for you.'}
               </div>
             </div>
           )}
@@ -552,7 +1175,14 @@ export const DecorationPanel: React.FC<DecorationPanelProps> = ({
           {/* Collapsed View Mode */}
           {mode === 'view' && (
             <div className="p-4 text-center text-sm text-gray-400">
-              <p>Rotate the tree to view your decorations</p>
+              {isReadOnly && (
+                <div className="flex items-center justify-center gap-2 mb-2 text-blue-300">
+                  <Eye size={16} />
+                  <span className="font-medium">View only</span>
+                  <span className="text-gray-400">— you joined this tree as a viewer</span>
+                </div>
+              )}
+              <p>Rotate the tree to view {isReadOnly ? 'the' : 'your'} decorations</p>
               <p className="text-xs mt-1">
                 {ornamentCount} ornament{ornamentCount !== 1 && 's'} placed
               </p>
@@ -0,0 +1,130 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { useCursor } from '@react-three/drei';
+import * as THREE from 'three';
+import { GarlandData } from '../types';
+import {
+  MIN_GARLAND_POINTS,
+  createGarlandCurve,
+  getBulbBrightness,
+  getStrandPositions,
+} from '../data/garlands';
+
+// ============================================
+// GARLAND
+// ============================================
+
+interface GarlandProps {
+  data: Pick<GarlandData, 'type' | 'colors' | 'pattern' | 'points'>;
+  onClick?: (e: any) => void;
+  // Strand still being drawn: shown see-through, bulbs don't blink
+  isDraft?: boolean;
+}
+
+const BULB_RADIUS = 0.045;
+const BEAD_RADIUS = 0.04;
+const WIRE_RADIUS = 0.012;
+
+/**
+ * A string of lights or beads along a garland's spline. Bulbs are one
+ * instanced mesh whose per-instance colors are animated for the blink pattern.
+ */
+export const Garland: React.FC<GarlandProps> = ({ data, onClick, isDraft = false }) => {
+  const [hovered, setHovered] = React.useState(false);
+  const bulbsRef = useRef<THREE.InstancedMesh>(null);
+  useCursor(hovered && !!onClick);
+
+  const isLights = data.type === 'lights';
+  const opacity = isDraft ? 0.6 : 1;
+
+  const wire = useMemo(() => {
+    if (data.points.length < MIN_GARLAND_POINTS) return null;
+    const curve = createGarlandCurve(data.points);
+    const segments = Math.max(16, data.points.length * 8);
+    return new THREE.TubeGeometry(curve, segments, WIRE_RADIUS, 6, false);
+  }, [data.points]);
+
+  const positions = useMemo(() => getStrandPositions(data.points, data.type), [data.points, data.type]);
+
+  const baseColors = useMemo(
+    () => positions.map((_, i) => new THREE.Color(data.colors[i % data.colors.length])),
+    [positions, data.colors]
+  );
+
+  useEffect(() => () => wire?.dispose(), [wire]);
+
+  // Place the bulbs and give them their resting colors
+  useEffect(() => {
+    const mesh = bulbsRef.current;
+    if (!mesh) return;
+    const matrix = new THREE.Matrix4();
+    positions.forEach((position, i) => {
+      matrix.setPosition(position);
+      mesh.setMatrixAt(i, matrix);
+      mesh.setColorAt(i, baseColors[i]);
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    // Re-run on pattern changes so switching to steady resets the colors
+  }, [positions, baseColors, data.pattern]);
+
+  // Blink
+  const color = useMemo(() => new THREE.Color(), []);
+  useFrame((state) => {
+    const mesh = bulbsRef.current;
+    if (!mesh || !isLights || isDraft || data.pattern === 'steady') return;
+    const time = state.clock.elapsedTime;
+    baseColors.forEach((base, i) => {
+      color.copy(base).multiplyScalar(getBulbBrightness(data.pattern, i, time));
+      mesh.setColorAt(i, color);
+    });
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  });
+
+  if (!wire) return null;
+
+  return (
+    <group
+      name={`garland-${data.type}`}
+      onPointerOver={() => setHovered(true)}
+      onPointerOut={() => setHovered(false)}
+      onClick={onClick}
+    >
+      <mesh geometry={wire}>
+        <meshStandardMaterial
+          color={isLights ? '#1f3a1f' : '#c9b27a'}
+          roughness={0.6}
+          metalness={isLights ? 0.1 : 0.6}
+          transparent={isDraft}
+          opacity={opacity}
+        />
+      </mesh>
+
+      {/* Keyed on the count: an instanced mesh can't grow */}
+      <instancedMesh
+        key={positions.length}
+        ref={bulbsRef}
+        args={[undefined, undefined, positions.length]}
+        castShadow={!isLights}
+      >
+        <sphereGeometry args={[isLights ? BULB_RADIUS : BEAD_RADIUS, 12, 12]} />
+        {isLights ? (
+          // Unlit and not tone mapped so the bulbs read as light sources
+          <meshBasicMaterial toneMapped={false} transparent={isDraft} opacity={opacity} />
+        ) : (
+          <meshStandardMaterial
+            metalness={0.7}
+            roughness={0.15}
+            envMapIntensity={1.5}
+            transparent={isDraft}
+            opacity={opacity}
+          />
+        )}
+      </instancedMesh>
+
+      {hovered && onClick && (
+        <pointLight position={positions[Math.floor(positions.length / 2)]} intensity={0.8} distance={1.5} />
+      )}
+    </group>
+  );
+};
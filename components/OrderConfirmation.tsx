@@ -1,6 +1,8 @@
 import React from 'react';
-import { CheckCircle, Package, Truck, Calendar, X } from 'lucide-react';
+import { CheckCircle, Package, Truck, Calendar, X, FileText, ClipboardList } from 'lucide-react';
 import { Order, formatPrice } from '../types';
+import { formatTaxRate } from '../data/pricing';
+import { printOrderDocument, renderInvoice, renderPackingSlip } from '../data/orderDocuments';
 
 interface OrderConfirmationProps {
   isOpen: boolean;
@@ -21,6 +23,7 @@ export const OrderConfirmation: React.FC<OrderConfirmationProps> = ({
   const treeItem = order.cartSnapshot.items.find((item) => item.productType === 'tree');
   const ornamentItems = order.cartSnapshot.items.filter((item) => item.productType === 'ornament');
   const topperItem = order.cartSnapshot.items.find((item) => item.productType === 'topper');
+  const garlandItems = order.cartSnapshot.items.filter((item) => item.productType === 'garland');
 
   return (
     <div className="fixed inset-0 z-50 pointer-events-auto">
@@ -85,7 +88,7 @@ export const OrderConfirmation: React.FC<OrderConfirmationProps> = ({
                     <span className="text-sm text-white">Christmas Tree</span>
                   </div>
                   <span className="text-sm text-green-400">
-                    {formatPrice(treeItem.unitPrice)}
+                    {formatPrice(treeItem.unitPrice, order.currency)}
                   </span>
                 </div>
               )}
@@ -101,7 +104,8 @@ export const OrderConfirmation: React.FC<OrderConfirmationProps> = ({
                   </div>
                   <span className="text-sm text-green-400">
                     {formatPrice(
-                      ornamentItems.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0)
+                      ornamentItems.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0),
+                      order.currency
                     )}
                   </span>
                 </div>
@@ -115,7 +119,25 @@ export const OrderConfirmation: React.FC<OrderConfirmationProps> = ({
                     <span className="text-sm text-white">Tree Topper</span>
                   </div>
                   <span className="text-sm text-green-400">
-                    {formatPrice(topperItem.unitPrice)}
+                    {formatPrice(topperItem.unitPrice, order.currency)}
+                  </span>
+                </div>
+              )}
+
+              {/* Garlands */}
+              {garlandItems.length > 0 && (
+                <div className="flex items-center justify-between py-2 border-b border-white/5">
+                  <div className="flex items-center gap-2">
+                    <span className="text-lg">✨</span>
+                    <span className="text-sm text-white">
+                      Garlands ({garlandItems.reduce((sum, item) => sum + item.quantity, 0)} m)
+                    </span>
+                  </div>
+                  <span className="text-sm text-green-400">
+                    {formatPrice(
+                      garlandItems.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0),
+                      order.currency
+                    )}
                   </span>
                 </div>
               )}
@@ -124,25 +146,33 @@ export const OrderConfirmation: React.FC<OrderConfirmationProps> = ({
               <div className="pt-2 space-y-1">
                 <div className="flex justify-between text-sm text-gray-400">
                   <span>Subtotal</span>
-                  <span>{formatPrice(order.subtotal)}</span>
+                  <span>{formatPrice(order.subtotal, order.currency)}</span>
                 </div>
+                {order.discounts?.map((discount) => (
+                  <div key={discount.id} className="flex justify-between gap-2 text-sm text-green-400">
+                    <span className="truncate">{discount.label}</span>
+                    <span className="shrink-0">-{formatPrice(discount.amount, order.currency)}</span>
+                  </div>
+                ))}
                 <div className="flex justify-between text-sm text-gray-400">
                   <span>Shipping</span>
                   <span>
                     {order.shippingCost === 0 ? (
                       <span className="text-green-400">FREE</span>
                     ) : (
-                      formatPrice(order.shippingCost)
+                      formatPrice(order.shippingCost, order.currency)
                     )}
                   </span>
                 </div>
                 <div className="flex justify-between text-sm text-gray-400">
-                  <span>Tax</span>
-                  <span>{formatPrice(order.tax)}</span>
+                  <span>
+                    {order.priceBreakdown ? `VAT ${formatTaxRate(order.priceBreakdown.taxRate)}` : 'Tax'}
+                  </span>
+                  <span>{formatPrice(order.tax, order.currency)}</span>
                 </div>
                 <div className="flex justify-between text-white font-semibold pt-2 border-t border-white/10">
                   <span>Total</span>
-                  <span className="text-green-400">{formatPrice(order.total)}</span>
+                  <span className="text-green-400">{formatPrice(order.total, order.currency)}</span>
                 </div>
               </div>
             </div>
@@ -189,7 +219,23 @@ export const OrderConfirmation: React.FC<OrderConfirmationProps> = ({
         </div>
 
         {/* Footer */}
-        <div className="p-4 border-t border-white/10 bg-black/30">
+        <div className="p-4 border-t border-white/10 bg-black/30 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => printOrderDocument(renderInvoice(order))}
+              className="py-2 px-3 rounded-xl bg-white/10 hover:bg-white/20 text-white text-sm flex items-center justify-center gap-2 transition-colors"
+            >
+              <FileText size={16} />
+              Invoice
+            </button>
+            <button
+              onClick={() => printOrderDocument(renderPackingSlip(order))}
+              className="py-2 px-3 rounded-xl bg-white/10 hover:bg-white/20 text-white text-sm flex items-center justify-center gap-2 transition-colors"
+            >
+              <ClipboardList size={16} />
+              Packing Slip
+            </button>
+          </div>
           <button
             onClick={onClose}
             className="w-full py-3 px-4 rounded-xl bg-green-600 hover:bg-green-500 text-white font-semibold transition-colors"
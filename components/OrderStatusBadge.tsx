@@ -0,0 +1,25 @@
+import React from 'react';
+import { OrderStatus } from '../types';
+import { ORDER_STATUS_LABELS } from '../data/orderLifecycle';
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-500/15 text-yellow-300 border-yellow-500/30',
+  paid: 'bg-blue-500/15 text-blue-300 border-blue-500/30',
+  processing: 'bg-blue-500/15 text-blue-300 border-blue-500/30',
+  partially_shipped: 'bg-purple-500/15 text-purple-300 border-purple-500/30',
+  shipped: 'bg-purple-500/15 text-purple-300 border-purple-500/30',
+  delivered: 'bg-green-500/15 text-green-300 border-green-500/30',
+  cancelled: 'bg-red-500/15 text-red-300 border-red-500/30',
+};
+
+interface OrderStatusBadgeProps {
+  status: OrderStatus;
+}
+
+export const OrderStatusBadge: React.FC<OrderStatusBadgeProps> = ({ status }) => {
+  return (
+    <span className={`inline-block px-2 py-0.5 rounded-full border text-xs font-medium ${STATUS_STYLES[status]}`}>
+      {ORDER_STATUS_LABELS[status]}
+    </span>
+  );
+};
@@ -450,6 +450,7 @@ export const OrnamentMesh: React.FC<OrnamentProps> = ({ data, onClick, isSelecte
   return (
     <group
       ref={groupRef}
+      name={`ornament-${data.type}`}
       position={data.position}
       scale={data.scale * (hovered ? 1.15 : 1)}
       rotation={data.rotation || [0, 0, 0]}
@@ -460,7 +461,7 @@ export const OrnamentMesh: React.FC<OrnamentProps> = ({ data, onClick, isSelecte
       {renderOrnamentByType(data.type, data.color)}
 
       {isSelected && (
-        <mesh>
+        <mesh userData={{ excludeFromExport: true }}>
           <sphereGeometry args={[0.25, 16, 16]} />
           <meshBasicMaterial color="#ffff00" transparent opacity={0.2} wireframe />
         </mesh>
@@ -481,9 +482,15 @@ interface GhostOrnamentProps {
   type: OrnamentType;
   color: string;
   position: [number, number, number];
+  // Light up the surroundings (off for symmetric copies, to keep the preview cheap)
+  glow?: boolean;
+  // A click here won't place (not every symmetric copy has room)
+  blocked?: boolean;
 }
 
-export const GhostOrnament: React.FC<GhostOrnamentProps> = ({ type, color, position }) => {
+const BLOCKED_COLOR = '#ef4444';
+
+export const GhostOrnament: React.FC<GhostOrnamentProps> = ({ type, color, position, glow = true, blocked = false }) => {
   const groupRef = useRef<THREE.Group>(null);
 
   useFrame((state) => {
@@ -500,13 +507,18 @@ export const GhostOrnament: React.FC<GhostOrnamentProps> = ({ type, color, posit
 
   return (
     <group ref={groupRef} position={position}>
-      {renderOrnamentByType(type, color, 0.6)}
+      {renderOrnamentByType(type, color, blocked ? 0.25 : 0.6)}
 
-      <pointLight color={color} intensity={1.5} distance={0.8} />
+      {glow && <pointLight color={color} intensity={1.5} distance={0.8} />}
 
       <mesh rotation={[Math.PI / 2, 0, 0]}>
         <ringGeometry args={[0.22, 0.24, 32]} />
-        <meshBasicMaterial color={color} transparent opacity={0.5} side={THREE.DoubleSide} />
+        <meshBasicMaterial
+          color={blocked ? BLOCKED_COLOR : color}
+          transparent
+          opacity={blocked ? 0.8 : 0.5}
+          side={THREE.DoubleSide}
+        />
       </mesh>
     </group>
   );
@@ -186,7 +186,12 @@ export const PineTree: React.FC<PineTreeProps> = ({
   }, [config, onPointerMove, onClick, onPointerOut]);
 
   return (
-    <group ref={groupRef} position={[0, -1, 0]}>
+    <group
+      ref={groupRef}
+      name="pine-tree"
+      position={[0, -1, 0]}
+      userData={{ exportResetRotation: true }}
+    >
       {treeGeometry}
 
       {/* Random snow clumps on branches */}
@@ -1,8 +1,11 @@
 import React from 'react';
-import { formatPrice } from '../types';
+import { CurrencyCode, DiscountLine, PriceBreakdown, formatPrice } from '../types';
+import { formatTaxRate, getDisplayAmount } from '../data/pricing';
+import { useCurrency } from '../hooks/useCurrency';
 
 interface PriceTagProps {
   amount: number; // Price in cents
+  currency?: CurrencyCode; // Defaults to the display currency
   size?: 'sm' | 'md' | 'lg';
   className?: string;
   showCurrency?: boolean;
@@ -11,6 +14,7 @@ interface PriceTagProps {
 
 export const PriceTag: React.FC<PriceTagProps> = ({
   amount,
+  currency,
   size = 'md',
   className = '',
   showCurrency = true,
@@ -22,7 +26,8 @@ export const PriceTag: React.FC<PriceTagProps> = ({
     lg: 'text-lg font-semibold',
   };
 
-  const formatted = formatPrice(amount);
+  const displayCurrency = useCurrency().currency;
+  const formatted = formatPrice(amount, currency ?? displayCurrency);
 
   return (
     <span
@@ -39,6 +44,7 @@ export const PriceTag: React.FC<PriceTagProps> = ({
 
 interface PriceDisplayProps {
   amount: number;
+  currency?: CurrencyCode;
   originalAmount?: number;
   label?: string;
   size?: 'sm' | 'md' | 'lg';
@@ -46,6 +52,7 @@ interface PriceDisplayProps {
 
 export const PriceDisplay: React.FC<PriceDisplayProps> = ({
   amount,
+  currency,
   originalAmount,
   label,
   size = 'md',
@@ -55,16 +62,29 @@ export const PriceDisplay: React.FC<PriceDisplayProps> = ({
   return (
     <div className="flex items-center gap-2">
       {label && <span className="text-gray-400 text-xs">{label}</span>}
-      <PriceTag amount={amount} size={size} />
+      <PriceTag amount={amount} currency={currency} size={size} />
       {hasDiscount && (
-        <PriceTag amount={originalAmount} size="sm" strikethrough />
+        <PriceTag amount={originalAmount} currency={currency} size="sm" strikethrough />
       )}
     </div>
   );
 };
 
+const DiscountRow: React.FC<{ label: string; amount: number; currency: CurrencyCode }> = ({
+  label,
+  amount,
+  currency,
+}) => (
+  <div className="flex justify-between gap-2 text-sm text-green-400">
+    <span className="truncate">{label}</span>
+    <span className="shrink-0">-{formatPrice(amount, currency)}</span>
+  </div>
+);
+
 interface CartTotalProps {
   subtotal: number;
+  currency?: CurrencyCode;
+  discounts?: DiscountLine[];
   shipping?: number;
   tax?: number;
   total?: number;
@@ -72,36 +92,105 @@ interface CartTotalProps {
 
 export const CartTotal: React.FC<CartTotalProps> = ({
   subtotal,
+  currency: currencyProp,
+  discounts = [],
   shipping = 0,
   tax = 0,
   total,
 }) => {
-  const calculatedTotal = total ?? subtotal + shipping + tax;
+  const displayCurrency = useCurrency().currency;
+  const currency = currencyProp ?? displayCurrency;
+  const discountTotal = discounts.reduce((sum, discount) => sum + discount.amount, 0);
+  const calculatedTotal = total ?? subtotal - discountTotal + shipping + tax;
 
   return (
     <div className="space-y-2 pt-3 border-t border-white/10">
       <div className="flex justify-between text-sm text-gray-400">
         <span>Subtotal</span>
-        <PriceTag amount={subtotal} size="sm" />
+        <PriceTag amount={subtotal} currency={currency} size="sm" />
       </div>
+      {discounts.map((discount) => (
+        <DiscountRow key={discount.id} label={discount.label} amount={discount.amount} currency={currency} />
+      ))}
       {shipping > 0 && (
         <div className="flex justify-between text-sm text-gray-400">
           <span>Shipping</span>
-          <PriceTag amount={shipping} size="sm" />
+          <PriceTag amount={shipping} currency={currency} size="sm" />
         </div>
       )}
       {tax > 0 && (
         <div className="flex justify-between text-sm text-gray-400">
           <span>Tax</span>
-          <PriceTag amount={tax} size="sm" />
+          <PriceTag amount={tax} currency={currency} size="sm" />
         </div>
       )}
       <div className="flex justify-between text-white font-semibold pt-2 border-t border-white/10">
         <span>Total</span>
-        <PriceTag amount={calculatedTotal} size="lg" />
+        <PriceTag amount={calculatedTotal} currency={currency} size="lg" />
       </div>
     </div>
   );
 };
 
+interface PriceSummaryProps {
+  breakdown: PriceBreakdown;
+}
+
+/**
+ * Totals from data/pricing.ts, shown with VAT included or added on top
+ * depending on the destination
+ */
+export const PriceSummary: React.FC<PriceSummaryProps> = ({ breakdown }) => {
+  const { taxDisplay, currency } = breakdown;
+  const itemLines = breakdown.lines.filter((line) => line.kind === 'item');
+  const discountLines = breakdown.lines.filter((line) => line.kind === 'discount');
+  const shippingLines = breakdown.lines.filter((line) => line.kind === 'shipping' || line.kind === 'surcharge');
+  const subtotal = itemLines.reduce((sum, line) => sum + getDisplayAmount(line, taxDisplay), 0);
+
+  return (
+    <div className="space-y-2 pt-3 border-t border-white/10">
+      <div className="flex justify-between text-sm text-gray-400">
+        <span>Subtotal</span>
+        <PriceTag amount={subtotal} currency={currency} size="sm" />
+      </div>
+      {discountLines.map((line) => (
+        <DiscountRow
+          key={line.id}
+          label={line.label}
+          amount={-getDisplayAmount(line, taxDisplay)}
+          currency={currency}
+        />
+      ))}
+      {shippingLines.map((line) => (
+        <div key={line.id} className="flex justify-between text-sm text-gray-400">
+          <span>
+            {line.label}
+            {line.quantity > 1 && ` × ${line.quantity}`}
+          </span>
+          {line.kind === 'shipping' && breakdown.freeShipping ? (
+            <span className="text-xs text-green-400">Free</span>
+          ) : (
+            <PriceTag amount={getDisplayAmount(line, taxDisplay)} currency={currency} size="sm" />
+          )}
+        </div>
+      ))}
+      {taxDisplay === 'exclusive' && breakdown.tax > 0 && (
+        <div className="flex justify-between text-sm text-gray-400">
+          <span>VAT {formatTaxRate(breakdown.taxRate)}</span>
+          <PriceTag amount={breakdown.tax} currency={currency} size="sm" />
+        </div>
+      )}
+      <div className="flex justify-between text-white font-semibold pt-2 border-t border-white/10">
+        <span>Total</span>
+        <PriceTag amount={breakdown.total} currency={currency} size="lg" />
+      </div>
+      {taxDisplay === 'inclusive' && breakdown.tax > 0 && (
+        <p className="text-right text-xs text-gray-500">
+          incl. VAT {formatTaxRate(breakdown.taxRate)}: {formatPrice(breakdown.tax, currency)}
+        </p>
+      )}
+    </div>
+  );
+};
+
 export default PriceTag;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Html } from '@react-three/drei';
+import { RemoteCursor } from '../hooks/useCollabSession';
+
+interface RemoteCursorsProps {
+  cursors: RemoteCursor[];
+}
+
+/**
+ * Other participants' pointers on the tree, with name tags
+ */
+export const RemoteCursors: React.FC<RemoteCursorsProps> = ({ cursors }) => {
+  return (
+    <group name="remote-cursors">
+      {cursors.map((cursor) => (
+        <group key={cursor.userId} position={cursor.position}>
+          <mesh>
+            <sphereGeometry args={[0.08, 16, 16]} />
+            <meshBasicMaterial color={cursor.color} toneMapped={false} />
+          </mesh>
+          <mesh>
+            <sphereGeometry args={[0.16, 16, 16]} />
+            <meshBasicMaterial color={cursor.color} transparent opacity={0.25} depthWrite={false} />
+          </mesh>
+          <Html position={[0, 0.25, 0]} center zIndexRange={[40, 0]} style={{ pointerEvents: 'none' }}>
+            <div
+              className="px-2 py-0.5 rounded-full text-[11px] font-medium text-white whitespace-nowrap shadow-lg"
+              style={{ backgroundColor: cursor.color }}
+            >
+              {cursor.userName}
+            </div>
+          </Html>
+        </group>
+      ))}
+    </group>
+  );
+};
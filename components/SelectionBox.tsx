@@ -0,0 +1,111 @@
+import React, { useEffect, useRef } from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { OrnamentData } from '../types';
+
+// Shorter drags are clicks (shift-click toggles a single ornament)
+const MIN_BOX_SIZE = 4;
+
+interface SelectionBoxProps {
+  ornaments: OrnamentData[];
+  enabled: boolean;
+  // Ornaments inside the box, to add to the selection
+  onSelect: (ids: string[]) => void;
+}
+
+/**
+ * Shift-drag on the canvas to draw a selection rectangle; ornaments whose
+ * centers fall inside it are selected. Renders nothing in the scene: the
+ * rectangle is a DOM element laid over the canvas.
+ */
+export const SelectionBox: React.FC<SelectionBoxProps> = ({ ornaments, enabled, onSelect }) => {
+  const { gl, camera, controls } = useThree();
+  const ornamentsRef = useRef(ornaments);
+  ornamentsRef.current = ornaments;
+  const onSelectRef = useRef(onSelect);
+  onSelectRef.current = onSelect;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const canvas = gl.domElement;
+    const container = canvas.parentElement;
+    if (!container) return;
+
+    const box = document.createElement('div');
+    box.style.cssText =
+      'position:absolute;display:none;pointer-events:none;border:1px dashed #60a5fa;background:rgba(96,165,250,0.12);';
+    container.appendChild(box);
+
+    let start: { x: number; y: number } | null = null;
+    let orbitWasEnabled = true;
+    const orbit = controls as unknown as { enabled: boolean } | null;
+
+    const toLocal = (e: PointerEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!e.shiftKey || e.button !== 0) return;
+      start = toLocal(e);
+      // Hold the camera still while the box is drawn
+      if (orbit) {
+        orbitWasEnabled = orbit.enabled;
+        orbit.enabled = false;
+      }
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!start) return;
+      const point = toLocal(e);
+      box.style.display = 'block';
+      box.style.left = `${Math.min(start.x, point.x)}px`;
+      box.style.top = `${Math.min(start.y, point.y)}px`;
+      box.style.width = `${Math.abs(point.x - start.x)}px`;
+      box.style.height = `${Math.abs(point.y - start.y)}px`;
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!start) return;
+      const end = toLocal(e);
+      const from = start;
+      start = null;
+      box.style.display = 'none';
+      if (orbit) orbit.enabled = orbitWasEnabled;
+
+      if (Math.abs(end.x - from.x) < MIN_BOX_SIZE && Math.abs(end.y - from.y) < MIN_BOX_SIZE) return;
+
+      const left = Math.min(from.x, end.x);
+      const right = Math.max(from.x, end.x);
+      const top = Math.min(from.y, end.y);
+      const bottom = Math.max(from.y, end.y);
+      const { clientWidth: width, clientHeight: height } = canvas;
+      const projected = new THREE.Vector3();
+
+      const ids = ornamentsRef.current
+        .filter((ornament) => {
+          projected.set(...ornament.position).project(camera);
+          // Behind the camera
+          if (projected.z > 1) return false;
+          const x = ((projected.x + 1) / 2) * width;
+          const y = ((1 - projected.y) / 2) * height;
+          return x >= left && x <= right && y >= top && y <= bottom;
+        })
+        .map((ornament) => ornament.id);
+      onSelectRef.current(ids);
+    };
+
+    canvas.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      canvas.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      box.remove();
+      if (start && orbit) orbit.enabled = orbitWasEnabled;
+    };
+  }, [enabled, gl, camera, controls]);
+
+  return null;
+};
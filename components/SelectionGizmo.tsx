@@ -0,0 +1,153 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { TransformControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { OrnamentData, TransformMode } from '../types';
+import { TreeMutationOptions } from '../data/treeStore';
+
+// Ornament scale stays within these bounds when a selection is scaled
+const MIN_ORNAMENT_SCALE = 0.25;
+const MAX_ORNAMENT_SCALE = 4;
+
+export interface OrnamentChange {
+  id: string;
+  updates: Partial<OrnamentData>;
+}
+
+interface SelectionGizmoProps {
+  // The selected ornaments
+  ornaments: OrnamentData[];
+  mode: TransformMode;
+  onTransform: (changes: OrnamentChange[], options?: TreeMutationOptions) => void;
+}
+
+function getCenter(ornaments: OrnamentData[]): THREE.Vector3 {
+  const center = new THREE.Vector3();
+  ornaments.forEach((o) => center.add(new THREE.Vector3(...o.position)));
+  return center.divideScalar(Math.max(1, ornaments.length));
+}
+
+function getMatrix(ornament: OrnamentData): THREE.Matrix4 {
+  return new THREE.Matrix4().compose(
+    new THREE.Vector3(...ornament.position),
+    new THREE.Quaternion().setFromEuler(new THREE.Euler(...(ornament.rotation ?? [0, 0, 0]))),
+    new THREE.Vector3().setScalar(ornament.scale)
+  );
+}
+
+// Put the pivot back at the selection's center, untransformed, ready for the next drag
+function resetPivot(pivot: THREE.Object3D, ornaments: OrnamentData[]) {
+  pivot.position.copy(getCenter(ornaments));
+  pivot.rotation.set(0, 0, 0);
+  pivot.scale.set(1, 1, 1);
+  pivot.updateMatrixWorld();
+}
+
+/**
+ * One transform gizmo for the whole selection. It sits at the selection's
+ * center; dragging it moves, turns or scales every selected ornament about
+ * that center, keeping their arrangement. Each drag is a single undo step.
+ */
+export const SelectionGizmo: React.FC<SelectionGizmoProps> = ({ ornaments, mode, onTransform }) => {
+  // State rather than a ref so the gizmo renders once the pivot exists
+  const [pivot, setPivot] = useState<THREE.Group | null>(null);
+  const transformRef = useRef<any>(null);
+  const ornamentsRef = useRef(ornaments);
+  ornamentsRef.current = ornaments;
+
+  // Where the pivot and each ornament were when the current drag started
+  const dragRef = useRef<{
+    key: string;
+    pivotInverse: THREE.Matrix4;
+    starts: { id: string; matrix: THREE.Matrix4 }[];
+  } | null>(null);
+
+  // Follow selection changes (and undo/redo) between drags
+  const selectionKey = useMemo(
+    () => ornaments.map((o) => `${o.id}:${o.position.join(',')}`).join('|'),
+    [ornaments]
+  );
+  useEffect(() => {
+    if (pivot && !dragRef.current) resetPivot(pivot, ornamentsRef.current);
+  }, [pivot, selectionKey]);
+
+  useEffect(() => {
+    const controls = transformRef.current;
+    if (!controls || !pivot) return;
+
+    // Orbit controls are paused while dragging by TransformControls itself
+    const handleDraggingChanged = (event: any) => {
+      if (event.value) {
+        pivot.updateMatrixWorld();
+        dragRef.current = {
+          key: `transform-selection-${Date.now()}`,
+          pivotInverse: pivot.matrixWorld.clone().invert(),
+          starts: ornamentsRef.current.map((o) => ({ id: o.id, matrix: getMatrix(o) })),
+        };
+      } else {
+        dragRef.current = null;
+        resetPivot(pivot, ornamentsRef.current);
+      }
+    };
+
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+    const euler = new THREE.Euler();
+
+    // 'objectChange' only fires while the gizmo is dragged, not on hover
+    const handleObjectChange = () => {
+      const drag = dragRef.current;
+      if (!drag) return;
+
+      if (mode === 'scale') {
+        // Scale uniformly by whichever axis handle is being dragged
+        const factor = [pivot.scale.x, pivot.scale.y, pivot.scale.z].reduce((a, b) =>
+          Math.abs(b - 1) > Math.abs(a - 1) ? b : a
+        );
+        pivot.scale.setScalar(Math.max(factor, 0.05));
+      }
+      pivot.updateMatrixWorld();
+      const delta = pivot.matrixWorld.clone().multiply(drag.pivotInverse);
+
+      const changes = drag.starts.map(({ id, matrix }): OrnamentChange => {
+        delta.clone().multiply(matrix).decompose(position, quaternion, scale);
+        const updates: Partial<OrnamentData> = { position: [position.x, position.y, position.z] };
+        if (mode === 'rotate') {
+          euler.setFromQuaternion(quaternion);
+          updates.rotation = [euler.x, euler.y, euler.z];
+        }
+        if (mode === 'scale') {
+          updates.scale = Math.min(MAX_ORNAMENT_SCALE, Math.max(MIN_ORNAMENT_SCALE, scale.x));
+        }
+        return { id, updates };
+      });
+      onTransform(changes, { coalesceKey: drag.key });
+    };
+
+    controls.addEventListener('dragging-changed', handleDraggingChanged);
+    controls.addEventListener('objectChange', handleObjectChange);
+    return () => {
+      controls.removeEventListener('dragging-changed', handleDraggingChanged);
+      controls.removeEventListener('objectChange', handleObjectChange);
+    };
+  }, [pivot, mode, onTransform]);
+
+  if (ornaments.length === 0) return null;
+
+  return (
+    <>
+      <group ref={setPivot} name="selection-pivot" />
+      {pivot && (
+        <TransformControls
+          ref={transformRef}
+          object={pivot}
+          mode={mode}
+          size={ornaments.length > 1 ? 0.8 : 0.6}
+          showX
+          showY
+          showZ
+        />
+      )}
+    </>
+  );
+};
@@ -9,13 +9,21 @@ import {
   Save,
   FolderOpen,
   X,
+  Box,
+  Loader2,
 } from 'lucide-react';
-import { TreeExportData, importTreeFromFile } from '../data/treeExport';
+import {
+  TreeExportData,
+  TreeImportResult,
+  importTreeFromFile,
+  formatImportErrors,
+} from '../data/treeExport';
 
 interface SharePanelProps {
   onCopyShareURL: () => Promise<boolean>;
   onDownloadJSON: () => void;
-  onImportFromCode: (code: string) => Promise<boolean>;
+  onDownloadGLB: () => Promise<void>;
+  onImportFromCode: (code: string) => Promise<TreeImportResult>;
   onImportFromData: (data: TreeExportData) => Promise<void>;
   onSaveToStorage: () => Promise<string>;
   getShareURL: () => string;
@@ -25,6 +33,7 @@ interface SharePanelProps {
 export const SharePanel: React.FC<SharePanelProps> = ({
   onCopyShareURL,
   onDownloadJSON,
+  onDownloadGLB,
   onImportFromCode,
   onImportFromData,
   onSaveToStorage,
@@ -34,6 +43,8 @@ export const SharePanel: React.FC<SharePanelProps> = ({
   const [isOpen, setIsOpen] = useState(false);
   const [copied, setCopied] = useState(false);
   const [saved, setSaved] = useState(false);
+  const [isExportingGLB, setIsExportingGLB] = useState(false);
+  const [exportError, setExportError] = useState('');
   const [importCode, setImportCode] = useState('');
   const [showImport, setShowImport] = useState(false);
   const [importError, setImportError] = useState('');
@@ -53,14 +64,27 @@ export const SharePanel: React.FC<SharePanelProps> = ({
     setTimeout(() => setSaved(false), 2000);
   };
 
+  const handleDownloadGLB = async () => {
+    setExportError('');
+    setIsExportingGLB(true);
+    try {
+      await onDownloadGLB();
+    } catch (error) {
+      console.error('GLB export failed:', error);
+      setExportError('3D export failed');
+    } finally {
+      setIsExportingGLB(false);
+    }
+  };
+
   const handleImportCode = async () => {
     setImportError('');
-    const success = await onImportFromCode(importCode);
-    if (success) {
+    const result = await onImportFromCode(importCode);
+    if (result.success) {
       setShowImport(false);
       setImportCode('');
     } else {
-      setImportError('Invalid share code');
+      setImportError(`Invalid share code - ${formatImportErrors(result.errors)}`);
     }
   };
 
@@ -68,12 +92,12 @@ export const SharePanel: React.FC<SharePanelProps> = ({
     const file = e.target.files?.[0];
     if (!file) return;
 
-    const data = await importTreeFromFile(file);
-    if (data) {
-      await onImportFromData(data);
+    const result = await importTreeFromFile(file);
+    if (result.success) {
+      await onImportFromData(result.data);
       setShowImport(false);
     } else {
-      setImportError('Invalid file format');
+      setImportError(`Invalid file format - ${formatImportErrors(result.errors)}`);
     }
 
     // Reset file input
@@ -147,6 +171,27 @@ export const SharePanel: React.FC<SharePanelProps> = ({
           </div>
         </button>
 
+        {/* Download 3D Model */}
+        <button
+          onClick={handleDownloadGLB}
+          disabled={isExportingGLB}
+          className="w-full flex items-center gap-3 px-4 py-3 rounded-lg bg-white/5 hover:bg-white/10 disabled:opacity-50 disabled:cursor-wait transition-colors text-left"
+        >
+          {isExportingGLB ? (
+            <Loader2 size={18} className="text-orange-400 animate-spin" />
+          ) : (
+            <Box size={18} className="text-orange-400" />
+          )}
+          <div>
+            <div className="text-white text-sm font-medium">
+              {isExportingGLB ? 'Exporting...' : 'Download 3D Model'}
+            </div>
+            <div className="text-gray-400 text-xs">
+              {exportError || 'GLB for Blender & 3D viewers'}
+            </div>
+          </div>
+        </button>
+
         {/* Save to Browser */}
         <button
           onClick={handleSave}
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { X, CreditCard, Lock, Loader2 } from 'lucide-react';
+import { CurrencyCode, StripeCheckoutSession, formatPrice } from '../types';
+import { api } from '../convex-dev';
+import { TEST_CARDS } from '../convex-dev/stripe';
+
+interface StripeCheckoutProps {
+  checkoutSession: StripeCheckoutSession | null;
+  onPaid: (checkoutSession: StripeCheckoutSession) => Promise<void>;
+  onCancel: (checkoutSession: StripeCheckoutSession) => Promise<void>;
+}
+
+const TEST_CARD_HINTS = [
+  { label: 'Succeeds', number: TEST_CARDS.success },
+  { label: 'Declined', number: TEST_CARDS.declined },
+  { label: 'Insufficient funds', number: TEST_CARDS.insufficientFunds },
+];
+
+const formatCardNumber = (value: string) =>
+  value
+    .replace(/\D/g, '')
+    .slice(0, 16)
+    .replace(/(\d{4})(?=\d)/g, '$1 ');
+
+/**
+ * Local stand-in for Stripe's hosted checkout page (see convex-dev/stripe.ts)
+ */
+export const StripeCheckout: React.FC<StripeCheckoutProps> = ({ checkoutSession, onPaid, onCancel }) => {
+  const [cardNumber, setCardNumber] = useState(formatCardNumber(TEST_CARDS.success));
+  const [error, setError] = useState<string | null>(null);
+  const [isPaying, setIsPaying] = useState(false);
+
+  if (!checkoutSession) return null;
+
+  const amount = formatPrice(checkoutSession.amount_total, checkoutSession.currency as CurrencyCode);
+
+  const handlePay = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsPaying(true);
+    try {
+      const result = await api.stripe.payCheckoutSession({
+        checkoutSessionId: checkoutSession.id,
+        cardNumber,
+      });
+      if (result.success) {
+        await onPaid(result.checkoutSession!);
+      } else {
+        setError(result.error || 'Payment failed');
+      }
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 pointer-events-auto">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" />
+
+      {/* Modal */}
+      <div className="absolute inset-4 md:inset-auto md:top-1/2 md:left-1/2 md:-translate-x-1/2 md:-translate-y-1/2 md:w-full md:max-w-sm bg-white rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div>
+            <p className="text-xs text-gray-500">Pay Christmas Tree Shop</p>
+            <p className="text-2xl font-semibold text-gray-900">{amount}</p>
+          </div>
+          <button
+            onClick={() => onCancel(checkoutSession)}
+            disabled={isPaying}
+            className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 transition-colors"
+            title="Cancel payment"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handlePay} className="p-4 space-y-4">
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Email</label>
+            <div className="text-sm text-gray-900">{checkoutSession.customer_email}</div>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Card number</label>
+            <div className="relative">
+              <CreditCard size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+              <input
+                value={cardNumber}
+                onChange={(e) => setCardNumber(formatCardNumber(e.target.value))}
+                inputMode="numeric"
+                autoComplete="off"
+                className="w-full border border-gray-300 rounded-lg pl-9 pr-3 py-2 text-sm text-gray-900 font-mono focus:outline-none focus:border-indigo-500"
+              />
+            </div>
+          </div>
+
+          {/* Test cards */}
+          <div className="flex flex-wrap gap-1">
+            {TEST_CARD_HINTS.map((card) => (
+              <button
+                key={card.number}
+                type="button"
+                onClick={() => setCardNumber(formatCardNumber(card.number))}
+                className="text-[10px] px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 text-gray-600 transition-colors"
+              >
+                {card.label}
+              </button>
+            ))}
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isPaying}
+            className="w-full py-3 px-4 rounded-xl font-semibold flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-500 disabled:bg-indigo-400 text-white transition-colors"
+          >
+            {isPaying ? (
+              <>
+                <Loader2 size={18} className="animate-spin" />
+                Processing...
+              </>
+            ) : (
+              <>Pay {amount}</>
+            )}
+          </button>
+
+          <p className="flex items-center justify-center gap-1 text-[10px] text-gray-400">
+            <Lock size={10} />
+            Test mode · no real payment is made
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default StripeCheckout;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Canvas } from '@react-three/fiber';
+import { OrbitControls, PerspectiveCamera } from '@react-three/drei';
+import { PineTree } from './PineTree';
+import { OrnamentMesh } from './Ornaments';
+import { TreeTopper, getTopperPosition } from './TreeTopper';
+import { Garland } from './Garland';
+import { SceneEnvironment } from './SceneEnvironment';
+import { DEFAULT_THEME, SceneTheme } from '../data/themes';
+import { GarlandData, OrnamentData, TreeConfig, TreeTopperData } from '../types';
+
+interface TreePreviewProps {
+  treeConfig: TreeConfig;
+  ornaments: OrnamentData[];
+  topper: TreeTopperData | null;
+  garlands?: GarlandData[];
+  theme?: SceneTheme;
+  className?: string;
+}
+
+/**
+ * Read-only view of a decorated tree (e.g. the snapshot saved with an order).
+ * Laid out like the decorator's scene in App.tsx; it can be orbited but not edited.
+ */
+export const TreePreview: React.FC<TreePreviewProps> = ({
+  treeConfig,
+  ornaments,
+  topper,
+  garlands = [],
+  theme = DEFAULT_THEME,
+  className,
+}) => {
+  return (
+    <div className={className}>
+      <Canvas
+        shadows
+        dpr={[1, 2]}
+        gl={{ antialias: true, alpha: false }}
+        style={{ background: theme.skyColor }}
+      >
+        <PerspectiveCamera makeDefault position={[0, 3, 14]} fov={40} />
+        <SceneEnvironment theme={theme} />
+
+        <group position={[0, -2, 0]}>
+          <PineTree config={treeConfig} />
+          <TreeTopper data={topper} position={getTopperPosition(treeConfig)} />
+        </group>
+
+        <group>
+          {ornaments.map((orn) => (
+            <OrnamentMesh key={orn.id} data={orn} />
+          ))}
+          {garlands.map((garland) => (
+            <Garland key={garland.id} data={garland} />
+          ))}
+        </group>
+
+        <OrbitControls
+          makeDefault
+          minPolarAngle={0.3}
+          maxPolarAngle={Math.PI / 2.1}
+          enablePan={false}
+          minDistance={6}
+          maxDistance={25}
+          target={[0, 1.5, 0]}
+          enableDamping
+          dampingFactor={0.05}
+        />
+      </Canvas>
+    </div>
+  );
+};
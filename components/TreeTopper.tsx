@@ -2,7 +2,7 @@ import React, { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { useCursor } from '@react-three/drei';
 import * as THREE from 'three';
-import { TreeTopperData, TopperType } from '../types';
+import { TreeConfig, TreeTopperData, TopperType } from '../types';
 
 interface TreeTopperProps {
   data: TreeTopperData | null;
@@ -49,7 +49,7 @@ const StarTopper: React.FC<{ color: string; glow: boolean }> = ({ color, glow })
   });
 
   return (
-    <group ref={groupRef}>
+    <group ref={groupRef} userData={{ exportResetRotation: true }}>
       {/* Main star */}
       <mesh castShadow>
         <extrudeGeometry
@@ -112,7 +112,7 @@ const SnowflakeTopper: React.FC<{ color: string; glow: boolean }> = ({ color, gl
   });
 
   return (
-    <group ref={groupRef}>
+    <group ref={groupRef} userData={{ exportResetRotation: true }}>
       {/* Main arms */}
       {Array.from({ length: arms }).map((_, i) => (
         <group key={i} rotation={[0, 0, (i / arms) * Math.PI * 2]}>
@@ -186,6 +186,14 @@ const SnowflakeTopper: React.FC<{ color: string; glow: boolean }> = ({ color, gl
 // MAIN TREE TOPPER COMPONENT
 // ============================================
 
+/**
+ * Where the topper sits on a tree, relative to the tree's group
+ */
+export function getTopperPosition(config: TreeConfig): [number, number, number] {
+  const treeTopY = 1.0 + 4 * (config.height * 0.18) + config.height * 0.25 + 0.3;
+  return [0, treeTopY - 1, 0];
+}
+
 export const TreeTopper: React.FC<TreeTopperProps> = ({
   data,
   position,
@@ -212,6 +220,7 @@ export const TreeTopper: React.FC<TreeTopperProps> = ({
 
   return (
     <group
+      name="tree-topper"
       position={position}
       scale={data?.scale || 1}
       onPointerOver={() => setHovered(true)}
@@ -222,7 +231,7 @@ export const TreeTopper: React.FC<TreeTopperProps> = ({
         renderTopper(data.type, data.color, data.glow)
       ) : (
         // Placeholder when no topper is set
-        <group>
+        <group userData={{ excludeFromExport: true }}>
           <mesh>
             <sphereGeometry args={[0.15, 16, 16]} />
             <meshBasicMaterial
@@ -238,7 +247,7 @@ export const TreeTopper: React.FC<TreeTopperProps> = ({
 
       {/* Hover highlight in placement mode */}
       {isPlacementMode && hovered && !data && (
-        <mesh scale={1.2}>
+        <mesh scale={1.2} userData={{ excludeFromExport: true }}>
           <sphereGeometry args={[0.2, 16, 16]} />
           <meshBasicMaterial color="#ffff00" transparent opacity={0.2} />
         </mesh>
@@ -6,14 +6,30 @@
  * export { api } from "convex/_generated/api";
  */
 
+import * as admin from '../admin';
 import * as auth from '../auth';
 import * as cart from '../cart';
+import * as catalog from '../catalog';
+import * as inventory from '../inventory';
 import * as orders from '../orders';
+import * as promotions from '../promotions';
+import * as sessions from '../sessions';
+import * as stripe from '../stripe';
+import * as subscriptions from '../subscriptions';
+import * as webhooks from '../webhooks';
 
 export const api = {
+  admin,
   auth,
   cart,
+  catalog,
+  inventory,
   orders,
+  promotions,
+  sessions,
+  stripe,
+  subscriptions,
+  webhooks,
 } as const;
 
 export type Api = typeof api;
@@ -0,0 +1,179 @@
+/**
+ * Admin Functions
+ *
+ * These functions mimic Convex queries and mutations for the staff area
+ * at /admin. Every function takes the caller's auth token and refuses
+ * anyone without the admin role, then hands over to the module that owns
+ * the data (orders, auth, catalog, inventory).
+ */
+
+import {
+  CancellationReason,
+  Order,
+  OrderActor,
+  OrderStatus,
+  StockAvailability,
+  User,
+  UserRole,
+} from '../types';
+import { getUnshippedLines, OrderLifecycleError } from '../data/orderLifecycle';
+import * as authInternal from './authInternal';
+import * as catalog from './catalog';
+import * as inventory from './inventory';
+import * as orders from './orders';
+
+export interface AdminResult {
+  success: boolean;
+  error?: string;
+}
+
+const NOT_ADMIN: AdminResult = { success: false, error: 'Only admins can do this' };
+
+const toActor = (admin: Omit<User, 'passwordHash'>): OrderActor => ({
+  type: 'staff',
+  id: admin.id,
+  name: admin.name || admin.email,
+});
+
+/**
+ * Run an order mutation as the admin, turning lifecycle errors into results
+ */
+async function changeOrder(
+  token: string,
+  change: (actor: OrderActor) => Promise<Order>
+): Promise<AdminResult & { order?: Order }> {
+  const admin = await authInternal.getAdmin({ token });
+  if (!admin) return NOT_ADMIN;
+
+  try {
+    return { success: true, order: await change(toActor(admin)) };
+  } catch (e) {
+    if (e instanceof OrderLifecycleError) return { success: false, error: e.message };
+    throw e;
+  }
+}
+
+// ============================================
+// ORDERS
+// ============================================
+
+/**
+ * All orders, newest first, optionally only those in one status
+ * Convex: query({ args: { token, status? }, handler: ... })
+ */
+export async function listOrders(args: {
+  token: string;
+  status?: OrderStatus;
+}): Promise<AdminResult & { orders?: Order[] }> {
+  if (!(await authInternal.getAdmin({ token: args.token }))) return NOT_ADMIN;
+  return { success: true, orders: await orders.list({ status: args.status }) };
+}
+
+/**
+ * Move an order on to paid, processing or delivered
+ * Convex: mutation({ args: { token, orderId, to }, handler: ... })
+ */
+export async function advanceOrder(args: {
+  token: string;
+  orderId: string;
+  to: 'paid' | 'processing' | 'delivered';
+}): Promise<AdminResult & { order?: Order }> {
+  return changeOrder(args.token, (actor) => orders.transition({ orderId: args.orderId, to: args.to, actor }));
+}
+
+/**
+ * Ship everything still outstanding, with the carrier's tracking number
+ * Convex: mutation({ args: { token, orderId, carrier?, trackingNumber }, handler: ... })
+ */
+export async function shipOrder(args: {
+  token: string;
+  orderId: string;
+  carrier?: string;
+  trackingNumber: string;
+}): Promise<AdminResult & { order?: Order }> {
+  if (!args.trackingNumber.trim()) return { success: false, error: 'Enter a tracking number' };
+
+  return changeOrder(args.token, async (actor) => {
+    const order = await orders.getById({ orderId: args.orderId });
+    return orders.recordShipment({
+      orderId: args.orderId,
+      lines: order ? getUnshippedLines(order) : [],
+      carrier: args.carrier?.trim() || undefined,
+      trackingNumber: args.trackingNumber.trim(),
+      actor,
+    });
+  });
+}
+
+/**
+ * Cancel an order that hasn't shipped yet
+ * Convex: mutation({ args: { token, orderId, reason, note? }, handler: ... })
+ */
+export async function cancelOrder(args: {
+  token: string;
+  orderId: string;
+  reason: CancellationReason;
+  note?: string;
+}): Promise<AdminResult & { order?: Order }> {
+  return changeOrder(args.token, (actor) =>
+    orders.cancel({ orderId: args.orderId, reason: args.reason, note: args.note, actor })
+  );
+}
+
+// ============================================
+// USERS
+// ============================================
+
+/**
+ * All accounts with their tiers, newest first
+ * Convex: query({ args: { token }, handler: ... })
+ */
+export async function listUsers(args: {
+  token: string;
+}): Promise<AdminResult & { users?: Array<Omit<User, 'passwordHash'>> }> {
+  if (!(await authInternal.getAdmin({ token: args.token }))) return NOT_ADMIN;
+  return { success: true, users: await authInternal.listUsers() };
+}
+
+/**
+ * Make an account an admin or a customer. Admins can't demote themselves,
+ * so there is always at least one left.
+ * Convex: mutation({ args: { token, userId, role }, handler: ... })
+ */
+export async function setUserRole(args: { token: string; userId: string; role: UserRole }): Promise<AdminResult> {
+  const admin = await authInternal.getAdmin({ token: args.token });
+  if (!admin) return NOT_ADMIN;
+  if (admin.id === args.userId && args.role !== 'admin') {
+    return { success: false, error: "You can't remove your own admin role" };
+  }
+
+  const result = await authInternal.setRole({ userId: args.userId, role: args.role });
+  return { success: result.success, error: result.error };
+}
+
+// ============================================
+// CATALOG
+// ============================================
+
+/**
+ * Change a product's CHF price
+ * Convex: mutation({ args: { token, productId, amount }, handler: ... })
+ */
+export async function setPrice(args: { token: string; productId: string; amount: number }): Promise<AdminResult> {
+  const admin = await authInternal.getAdmin({ token: args.token });
+  if (!admin) return NOT_ADMIN;
+  return catalog.setPrice({ productId: args.productId, amount: args.amount, updatedBy: admin.id });
+}
+
+/**
+ * Set the count on hand after a delivery or stocktake
+ * Convex: mutation({ args: { token, productId, onHand }, handler: ... })
+ */
+export async function setStock(args: {
+  token: string;
+  productId: string;
+  onHand: number;
+}): Promise<AdminResult & { stock?: StockAvailability }> {
+  if (!(await authInternal.getAdmin({ token: args.token }))) return NOT_ADMIN;
+  return inventory.setStock({ productId: args.productId, onHand: args.onHand });
+}
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as auth from './auth';
+
+// ============================================
+// FIXTURES
+// ============================================
+
+const PASSWORD = 'correct horse 1';
+const START = new Date('2026-12-01T10:00:00Z').getTime();
+
+// Unknown emails never reach the (slow) password check, but count the same
+const fail = (email = 'nobody@example.com', clientId?: string) =>
+  auth.login({ email, password: 'wrong password 1', clientId });
+
+const advance = (ms: number) => vi.setSystemTime(Date.now() + ms);
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(START);
+  auth._reset();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('auth login throttling', () => {
+  it('allows a few failures, then doubles the wait after each one', async () => {
+    for (let i = 0; i < 3; i++) {
+      expect((await fail()).code).toBe('invalid_credentials');
+    }
+
+    const waits: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      const blocked = await fail();
+      expect(blocked.code).toBe('rate_limited');
+      waits.push(blocked.retryAt! - Date.now());
+
+      vi.setSystemTime(blocked.retryAt!);
+      expect((await fail()).code).toBe('invalid_credentials');
+    }
+    expect(waits).toEqual([1000, 2000, 4000, 8000]);
+  });
+
+  it('caps the wait at a minute', async () => {
+    for (let i = 0; i < 9; i++) {
+      advance(60 * 1000);
+      expect((await fail()).code).toBe('invalid_credentials');
+    }
+    // Doubling would make this 64 seconds
+    const blocked = await fail();
+    expect(blocked.code).toBe('rate_limited');
+    expect(blocked.retryAt! - Date.now()).toBe(60 * 1000);
+  });
+
+  it('locks the email out after ten failures and lets it try again afterwards', async () => {
+    for (let i = 0; i < 10; i++) {
+      expect((await fail()).code).toBe('invalid_credentials');
+      advance(60 * 1000);
+    }
+
+    const locked = await fail();
+    expect(locked.code).toBe('account_locked');
+    expect(locked.error).toMatch(/locked for \d+ minutes/);
+
+    vi.setSystemTime(locked.retryAt!);
+    expect((await fail()).code).toBe('invalid_credentials');
+  });
+
+  it('forgets failures older than the window', async () => {
+    for (let i = 0; i < 3; i++) await fail();
+    advance(15 * 60 * 1000 + 1);
+    expect((await fail()).code).toBe('invalid_credentials');
+  });
+
+  it('counts an email however it is typed', async () => {
+    await fail('bob@example.com');
+    await fail(' Bob@Example.com');
+    await fail('BOB@EXAMPLE.COM ');
+    expect((await fail('bob@example.com')).code).toBe('rate_limited');
+    expect((await fail('alice@example.com')).code).toBe('invalid_credentials');
+  });
+
+  it('throttles a client trying many accounts', async () => {
+    await fail('a@example.com', 'browser-1');
+    await fail('b@example.com', 'browser-1');
+    await fail('c@example.com', 'browser-1');
+    expect((await fail('d@example.com', 'browser-1')).code).toBe('rate_limited');
+    expect((await fail('d@example.com', 'browser-2')).code).toBe('invalid_credentials');
+  });
+
+  it('clears the email on success but keeps the client history', async () => {
+    await auth.signup({ email: 'carol@example.com', password: PASSWORD });
+    await fail('carol@example.com', 'browser-1');
+    await fail('carol@example.com', 'browser-1');
+
+    const result = await auth.login({ email: 'Carol@example.com', password: PASSWORD, clientId: 'browser-1' });
+    expect(result.success).toBe(true);
+
+    // Two failures left on the client; the third still counts
+    await fail('dave@example.com', 'browser-1');
+    expect((await fail('erin@example.com', 'browser-1')).code).toBe('rate_limited');
+    expect((await fail('carol@example.com', 'browser-2')).code).toBe('invalid_credentials');
+  });
+
+  it('counts parallel attempts before checking any of them', async () => {
+    await auth.signup({ email: 'frank@example.com', password: PASSWORD });
+
+    const results = await Promise.all(Array.from({ length: 5 }, () => fail('frank@example.com')));
+    expect(results.map((r) => r.code).sort()).toEqual([
+      'invalid_credentials',
+      'invalid_credentials',
+      'invalid_credentials',
+      'rate_limited',
+      'rate_limited',
+    ]);
+  });
+});
@@ -13,9 +13,10 @@
  *    - Custom API server
  *
  * 2. PASSWORD HANDLING:
- *    - Never store plain text passwords
- *    - Use bcrypt or similar for hashing
- *    - For Convex: use convex-helpers or implement server-side hashing
+ *    - Salted PBKDF2-SHA256 via WebCrypto (works in browsers and Convex actions)
+ *    - Iterations are stored in each hash, so raising them only rehashes
+ *      accounts on their next login
+ *    - Reset tokens are single use, expire after an hour and are stored hashed
  *
  * 3. SESSION/TOKEN MANAGEMENT:
  *    - JWT tokens (stateless)
@@ -29,133 +30,251 @@
  *    - Use v.string(), v.object() etc. for argument validation
  */
 
-import { User, AuthSession, AuthResult, SignupData, LoginData } from '../types';
+import {
+  User,
+  AuthSession,
+  AuthResult,
+  SignupData,
+  LoginData,
+  PasswordResetToken,
+} from '../types';
+import { createQuota } from '../data/quotas';
+import {
+  usersStore,
+  sessionsStore,
+  resetTokensStore,
+  loginThrottleStore,
+  authListeners,
+  notifyListeners,
+  clearAuthStore,
+  normalizeEmail,
+  findUserByEmail,
+} from './authStore';
 
 // ============================================
-// STORAGE LAYER - TODO: Replace with real backend
+// STORAGE LAYER
 // ============================================
 
-const USERS_STORAGE_KEY = 'christmas_tree_users';
-const SESSIONS_STORAGE_KEY = 'christmas_tree_sessions';
-
-// In-memory stores (mimics Convex tables)
-const usersStore: Map<string, User> = new Map();
-const sessionsStore: Map<string, AuthSession> = new Map();
-let authListeners: Set<() => void> = new Set();
-
-// TODO: Replace with Convex schema definition:
-// ```
-// // In convex/schema.ts
-// import { defineSchema, defineTable } from "convex/server";
-// import { v } from "convex/values";
-//
-// export default defineSchema({
-//   users: defineTable({
-//     email: v.string(),
-//     passwordHash: v.string(),
-//     name: v.optional(v.string()),
-//     createdAt: v.number(),
-//     updatedAt: v.number(),
-//   }).index("by_email", ["email"]),
-//
-//   sessions: defineTable({
-//     userId: v.id("users"),
-//     token: v.string(),
-//     expiresAt: v.number(),
-//     createdAt: v.number(),
-//   }).index("by_token", ["token"])
-//     .index("by_user", ["userId"]),
-// });
-// ```
-
-// Load from localStorage on init
-const loadFromStorage = () => {
-  try {
-    if (typeof window === 'undefined') return;
+// The tables live in authStore.ts, shared with the internal functions
+// in authInternal.ts (which the client api doesn't expose)
 
-    const storedUsers = localStorage.getItem(USERS_STORAGE_KEY);
-    if (storedUsers) {
-      const data = JSON.parse(storedUsers) as Record<string, User>;
-      Object.entries(data).forEach(([key, user]) => usersStore.set(key, user));
-    }
+const generateId = () => `user_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+const generateToken = () => `token_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
 
-    const storedSessions = localStorage.getItem(SESSIONS_STORAGE_KEY);
-    if (storedSessions) {
-      const data = JSON.parse(storedSessions) as Record<string, AuthSession>;
-      Object.entries(data).forEach(([key, session]) => sessionsStore.set(key, session));
-    }
-  } catch (e) {
-    console.error('Failed to load auth from storage:', e);
-  }
-};
+// ============================================
+// PASSWORD HASHING
+// ============================================
 
-const saveToStorage = () => {
+// Hashes are stored as `pbkdf2-sha256$<iterations>$<salt>$<key>` (base64)
+const PASSWORD_HASH_SCHEME = 'pbkdf2-sha256';
+const PBKDF2_ITERATIONS = 600_000; // OWASP recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_SALT_BYTES = 16;
+const PBKDF2_KEY_BYTES = 32;
+
+// Placeholder format used before hashing was implemented; upgraded on login
+const LEGACY_HASH_PATTERN = /^hashed_([\s\S]*)_\d+$/;
+
+interface ParsedPasswordHash {
+  iterations: number;
+  salt: Uint8Array;
+  key: Uint8Array;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+
+async function deriveKey(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    keyMaterial,
+    PBKDF2_KEY_BYTES * 8
+  );
+  return new Uint8Array(bits);
+}
+
+function parsePasswordHash(stored: string): ParsedPasswordHash | null {
+  const [scheme, iterations, salt, key] = stored.split('$');
+  const rounds = Number(iterations);
+  if (scheme !== PASSWORD_HASH_SCHEME || !key || !Number.isInteger(rounds) || rounds < 1) {
+    return null;
+  }
   try {
-    if (typeof window === 'undefined') return;
+    return { iterations: rounds, salt: fromBase64(salt), key: fromBase64(key) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compare without exiting early, so timing doesn't leak how much matched
+ */
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
 
-    const usersData: Record<string, User> = {};
-    usersStore.forEach((user, key) => (usersData[key] = user));
-    localStorage.setItem(USERS_STORAGE_KEY, JSON.stringify(usersData));
+/**
+ * Hash password with a fresh random salt
+ */
+async function hashPassword(password: string, iterations = PBKDF2_ITERATIONS): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(PBKDF2_SALT_BYTES));
+  const key = await deriveKey(password, salt, iterations);
+  return [PASSWORD_HASH_SCHEME, iterations, toBase64(salt), toBase64(key)].join('$');
+}
 
-    const sessionsData: Record<string, AuthSession> = {};
-    sessionsStore.forEach((session, key) => (sessionsData[key] = session));
-    localStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(sessionsData));
-  } catch (e) {
-    console.error('Failed to save auth to storage:', e);
+/**
+ * Verify password against hash, using the iterations stored in the hash
+ */
+async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  const parsed = parsePasswordHash(hash);
+  if (!parsed) {
+    const legacy = LEGACY_HASH_PATTERN.exec(hash);
+    return legacy !== null && legacy[1] === password;
   }
-};
+  const key = await deriveKey(password, parsed.salt, parsed.iterations);
+  return constantTimeEqual(key, parsed.key);
+}
 
-loadFromStorage();
+/**
+ * Whether a hash is weaker than what new passwords get
+ */
+function needsRehash(hash: string): boolean {
+  const parsed = parsePasswordHash(hash);
+  return !parsed || parsed.iterations < PBKDF2_ITERATIONS;
+}
 
-const notifyListeners = () => {
-  saveToStorage();
-  authListeners.forEach((l) => l());
-};
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
 
-const generateId = () => `user_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-const generateToken = () => `token_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+const RESET_TOKEN_TTL = 60 * 60 * 1000; // 1 hour
+const RESET_TOKEN_BYTES = 32;
+
+const generateResetToken = () => toHex(crypto.getRandomValues(new Uint8Array(RESET_TOKEN_BYTES)));
+
+/**
+ * Reset tokens are looked up by hash, so a leaked table can't be used to reset passwords
+ */
+async function hashResetToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return toHex(new Uint8Array(digest));
+}
+
+async function findResetToken(token: string): Promise<PasswordResetToken | undefined> {
+  const tokenHash = await hashResetToken(token);
+  return Array.from(resetTokensStore.values()).find((t) => t.tokenHash === tokenHash);
+}
+
+function isResetTokenUsable(record: PasswordResetToken | undefined): boolean {
+  return !!record && !record.usedAt && record.expiresAt > Date.now();
+}
 
 // ============================================
-// HELPER FUNCTIONS - TODO: Implement properly
+// LOGIN THROTTLING
 // ============================================
 
+// Failed attempts are counted per email and per client over a sliding window.
+// After a few free attempts each further failure doubles the wait before the
+// next one; too many failures lock the email (or client) out for a while.
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const LOGIN_FREE_ATTEMPTS = 3;
+const LOGIN_BACKOFF_BASE_MS = 1000;
+const LOGIN_BACKOFF_MAX_MS = 60 * 1000;
+const LOGIN_LOCKOUT_MS = 15 * 60 * 1000;
+const EMAIL_LOCKOUT_THRESHOLD = 10;
+// Higher, since one browser may legitimately try several accounts
+const CLIENT_LOCKOUT_THRESHOLD = 25;
+
+// Takes the normalized email, the same one the account is looked up by
+const emailThrottleKey = (email: string) => `email:${email}`;
+const clientThrottleKey = (clientId: string) => `client:${clientId}`;
+
+function getRecentFailures(key: string, now: number): number[] {
+  const throttle = loginThrottleStore.get(key);
+  return (throttle?.failures ?? []).filter((t) => t > now - LOGIN_WINDOW_MS);
+}
+
 /**
- * Hash password
- * TODO: Implement with bcrypt or similar
- *
- * For Convex, you might use:
- * - bcryptjs (pure JS, works in Convex)
- * - Or use Convex Auth (built-in solution)
- *
- * Example with bcryptjs:
- * ```
- * import bcrypt from 'bcryptjs';
- * const hashPassword = async (password: string) => {
- *   return await bcrypt.hash(password, 10);
- * };
- * ```
+ * When the next attempt for this key is allowed, if it is currently blocked
  */
-async function hashPassword(password: string): Promise<string> {
-  // TODO: IMPLEMENT - This is NOT secure, just a placeholder
-  // WARNING: Never use this in production!
-  return `hashed_${password}_${Date.now()}`;
+function getThrottleBlock(
+  key: string,
+  now: number
+): { code: 'rate_limited' | 'account_locked'; retryAt: number } | null {
+  const throttle = loginThrottleStore.get(key);
+  if (throttle?.lockedUntil && throttle.lockedUntil > now) {
+    return { code: 'account_locked', retryAt: throttle.lockedUntil };
+  }
+
+  const failures = getRecentFailures(key, now);
+  if (failures.length < LOGIN_FREE_ATTEMPTS) return null;
+
+  const backoff = Math.min(
+    LOGIN_BACKOFF_BASE_MS * 2 ** (failures.length - LOGIN_FREE_ATTEMPTS),
+    LOGIN_BACKOFF_MAX_MS
+  );
+  const retryAt = failures[failures.length - 1] + backoff;
+  return retryAt > now ? { code: 'rate_limited', retryAt } : null;
 }
 
 /**
- * Verify password against hash
- * TODO: Implement with bcrypt or similar
- *
- * Example with bcryptjs:
- * ```
- * const verifyPassword = async (password: string, hash: string) => {
- *   return await bcrypt.compare(password, hash);
- * };
- * ```
+ * Count an attempt as failed before the password is checked. Checking takes
+ * a while (see hashPassword), so attempts made meanwhile must already see it.
  */
-async function verifyPassword(password: string, hash: string): Promise<boolean> {
-  // TODO: IMPLEMENT - This is NOT secure, just a placeholder
-  // WARNING: Never use this in production!
-  return hash.startsWith(`hashed_${password}_`);
+function recordLoginAttempt(key: string, now: number): void {
+  loginThrottleStore.set(key, { key, failures: [...getRecentFailures(key, now), now] });
+}
+
+/**
+ * Settle an attempt recorded at `now`: take it back if it succeeded, or
+ * lock the key out if it was one failure too many
+ */
+function settleLoginAttempt(key: string, now: number, succeeded: boolean, lockoutThreshold: number): void {
+  const throttle = loginThrottleStore.get(key);
+  if (!throttle) return;
+
+  if (succeeded) {
+    const index = throttle.failures.lastIndexOf(now);
+    if (index !== -1) {
+      loginThrottleStore.set(key, { ...throttle, failures: throttle.failures.filter((_, i) => i !== index) });
+    }
+    return;
+  }
+
+  if (getRecentFailures(key, now).length >= lockoutThreshold) {
+    // Start over once the lockout ends
+    loginThrottleStore.set(key, { key, failures: [], lockedUntil: now + LOGIN_LOCKOUT_MS });
+  }
+}
+
+function formatRetryAfter(retryAt: number, now: number): string {
+  const seconds = Math.ceil((retryAt - now) / 1000);
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+/**
+ * Log a user out everywhere
+ */
+function revokeUserSessions(userId: string): void {
+  sessionsStore.forEach((session, token) => {
+    if (session.userId === userId) {
+      sessionsStore.delete(token);
+    }
+  });
 }
 
 /**
@@ -229,7 +348,8 @@ function isValidPassword(password: string): { valid: boolean; error?: string } {
  * ```
  */
 export async function signup(args: SignupData): Promise<AuthResult> {
-  const { email, password, name } = args;
+  const { password, name } = args;
+  const email = normalizeEmail(args.email);
 
   // Validate email
   if (!isValidEmail(email)) {
@@ -243,9 +363,7 @@ export async function signup(args: SignupData): Promise<AuthResult> {
   }
 
   // Check if email already exists
-  // TODO: For Convex, use: ctx.db.query("users").withIndex("by_email", ...)
-  const existingUser = Array.from(usersStore.values()).find(u => u.email === email);
-  if (existingUser) {
+  if (findUserByEmail(email)) {
     return { success: false, error: 'Email already registered' };
   }
 
@@ -260,6 +378,10 @@ export async function signup(args: SignupData): Promise<AuthResult> {
     email,
     passwordHash,
     name,
+    // Only bootstrapAdmin and existing admins make admins
+    role: 'customer',
+    tier: 'free',
+    quota: createQuota('free'),
     createdAt: now,
     updatedAt: now,
   };
@@ -318,19 +440,61 @@ export async function signup(args: SignupData): Promise<AuthResult> {
  * ```
  */
 export async function login(args: LoginData): Promise<AuthResult> {
-  const { email, password } = args;
+  const { password, clientId } = args;
+  const email = normalizeEmail(args.email);
+
+  // Refuse throttled attempts before looking at the password
+  const now = Date.now();
+  const throttleKeys = [emailThrottleKey(email), ...(clientId ? [clientThrottleKey(clientId)] : [])];
+  const blocks = throttleKeys
+    .map((key) => getThrottleBlock(key, now))
+    .filter((block) => block !== null);
+  if (blocks.length > 0) {
+    const block = blocks.reduce((a, b) => (b.retryAt > a.retryAt ? b : a));
+    const wait = formatRetryAfter(block.retryAt, now);
+    return {
+      success: false,
+      code: block.code,
+      retryAt: block.retryAt,
+      error:
+        block.code === 'account_locked'
+          ? `Too many failed attempts. Sign-in is locked for ${wait}.`
+          : `Too many attempts. Try again in ${wait}.`,
+    };
+  }
+
+  // Counted before the slow check so parallel attempts can't all slip
+  // through the same throttle check
+  throttleKeys.forEach((key) => recordLoginAttempt(key, now));
+  notifyListeners();
 
   // Find user by email
-  // TODO: For Convex, use: ctx.db.query("users").withIndex("by_email", ...)
-  const user = Array.from(usersStore.values()).find(u => u.email === email);
-  if (!user) {
-    return { success: false, error: 'Invalid email or password' };
+  const user = findUserByEmail(email);
+
+  // Verify password. Unknown emails count as failures too, so throttling
+  // doesn't reveal which accounts exist.
+  const validPassword = user ? await verifyPassword(password, user.passwordHash) : false;
+  if (!user || !validPassword) {
+    settleLoginAttempt(emailThrottleKey(email), now, false, EMAIL_LOCKOUT_THRESHOLD);
+    if (clientId) {
+      settleLoginAttempt(clientThrottleKey(clientId), now, false, CLIENT_LOCKOUT_THRESHOLD);
+    }
+    notifyListeners();
+    return { success: false, code: 'invalid_credentials', error: 'Invalid email or password' };
   }
 
-  // Verify password
-  const validPassword = await verifyPassword(password, user.passwordHash);
-  if (!validPassword) {
-    return { success: false, error: 'Invalid email or password' };
+  // The client's history is kept so signing in to one account doesn't
+  // reset throttling for guesses against others
+  loginThrottleStore.delete(emailThrottleKey(email));
+  if (clientId) {
+    settleLoginAttempt(clientThrottleKey(clientId), now, true, CLIENT_LOCKOUT_THRESHOLD);
+  }
+
+  // Bring older hashes up to the current work factor
+  if (needsRehash(user.passwordHash)) {
+    user.passwordHash = await hashPassword(password);
+    user.updatedAt = Date.now();
+    usersStore.set(user.id, user);
   }
 
   // Create new session
@@ -490,8 +654,6 @@ export async function updateProfile(args: {
 
 /**
  * Change password
- *
- * TODO: Implement with proper password verification
  */
 export async function changePassword(args: {
   token: string;
@@ -532,39 +694,89 @@ export async function changePassword(args: {
 
 /**
  * Request password reset
- *
- * TODO: Implement email sending
- * TODO: Create password reset tokens table
+ * Issues a single-use token and replaces any earlier unused ones.
+ * The link is meant to go out by email; development builds also log it to
+ * the console. Production builds never expose it outside that email.
  */
 export async function requestPasswordReset(args: { email: string }): Promise<{ success: boolean; error?: string }> {
-  // TODO: IMPLEMENT
-  // 1. Find user by email
-  // 2. Generate reset token
-  // 3. Store reset token with expiry
-  // 4. Send email with reset link
+  const email = normalizeEmail(args.email);
+  const user = findUserByEmail(email);
+
+  if (user) {
+    resetTokensStore.forEach((record, id) => {
+      if (record.userId === user.id && !record.usedAt) {
+        resetTokensStore.delete(id);
+      }
+    });
+
+    const token = generateResetToken();
+    const now = Date.now();
+    const record: PasswordResetToken = {
+      id: `reset_${now}_${Math.random().toString(36).substring(2, 9)}`,
+      userId: user.id,
+      tokenHash: await hashResetToken(token),
+      expiresAt: now + RESET_TOKEN_TTL,
+      createdAt: now,
+    };
+    resetTokensStore.set(record.id, record);
+    notifyListeners();
+
+    if (import.meta.env.DEV && typeof window !== 'undefined') {
+      console.info(`Password reset link for ${email}: ${window.location.origin}/reset-password?token=${token}`);
+    }
+  }
 
-  console.warn('requestPasswordReset not implemented');
   return { success: true }; // Always return success to prevent email enumeration
 }
 
+/**
+ * Check a reset token before asking for a new password
+ */
+export async function validateResetToken(args: { resetToken: string }): Promise<{ valid: boolean }> {
+  return { valid: isResetTokenUsable(await findResetToken(args.resetToken)) };
+}
+
 /**
  * Reset password with token
- *
- * TODO: Implement token verification
+ * The token is spent and every existing session of the user is logged out.
  */
 export async function resetPassword(args: {
   resetToken: string;
   newPassword: string;
 }): Promise<AuthResult> {
-  // TODO: IMPLEMENT
-  // 1. Verify reset token is valid and not expired
-  // 2. Get user from token
-  // 3. Update password
-  // 4. Delete reset token
-  // 5. Optionally invalidate all existing sessions
-
-  console.warn('resetPassword not implemented');
-  return { success: false, error: 'Not implemented' };
+  const found = await findResetToken(args.resetToken);
+
+  // Spend the token before the next await (hashing is slow), so a second
+  // request with the same token sees it used. Read it again: another request
+  // may have spent it while the lookup was pending.
+  const record = found && resetTokensStore.get(found.id);
+  if (!record || !isResetTokenUsable(record)) {
+    return { success: false, error: 'This reset link is invalid or has expired' };
+  }
+  resetTokensStore.set(record.id, { ...record, usedAt: Date.now() });
+
+  const passwordValidation = isValidPassword(args.newPassword);
+  if (!passwordValidation.valid) {
+    // Nothing was reset: hand the token back so the user can try another password
+    resetTokensStore.set(record.id, record);
+    return { success: false, error: passwordValidation.error };
+  }
+
+  const user = usersStore.get(record.userId);
+  if (!user) {
+    return { success: false, error: 'User not found' };
+  }
+
+  user.passwordHash = await hashPassword(args.newPassword);
+  user.updatedAt = Date.now();
+  usersStore.set(user.id, user);
+
+  revokeUserSessions(user.id);
+  // Proving ownership of the email lifts any lockout on it
+  loginThrottleStore.delete(emailThrottleKey(user.email));
+  notifyListeners();
+
+  return { success: true };
 }
 
 // ============================================
@@ -583,18 +795,12 @@ export function subscribe(callback: () => void): () => void {
  * Reset auth store (for testing)
  */
 export function _reset(): void {
-  usersStore.clear();
-  sessionsStore.clear();
-  if (typeof window !== 'undefined') {
-    localStorage.removeItem(USERS_STORAGE_KEY);
-    localStorage.removeItem(SESSIONS_STORAGE_KEY);
-  }
+  clearAuthStore();
   notifyListeners();
 }
 
 /**
- * Get all users (admin only - for testing)
- * TODO: Add proper admin authorization
+ * Get all users (for testing; the admin uses admin.listUsers)
  */
 export async function _getAllUsers(): Promise<Array<Omit<User, 'passwordHash'>>> {
   return Array.from(usersStore.values()).map(({ passwordHash: _, ...user }) => user);
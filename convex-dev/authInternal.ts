@@ -0,0 +1,121 @@
+/**
+ * Internal Auth Functions
+ *
+ * Server-only functions on the auth tables: admin checks, roles, tiers and
+ * quota usage. They mimic Convex internal queries and mutations, so they are
+ * not part of `api`; only other server modules call them (admin.ts after
+ * checking the caller is an admin, webhooks.ts for paid subscriptions and
+ * lib/api.ts for quota usage).
+ */
+
+import { User, AuthResult, SubscriptionTier, UserRole } from '../types';
+import { createQuota } from '../data/quotas';
+import { usersStore, notifyListeners, findUserByEmail } from './authStore';
+import * as auth from './auth';
+
+/**
+ * The signed-in user if they are an admin (server-side, for admin functions)
+ * Convex: internalQuery({ args: { token }, handler: ... })
+ */
+export async function getAdmin(args: { token: string }): Promise<Omit<User, 'passwordHash'> | null> {
+  const user = await auth.validateSession(args);
+  return user?.role === 'admin' ? user : null;
+}
+
+/**
+ * All accounts, newest first (server-side, for admin functions)
+ * Convex: internalQuery({ args: {}, handler: ... })
+ */
+export async function listUsers(): Promise<Array<Omit<User, 'passwordHash'>>> {
+  return Array.from(usersStore.values())
+    .map(({ passwordHash: _, ...user }) => user)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Make an account an admin or a customer (server-side, for admin functions)
+ * Convex: internalMutation({ args: { userId, role }, handler: ... })
+ */
+export async function setRole(args: { userId: string; role: UserRole }): Promise<AuthResult> {
+  const user = usersStore.get(args.userId);
+  if (!user) {
+    return { success: false, error: 'User not found' };
+  }
+
+  user.role = args.role;
+  user.updatedAt = Date.now();
+  usersStore.set(user.id, user);
+  notifyListeners();
+
+  const { passwordHash: _, ...safeUser } = user;
+  return {
+    success: true,
+    user: safeUser as Omit<User, 'passwordHash'>,
+  };
+}
+
+/**
+ * Make the first admin, when there is none yet. Run once by the operator
+ * after deploying; from then on admins promote others from /admin.
+ * Convex: internalMutation({ args: { email }, handler: ... }), run with
+ *   npx convex run authInternal:bootstrapAdmin '{"email": "..."}'
+ */
+export async function bootstrapAdmin(args: { email: string }): Promise<AuthResult> {
+  if (Array.from(usersStore.values()).some(u => u.role === 'admin')) {
+    return { success: false, error: 'An admin already exists' };
+  }
+
+  const user = findUserByEmail(args.email);
+  if (!user) {
+    return { success: false, error: 'User not found' };
+  }
+  return setRole({ userId: user.id, role: 'admin' });
+}
+
+/**
+ * Move a user to a tier. Limits follow the tier; usage is kept.
+ * Only the payment webhook calls this, once a subscription checkout is paid.
+ * Convex: internalMutation({ args: { userId, tier }, handler: ... })
+ */
+export async function setSubscriptionTier(args: {
+  userId: string;
+  tier: SubscriptionTier;
+}): Promise<AuthResult> {
+  const user = usersStore.get(args.userId);
+  if (!user) {
+    return { success: false, error: 'User not found' };
+  }
+
+  user.tier = args.tier;
+  user.quota = createQuota(args.tier, user.quota);
+  user.updatedAt = Date.now();
+  usersStore.set(user.id, user);
+  notifyListeners();
+
+  const { passwordHash: _, ...safeUser } = user;
+  return {
+    success: true,
+    user: safeUser as Omit<User, 'passwordHash'>,
+  };
+}
+
+/**
+ * Record how many ornaments/toppers a user currently has placed
+ * Convex: internalMutation({ args: { userId, usedOrnaments, usedToppers }, handler: ... })
+ */
+export async function recordQuotaUsage(args: {
+  userId: string;
+  usedOrnaments?: number;
+  usedToppers?: number;
+}): Promise<void> {
+  const user = usersStore.get(args.userId);
+  if (!user) return;
+
+  user.quota = {
+    ...user.quota,
+    usedOrnaments: args.usedOrnaments ?? user.quota.usedOrnaments,
+    usedToppers: args.usedToppers ?? user.quota.usedToppers,
+  };
+  usersStore.set(user.id, user);
+  notifyListeners();
+}
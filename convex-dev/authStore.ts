@@ -0,0 +1,157 @@
+/**
+ * Auth Tables
+ *
+ * The users, sessions, reset token and login throttle tables, shared by
+ * auth.ts (the client-facing functions) and authInternal.ts (server-only
+ * functions). Neither this module nor authInternal.ts is part of `api`.
+ */
+
+import { User, AuthSession, PasswordResetToken, LoginThrottle } from '../types';
+import { createQuota } from '../data/quotas';
+
+// ============================================
+// STORAGE LAYER - TODO: Replace with real backend
+// ============================================
+
+const USERS_STORAGE_KEY = 'christmas_tree_users';
+const SESSIONS_STORAGE_KEY = 'christmas_tree_sessions';
+const RESET_TOKENS_STORAGE_KEY = 'christmas_tree_password_resets';
+const LOGIN_THROTTLE_STORAGE_KEY = 'christmas_tree_login_attempts';
+
+// In-memory stores (mimics Convex tables)
+export const usersStore: Map<string, User> = new Map();
+export const sessionsStore: Map<string, AuthSession> = new Map();
+export const resetTokensStore: Map<string, PasswordResetToken> = new Map();
+export const loginThrottleStore: Map<string, LoginThrottle> = new Map();
+export const authListeners: Set<() => void> = new Set();
+
+// TODO: Replace with Convex schema definition:
+// ```
+// // In convex/schema.ts
+// import { defineSchema, defineTable } from "convex/server";
+// import { v } from "convex/values";
+//
+// export default defineSchema({
+//   users: defineTable({
+//     email: v.string(),
+//     passwordHash: v.string(),
+//     name: v.optional(v.string()),
+//     createdAt: v.number(),
+//     updatedAt: v.number(),
+//   }).index("by_email", ["email"]),
+//
+//   sessions: defineTable({
+//     userId: v.id("users"),
+//     token: v.string(),
+//     expiresAt: v.number(),
+//     createdAt: v.number(),
+//   }).index("by_token", ["token"])
+//     .index("by_user", ["userId"]),
+//
+//   passwordResetTokens: defineTable({
+//     userId: v.id("users"),
+//     tokenHash: v.string(),
+//     expiresAt: v.number(),
+//     createdAt: v.number(),
+//     usedAt: v.optional(v.number()),
+//   }).index("by_token_hash", ["tokenHash"])
+//     .index("by_user", ["userId"]),
+// });
+// ```
+
+// Load from localStorage on init
+const loadFromStorage = () => {
+  try {
+    if (typeof window === 'undefined') return;
+
+    const storedUsers = localStorage.getItem(USERS_STORAGE_KEY);
+    if (storedUsers) {
+      const data = JSON.parse(storedUsers) as Record<string, User>;
+      // Accounts created before subscriptions start on the free tier
+      Object.entries(data).forEach(([key, user]) =>
+        usersStore.set(key, user.tier ? user : { ...user, tier: 'free', quota: createQuota('free') })
+      );
+    }
+
+    const storedSessions = localStorage.getItem(SESSIONS_STORAGE_KEY);
+    if (storedSessions) {
+      const data = JSON.parse(storedSessions) as Record<string, AuthSession>;
+      Object.entries(data).forEach(([key, session]) => sessionsStore.set(key, session));
+    }
+
+    const storedResetTokens = localStorage.getItem(RESET_TOKENS_STORAGE_KEY);
+    if (storedResetTokens) {
+      const data = JSON.parse(storedResetTokens) as Record<string, PasswordResetToken>;
+      Object.entries(data).forEach(([key, token]) => resetTokensStore.set(key, token));
+    }
+
+    const storedThrottles = localStorage.getItem(LOGIN_THROTTLE_STORAGE_KEY);
+    if (storedThrottles) {
+      const data = JSON.parse(storedThrottles) as Record<string, LoginThrottle>;
+      Object.entries(data).forEach(([key, throttle]) => loginThrottleStore.set(key, throttle));
+    }
+  } catch (e) {
+    console.error('Failed to load auth from storage:', e);
+  }
+};
+
+const saveToStorage = () => {
+  try {
+    if (typeof window === 'undefined') return;
+
+    const usersData: Record<string, User> = {};
+    usersStore.forEach((user, key) => (usersData[key] = user));
+    localStorage.setItem(USERS_STORAGE_KEY, JSON.stringify(usersData));
+
+    const sessionsData: Record<string, AuthSession> = {};
+    sessionsStore.forEach((session, key) => (sessionsData[key] = session));
+    localStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(sessionsData));
+
+    const resetTokensData: Record<string, PasswordResetToken> = {};
+    resetTokensStore.forEach((token, key) => (resetTokensData[key] = token));
+    localStorage.setItem(RESET_TOKENS_STORAGE_KEY, JSON.stringify(resetTokensData));
+
+    const throttleData: Record<string, LoginThrottle> = {};
+    loginThrottleStore.forEach((throttle, key) => (throttleData[key] = throttle));
+    localStorage.setItem(LOGIN_THROTTLE_STORAGE_KEY, JSON.stringify(throttleData));
+  } catch (e) {
+    console.error('Failed to save auth to storage:', e);
+  }
+};
+
+loadFromStorage();
+
+export const notifyListeners = () => {
+  saveToStorage();
+  authListeners.forEach((l) => l());
+};
+
+/**
+ * Emails are stored trimmed and lowercased, and looked up the same way
+ */
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * The account for an email, however it was typed
+ * Convex: ctx.db.query("users").withIndex("by_email", (q) => q.eq("email", normalizeEmail(email)))
+ */
+export function findUserByEmail(email: string): User | undefined {
+  const normalized = normalizeEmail(email);
+  return Array.from(usersStore.values()).find((u) => u.email === normalized);
+}
+
+/**
+ * Empty every auth table and its saved copy (for testing)
+ */
+export function clearAuthStore(): void {
+  usersStore.clear();
+  sessionsStore.clear();
+  resetTokensStore.clear();
+  loginThrottleStore.clear();
+  if (typeof window !== 'undefined') {
+    localStorage.removeItem(USERS_STORAGE_KEY);
+    localStorage.removeItem(SESSIONS_STORAGE_KEY);
+    localStorage.removeItem(RESET_TOKENS_STORAGE_KEY);
+    localStorage.removeItem(LOGIN_THROTTLE_STORAGE_KEY);
+  }
+}
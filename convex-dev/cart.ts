@@ -2,9 +2,20 @@
  * Cart Functions
  *
  * These functions mimic Convex queries and mutations for shopping cart.
+ *
+ * A guest's cart is stored under their browser session ID; a signed-in
+ * customer's under their user ID, so it follows them to other devices.
+ * Either is passed as `sessionId`. On login the guest cart is merged into
+ * the account's (mergeGuestCart).
  */
 
-import { Cart, CartItem, CartItemType, CartItemCustomization, calculateCartTotal } from '../types';
+import { Cart, CartItem, CartItemType, CartItemCustomization, CurrencyCode, calculateCartTotal } from '../types';
+import { BASE_CURRENCY, convertPrice } from '../data/currency';
+import { calculateDiscounts } from '../data/discounts';
+import { getProductQuantities } from '../data/inventory';
+import { getProductById } from '../data/products';
+import { assertAvailable } from './inventory';
+import { findPromoCode, validate as validatePromoCode } from './promotions';
 
 // Cart store with localStorage persistence
 const STORAGE_KEY = 'christmas_tree_cart';
@@ -18,7 +29,10 @@ const loadFromStorage = () => {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
       const data = JSON.parse(stored) as Record<string, Cart>;
-      Object.entries(data).forEach(([key, cart]) => cartStore.set(key, cart));
+      // Carts saved before currencies were added are in CHF
+      Object.entries(data).forEach(([key, cart]) =>
+        cartStore.set(key, { ...cart, currency: cart.currency ?? BASE_CURRENCY })
+      );
     }
   } catch (e) {
     console.error('Failed to load cart from storage:', e);
@@ -47,6 +61,42 @@ const notifyListeners = () => {
 const generateId = () => `cart_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 const generateItemId = () => `item_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 
+/**
+ * Recompute subtotal and discounts after the items or promo code changed
+ */
+const withTotals = (cart: Cart): Cart => {
+  const discounts = calculateDiscounts(
+    cart.items,
+    cart.promoCode ? findPromoCode(cart.promoCode) : null,
+    cart.currency
+  );
+  return {
+    ...cart,
+    subtotal: calculateCartTotal(cart.items),
+    discounts: discounts.lines,
+    discountTotal: discounts.total,
+    promoError: discounts.promoError,
+    updatedAt: Date.now(),
+  };
+};
+
+/**
+ * Item prices in another currency, from the catalog
+ */
+const repriceItems = (items: CartItem[], currency: CurrencyCode): CartItem[] =>
+  items.map((item) => {
+    const product = getProductById(item.productId);
+    return product ? { ...item, unitPrice: convertPrice(product.price.amount, currency) } : item;
+  });
+
+/**
+ * Ornaments with the same product, color and position are the same line
+ */
+const isSameLine = (a: CartItem, b: CartItem): boolean =>
+  a.productId === b.productId &&
+  a.customization?.color === b.customization?.color &&
+  JSON.stringify(a.customization?.position) === JSON.stringify(b.customization?.position);
+
 /**
  * Get cart for session
  * Convex: query({ args: { sessionId: v.string() }, handler: ... })
@@ -57,7 +107,10 @@ export async function get(args: { sessionId: string }): Promise<Cart | null> {
 
 /**
  * Add item to cart
- * Convex: mutation({ args: { sessionId, productType, productId, quantity, unitPrice, customization? }, handler: ... })
+ * Convex: mutation({ args: { sessionId, productType, productId, quantity, unitPrice, currency?, customization? }, handler: ... })
+ *
+ * unitPrice is in `currency`; a cart in another currency is re-priced to it first.
+ * Throws OutOfStockError if the cart would hold more of the product than is available.
  */
 export async function addItem(args: {
   sessionId: string;
@@ -65,9 +118,16 @@ export async function addItem(args: {
   productId: string;
   quantity: number;
   unitPrice: number;
+  currency?: CurrencyCode;
   customization?: CartItemCustomization;
+  userId?: string;
 }): Promise<Cart> {
-  let cart = cartStore.get(args.sessionId);
+  const currency = args.currency ?? BASE_CURRENCY;
+  const storedCart = cartStore.get(args.sessionId);
+  const existingCart =
+    storedCart && storedCart.currency !== currency
+      ? { ...storedCart, currency, items: repriceItems(storedCart.items, currency) }
+      : storedCart;
 
   const newItem: CartItem = {
     id: generateItemId(),
@@ -78,9 +138,10 @@ export async function addItem(args: {
     customization: args.customization,
   };
 
-  if (cart) {
+  let newItems: CartItem[] = [newItem];
+  if (existingCart) {
     // Check if same product already exists (for trees/toppers, replace; for ornaments with same customization, update quantity)
-    const existingIndex = cart.items.findIndex((item) => {
+    const existingIndex = existingCart.items.findIndex((item) => {
       if (item.productId !== args.productId) return false;
       if (args.productType === 'tree' || args.productType === 'topper') return true;
       // For ornaments, check customization matches
@@ -95,25 +156,30 @@ export async function addItem(args: {
 
     if (existingIndex >= 0 && (args.productType === 'tree' || args.productType === 'topper')) {
       // Replace tree/topper
-      cart.items[existingIndex] = newItem;
+      newItems = existingCart.items.map((item, i) => (i === existingIndex ? newItem : item));
     } else {
-      cart.items.push(newItem);
+      newItems = [...existingCart.items, newItem];
     }
-
-    cart.subtotal = calculateCartTotal(cart.items);
-    cart.updatedAt = Date.now();
-  } else {
-    cart = {
-      id: generateId(),
-      sessionId: args.sessionId,
-      items: [newItem],
-      subtotal: args.unitPrice * args.quantity,
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
-    };
-    cartStore.set(args.sessionId, cart);
   }
 
+  assertAvailable(getProductQuantities(newItems), args.sessionId);
+
+  const cart = withTotals(
+    existingCart
+      ? { ...existingCart, items: newItems }
+      : {
+          id: generateId(),
+          sessionId: args.sessionId,
+          userId: args.userId,
+          items: newItems,
+          currency,
+          subtotal: 0,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        }
+  );
+  cartStore.set(args.sessionId, cart);
+
   notifyListeners();
   return cart;
 }
@@ -129,12 +195,7 @@ export async function removeItem(args: { sessionId: string; itemId: string }): P
   const newItems = existingCart.items.filter((item) => item.id !== args.itemId);
 
   // Create a new cart object to trigger React re-render
-  const updatedCart: Cart = {
-    ...existingCart,
-    items: newItems,
-    subtotal: calculateCartTotal(newItems),
-    updatedAt: Date.now(),
-  };
+  const updatedCart = withTotals({ ...existingCart, items: newItems });
 
   cartStore.set(args.sessionId, updatedCart);
   notifyListeners();
@@ -144,6 +205,8 @@ export async function removeItem(args: { sessionId: string; itemId: string }): P
 /**
  * Update item quantity
  * Convex: mutation({ args: { sessionId, itemId, quantity }, handler: ... })
+ *
+ * Throws OutOfStockError when raising the quantity beyond what is available.
  */
 export async function updateQuantity(args: {
   sessionId: string;
@@ -163,21 +226,126 @@ export async function updateQuantity(args: {
     newItems = existingCart.items.map((item) =>
       item.id === args.itemId ? { ...item, quantity: args.quantity } : item
     );
+    // Lowering a quantity is always allowed, even if stock dropped meanwhile
+    const current = existingCart.items.find((i) => i.id === args.itemId);
+    if (current && args.quantity > current.quantity) {
+      assertAvailable(getProductQuantities(newItems), args.sessionId);
+    }
   }
 
   // Create a new cart object to trigger React re-render
-  const updatedCart: Cart = {
-    ...existingCart,
-    items: newItems,
-    subtotal: calculateCartTotal(newItems),
-    updatedAt: Date.now(),
-  };
+  const updatedCart = withTotals({ ...existingCart, items: newItems });
 
   cartStore.set(args.sessionId, updatedCart);
   notifyListeners();
   return updatedCart;
 }
 
+/**
+ * Apply a promo code (replaces any code already applied)
+ * Convex: mutation({ args: { sessionId, code }, handler: ... })
+ */
+export async function applyPromoCode(args: {
+  sessionId: string;
+  code: string;
+}): Promise<{ success: boolean; error?: string; cart?: Cart }> {
+  const existingCart = cartStore.get(args.sessionId);
+  if (!existingCart) return { success: false, error: 'Your cart is empty' };
+
+  const promo = findPromoCode(args.code);
+  // Minimum spend is only known once applied, so that check is left to the cart
+  const check = await validatePromoCode({ code: args.code, subtotal: Infinity, currency: existingCart.currency });
+  if (!promo || !check.valid) return { success: false, error: check.error };
+
+  const updatedCart = withTotals({ ...existingCart, promoCode: promo.code });
+  cartStore.set(args.sessionId, updatedCart);
+  notifyListeners();
+  return { success: true, cart: updatedCart };
+}
+
+/**
+ * Remove the promo code
+ * Convex: mutation({ args: { sessionId }, handler: ... })
+ */
+export async function removePromoCode(args: { sessionId: string }): Promise<Cart | null> {
+  const existingCart = cartStore.get(args.sessionId);
+  if (!existingCart) return null;
+
+  const updatedCart = withTotals({ ...existingCart, promoCode: undefined });
+  cartStore.set(args.sessionId, updatedCart);
+  notifyListeners();
+  return updatedCart;
+}
+
+/**
+ * Switch the cart to another currency, re-pricing its items from the catalog
+ * Convex: mutation({ args: { sessionId, currency }, handler: ... })
+ */
+export async function setCurrency(args: { sessionId: string; currency: CurrencyCode }): Promise<Cart | null> {
+  const existingCart = cartStore.get(args.sessionId);
+  if (!existingCart) return null;
+  if (existingCart.currency === args.currency) return existingCart;
+
+  const updatedCart = withTotals({
+    ...existingCart,
+    currency: args.currency,
+    items: repriceItems(existingCart.items, args.currency),
+  });
+  cartStore.set(args.sessionId, updatedCart);
+  notifyListeners();
+  return updatedCart;
+}
+
+/**
+ * Move a guest's cart into their account on login
+ * Convex: mutation({ args: { sessionId, userId }, handler: ... })
+ *
+ * The merged cart is in the guest cart's currency and keeps:
+ *   - the guest's tree and topper, replacing the account's (one of each per bundle)
+ *   - every ornament, with quantities combined where the same ornament is in both
+ *   - every garland from both carts
+ *   - the guest's promo code, or else the account's
+ *
+ * Stock isn't checked here; checkout reserves the merged cart and reports
+ * anything that ran out.
+ */
+export async function mergeGuestCart(args: { sessionId: string; userId: string }): Promise<Cart | null> {
+  const guestCart = cartStore.get(args.sessionId);
+  const accountCart = cartStore.get(args.userId) ?? null;
+  if (!guestCart || guestCart.items.length === 0) return accountCart;
+
+  let items = guestCart.items;
+  if (accountCart) {
+    const accountItems = repriceItems(accountCart.items, guestCart.currency);
+    const replacedTypes = new Set(
+      guestCart.items
+        .filter((item) => item.productType === 'tree' || item.productType === 'topper')
+        .map((item) => item.productType)
+    );
+    items = accountItems.filter((item) => !replacedTypes.has(item.productType));
+    guestCart.items.forEach((guestItem) => {
+      const index =
+        guestItem.productType === 'ornament' ? items.findIndex((item) => isSameLine(item, guestItem)) : -1;
+      items =
+        index >= 0
+          ? items.map((item, i) => (i === index ? { ...item, quantity: item.quantity + guestItem.quantity } : item))
+          : [...items, guestItem];
+    });
+  }
+
+  const merged = withTotals({
+    ...(accountCart ?? guestCart),
+    userId: args.userId,
+    items,
+    currency: guestCart.currency,
+    promoCode: guestCart.promoCode ?? accountCart?.promoCode,
+  });
+  cartStore.delete(args.sessionId);
+  cartStore.set(args.userId, merged);
+  notifyListeners();
+  return merged;
+}
+
 /**
  * Clear cart
  * Convex: mutation({ args: { sessionId }, handler: ... })
@@ -0,0 +1,137 @@
+/**
+ * Catalog Functions
+ *
+ * These functions mimic Convex queries and mutations for product prices.
+ *
+ * Products are defined in data/products.ts. Prices staff change in the
+ * admin are stored here and applied on top of that catalog, so carts,
+ * pricing and the shop UI all pick them up.
+ */
+
+import { PriceOverride } from '../types';
+import {
+  GARLAND_PRODUCTS,
+  ORNAMENT_PRODUCTS,
+  TOPPER_PRODUCTS,
+  TREE_PRODUCTS,
+  getProductById,
+  setProductPrice,
+} from '../data/products';
+
+// ============================================
+// STORAGE LAYER
+// ============================================
+
+const STORAGE_KEY = 'christmas_tree_catalog';
+const overridesStore: Map<string, PriceOverride> = new Map();
+let listeners: Set<() => void> = new Set();
+
+// Convex schema:
+// ```
+// priceOverrides: defineTable({ productId, amount, updatedAt, updatedBy }).index("by_product", ["productId"]),
+// ```
+
+// Prices as shipped in data/products.ts, before any override
+const DEFAULT_PRICES: Map<string, number> = new Map(
+  [...TREE_PRODUCTS, ...ORNAMENT_PRODUCTS, ...TOPPER_PRODUCTS, ...GARLAND_PRODUCTS].map((p) => [p.id, p.price.amount])
+);
+
+const loadFromStorage = () => {
+  try {
+    if (typeof window === 'undefined') return;
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const data = JSON.parse(stored) as Record<string, PriceOverride>;
+      Object.entries(data).forEach(([id, override]) => overridesStore.set(id, override));
+    }
+  } catch (e) {
+    console.error('Failed to load catalog from storage:', e);
+  }
+};
+
+const saveToStorage = () => {
+  try {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(overridesStore)));
+  } catch (e) {
+    console.error('Failed to save catalog to storage:', e);
+  }
+};
+
+loadFromStorage();
+overridesStore.forEach((override) => setProductPrice(override.productId, override.amount));
+
+const notifyListeners = () => {
+  saveToStorage();
+  listeners.forEach((l) => l());
+};
+
+// ============================================
+// QUERIES & MUTATIONS
+// ============================================
+
+/**
+ * Prices staff have changed
+ * Convex: query({ args: {}, handler: ... })
+ */
+export async function listPriceOverrides(): Promise<PriceOverride[]> {
+  return [...overridesStore.values()];
+}
+
+/**
+ * The price in data/products.ts, before any override
+ */
+export function getDefaultPrice(productId: string): number | undefined {
+  return DEFAULT_PRICES.get(productId);
+}
+
+/**
+ * Change a product's CHF price (staff). Setting it back to the default
+ * removes the override. Carts keep the prices their items were added at.
+ * Convex: internalMutation, called from admin.setPrice
+ */
+export function setPrice(args: {
+  productId: string;
+  amount: number;
+  updatedBy?: string;
+}): { success: boolean; error?: string } {
+  if (!getProductById(args.productId)) {
+    return { success: false, error: 'Product not found' };
+  }
+  if (!Number.isInteger(args.amount) || args.amount <= 0) {
+    return { success: false, error: 'Price must be a positive amount in cents' };
+  }
+
+  if (args.amount === DEFAULT_PRICES.get(args.productId)) {
+    overridesStore.delete(args.productId);
+  } else {
+    overridesStore.set(args.productId, {
+      productId: args.productId,
+      amount: args.amount,
+      updatedAt: Date.now(),
+      updatedBy: args.updatedBy,
+    });
+  }
+  setProductPrice(args.productId, args.amount);
+  notifyListeners();
+  return { success: true };
+}
+
+/**
+ * Subscribe to price changes
+ */
+export function subscribe(callback: () => void): () => void {
+  listeners.add(callback);
+  return () => listeners.delete(callback);
+}
+
+/**
+ * Restore the prices in data/products.ts (for testing)
+ */
+export function _reset(): void {
+  overridesStore.forEach((override) =>
+    setProductPrice(override.productId, DEFAULT_PRICES.get(override.productId)!)
+  );
+  overridesStore.clear();
+  notifyListeners();
+}
@@ -9,6 +9,14 @@
 export { api } from './_generated/api';
 
 // Re-export individual modules for direct access if needed
+export * as admin from './admin';
 export * as auth from './auth';
 export * as cart from './cart';
+export * as catalog from './catalog';
+export * as inventory from './inventory';
 export * as orders from './orders';
+export * as promotions from './promotions';
+export * as sessions from './sessions';
+export * as stripe from './stripe';
+export * as subscriptions from './subscriptions';
+export * as webhooks from './webhooks';
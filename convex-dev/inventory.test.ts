@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OutOfStockError, RESERVATION_TTL_MS } from '../data/inventory';
+import * as inventory from './inventory';
+
+// ============================================
+// FIXTURES
+// ============================================
+
+// 8 on hand after a reset
+const TREE = 'tree-large';
+
+const reserve = async (sessionId: string, quantity: number, productId = TREE) => {
+  const result = await inventory.reserve({ sessionId, items: [{ productId, quantity }] });
+  return result.reservation!;
+};
+
+const stock = () => inventory.getStock({ productId: TREE });
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-12-01T10:00:00Z'));
+  inventory._reset();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('inventory reservations', () => {
+  it('hold stock away from other carts', async () => {
+    await reserve('a', 5);
+
+    expect(await stock()).toEqual({ productId: TREE, onHand: 8, reserved: 5, available: 3 });
+    expect(inventory.getAvailable(TREE, 'b')).toBe(3);
+    // A cart's own hold doesn't count against it
+    expect(inventory.getAvailable(TREE, 'a')).toBe(8);
+  });
+
+  it('refuse what other carts have already reserved', async () => {
+    await reserve('a', 5);
+    const result = await inventory.reserve({ sessionId: 'b', items: [{ productId: TREE, quantity: 4 }] });
+
+    expect(result.success).toBe(false);
+    expect(result.shortages).toEqual([{ productId: TREE, requested: 4, available: 3 }]);
+  });
+
+  it('replace the same cart’s earlier hold and add up repeated products', async () => {
+    const first = await reserve('a', 5);
+    const second = await inventory.reserve({
+      sessionId: 'a',
+      items: [
+        { productId: TREE, quantity: 2 },
+        { productId: TREE, quantity: 4 },
+      ],
+    });
+
+    expect(second.reservation!.lines).toEqual([{ productId: TREE, quantity: 6 }]);
+    expect((await stock()).reserved).toBe(6);
+    // The first hold is released, so paying for it has to find the stock again
+    expect(() => inventory.commitReservation(first.id)).toThrow(OutOfStockError);
+    expect((await stock()).onHand).toBe(8);
+  });
+
+  it('expire after the hold time and give the stock back', async () => {
+    await reserve('a', 5);
+    vi.setSystemTime(Date.now() + RESERVATION_TTL_MS - 1);
+    expect((await stock()).available).toBe(3);
+
+    vi.setSystemTime(Date.now() + 1);
+    expect((await stock()).available).toBe(8);
+  });
+
+  it('take the units off the shelf when paid, once', async () => {
+    const reservation = await reserve('a', 5);
+
+    inventory.commitReservation(reservation.id);
+    inventory.commitReservation(reservation.id);
+    expect(await stock()).toEqual({ productId: TREE, onHand: 3, reserved: 0, available: 3 });
+  });
+
+  it('restock a committed reservation when it is released', async () => {
+    const reservation = await reserve('a', 5);
+    inventory.commitReservation(reservation.id);
+
+    inventory.releaseReservation(reservation.id);
+    inventory.releaseReservation(reservation.id);
+    expect(await stock()).toEqual({ productId: TREE, onHand: 8, reserved: 0, available: 8 });
+  });
+
+  describe('paid after the hold expired', () => {
+    it('commit if the stock is still there', async () => {
+      const reservation = await reserve('a', 5);
+      vi.setSystemTime(Date.now() + RESERVATION_TTL_MS);
+
+      inventory.commitReservation(reservation.id);
+      expect((await stock()).onHand).toBe(3);
+    });
+
+    it('throw OutOfStockError and take nothing if it sold meanwhile', async () => {
+      const expired = await reserve('a', 5);
+      vi.setSystemTime(Date.now() + RESERVATION_TTL_MS);
+      inventory.commitReservation((await reserve('b', 6)).id);
+
+      expect(() => inventory.commitReservation(expired.id)).toThrow(OutOfStockError);
+      expect(await stock()).toEqual({ productId: TREE, onHand: 2, reserved: 0, available: 2 });
+    });
+
+    it('throw if another cart holds the stock now', async () => {
+      const expired = await reserve('a', 5);
+      vi.setSystemTime(Date.now() + RESERVATION_TTL_MS);
+      await reserve('b', 6);
+
+      expect(() => inventory.commitReservation(expired.id)).toThrow('Only 2 × ');
+      expect((await stock()).reserved).toBe(6);
+    });
+  });
+
+  it('reject stock counts that are not whole units', async () => {
+    expect((await inventory.setStock({ productId: TREE, onHand: -1 })).success).toBe(false);
+    expect((await inventory.setStock({ productId: TREE, onHand: 2.5 })).success).toBe(false);
+    expect((await inventory.setStock({ productId: TREE, onHand: 12 })).stock?.available).toBe(12);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Inventory Functions
+ *
+ * These functions mimic Convex queries and mutations for stock counts.
+ *
+ * Stock is held for a cart while the customer pays:
+ *   1. Checkout reserves the cart's items (reserve), which lowers what other
+ *      carts can add.
+ *   2. Payment commits the reservation and takes the units off the shelf.
+ *   3. A cancelled or expired checkout releases it again. Reservations that
+ *      run past RESERVATION_TTL_MS are swept on the next read.
+ */
+
+import { CartItem, StockAvailability, StockLevel, StockReservation } from '../types';
+import { getProductQuantities, OutOfStockError, RESERVATION_TTL_MS, StockShortage } from '../data/inventory';
+import { GARLAND_PRODUCTS, ORNAMENT_PRODUCTS, TOPPER_PRODUCTS, TREE_PRODUCTS } from '../data/products';
+
+// ============================================
+// STORAGE LAYER
+// ============================================
+
+const STORAGE_KEY = 'christmas_tree_inventory';
+const stockStore: Map<string, StockLevel> = new Map();
+const reservationsStore: Map<string, StockReservation> = new Map();
+let listeners: Set<() => void> = new Set();
+
+// Convex schema:
+// ```
+// stock: defineTable({ productId, onHand, updatedAt }).index("by_product", ["productId"]),
+// stockReservations: defineTable({ sessionId, lines, status, expiresAt, createdAt, resolvedAt })
+//   .index("by_session", ["sessionId"])
+//   .index("by_status", ["status", "expiresAt"]),
+// ```
+
+// Seeded on first run
+const DEFAULT_STOCK: Record<string, number> = {
+  'tree-small': 40,
+  'tree-medium': 30,
+  'tree-large': 8,
+  ...Object.fromEntries(TOPPER_PRODUCTS.map((p) => [p.id, 100])),
+  ...Object.fromEntries(ORNAMENT_PRODUCTS.map((p) => [p.id, 1000])),
+  // In meters
+  ...Object.fromEntries(GARLAND_PRODUCTS.map((p) => [p.id, 2000])),
+};
+
+const loadFromStorage = () => {
+  try {
+    if (typeof window === 'undefined') return;
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const data = JSON.parse(stored) as {
+        stock: Record<string, StockLevel>;
+        reservations: Record<string, StockReservation>;
+      };
+      Object.entries(data.stock ?? {}).forEach(([id, level]) => stockStore.set(id, level));
+      Object.entries(data.reservations ?? {}).forEach(([id, r]) => reservationsStore.set(id, r));
+    }
+  } catch (e) {
+    console.error('Failed to load inventory from storage:', e);
+  }
+};
+
+const saveToStorage = () => {
+  try {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({
+        stock: Object.fromEntries(stockStore),
+        reservations: Object.fromEntries(reservationsStore),
+      })
+    );
+  } catch (e) {
+    console.error('Failed to save inventory to storage:', e);
+  }
+};
+
+const seed = () => {
+  [...TREE_PRODUCTS, ...TOPPER_PRODUCTS, ...ORNAMENT_PRODUCTS, ...GARLAND_PRODUCTS].forEach((product) => {
+    if (!stockStore.has(product.id)) {
+      stockStore.set(product.id, {
+        productId: product.id,
+        onHand: product.inStock ? (DEFAULT_STOCK[product.id] ?? 0) : 0,
+        updatedAt: Date.now(),
+      });
+    }
+  });
+};
+
+loadFromStorage();
+seed();
+
+const notifyListeners = () => {
+  saveToStorage();
+  listeners.forEach((l) => l());
+};
+const generateId = () => `resv_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+export interface ReservationResult {
+  success: boolean;
+  error?: string;
+  reservation?: StockReservation;
+  shortages?: StockShortage[];
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Mark active reservations past their expiry as expired
+ * Convex: a scheduled internalMutation instead of sweeping on read
+ */
+function sweepExpired(now = Date.now()): void {
+  let changed = false;
+  reservationsStore.forEach((reservation) => {
+    if (reservation.status === 'active' && reservation.expiresAt <= now) {
+      reservation.status = 'expired';
+      reservation.resolvedAt = now;
+      changed = true;
+    }
+  });
+  if (changed) notifyListeners();
+}
+
+function getReserved(productId: string, excludeSessionId?: string): number {
+  let reserved = 0;
+  reservationsStore.forEach((reservation) => {
+    if (reservation.status !== 'active' || reservation.sessionId === excludeSessionId) return;
+    reservation.lines
+      .filter((line) => line.productId === productId)
+      .forEach((line) => (reserved += line.quantity));
+  });
+  return reserved;
+}
+
+function getAvailability(productId: string): StockAvailability {
+  const onHand = stockStore.get(productId)?.onHand ?? 0;
+  const reserved = getReserved(productId);
+  return { productId, onHand, reserved, available: Math.max(0, onHand - reserved) };
+}
+
+function adjustOnHand(productId: string, delta: number): void {
+  const level = stockStore.get(productId) ?? { productId, onHand: 0, updatedAt: 0 };
+  stockStore.set(productId, { ...level, onHand: level.onHand + delta, updatedAt: Date.now() });
+}
+
+// ============================================
+// INTERNAL (used by cart and order mutations)
+// ============================================
+
+/**
+ * Units of a product a session can still take: on hand minus what other
+ * carts have reserved. The session's own reservation doesn't count against it.
+ * Convex: internalQuery
+ */
+export function getAvailable(productId: string, excludeSessionId?: string): number {
+  sweepExpired();
+  const onHand = stockStore.get(productId)?.onHand ?? 0;
+  return Math.max(0, onHand - getReserved(productId, excludeSessionId));
+}
+
+/**
+ * Throws OutOfStockError if any product is wanted in a larger quantity
+ * than the session can get
+ * Convex: internalQuery
+ */
+export function assertAvailable(quantities: Map<string, number>, excludeSessionId?: string): void {
+  const shortages: StockShortage[] = [];
+  quantities.forEach((requested, productId) => {
+    const available = getAvailable(productId, excludeSessionId);
+    if (requested > available) shortages.push({ productId, requested, available });
+  });
+  if (shortages.length > 0) throw new OutOfStockError(shortages);
+}
+
+/**
+ * Take a paid order's units off the shelf. A reservation that expired
+ * while the customer paid no longer holds anything, so it only goes through
+ * if the units are still available; otherwise this throws OutOfStockError
+ * and takes nothing.
+ * Convex: internalMutation
+ */
+export function commitReservation(reservationId: string): void {
+  const reservation = reservationsStore.get(reservationId);
+  if (!reservation || reservation.status === 'committed') return;
+
+  sweepExpired();
+  if (reservation.status !== 'active') {
+    assertAvailable(getProductQuantities(reservation.lines));
+  }
+  reservation.lines.forEach((line) => adjustOnHand(line.productId, -line.quantity));
+  reservation.status = 'committed';
+  reservation.resolvedAt = Date.now();
+  notifyListeners();
+}
+
+/**
+ * Give a reservation's units back: frees the hold if the order was never
+ * paid, restocks them if it was (cancelled after payment)
+ * Convex: internalMutation
+ */
+export function releaseReservation(reservationId: string): void {
+  const reservation = reservationsStore.get(reservationId);
+  if (!reservation || reservation.status === 'released') return;
+
+  if (reservation.status === 'committed') {
+    reservation.lines.forEach((line) => adjustOnHand(line.productId, line.quantity));
+  }
+  reservation.status = 'released';
+  reservation.resolvedAt = Date.now();
+  notifyListeners();
+}
+
+// ============================================
+// QUERIES & MUTATIONS
+// ============================================
+
+/**
+ * Hold a cart's items while the customer pays. Replaces the session's
+ * previous active reservation, so re-entering checkout doesn't hold twice.
+ * Convex: mutation({ args: { sessionId, items }, handler: ... })
+ */
+export async function reserve(args: {
+  sessionId: string;
+  items: Pick<CartItem, 'productId' | 'quantity'>[];
+}): Promise<ReservationResult> {
+  const quantities = getProductQuantities(args.items);
+  if (quantities.size === 0) return { success: false, error: 'Your cart is empty' };
+
+  try {
+    assertAvailable(quantities, args.sessionId);
+  } catch (e) {
+    if (e instanceof OutOfStockError) {
+      return { success: false, error: e.message, shortages: e.shortages };
+    }
+    throw e;
+  }
+
+  const now = Date.now();
+  reservationsStore.forEach((reservation) => {
+    if (reservation.sessionId === args.sessionId && reservation.status === 'active') {
+      reservation.status = 'released';
+      reservation.resolvedAt = now;
+    }
+  });
+
+  const reservation: StockReservation = {
+    id: generateId(),
+    sessionId: args.sessionId,
+    lines: [...quantities].map(([productId, quantity]) => ({ productId, quantity })),
+    status: 'active',
+    expiresAt: now + RESERVATION_TTL_MS,
+    createdAt: now,
+  };
+  reservationsStore.set(reservation.id, reservation);
+  notifyListeners();
+  return { success: true, reservation: { ...reservation } };
+}
+
+/**
+ * Release a reservation before it expires (checkout abandoned)
+ * Convex: mutation({ args: { reservationId }, handler: ... })
+ */
+export async function release(args: { reservationId: string }): Promise<void> {
+  const reservation = reservationsStore.get(args.reservationId);
+  if (reservation?.status === 'active') releaseReservation(args.reservationId);
+}
+
+/**
+ * Stock for one product
+ * Convex: query({ args: { productId }, handler: ... })
+ */
+export async function getStock(args: { productId: string }): Promise<StockAvailability> {
+  sweepExpired();
+  return getAvailability(args.productId);
+}
+
+/**
+ * Stock for every product
+ * Convex: query({ args: {}, handler: ... })
+ */
+export async function listStock(): Promise<StockAvailability[]> {
+  sweepExpired();
+  return [...stockStore.keys()].map(getAvailability);
+}
+
+/**
+ * Set the count on hand after a delivery or stocktake (staff)
+ * Convex: mutation({ args: { productId, onHand }, handler: ... })
+ */
+export async function setStock(args: {
+  productId: string;
+  onHand: number;
+}): Promise<{ success: boolean; error?: string; stock?: StockAvailability }> {
+  if (!Number.isInteger(args.onHand) || args.onHand < 0) {
+    return { success: false, error: 'Stock must be a whole number of units' };
+  }
+  stockStore.set(args.productId, { productId: args.productId, onHand: args.onHand, updatedAt: Date.now() });
+  notifyListeners();
+  return { success: true, stock: getAvailability(args.productId) };
+}
+
+/**
+ * Subscribe to stock changes
+ */
+export function subscribe(callback: () => void): () => void {
+  listeners.add(callback);
+  return () => listeners.delete(callback);
+}
+
+/**
+ * Reset stock to the defaults and drop all reservations (for testing)
+ */
+export function _reset(): void {
+  stockStore.clear();
+  reservationsStore.clear();
+  seed();
+  notifyListeners();
+}
@@ -4,14 +4,113 @@
  * These functions mimic Convex queries and mutations for orders.
  */
 
-import { Order, OrderStatus, Cart, ShippingAddress, TreeConfig, OrnamentData, TreeTopperData } from '../types';
+import {
+  Order,
+  OrderStatus,
+  OrderActor,
+  OrderEvent,
+  CancellationReason,
+  Shipment,
+  ShipmentLine,
+  Cart,
+  PriceBreakdown,
+  ShippingAddress,
+  TreeConfig,
+  OrnamentData,
+  TreeTopperData,
+  GarlandData,
+} from '../types';
+import { BASE_CURRENCY } from '../data/currency';
+import { canTransition, getUnshippedLines, OrderLifecycleError } from '../data/orderLifecycle';
+import { commitReservation, releaseReservation } from './inventory';
+import { redeemPromoCode, releasePromoCode } from './promotions';
+import { sweepExpiredSessions } from './stripe';
 
-// In-memory orders store
+// Orders store with localStorage persistence
+const STORAGE_KEY = 'christmas_tree_orders';
 const ordersStore: Map<string, Order[]> = new Map();
+// Append-only audit log per order
+const eventsStore: Map<string, OrderEvent[]> = new Map();
 let listeners: Set<() => void> = new Set();
 
-const notifyListeners = () => listeners.forEach((l) => l());
-const generateId = () => `order_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+const loadFromStorage = () => {
+  try {
+    if (typeof window === 'undefined') return;
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const data = JSON.parse(stored) as {
+        orders: Record<string, Order[]>;
+        events: Record<string, OrderEvent[]>;
+      };
+      Object.entries(data.orders ?? {}).forEach(([sessionId, orders]) => ordersStore.set(sessionId, orders));
+      Object.entries(data.events ?? {}).forEach(([orderId, events]) => eventsStore.set(orderId, events));
+    }
+  } catch (e) {
+    console.error('Failed to load orders from storage:', e);
+  }
+};
+
+const saveToStorage = () => {
+  try {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ orders: Object.fromEntries(ordersStore), events: Object.fromEntries(eventsStore) })
+    );
+  } catch (e) {
+    console.error('Failed to save orders to storage:', e);
+  }
+};
+
+loadFromStorage();
+
+const notifyListeners = () => {
+  saveToStorage();
+  listeners.forEach((l) => l());
+};
+const generateId = (prefix = 'order') => `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+const PAYMENT_ACTOR: OrderActor = { type: 'payment', name: 'Stripe' };
+
+// ============================================
+// HELPERS
+// ============================================
+
+function findOrder(predicate: (order: Order) => boolean): Order | null {
+  for (const orders of ordersStore.values()) {
+    const order = orders.find(predicate);
+    if (order) return order;
+  }
+  return null;
+}
+
+function requireOrder(orderId: string): Order {
+  const order = findOrder((o) => o.id === orderId);
+  if (!order) {
+    throw new OrderLifecycleError('order_not_found', 'Order not found', { orderId });
+  }
+  return order;
+}
+
+function assertTransition(order: Order, to: OrderStatus): void {
+  if (!canTransition(order.status, to)) {
+    throw new OrderLifecycleError('illegal_transition', `Cannot go from ${order.status} to ${to}`, {
+      orderId: order.id,
+      from: order.status,
+      to,
+    });
+  }
+}
+
+function appendEvent(orderId: string, event: Omit<OrderEvent, 'id' | 'orderId' | 'at'>): OrderEvent {
+  const entry: OrderEvent = { ...event, id: generateId('event'), orderId, at: Date.now() };
+  eventsStore.set(orderId, [...(eventsStore.get(orderId) || []), entry]);
+  return entry;
+}
+
+// ============================================
+// MUTATIONS
+// ============================================
 
 /**
  * Create a new order
@@ -19,6 +118,7 @@ const generateId = () => `order_${Date.now()}_${Math.random().toString(36).subst
  */
 export async function create(args: {
   sessionId: string;
+  userId?: string;
   cartSnapshot: Cart;
   shippingAddress: ShippingAddress;
   stripeSessionId: string;
@@ -26,24 +126,45 @@ export async function create(args: {
   shippingCost: number;
   tax: number;
   total: number;
+  priceBreakdown?: PriceBreakdown;
   treeConfigSnapshot: TreeConfig;
   ornamentsSnapshot: OrnamentData[];
   topperSnapshot: TreeTopperData | null;
+  garlandsSnapshot?: GarlandData[];
+  reservationId?: string;
+  actor?: OrderActor;
 }): Promise<Order> {
+  // Count the promo code now, so a used-up or expired code fails before payment
+  const discounts = args.cartSnapshot.discounts ?? [];
+  const promoCode = discounts.some((d) => d.source === 'promo') ? args.cartSnapshot.promoCode : undefined;
+  if (promoCode) {
+    const automaticTotal = discounts
+      .filter((d) => d.source === 'automatic')
+      .reduce((sum, d) => sum + d.amount, 0);
+    redeemPromoCode(promoCode, args.cartSnapshot.subtotal - automaticTotal, args.cartSnapshot.currency);
+  }
+
   const order: Order = {
     id: generateId(),
     sessionId: args.sessionId,
+    userId: args.userId,
     cartSnapshot: args.cartSnapshot,
     shippingAddress: args.shippingAddress,
     stripeSessionId: args.stripeSessionId,
     status: 'pending',
+    currency: args.cartSnapshot.currency ?? BASE_CURRENCY,
     subtotal: args.subtotal,
     shippingCost: args.shippingCost,
     tax: args.tax,
     total: args.total,
+    priceBreakdown: args.priceBreakdown,
+    promoCode,
+    discounts,
     treeConfigSnapshot: args.treeConfigSnapshot,
     ornamentsSnapshot: args.ornamentsSnapshot,
     topperSnapshot: args.topperSnapshot,
+    garlandsSnapshot: args.garlandsSnapshot,
+    reservationId: args.reservationId,
     createdAt: Date.now(),
   };
 
@@ -51,59 +172,296 @@ export async function create(args: {
   sessionOrders.push(order);
   ordersStore.set(args.sessionId, sessionOrders);
 
+  appendEvent(order.id, {
+    type: 'created',
+    to: 'pending',
+    actor: args.actor ?? { type: 'customer', id: args.sessionId },
+  });
   notifyListeners();
   return order;
 }
 
 /**
- * Update order status
- * Convex: mutation({ args: { stripeSessionId, status, stripePaymentIntentId? }, handler: ... })
+ * Update order status from the payment flow (webhooks)
+ * Convex: mutation({ args: { stripeSessionId, status, stripePaymentIntentId?, ... }, handler: ... })
+ *
+ * Goes through the same transition rules as the staff mutations below.
+ * 'shipped' ships everything still outstanding; partial shipments need
+ * recordShipment. Returns null if no order matches the Stripe session.
  */
 export async function updateStatus(args: {
   stripeSessionId: string;
   status: OrderStatus;
   stripePaymentIntentId?: string;
+  actor?: OrderActor;
+  cancellationReason?: CancellationReason;
 }): Promise<Order | null> {
-  // Find order by stripeSessionId
-  for (const [sessionId, orders] of ordersStore) {
-    const order = orders.find((o) => o.stripeSessionId === args.stripeSessionId);
-    if (order) {
-      order.status = args.status;
-      if (args.stripePaymentIntentId) {
-        order.stripePaymentIntentId = args.stripePaymentIntentId;
-      }
-      if (args.status === 'paid') {
-        order.paidAt = Date.now();
-      } else if (args.status === 'shipped') {
-        order.shippedAt = Date.now();
-      } else if (args.status === 'delivered') {
-        order.deliveredAt = Date.now();
-      }
-      notifyListeners();
-      return order;
+  const order = findOrder((o) => o.stripeSessionId === args.stripeSessionId);
+  if (!order) return null;
+
+  const actor = args.actor ?? PAYMENT_ACTOR;
+
+  if (args.status === 'shipped') {
+    return recordShipment({ orderId: order.id, lines: getUnshippedLines(order), actor });
+  }
+  if (args.status === 'partially_shipped') {
+    throw new OrderLifecycleError('invalid_shipment', 'Record partial shipments with their items', {
+      orderId: order.id,
+      from: order.status,
+      to: args.status,
+    });
+  }
+  if (args.status === 'cancelled') {
+    if (!args.cancellationReason) {
+      throw new OrderLifecycleError('reason_required', 'A cancellation reason is required', {
+        orderId: order.id,
+        from: order.status,
+        to: args.status,
+      });
     }
+    return cancel({ orderId: order.id, reason: args.cancellationReason, actor });
   }
-  return null;
+  return transition({
+    orderId: order.id,
+    to: args.status,
+    actor,
+    stripePaymentIntentId: args.stripePaymentIntentId,
+  });
+}
+
+/**
+ * Move an order to another status
+ * Convex: mutation({ args: { orderId, to, actor, reason? }, handler: ... })
+ *
+ * Shipping and cancelling carry extra data, use recordShipment / cancel.
+ * The PaymentIntent is only recorded once the move to 'paid' is allowed.
+ * Paying throws OutOfStockError if an expired hold's stock has gone since.
+ */
+export async function transition(args: {
+  orderId: string;
+  to: Exclude<OrderStatus, 'partially_shipped' | 'shipped' | 'cancelled'>;
+  actor: OrderActor;
+  reason?: string;
+  stripePaymentIntentId?: string;
+}): Promise<Order> {
+  const order = requireOrder(args.orderId);
+  assertTransition(order, args.to);
+  // Take the stock first: if it has gone (OutOfStockError), the order is left as it was
+  if (args.to === 'paid' && order.reservationId) commitReservation(order.reservationId);
+
+  const from = order.status;
+  order.status = args.to;
+  if (args.to === 'paid') {
+    order.paidAt = Date.now();
+    if (args.stripePaymentIntentId) order.stripePaymentIntentId = args.stripePaymentIntentId;
+  } else if (args.to === 'delivered') {
+    order.deliveredAt = Date.now();
+  }
+
+  appendEvent(order.id, { type: 'status_changed', from, to: args.to, actor: args.actor, reason: args.reason });
+  notifyListeners();
+  return order;
 }
 
+/**
+ * Record a shipment of some or all outstanding items
+ * Convex: mutation({ args: { orderId, lines, carrier?, trackingNumber?, actor }, handler: ... })
+ *
+ * The order becomes 'shipped' once nothing is left, 'partially_shipped' before that.
+ */
+export async function recordShipment(args: {
+  orderId: string;
+  lines: ShipmentLine[];
+  carrier?: string;
+  trackingNumber?: string;
+  actor: OrderActor;
+}): Promise<Order> {
+  const order = requireOrder(args.orderId);
+
+  const outstanding = new Map(getUnshippedLines(order).map((line) => [line.cartItemId, line.quantity]));
+  const lines = args.lines.filter((line) => line.quantity !== 0);
+  const shipping = new Map<string, number>();
+  for (const line of lines) {
+    shipping.set(line.cartItemId, (shipping.get(line.cartItemId) ?? 0) + line.quantity);
+  }
+  const invalid =
+    lines.length === 0 ||
+    [...shipping].some(
+      ([cartItemId, quantity]) =>
+        !Number.isInteger(quantity) || quantity < 0 || quantity > (outstanding.get(cartItemId) ?? 0)
+    );
+  if (invalid) {
+    throw new OrderLifecycleError('invalid_shipment', 'Shipment does not match the items still to ship', {
+      orderId: order.id,
+      from: order.status,
+    });
+  }
+
+  const isComplete = [...outstanding].every(([cartItemId, quantity]) => shipping.get(cartItemId) === quantity);
+  const to: OrderStatus = isComplete ? 'shipped' : 'partially_shipped';
+  assertTransition(order, to);
+
+  const shipment: Shipment = {
+    id: generateId('shipment'),
+    lines,
+    carrier: args.carrier,
+    trackingNumber: args.trackingNumber,
+    shippedAt: Date.now(),
+  };
+  const from = order.status;
+  order.shipments = [...(order.shipments ?? []), shipment];
+  order.status = to;
+  if (isComplete) {
+    order.shippedAt = shipment.shippedAt;
+  }
+
+  appendEvent(order.id, { type: 'shipment_recorded', from, to, actor: args.actor, shipmentId: shipment.id });
+  notifyListeners();
+  return order;
+}
+
+/**
+ * Cancel an order that hasn't shipped yet
+ * Convex: mutation({ args: { orderId, reason, note?, actor }, handler: ... })
+ */
+export async function cancel(args: {
+  orderId: string;
+  reason: CancellationReason;
+  note?: string;
+  actor: OrderActor;
+}): Promise<Order> {
+  const order = requireOrder(args.orderId);
+  assertTransition(order, 'cancelled');
+
+  const from = order.status;
+  order.status = 'cancelled';
+  order.cancellation = {
+    reason: args.reason,
+    note: args.note,
+    cancelledAt: Date.now(),
+    cancelledBy: args.actor,
+  };
+  if (order.promoCode) {
+    releasePromoCode(order.promoCode);
+  }
+  if (order.reservationId) {
+    releaseReservation(order.reservationId);
+  }
+
+  appendEvent(order.id, {
+    type: 'cancelled',
+    from,
+    to: 'cancelled',
+    actor: args.actor,
+    reason: args.note ? `${args.reason}: ${args.note}` : args.reason,
+  });
+  notifyListeners();
+  return order;
+}
+
+/**
+ * Log a declined payment attempt. The order stays pending so the customer can retry.
+ * Convex: mutation({ args: { orderId, reason, actor }, handler: ... })
+ */
+export async function recordPaymentFailure(args: {
+  orderId: string;
+  reason: string;
+  actor: OrderActor;
+}): Promise<Order> {
+  const order = requireOrder(args.orderId);
+  appendEvent(order.id, { type: 'payment_failed', actor: args.actor, reason: args.reason });
+  notifyListeners();
+  return order;
+}
+
+/**
+ * Record money returned to the customer. Recording the same refund ID
+ * again is a no-op, so repeated webhook deliveries are safe.
+ * Convex: mutation({ args: { orderId, refundId, amount, actor }, handler: ... })
+ */
+export async function recordRefund(args: {
+  orderId: string;
+  refundId: string;
+  amount: number;
+  actor: OrderActor;
+}): Promise<Order> {
+  const order = requireOrder(args.orderId);
+  if (order.refunds?.some((refund) => refund.id === args.refundId)) return order;
+
+  order.refunds = [...(order.refunds ?? []), { id: args.refundId, amount: args.amount, refundedAt: Date.now() }];
+  appendEvent(order.id, { type: 'refunded', actor: args.actor, amount: args.amount });
+  notifyListeners();
+  return order;
+}
+
+/**
+ * Add a support note to the order's history
+ * Convex: mutation({ args: { orderId, note, actor }, handler: ... })
+ */
+export async function addNote(args: { orderId: string; note: string; actor: OrderActor }): Promise<OrderEvent> {
+  const order = requireOrder(args.orderId);
+  const event = appendEvent(order.id, { type: 'note_added', actor: args.actor, reason: args.note });
+  notifyListeners();
+  return event;
+}
+
+/**
+ * Get an order's history, oldest first
+ * Convex: query({ args: { orderId }, handler: ... })
+ */
+export async function getEvents(args: { orderId: string }): Promise<OrderEvent[]> {
+  return (eventsStore.get(args.orderId) || []).map((event) => ({ ...event }));
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+// Each query first expires abandoned checkouts, so their orders are
+// cancelled (and the stock and promo code released) before they're read
+
 /**
  * Get orders by session
  * Convex: query({ args: { sessionId }, handler: ... })
  */
 export async function getBySession(args: { sessionId: string }): Promise<Order[]> {
+  await sweepExpiredSessions();
   return ordersStore.get(args.sessionId) || [];
 }
 
+/**
+ * All orders, newest first, optionally only those in one status (staff)
+ * Convex: query({ args: { status? }, handler: ... }) using .index("by_status")
+ */
+export async function list(args: { status?: OrderStatus } = {}): Promise<Order[]> {
+  await sweepExpiredSessions();
+  const orders: Order[] = [];
+  ordersStore.forEach((sessionOrders) =>
+    orders.push(...sessionOrders.filter((order) => !args.status || order.status === args.status))
+  );
+  return orders.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Orders placed while signed in to an account, newest first
+ * Convex: query({ args: { userId }, handler: ... }) using .index("by_user")
+ */
+export async function getByUser(args: { userId: string }): Promise<Order[]> {
+  await sweepExpiredSessions();
+  const orders: Order[] = [];
+  ordersStore.forEach((sessionOrders) =>
+    orders.push(...sessionOrders.filter((order) => order.userId === args.userId))
+  );
+  return orders.sort((a, b) => b.createdAt - a.createdAt);
+}
+
 /**
  * Get single order by ID
  * Convex: query({ args: { orderId }, handler: ... })
  */
 export async function getById(args: { orderId: string }): Promise<Order | null> {
-  for (const orders of ordersStore.values()) {
-    const order = orders.find((o) => o.id === args.orderId);
-    if (order) return order;
-  }
-  return null;
+  await sweepExpiredSessions();
+  return findOrder((o) => o.id === args.orderId);
 }
 
 /**
@@ -111,11 +469,8 @@ export async function getById(args: { orderId: string }): Promise<Order | null>
  * Convex: query({ args: { stripeSessionId }, handler: ... })
  */
 export async function getByStripeSession(args: { stripeSessionId: string }): Promise<Order | null> {
-  for (const orders of ordersStore.values()) {
-    const order = orders.find((o) => o.stripeSessionId === args.stripeSessionId);
-    if (order) return order;
-  }
-  return null;
+  await sweepExpiredSessions();
+  return findOrder((o) => o.stripeSessionId === args.stripeSessionId);
 }
 
 /**
@@ -131,5 +486,6 @@ export function subscribe(callback: () => void): () => void {
  */
 export function _reset(): void {
   ordersStore.clear();
+  eventsStore.clear();
   notifyListeners();
 }
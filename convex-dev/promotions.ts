@@ -0,0 +1,240 @@
+/**
+ * Promotion Functions
+ *
+ * These functions mimic Convex queries and mutations for promo codes.
+ * Discount math and validation live in data/discounts.ts; this module
+ * stores the codes and counts redemptions.
+ *
+ * A redemption is counted when an order is placed with the code and given
+ * back if that order is cancelled, so abandoned checkouts don't use up
+ * limited codes for good.
+ *
+ * Listing, creating and switching codes takes the caller's auth token and
+ * refuses anyone without the admin role, like admin.ts.
+ */
+
+import { CurrencyCode, PromoCode } from '../types';
+import { checkPromoCode, normalizePromoCode, PromoCheck, PromoCodeError } from '../data/discounts';
+import * as authInternal from './authInternal';
+
+// ============================================
+// STORAGE LAYER
+// ============================================
+
+const STORAGE_KEY = 'christmas_tree_promo_codes';
+const promoCodesStore: Map<string, PromoCode> = new Map();
+let listeners: Set<() => void> = new Set();
+
+// Convex schema:
+// ```
+// promoCodes: defineTable({ code, description, kind, value, minSubtotal, expiresAt, maxUses, uses, active })
+//   .index("by_code", ["code"]),
+// ```
+
+// Seeded on first run
+const DEFAULT_PROMO_CODES: Omit<PromoCode, 'uses' | 'createdAt'>[] = [
+  { code: 'WELCOME10', description: '10% off your first tree', kind: 'percentage', value: 10, active: true },
+  {
+    code: 'SNOW20',
+    description: 'CHF 20 off orders over CHF 150',
+    kind: 'fixed',
+    value: 2000,
+    minSubtotal: 15000,
+    maxUses: 500,
+    active: true,
+  },
+];
+
+const loadFromStorage = () => {
+  try {
+    if (typeof window === 'undefined') return;
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const data = JSON.parse(stored) as Record<string, PromoCode>;
+      Object.entries(data).forEach(([code, promo]) => promoCodesStore.set(code, promo));
+    }
+  } catch (e) {
+    console.error('Failed to load promo codes from storage:', e);
+  }
+};
+
+const saveToStorage = () => {
+  try {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(promoCodesStore)));
+  } catch (e) {
+    console.error('Failed to save promo codes to storage:', e);
+  }
+};
+
+const seed = () => {
+  DEFAULT_PROMO_CODES.forEach((promo) => {
+    if (!promoCodesStore.has(promo.code)) {
+      promoCodesStore.set(promo.code, { ...promo, uses: 0, createdAt: Date.now() });
+    }
+  });
+};
+
+loadFromStorage();
+seed();
+
+const notifyListeners = () => {
+  saveToStorage();
+  listeners.forEach((l) => l());
+};
+
+export interface PromoResult {
+  success: boolean;
+  error?: string;
+  promo?: PromoCode;
+}
+
+const NOT_ADMIN: PromoResult = { success: false, error: 'Only admins can do this' };
+
+// ============================================
+// INTERNAL (used by cart and order mutations)
+// ============================================
+
+/**
+ * Current state of a code, or null
+ * Convex: internalQuery
+ */
+export function findPromoCode(code: string): PromoCode | null {
+  const promo = promoCodesStore.get(normalizePromoCode(code));
+  return promo ? { ...promo } : null;
+}
+
+/**
+ * Count an order's use of a code. Throws PromoCodeError if the code can't
+ * be used any more (expired, used up, or below the minimum spend).
+ * Convex: internalMutation
+ */
+export function redeemPromoCode(code: string, eligibleSubtotal: number, currency?: CurrencyCode): PromoCode {
+  const promo = promoCodesStore.get(normalizePromoCode(code));
+  const check = checkPromoCode(promo ?? null, eligibleSubtotal, currency);
+  if (!promo || !check.valid) throw new PromoCodeError(code, check);
+
+  promo.uses += 1;
+  notifyListeners();
+  return { ...promo };
+}
+
+/**
+ * Give back a redemption (the order was cancelled)
+ * Convex: internalMutation
+ */
+export function releasePromoCode(code: string): void {
+  const promo = promoCodesStore.get(normalizePromoCode(code));
+  if (!promo || promo.uses === 0) return;
+  promo.uses -= 1;
+  notifyListeners();
+}
+
+// ============================================
+// QUERIES & MUTATIONS
+// ============================================
+
+/**
+ * Check a code before applying it
+ * Convex: query({ args: { code, subtotal, currency? }, handler: ... })
+ */
+export async function validate(args: {
+  code: string;
+  subtotal: number;
+  currency?: CurrencyCode;
+}): Promise<PromoCheck> {
+  return checkPromoCode(findPromoCode(args.code), args.subtotal, args.currency);
+}
+
+/**
+ * All codes, newest first (admin only)
+ * Convex: query({ args: { token }, handler: ... })
+ */
+export async function list(args: { token: string }): Promise<PromoCode[]> {
+  if (!(await authInternal.getAdmin({ token: args.token }))) return [];
+  return [...promoCodesStore.values()]
+    .map((promo) => ({ ...promo }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Create a promo code (admin only)
+ * Convex: mutation({ args: { token, code, description, kind, value, minSubtotal?, expiresAt?, maxUses? }, handler: ... })
+ */
+export async function create(args: {
+  token: string;
+  code: string;
+  description: string;
+  kind: PromoCode['kind'];
+  value: number;
+  minSubtotal?: number;
+  expiresAt?: number;
+  maxUses?: number;
+}): Promise<PromoResult> {
+  if (!(await authInternal.getAdmin({ token: args.token }))) return NOT_ADMIN;
+
+  const code = normalizePromoCode(args.code);
+  if (!/^[A-Z0-9_-]{3,24}$/.test(code)) {
+    return { success: false, error: 'Codes are 3-24 letters, digits, - or _' };
+  }
+  if (promoCodesStore.has(code)) {
+    return { success: false, error: 'This code already exists' };
+  }
+  if (args.kind === 'percentage' && !(args.value > 0 && args.value <= 100)) {
+    return { success: false, error: 'Percent must be between 1 and 100' };
+  }
+  if (args.kind === 'fixed' && !(Number.isInteger(args.value) && args.value > 0)) {
+    return { success: false, error: 'Amount must be a positive number of cents' };
+  }
+
+  const promo: PromoCode = {
+    code,
+    description: args.description,
+    kind: args.kind,
+    value: args.value,
+    minSubtotal: args.minSubtotal,
+    expiresAt: args.expiresAt,
+    maxUses: args.maxUses,
+    uses: 0,
+    active: true,
+    createdAt: Date.now(),
+  };
+  promoCodesStore.set(code, promo);
+  notifyListeners();
+  return { success: true, promo: { ...promo } };
+}
+
+/**
+ * Turn a code on or off without deleting its history (admin only)
+ * Convex: mutation({ args: { token, code, active }, handler: ... })
+ */
+export async function setActive(args: {
+  token: string;
+  code: string;
+  active: boolean;
+}): Promise<PromoResult> {
+  if (!(await authInternal.getAdmin({ token: args.token }))) return NOT_ADMIN;
+
+  const promo = promoCodesStore.get(normalizePromoCode(args.code));
+  if (!promo) return { success: false, error: 'Promo code not found' };
+  promo.active = args.active;
+  notifyListeners();
+  return { success: true, promo: { ...promo } };
+}
+
+/**
+ * Subscribe to promo code changes
+ */
+export function subscribe(callback: () => void): () => void {
+  listeners.add(callback);
+  return () => listeners.delete(callback);
+}
+
+/**
+ * Reset promo codes to the defaults (for testing)
+ */
+export function _reset(): void {
+  promoCodesStore.clear();
+  seed();
+  notifyListeners();
+}
@@ -0,0 +1,411 @@
+/**
+ * Tree Session Functions
+ *
+ * These functions mimic Convex queries and mutations for shared tree
+ * sessions: creating a session, handing out invite codes, and tracking
+ * each participant's role.
+ *
+ * Roles:
+ *   - owner:  created the session, manages invites
+ *   - editor: can decorate
+ *   - viewer: can look around but not change the tree
+ *
+ * Invite codes grant editor or viewer access, expire after a set time and
+ * can be revoked by the owner at any point.
+ *
+ * Every change takes the caller's auth token and acts as that user, like
+ * admin.ts does; guests can open a shared tree but only as viewers.
+ *
+ * The tables live in this browser's localStorage until the Convex backend is
+ * deployed, so an invite can only be redeemed in the browser it was made in.
+ */
+
+import {
+  TreeSession,
+  TreeConfig,
+  SessionParticipant,
+  SessionInvite,
+  SessionRole,
+  SessionResult,
+} from '../types';
+import * as auth from './auth';
+
+// ============================================
+// STORAGE LAYER
+// ============================================
+
+const SESSIONS_STORAGE_KEY = 'christmas_tree_shared_sessions';
+
+// In-memory stores (mimics Convex tables)
+const sessionsStore: Map<string, TreeSession> = new Map();
+const invitesStore: Map<string, SessionInvite> = new Map();
+const participantsStore: Map<string, SessionParticipant[]> = new Map();
+let listeners: Set<() => void> = new Set();
+
+// Convex schema:
+// ```
+// treeSessions: defineTable({ name, ownerId, treeConfig, isPublic, inviteCode, ... }),
+// sessionInvites: defineTable({ code, sessionId, role, createdBy, expiresAt, revokedAt, uses })
+//   .index("by_code", ["code"]).index("by_session", ["sessionId"]),
+// sessionParticipants: defineTable({ sessionId, userId, userName, role, joinedAt, isOnline })
+//   .index("by_session_user", ["sessionId", "userId"]),
+// ```
+
+interface StoredSessions {
+  sessions: Record<string, TreeSession>;
+  invites: Record<string, SessionInvite>;
+  participants: Record<string, SessionParticipant[]>;
+}
+
+const loadFromStorage = () => {
+  try {
+    if (typeof window === 'undefined') return;
+
+    const stored = localStorage.getItem(SESSIONS_STORAGE_KEY);
+    if (!stored) return;
+
+    const data = JSON.parse(stored) as StoredSessions;
+    sessionsStore.clear();
+    invitesStore.clear();
+    participantsStore.clear();
+    Object.entries(data.sessions).forEach(([key, session]) => sessionsStore.set(key, session));
+    Object.entries(data.invites).forEach(([key, invite]) => invitesStore.set(key, invite));
+    Object.entries(data.participants).forEach(([key, list]) => participantsStore.set(key, list));
+  } catch (e) {
+    console.error('Failed to load tree sessions from storage:', e);
+  }
+};
+
+const saveToStorage = () => {
+  try {
+    if (typeof window === 'undefined') return;
+
+    const data: StoredSessions = {
+      sessions: Object.fromEntries(sessionsStore),
+      invites: Object.fromEntries(invitesStore),
+      participants: Object.fromEntries(participantsStore),
+    };
+    localStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(data));
+  } catch (e) {
+    console.error('Failed to save tree sessions to storage:', e);
+  }
+};
+
+loadFromStorage();
+
+// Pick up invites created or revoked in other tabs
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key !== SESSIONS_STORAGE_KEY) return;
+    loadFromStorage();
+    listeners.forEach((l) => l());
+  });
+}
+
+const notifyListeners = () => {
+  saveToStorage();
+  listeners.forEach((l) => l());
+};
+
+const generateId = () => `tree_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+// No 0/O or 1/I so codes survive being read aloud
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 8;
+
+const generateInviteCode = (): string => {
+  const bytes = new Uint8Array(INVITE_CODE_LENGTH);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => INVITE_CODE_ALPHABET[b % INVITE_CODE_ALPHABET.length]).join('');
+};
+
+export const DEFAULT_INVITE_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// ============================================
+// HELPERS
+// ============================================
+
+const ROLE_RANK: Record<SessionRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+function findParticipant(sessionId: string, userId: string): SessionParticipant | undefined {
+  return (participantsStore.get(sessionId) || []).find((p) => p.userId === userId);
+}
+
+function upsertParticipant(participant: SessionParticipant): void {
+  const list = (participantsStore.get(participant.sessionId) || []).filter(
+    (p) => p.userId !== participant.userId
+  );
+  list.push(participant);
+  participantsStore.set(participant.sessionId, list);
+}
+
+function isOwner(sessionId: string, userId: string): boolean {
+  return sessionsStore.get(sessionId)?.ownerId === userId;
+}
+
+const INVITE_ROLES: SessionInvite['role'][] = ['editor', 'viewer'];
+
+/**
+ * Why an invite can't be used, or null if it can
+ */
+function getInviteError(invite: SessionInvite | undefined): string | null {
+  if (!invite) return 'Invite not found';
+  if (invite.revokedAt) return 'This invite has been revoked';
+  if (invite.expiresAt < Date.now()) return 'This invite has expired';
+  if (!sessionsStore.has(invite.sessionId)) return 'This tree session no longer exists';
+  return null;
+}
+
+// ============================================
+// SESSION FUNCTIONS
+// ============================================
+
+/**
+ * Create a shared tree session owned by the caller
+ * Convex: mutation({ args: { token, name, treeConfig }, handler: ... })
+ */
+export async function create(args: {
+  token: string;
+  name?: string;
+  treeConfig: TreeConfig;
+}): Promise<SessionResult> {
+  const user = await auth.validateSession({ token: args.token });
+  if (!user) {
+    return { success: false, error: 'Sign in to share your tree' };
+  }
+
+  const ownerName = user.name || user.email;
+  const now = Date.now();
+  const session: TreeSession = {
+    id: generateId(),
+    name: args.name || `${ownerName}'s Tree`,
+    ownerId: user.id,
+    treeConfig: args.treeConfig,
+    isPublic: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const participant: SessionParticipant = {
+    sessionId: session.id,
+    userId: user.id,
+    userName: ownerName,
+    avatarUrl: user.avatarUrl,
+    role: 'owner',
+    joinedAt: now,
+    isOnline: true,
+  };
+
+  sessionsStore.set(session.id, session);
+  upsertParticipant(participant);
+  notifyListeners();
+
+  return { success: true, session, participant };
+}
+
+/**
+ * Get session by ID
+ * Convex: query({ args: { sessionId }, handler: ... })
+ */
+export async function get(args: { sessionId: string }): Promise<TreeSession | null> {
+  return sessionsStore.get(args.sessionId) ?? null;
+}
+
+// ============================================
+// INVITE FUNCTIONS
+// ============================================
+
+/**
+ * Create an invite code (owner only)
+ * Convex: mutation({ args: { token, sessionId, role, expiresInMs }, handler: ... })
+ */
+export async function createInvite(args: {
+  token: string;
+  sessionId: string;
+  role: SessionInvite['role'];
+  expiresInMs?: number;
+}): Promise<SessionResult> {
+  const user = await auth.validateSession({ token: args.token });
+  if (!user) {
+    return { success: false, error: 'Not authenticated' };
+  }
+  const session = sessionsStore.get(args.sessionId);
+  if (!session) {
+    return { success: false, error: 'Session not found' };
+  }
+  if (!isOwner(args.sessionId, user.id)) {
+    return { success: false, error: 'Only the owner can invite people' };
+  }
+  if (!INVITE_ROLES.includes(args.role)) {
+    return { success: false, error: 'Invites can only be for editors or viewers' };
+  }
+
+  let code = generateInviteCode();
+  while (invitesStore.has(code)) code = generateInviteCode();
+
+  const now = Date.now();
+  const invite: SessionInvite = {
+    code,
+    sessionId: args.sessionId,
+    role: args.role,
+    createdBy: user.id,
+    createdAt: now,
+    expiresAt: now + (args.expiresInMs ?? DEFAULT_INVITE_TTL),
+    uses: 0,
+  };
+
+  invitesStore.set(code, invite);
+  sessionsStore.set(session.id, { ...session, inviteCode: code, updatedAt: now });
+  notifyListeners();
+
+  return { success: true, session: sessionsStore.get(session.id), invite };
+}
+
+/**
+ * Revoke an invite code (owner only). People who already joined keep access.
+ * Convex: mutation({ args: { token, code }, handler: ... })
+ */
+export async function revokeInvite(args: { token: string; code: string }): Promise<SessionResult> {
+  const user = await auth.validateSession({ token: args.token });
+  if (!user) {
+    return { success: false, error: 'Not authenticated' };
+  }
+  const invite = invitesStore.get(args.code);
+  if (!invite) {
+    return { success: false, error: 'Invite not found' };
+  }
+  if (!isOwner(invite.sessionId, user.id)) {
+    return { success: false, error: 'Only the owner can revoke invites' };
+  }
+
+  const now = Date.now();
+  const revoked: SessionInvite = { ...invite, revokedAt: invite.revokedAt ?? now };
+  invitesStore.set(args.code, revoked);
+
+  const session = sessionsStore.get(invite.sessionId);
+  if (session?.inviteCode === args.code) {
+    sessionsStore.set(session.id, { ...session, inviteCode: undefined, updatedAt: now });
+  }
+  notifyListeners();
+
+  return { success: true, invite: revoked };
+}
+
+/**
+ * Active (unexpired, unrevoked) invites of a session (owner only)
+ * Convex: query({ args: { token, sessionId }, handler: ... })
+ */
+export async function listInvites(args: {
+  token: string;
+  sessionId: string;
+}): Promise<SessionInvite[]> {
+  const user = await auth.validateSession({ token: args.token });
+  if (!user || !isOwner(args.sessionId, user.id)) return [];
+  return Array.from(invitesStore.values())
+    .filter((invite) => invite.sessionId === args.sessionId && !getInviteError(invite))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Look up an invite before joining
+ * Convex: query({ args: { code }, handler: ... })
+ */
+export async function getInvite(args: { code: string }): Promise<SessionResult> {
+  const invite = invitesStore.get(args.code.toUpperCase());
+  const error = getInviteError(invite);
+  if (error) {
+    return { success: false, error };
+  }
+  return { success: true, invite, session: sessionsStore.get(invite!.sessionId) };
+}
+
+/**
+ * Join a session with an invite code. Rejoining never lowers an existing role.
+ * Convex: mutation({ args: { token, code }, handler: ... })
+ */
+export async function join(args: { token: string; code: string }): Promise<SessionResult> {
+  const user = await auth.validateSession({ token: args.token });
+  if (!user) {
+    return { success: false, error: 'Sign in to join this tree' };
+  }
+  const code = args.code.toUpperCase();
+  const invite = invitesStore.get(code);
+  const error = getInviteError(invite);
+  if (error) {
+    return { success: false, error };
+  }
+
+  const existing = findParticipant(invite!.sessionId, user.id);
+  const role =
+    existing && ROLE_RANK[existing.role] > ROLE_RANK[invite!.role] ? existing.role : invite!.role;
+
+  const participant: SessionParticipant = {
+    sessionId: invite!.sessionId,
+    userId: user.id,
+    userName: user.name || user.email,
+    avatarUrl: user.avatarUrl,
+    role,
+    joinedAt: existing?.joinedAt ?? Date.now(),
+    isOnline: true,
+  };
+
+  upsertParticipant(participant);
+  invitesStore.set(code, { ...invite!, uses: invite!.uses + 1 });
+  notifyListeners();
+
+  return {
+    success: true,
+    session: sessionsStore.get(invite!.sessionId),
+    participant,
+    invite: invitesStore.get(code),
+  };
+}
+
+// ============================================
+// PARTICIPANT FUNCTIONS
+// ============================================
+
+/**
+ * Get a user's participation in a session. Collaborators check each other's
+ * roles here rather than trusting what a peer announces.
+ * Convex: query({ args: { sessionId, userId }, handler: ... })
+ */
+export async function getParticipant(args: {
+  sessionId: string;
+  userId: string;
+}): Promise<SessionParticipant | null> {
+  return findParticipant(args.sessionId, args.userId) ?? null;
+}
+
+/**
+ * List everyone who has joined a session
+ * Convex: query({ args: { sessionId }, handler: ... })
+ */
+export async function listParticipants(args: { sessionId: string }): Promise<SessionParticipant[]> {
+  return participantsStore.get(args.sessionId) || [];
+}
+
+// ============================================
+// SUBSCRIPTION & UTILITIES
+// ============================================
+
+/**
+ * Subscribe to session changes
+ */
+export function subscribe(callback: () => void): () => void {
+  listeners.add(callback);
+  return () => listeners.delete(callback);
+}
+
+/**
+ * Reset sessions store (for testing)
+ */
+export function _reset(): void {
+  sessionsStore.clear();
+  invitesStore.clear();
+  participantsStore.clear();
+  if (typeof window !== 'undefined') {
+    localStorage.removeItem(SESSIONS_STORAGE_KEY);
+  }
+  notifyListeners();
+}
@@ -0,0 +1,332 @@
+/**
+ * Local Stripe Simulator
+ *
+ * A stand-in for Stripe Checkout while developing without a Stripe account.
+ * It keeps Checkout Sessions, PaymentIntents and Charges in memory and sends
+ * signed webhook events to convex-dev/webhooks.ts, the same way Stripe would
+ * call the deployed /stripe/webhook endpoint.
+ *
+ * Flow:
+ *   1. createCheckoutSession  → order is created with the session ID (pending)
+ *   2. payCheckoutSession     → checkout.session.completed, or
+ *                               payment_intent.payment_failed (customer may retry)
+ *   3. expireCheckoutSession  → checkout.session.expired (abandoned checkout)
+ *   4. createRefund           → charge.refunded
+ *
+ * Use the TEST_CARDS numbers to pick the payment outcome. `resendEvent`
+ * redelivers an event, like "Resend" in the Stripe dashboard.
+ *
+ * When switching to real Stripe, these become Convex actions that call the
+ * Stripe SDK; the webhook handler stays as it is.
+ */
+
+import {
+  StripeCharge,
+  StripeCheckoutSession,
+  StripeEvent,
+  StripeEventType,
+  StripePaymentIntent,
+  StripeRefund,
+} from '../types';
+import { LOCAL_WEBHOOK_SECRET, signPayload } from '../data/stripeSignature';
+import { handleStripeWebhook, WebhookResult } from './webhooks';
+
+// ============================================
+// TEST CARDS
+// ============================================
+
+export const TEST_CARDS = {
+  success: '4242424242424242',
+  declined: '4000000000000002',
+  insufficientFunds: '4000000000009995',
+} as const;
+
+const DECLINES: Record<string, { decline_code: string; message: string }> = {
+  [TEST_CARDS.declined]: { decline_code: 'generic_decline', message: 'Your card was declined.' },
+  [TEST_CARDS.insufficientFunds]: {
+    decline_code: 'insufficient_funds',
+    message: 'Your card has insufficient funds.',
+  },
+};
+
+// Checkout Sessions expire after 24 hours, like Stripe's default
+const CHECKOUT_SESSION_TTL_SECONDS = 24 * 60 * 60;
+
+// ============================================
+// STORES
+// ============================================
+
+const checkoutSessions: Map<string, StripeCheckoutSession> = new Map();
+const paymentIntents: Map<string, StripePaymentIntent> = new Map();
+// Keyed by payment intent ID
+const charges: Map<string, StripeCharge> = new Map();
+const events: Map<string, StripeEvent> = new Map();
+let listeners: Set<() => void> = new Set();
+
+const notifyListeners = () => listeners.forEach((l) => l());
+const generateId = (prefix: string) =>
+  `${prefix}_test_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 12)}`;
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+export interface StripeResult {
+  success: boolean;
+  error?: string;
+  declineCode?: string;
+  checkoutSession?: StripeCheckoutSession;
+  refund?: StripeRefund;
+}
+
+// ============================================
+// WEBHOOK DELIVERY
+// ============================================
+
+async function deliver(event: StripeEvent): Promise<WebhookResult> {
+  const payload = JSON.stringify(event);
+  const signature = await signPayload(payload, LOCAL_WEBHOOK_SECRET);
+  const result = await handleStripeWebhook({ payload, signature });
+  if (!result.received) {
+    console.warn(`Webhook ${event.type} (${event.id}) was not accepted:`, result.error);
+  }
+  return result;
+}
+
+async function emit(
+  type: StripeEventType,
+  object: StripeCheckoutSession | StripePaymentIntent | StripeCharge
+): Promise<WebhookResult> {
+  // Events carry a snapshot, later changes to the object don't affect them
+  const event: StripeEvent = {
+    id: generateId('evt'),
+    object: 'event',
+    type,
+    created: nowSeconds(),
+    data: { object: structuredClone(object) },
+  };
+  events.set(event.id, event);
+  notifyListeners();
+  return deliver(event);
+}
+
+// ============================================
+// CHECKOUT
+// ============================================
+
+/**
+ * Create a Checkout Session for an order total
+ * Convex: action({ args: { ... }, handler: ... }) calling stripe.checkout.sessions.create
+ */
+export async function createCheckoutSession(args: {
+  amountTotal: number;
+  currency: string;
+  customerEmail: string;
+  clientReferenceId: string;
+  metadata?: Record<string, string>;
+  // Unix seconds; defaults to 24 hours from now
+  expiresAt?: number;
+}): Promise<StripeResult> {
+  if (!Number.isInteger(args.amountTotal) || args.amountTotal <= 0) {
+    return { success: false, error: 'Amount must be a positive number of cents' };
+  }
+
+  const id = generateId('cs');
+  const paymentIntent: StripePaymentIntent = {
+    id: generateId('pi'),
+    object: 'payment_intent',
+    amount: args.amountTotal,
+    currency: args.currency.toLowerCase(),
+    status: 'requires_payment_method',
+    metadata: { ...args.metadata, checkout_session_id: id },
+  };
+  const checkoutSession: StripeCheckoutSession = {
+    id,
+    object: 'checkout.session',
+    status: 'open',
+    payment_status: 'unpaid',
+    amount_total: args.amountTotal,
+    currency: paymentIntent.currency,
+    customer_email: args.customerEmail,
+    client_reference_id: args.clientReferenceId,
+    payment_intent: paymentIntent.id,
+    url: `https://checkout.stripe.local/pay/${id}`,
+    expires_at: args.expiresAt ?? nowSeconds() + CHECKOUT_SESSION_TTL_SECONDS,
+    metadata: args.metadata ?? {},
+  };
+
+  paymentIntents.set(paymentIntent.id, paymentIntent);
+  checkoutSessions.set(id, checkoutSession);
+  notifyListeners();
+  return { success: true, checkoutSession: { ...checkoutSession } };
+}
+
+/**
+ * Submit a card on the hosted checkout page.
+ * Declined cards leave the session open so the customer can try again.
+ */
+export async function payCheckoutSession(args: {
+  checkoutSessionId: string;
+  cardNumber: string;
+}): Promise<StripeResult> {
+  const checkoutSession = checkoutSessions.get(args.checkoutSessionId);
+  if (!checkoutSession) {
+    return { success: false, error: 'Checkout session not found' };
+  }
+  if (checkoutSession.status === 'open' && checkoutSession.expires_at <= nowSeconds()) {
+    await expireCheckoutSession({ checkoutSessionId: checkoutSession.id });
+  }
+  if (checkoutSession.status !== 'open') {
+    return { success: false, error: `Checkout session is ${checkoutSession.status}` };
+  }
+
+  const paymentIntent = paymentIntents.get(checkoutSession.payment_intent)!;
+  const cardNumber = args.cardNumber.replace(/\D/g, '');
+  const decline = DECLINES[cardNumber];
+  if (decline || cardNumber.length < 12) {
+    paymentIntent.last_payment_error = decline
+      ? { code: 'card_declined', ...decline }
+      : { code: 'incorrect_number', message: 'Your card number is incorrect.' };
+    await emit('payment_intent.payment_failed', paymentIntent);
+    return {
+      success: false,
+      error: paymentIntent.last_payment_error.message,
+      declineCode: paymentIntent.last_payment_error.decline_code,
+    };
+  }
+
+  paymentIntent.status = 'succeeded';
+  delete paymentIntent.last_payment_error;
+  charges.set(paymentIntent.id, {
+    id: generateId('ch'),
+    object: 'charge',
+    amount: paymentIntent.amount,
+    amount_refunded: 0,
+    refunded: false,
+    payment_intent: paymentIntent.id,
+    refunds: { data: [] },
+    metadata: paymentIntent.metadata,
+  });
+  checkoutSession.status = 'complete';
+  checkoutSession.payment_status = 'paid';
+
+  await emit('checkout.session.completed', checkoutSession);
+  return { success: true, checkoutSession: { ...checkoutSession } };
+}
+
+/**
+ * Expire an open Checkout Session (customer abandoned the payment page)
+ * Convex: action calling stripe.checkout.sessions.expire
+ */
+export async function expireCheckoutSession(args: { checkoutSessionId: string }): Promise<StripeResult> {
+  const checkoutSession = checkoutSessions.get(args.checkoutSessionId);
+  if (!checkoutSession) {
+    return { success: false, error: 'Checkout session not found' };
+  }
+  if (checkoutSession.status !== 'open') {
+    return { success: false, error: `Checkout session is ${checkoutSession.status}` };
+  }
+
+  checkoutSession.status = 'expired';
+  paymentIntents.get(checkoutSession.payment_intent)!.status = 'canceled';
+
+  await emit('checkout.session.expired', checkoutSession);
+  return { success: true, checkoutSession: { ...checkoutSession } };
+}
+
+/**
+ * Expire open Checkout Sessions past their expiry, sending
+ * checkout.session.expired for each (which cancels abandoned orders)
+ * Stripe does this on its own; locally it's swept on read
+ */
+export async function sweepExpiredSessions(now = nowSeconds()): Promise<void> {
+  const expired = [...checkoutSessions.values()].filter(
+    (checkoutSession) => checkoutSession.status === 'open' && checkoutSession.expires_at <= now
+  );
+  for (const checkoutSession of expired) {
+    await expireCheckoutSession({ checkoutSessionId: checkoutSession.id });
+  }
+}
+
+/**
+ * Get a Checkout Session
+ * Convex: action calling stripe.checkout.sessions.retrieve
+ */
+export async function retrieveCheckoutSession(args: {
+  checkoutSessionId: string;
+}): Promise<StripeCheckoutSession | null> {
+  await sweepExpiredSessions();
+  const checkoutSession = checkoutSessions.get(args.checkoutSessionId);
+  return checkoutSession ? { ...checkoutSession } : null;
+}
+
+// ============================================
+// REFUNDS
+// ============================================
+
+/**
+ * Refund all or part of a successful payment
+ * Convex: action calling stripe.refunds.create
+ */
+export async function createRefund(args: { paymentIntentId: string; amount?: number }): Promise<StripeResult> {
+  const charge = charges.get(args.paymentIntentId);
+  if (!charge) {
+    return { success: false, error: 'No successful payment to refund' };
+  }
+
+  const refundable = charge.amount - charge.amount_refunded;
+  const amount = args.amount ?? refundable;
+  if (!Number.isInteger(amount) || amount <= 0 || amount > refundable) {
+    return { success: false, error: `Refund must be between 1 and ${refundable} cents` };
+  }
+
+  const refund: StripeRefund = {
+    id: generateId('re'),
+    object: 'refund',
+    amount,
+    charge: charge.id,
+    payment_intent: charge.payment_intent,
+    created: nowSeconds(),
+  };
+  charge.refunds.data.push(refund);
+  charge.amount_refunded += amount;
+  charge.refunded = charge.amount_refunded === charge.amount;
+
+  await emit('charge.refunded', charge);
+  return { success: true, refund };
+}
+
+// ============================================
+// EVENTS
+// ============================================
+
+/**
+ * Events sent so far, newest first
+ */
+export async function listEvents(): Promise<StripeEvent[]> {
+  return [...events.values()].reverse();
+}
+
+/**
+ * Deliver an event again, e.g. to check that duplicates are harmless
+ */
+export async function resendEvent(args: { eventId: string }): Promise<WebhookResult | null> {
+  const event = events.get(args.eventId);
+  return event ? deliver(event) : null;
+}
+
+/**
+ * Subscribe to simulator changes
+ */
+export function subscribe(callback: () => void): () => void {
+  listeners.add(callback);
+  return () => listeners.delete(callback);
+}
+
+/**
+ * Reset simulator state (for testing)
+ */
+export function _reset(): void {
+  checkoutSessions.clear();
+  paymentIntents.clear();
+  charges.clear();
+  events.clear();
+  notifyListeners();
+}
@@ -0,0 +1,57 @@
+/**
+ * Subscription Functions
+ *
+ * These functions mimic Convex mutations for upgrading a subscription tier.
+ * An upgrade is paid like an order: a Stripe Checkout Session is created for
+ * the tier's price, and the tier only changes when the checkout.session.completed
+ * webhook arrives for it (see convex-dev/webhooks.ts). The tier itself is set
+ * by authInternal.setSubscriptionTier, which isn't part of `api`.
+ *
+ * Checkout Session metadata:
+ *   - subscription_tier: the tier being bought
+ *   - user_id: the account to upgrade
+ */
+
+import { StripeCheckoutSession, SubscriptionTier, SUBSCRIPTION_TIERS } from '../types';
+import { TIER_PRICES } from '../data/quotas';
+import { BASE_CURRENCY } from '../data/currency';
+import * as auth from './auth';
+import * as stripe from './stripe';
+
+export interface SubscriptionResult {
+  success: boolean;
+  error?: string;
+  checkoutSession?: StripeCheckoutSession;
+}
+
+/**
+ * Start paying for a tier. The user is upgraded by the webhook once paid.
+ * Convex: mutation({ args: { token, tier }, handler: ... }) scheduling the Stripe action
+ */
+export async function startCheckout(args: {
+  token: string;
+  tier: SubscriptionTier;
+}): Promise<SubscriptionResult> {
+  const user = await auth.validateSession({ token: args.token });
+  if (!user) {
+    return { success: false, error: 'Not authenticated' };
+  }
+  if (!SUBSCRIPTION_TIERS.includes(args.tier) || TIER_PRICES[args.tier] <= 0) {
+    return { success: false, error: 'Choose a paid tier' };
+  }
+  if (SUBSCRIPTION_TIERS.indexOf(args.tier) <= SUBSCRIPTION_TIERS.indexOf(user.tier)) {
+    return { success: false, error: 'You already have this tier or a higher one' };
+  }
+
+  const result = await stripe.createCheckoutSession({
+    amountTotal: TIER_PRICES[args.tier],
+    currency: BASE_CURRENCY,
+    customerEmail: user.email,
+    clientReferenceId: user.id,
+    metadata: { subscription_tier: args.tier, user_id: user.id },
+  });
+  if (!result.success) {
+    return { success: false, error: result.error || 'Could not start payment' };
+  }
+  return { success: true, checkoutSession: result.checkoutSession };
+}
@@ -0,0 +1,219 @@
+/**
+ * Webhook Handlers
+ *
+ * These functions mimic a Convex HTTP action for payment webhooks.
+ * Convex: httpRouter().route({ path: '/stripe/webhook', method: 'POST', handler: httpAction(...) })
+ *
+ * Stripe delivers events at least once, so the same event can arrive several
+ * times (or out of order). Each event ID is handled once; anything that no
+ * longer fits the order's state is acknowledged and ignored.
+ */
+
+import {
+  CurrencyCode,
+  Order,
+  OrderActor,
+  StripeCharge,
+  StripeCheckoutSession,
+  StripeEvent,
+  StripePaymentIntent,
+  SubscriptionTier,
+  SUBSCRIPTION_TIERS,
+} from '../types';
+import { constructEvent, LOCAL_WEBHOOK_SECRET, WebhookSignatureError } from '../data/stripeSignature';
+import { OrderLifecycleError } from '../data/orderLifecycle';
+import { OutOfStockError } from '../data/inventory';
+import { TIER_PRICES } from '../data/quotas';
+import { BASE_CURRENCY, formatPrice } from '../data/currency';
+import * as authInternal from './authInternal';
+import * as orders from './orders';
+
+export interface WebhookResult {
+  // Whether the event was accepted (HTTP 2xx); Stripe redelivers otherwise
+  received: boolean;
+  outcome: 'processed' | 'duplicate' | 'ignored' | 'rejected' | 'failed';
+  error?: string;
+}
+
+interface ProcessedEvent {
+  eventId: string;
+  type: StripeEvent['type'];
+  outcome: 'processed' | 'ignored';
+  processedAt: number;
+}
+
+// Event IDs already handled (or being handled right now)
+const processedEvents: Map<string, ProcessedEvent | 'in_progress'> = new Map();
+
+const PAYMENT_ACTOR: OrderActor = { type: 'payment', name: 'Stripe' };
+
+/**
+ * Handle a webhook delivery
+ * Convex: httpAction(async (ctx, request) => ...) with the raw body and Stripe-Signature header
+ */
+export async function handleStripeWebhook(args: {
+  payload: string;
+  signature: string | null;
+}): Promise<WebhookResult> {
+  let event: StripeEvent;
+  try {
+    event = await constructEvent(args.payload, args.signature, LOCAL_WEBHOOK_SECRET);
+  } catch (error) {
+    const message = error instanceof WebhookSignatureError ? error.message : 'Invalid payload';
+    return { received: false, outcome: 'rejected', error: message };
+  }
+
+  // Claim the event before any await so concurrent duplicates are skipped
+  if (processedEvents.has(event.id)) {
+    return { received: true, outcome: 'duplicate' };
+  }
+  processedEvents.set(event.id, 'in_progress');
+
+  try {
+    const handled = await dispatch(event);
+    const outcome = handled ? 'processed' : 'ignored';
+    processedEvents.set(event.id, { eventId: event.id, type: event.type, outcome, processedAt: Date.now() });
+    return { received: true, outcome };
+  } catch (error) {
+    // Unexpected failure: release the claim so a redelivery can try again
+    processedEvents.delete(event.id);
+    return {
+      received: false,
+      outcome: 'failed',
+      error: error instanceof Error ? error.message : 'Webhook handler failed',
+    };
+  }
+}
+
+/**
+ * Apply an event to its order or subscription. Returns false if there is nothing to do.
+ */
+async function dispatch(event: StripeEvent): Promise<boolean> {
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object as StripeCheckoutSession;
+      if (session.payment_status !== 'paid') return false;
+      if (session.metadata?.subscription_tier) return applySubscription(session);
+      return applyToOrder(session.id, (order) => {
+        // Never mark an order paid for a different amount; flag it for staff instead
+        if (session.amount_total !== order.total || session.currency !== order.currency) {
+          return orders.recordPaymentFailure({
+            orderId: order.id,
+            reason: `Paid ${formatPrice(session.amount_total, session.currency as CurrencyCode)}, ` +
+              `but the order total is ${formatPrice(order.total, order.currency)}`,
+            actor: PAYMENT_ACTOR,
+          });
+        }
+        return orders
+          .updateStatus({
+            stripeSessionId: order.stripeSessionId,
+            status: 'paid',
+            stripePaymentIntentId: session.payment_intent,
+            actor: PAYMENT_ACTOR,
+          })
+          .catch((error) => {
+            // The hold expired and the stock sold meanwhile: cancel and flag the payment for a refund
+            if (!(error instanceof OutOfStockError)) throw error;
+            return orders.cancel({
+              orderId: order.id,
+              reason: 'out_of_stock',
+              note: `${error.message} after the hold expired; refund payment ${session.payment_intent}`,
+              actor: PAYMENT_ACTOR,
+            });
+          });
+      });
+    }
+
+    case 'checkout.session.expired': {
+      const session = event.data.object as StripeCheckoutSession;
+      return applyToOrder(session.id, (order) =>
+        orders.updateStatus({
+          stripeSessionId: order.stripeSessionId,
+          status: 'cancelled',
+          cancellationReason: 'payment_expired',
+          actor: PAYMENT_ACTOR,
+        })
+      );
+    }
+
+    case 'payment_intent.payment_failed': {
+      const paymentIntent = event.data.object as StripePaymentIntent;
+      return applyToOrder(paymentIntent.metadata.checkout_session_id, (order) =>
+        orders.recordPaymentFailure({
+          orderId: order.id,
+          reason: paymentIntent.last_payment_error?.message || 'Payment failed',
+          actor: PAYMENT_ACTOR,
+        })
+      );
+    }
+
+    case 'charge.refunded': {
+      const charge = event.data.object as StripeCharge;
+      return applyToOrder(charge.metadata.checkout_session_id, async (order) => {
+        for (const refund of charge.refunds.data) {
+          await orders.recordRefund({
+            orderId: order.id,
+            refundId: refund.id,
+            amount: refund.amount,
+            actor: PAYMENT_ACTOR,
+          });
+        }
+      });
+    }
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Run an update on the order for a Checkout Session. Events for unknown
+ * orders, or that the order's status no longer allows, are ignored.
+ */
+async function applyToOrder(
+  stripeSessionId: string | undefined,
+  apply: (order: Order) => Promise<unknown>
+): Promise<boolean> {
+  if (!stripeSessionId) return false;
+  const order = await orders.getByStripeSession({ stripeSessionId });
+  if (!order) return false;
+
+  try {
+    await apply(order);
+    return true;
+  } catch (error) {
+    if (error instanceof OrderLifecycleError && error.code === 'illegal_transition') return false;
+    throw error;
+  }
+}
+
+/**
+ * Upgrade the account a paid subscription checkout was for (see
+ * convex-dev/subscriptions.ts). Sessions whose amount doesn't match the
+ * tier's price are ignored.
+ */
+async function applySubscription(session: StripeCheckoutSession): Promise<boolean> {
+  const tier = session.metadata.subscription_tier as SubscriptionTier;
+  const userId = session.metadata.user_id;
+  if (!SUBSCRIPTION_TIERS.includes(tier) || !userId) return false;
+  if (session.amount_total !== TIER_PRICES[tier] || session.currency !== BASE_CURRENCY) return false;
+
+  const result = await authInternal.setSubscriptionTier({ userId, tier });
+  return result.success;
+}
+
+/**
+ * Whether an event ID has been handled
+ * Convex: internalQuery({ args: { eventId }, handler: ... })
+ */
+export async function getProcessedEvent(args: { eventId: string }): Promise<ProcessedEvent | null> {
+  const entry = processedEvents.get(args.eventId);
+  return entry && entry !== 'in_progress' ? entry : null;
+}
+
+/**
+ * Reset processed events (for testing)
+ */
+export function _reset(): void {
+  processedEvents.clear();
+}
@@ -0,0 +1,284 @@
+/**
+ * Auto-decorate - Procedural ornament layouts
+ *
+ * Computes where a batch of ornaments goes on the tree, so a full tree can
+ * be decorated in one action instead of dozens of clicks. Layouts are placed
+ * on the foliage of the current tree config (see data/treeSurface.ts) and are
+ * deterministic for a given tree seed and layout seed.
+ *
+ * Styles:
+ *   - even:      evenly spread, no clumps (best-candidate Poisson-disk sampling)
+ *   - spiral:    one line winding from the base to the top
+ *   - ribbons:   vertical stripes, one color each
+ *   - clustered: small groups of matching ornaments
+ *
+ * The generator doesn't check quotas; add the result through the tree store
+ * (`addOrnaments`), which stops at the user's limit.
+ *
+ * Usage:
+ *   const layout = generateOrnamentLayout(treeConfig, {
+ *     style: 'even', count: 40, types: ['sphere', 'bell'], colors: COLOR_PALETTES.classic,
+ *   });
+ *   await store.addOrnaments(layout);
+ */
+
+import { OrnamentData, OrnamentType, TreeConfig } from '../types';
+import {
+  ORNAMENT_SURFACE_OFFSET,
+  getFoliageRadius,
+  getFoliageSpan,
+  getSurfacePoint,
+} from './treeSurface';
+
+// ============================================
+// TYPES & CONSTANTS
+// ============================================
+
+export type AutoDecorateStyle = 'even' | 'spiral' | 'ribbons' | 'clustered';
+
+export const AUTO_DECORATE_STYLES: { id: AutoDecorateStyle; label: string }[] = [
+  { id: 'even', label: 'Even' },
+  { id: 'spiral', label: 'Spiral' },
+  { id: 'ribbons', label: 'Ribbons' },
+  { id: 'clustered', label: 'Clusters' },
+];
+
+export interface AutoDecorateOptions {
+  style: AutoDecorateStyle;
+  count: number;
+  types: OrnamentType[];
+  colors: string[];
+  // Varies the layout on the same tree; defaults to 0
+  seed?: number;
+}
+
+export type GeneratedOrnament = Omit<OrnamentData, 'id' | 'userId' | 'createdAt'>;
+
+// Most ornaments one run may add
+export const MAX_AUTO_DECORATE_COUNT = 200;
+
+// Candidates tried per ornament by the even layout; more is more even but slower
+const EVEN_CANDIDATES = 12;
+
+const SPIRAL_TURNS = 5;
+
+// Spread of a cluster around its center, in scene units
+const CLUSTER_SPREAD = 0.5;
+
+// ============================================
+// RANDOM
+// ============================================
+
+/**
+ * Seeded generator returning values in [0, 1) (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = Math.floor(seed * 1000) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+// ============================================
+// SURFACE SAMPLING
+// ============================================
+
+interface SurfaceSpot {
+  height: number;
+  angle: number;
+}
+
+/**
+ * A random spot on the foliage, uniform by area: wide lower tiers get more
+ * ornaments than the narrow top
+ */
+function sampleSurface(config: TreeConfig, random: () => number): SurfaceSpot {
+  const { bottom, top } = getFoliageSpan(config);
+  const maxRadius = getFoliageRadius(config, bottom);
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const height = bottom + (top - bottom) * random();
+    if (random() * maxRadius <= getFoliageRadius(config, height)) {
+      return { height, angle: random() * Math.PI * 2 };
+    }
+  }
+  return { height: bottom, angle: random() * Math.PI * 2 };
+}
+
+function distanceSquared(a: [number, number, number], b: [number, number, number]): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
+
+/**
+ * Spots spread as evenly as possible, also keeping clear of `avoid`
+ * (Mitchell's best-candidate approximation of Poisson-disk sampling)
+ */
+function sampleEvenSpots(
+  config: TreeConfig,
+  count: number,
+  random: () => number,
+  avoid: [number, number, number][] = []
+): SurfaceSpot[] {
+  const placed = [...avoid];
+  const spots: SurfaceSpot[] = [];
+  for (let i = 0; i < count; i++) {
+    let best: SurfaceSpot | null = null;
+    let bestDistance = -1;
+    for (let c = 0; c < EVEN_CANDIDATES; c++) {
+      const spot = sampleSurface(config, random);
+      const position = getSurfacePoint(config, spot.height, spot.angle, ORNAMENT_SURFACE_OFFSET);
+      const nearest = placed.reduce(
+        (min, other) => Math.min(min, distanceSquared(position, other)),
+        Infinity
+      );
+      if (nearest > bestDistance) {
+        best = spot;
+        bestDistance = nearest;
+      }
+    }
+    spots.push(best!);
+    placed.push(getSurfacePoint(config, best!.height, best!.angle, ORNAMENT_SURFACE_OFFSET));
+  }
+  return spots;
+}
+
+// ============================================
+// LAYOUTS
+// ============================================
+
+interface LayoutSpot extends SurfaceSpot {
+  // Groups take turns through the palette: one per ribbon or cluster, one per spiral step
+  group?: number;
+}
+
+/**
+ * Evenly spaced along a spiral: the spiral is traced finely, then cut into
+ * equal lengths so the wide bottom turns aren't sparser than the top
+ */
+function spiralLayout(config: TreeConfig, count: number, random: () => number): LayoutSpot[] {
+  const { bottom, top } = getFoliageSpan(config);
+  const startAngle = random() * Math.PI * 2;
+  const steps = Math.max(400, count * 8);
+
+  // Length is measured around and up the tree, leaving out the jumps in
+  // radius at tier rims (they'd bunch ornaments up at each rim)
+  const heightStep = (top - bottom) / steps;
+  const angleStep = (SPIRAL_TURNS * Math.PI * 2) / steps;
+  const trace: { spot: SurfaceSpot; length: number }[] = [];
+  let length = 0;
+  for (let i = 0; i <= steps; i++) {
+    const spot = { height: bottom + heightStep * i, angle: startAngle + angleStep * i };
+    if (i > 0) {
+      const radius = getFoliageRadius(config, spot.height) + ORNAMENT_SURFACE_OFFSET;
+      length += Math.hypot(heightStep, radius * angleStep);
+    }
+    trace.push({ spot, length });
+  }
+
+  const spots: LayoutSpot[] = [];
+  let cursor = 0;
+  for (let i = 0; i < count; i++) {
+    const target = count === 1 ? length / 2 : (length * i) / (count - 1);
+    while (cursor < trace.length - 1 && trace[cursor].length < target) cursor++;
+    spots.push({ ...trace[cursor].spot, group: i });
+  }
+  return spots;
+}
+
+/**
+ * Vertical stripes at equal angles, ornaments evenly spaced up each one
+ */
+function ribbonLayout(config: TreeConfig, count: number, random: () => number): LayoutSpot[] {
+  const { bottom, top } = getFoliageSpan(config);
+  const ribbons = Math.min(count, Math.max(3, Math.min(8, Math.round(count / 8))));
+  const startAngle = random() * Math.PI * 2;
+
+  const spots: LayoutSpot[] = [];
+  for (let ribbon = 0; ribbon < ribbons; ribbon++) {
+    // Share the count out, earlier ribbons taking the remainder
+    const perRibbon = Math.floor(count / ribbons) + (ribbon < count % ribbons ? 1 : 0);
+    const angle = startAngle + (ribbon / ribbons) * Math.PI * 2;
+    for (let i = 0; i < perRibbon; i++) {
+      const t = (i + 0.5) / perRibbon;
+      spots.push({ height: bottom + (top - bottom) * t, angle, group: ribbon });
+    }
+  }
+  return spots;
+}
+
+/**
+ * Groups of about six around evenly spread centers
+ */
+function clusterLayout(config: TreeConfig, count: number, random: () => number): LayoutSpot[] {
+  const { bottom, top } = getFoliageSpan(config);
+  const centers = sampleEvenSpots(config, Math.max(1, Math.round(count / 6)), random);
+
+  return Array.from({ length: count }, (_, i) => {
+    const group = i % centers.length;
+    const center = centers[group];
+    // Sum of two uniforms: bunched toward the center, never far off
+    const dx = (random() + random() - 1) * CLUSTER_SPREAD;
+    const dy = (random() + random() - 1) * CLUSTER_SPREAD;
+    const height = Math.min(top, Math.max(bottom, center.height + dy));
+    const radius = Math.max(getFoliageRadius(config, height), 0.2);
+    return { height, angle: center.angle + dx / radius, group };
+  });
+}
+
+// ============================================
+// GENERATOR
+// ============================================
+
+/**
+ * Ornaments for an auto-decorate run, facing out from the trunk. `existing`
+ * positions are kept clear by the even layout.
+ */
+export function generateOrnamentLayout(
+  config: TreeConfig,
+  options: AutoDecorateOptions,
+  existing: [number, number, number][] = []
+): GeneratedOrnament[] {
+  const count = Math.min(Math.max(0, Math.floor(options.count)), MAX_AUTO_DECORATE_COUNT);
+  if (count === 0 || options.types.length === 0 || options.colors.length === 0) return [];
+
+  const random = createRandom((config.seed || 0) + (options.seed ?? 0) * 7919);
+
+  let spots: LayoutSpot[];
+  switch (options.style) {
+    case 'even':
+      spots = sampleEvenSpots(config, count, random, existing);
+      break;
+    case 'spiral':
+      spots = spiralLayout(config, count, random);
+      break;
+    case 'ribbons':
+      spots = ribbonLayout(config, count, random);
+      break;
+    case 'clustered':
+      spots = clusterLayout(config, count, random);
+      break;
+  }
+
+  return spots.map((spot) => {
+    const position = getSurfacePoint(config, spot.height, spot.angle, ORNAMENT_SURFACE_OFFSET);
+    // Grouped layouts cycle through the palette by group; even picks freely
+    const type =
+      spot.group === undefined ? pick(options.types, random) : options.types[spot.group % options.types.length];
+    const color =
+      spot.group === undefined ? pick(options.colors, random) : options.colors[spot.group % options.colors.length];
+    return {
+      type,
+      color,
+      position,
+      rotation: [0, Math.atan2(position[0], position[2]), 0] as [number, number, number],
+      scale: 1,
+    };
+  });
+}
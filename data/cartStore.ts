@@ -1,11 +1,25 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { Cart, CartItem, TreeProduct, OrnamentProduct, TopperProduct, formatPrice } from '../types';
+import {
+  Cart,
+  CartItem,
+  CurrencyCode,
+  TreeProduct,
+  OrnamentProduct,
+  TopperProduct,
+  GarlandProduct,
+  formatPrice,
+} from '../types';
 import { getSessionId } from './sessionStore';
+import { useAuth } from '../hooks/useAuth';
+import { useCurrency } from '../hooks/useCurrency';
 import * as cartApi from '../convex-dev/cart';
 
 export interface CartStore {
   cart: Cart | null;
+  // Key the cart is stored under: the user ID when signed in, else the browser session
+  ownerId: string;
   isLoading: boolean;
+  currency: CurrencyCode;
   itemCount: number;
   subtotal: number;
   formattedSubtotal: string;
@@ -18,16 +32,23 @@ export interface CartStore {
     position?: [number, number, number]
   ) => Promise<void>;
   addTopperToCart: (product: TopperProduct, color: string) => Promise<void>;
+  // Quantity is the strand's length in meters
+  addGarlandToCart: (product: GarlandProduct, meters: number, color: string) => Promise<void>;
   removeFromCart: (itemId: string) => Promise<void>;
   updateQuantity: (itemId: string, quantity: number) => Promise<void>;
   clearCart: () => Promise<void>;
   refreshCart: () => Promise<void>;
+  applyPromoCode: (code: string) => Promise<{ success: boolean; error?: string }>;
+  removePromoCode: () => Promise<void>;
 }
 
 export function useCartStore(): CartStore {
   const [cart, setCart] = useState<Cart | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const sessionId = getSessionId();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const sessionId = userId ?? getSessionId();
+  const { currency, price } = useCurrency();
 
   // Fetch cart on mount
   const refreshCart = useCallback(async () => {
@@ -41,6 +62,14 @@ export function useCartStore(): CartStore {
     }
   }, [sessionId]);
 
+  // Bring the guest cart along when the customer signs in
+  useEffect(() => {
+    if (!userId) return;
+    cartApi.mergeGuestCart({ sessionId: getSessionId(), userId }).catch((error) =>
+      console.error('Failed to merge guest cart:', error)
+    );
+  }, [userId]);
+
   useEffect(() => {
     refreshCart();
 
@@ -52,14 +81,22 @@ export function useCartStore(): CartStore {
     return unsubscribe;
   }, [refreshCart]);
 
+  // Keep the cart in the display currency
+  useEffect(() => {
+    if (cart && cart.currency !== currency) {
+      cartApi.setCurrency({ sessionId, currency }).then(setCart);
+    }
+  }, [cart, currency, sessionId]);
+
   // Derived values
   const itemCount = useMemo(() => {
     if (!cart) return 0;
-    return cart.items.reduce((sum, item) => sum + item.quantity, 0);
+    // A garland is one item however many meters long
+    return cart.items.reduce((sum, item) => sum + (item.productType === 'garland' ? 1 : item.quantity), 0);
   }, [cart]);
 
   const subtotal = cart?.subtotal || 0;
-  const formattedSubtotal = formatPrice(subtotal);
+  const formattedSubtotal = formatPrice(subtotal, cart?.currency ?? currency);
 
   const hasTree = useMemo(() => {
     if (!cart) return false;
@@ -76,7 +113,9 @@ export function useCartStore(): CartStore {
           productType: 'tree',
           productId: product.id,
           quantity: 1,
-          unitPrice: product.price.amount,
+          unitPrice: price(product.price.amount),
+          currency,
+          userId,
         });
         setCart(newCart);
       } catch (error) {
@@ -86,7 +125,7 @@ export function useCartStore(): CartStore {
         setIsLoading(false);
       }
     },
-    [sessionId]
+    [sessionId, userId, currency, price]
   );
 
   const addOrnamentToCart = useCallback(
@@ -101,8 +140,10 @@ export function useCartStore(): CartStore {
           productType: 'ornament',
           productId: product.id,
           quantity: 1,
-          unitPrice: product.price.amount,
+          unitPrice: price(product.price.amount),
+          currency,
           customization: { color, position },
+          userId,
         });
         setCart(newCart);
       } catch (error) {
@@ -110,7 +151,7 @@ export function useCartStore(): CartStore {
         throw error;
       }
     },
-    [sessionId]
+    [sessionId, userId, currency, price]
   );
 
   const addTopperToCart = useCallback(
@@ -121,8 +162,10 @@ export function useCartStore(): CartStore {
           productType: 'topper',
           productId: product.id,
           quantity: 1,
-          unitPrice: product.price.amount,
+          unitPrice: price(product.price.amount),
+          currency,
           customization: { color },
+          userId,
         });
         setCart(newCart);
       } catch (error) {
@@ -130,7 +173,29 @@ export function useCartStore(): CartStore {
         throw error;
       }
     },
-    [sessionId]
+    [sessionId, userId, currency, price]
+  );
+
+  const addGarlandToCart = useCallback(
+    async (product: GarlandProduct, meters: number, color: string) => {
+      try {
+        const newCart = await cartApi.addItem({
+          sessionId,
+          productType: 'garland',
+          productId: product.id,
+          quantity: meters,
+          unitPrice: price(product.price.amount),
+          currency,
+          customization: { color },
+          userId,
+        });
+        setCart(newCart);
+      } catch (error) {
+        console.error('Failed to add garland to cart:', error);
+        throw error;
+      }
+    },
+    [sessionId, userId, currency, price]
   );
 
   const removeFromCart = useCallback(
@@ -169,9 +234,29 @@ export function useCartStore(): CartStore {
     }
   }, [sessionId]);
 
+  const applyPromoCode = useCallback(
+    async (code: string) => {
+      const result = await cartApi.applyPromoCode({ sessionId, code });
+      if (result.cart) setCart(result.cart);
+      return { success: result.success, error: result.error };
+    },
+    [sessionId]
+  );
+
+  const removePromoCode = useCallback(async () => {
+    try {
+      const newCart = await cartApi.removePromoCode({ sessionId });
+      setCart(newCart);
+    } catch (error) {
+      console.error('Failed to remove promo code:', error);
+    }
+  }, [sessionId]);
+
   return {
     cart,
+    ownerId: sessionId,
     isLoading,
+    currency,
     itemCount,
     subtotal,
     formattedSubtotal,
@@ -179,10 +264,13 @@ export function useCartStore(): CartStore {
     addTreeToCart,
     addOrnamentToCart,
     addTopperToCart,
+    addGarlandToCart,
     removeFromCart,
     updateQuantity,
     clearCart,
     refreshCart,
+    applyPromoCode,
+    removePromoCode,
   };
 }
 
@@ -0,0 +1,408 @@
+/**
+ * Collaborative Sync - Real-time decorating over the OrnamentEvent protocol
+ *
+ * Peers in the same room exchange `OrnamentEvent`s (see types.ts) wrapped in
+ * a small message envelope. The wire is pluggable:
+ *   - BroadcastChannel: tabs of the same browser, no server needed
+ *   - WebSocket: remote peers through the relay in scripts/collab-relay.js
+ *
+ * Document changes are detected by diffing the tree document against the
+ * last state that was shared with the room, so undo/redo, imports and gizmo
+ * drags are all broadcast without each mutation knowing about sync.
+ * Document events carry Lamport stamps so concurrent edits merge the same
+ * way on every peer (see treeCrdt.ts).
+ *
+ * Usage:
+ *   const transport = createCollabTransport(roomId);
+ *   const unsubscribe = transport.subscribe((message) => ...);
+ *   transport.send(createCollabMessage(roomId, peerId, event));
+ */
+
+import { GarlandData, OrnamentData, OrnamentEvent, SessionParticipant, SessionRole } from '../types';
+import { TreeDocument } from './treeHistory';
+import { LamportTimestamp, TreeCrdtState, TreeOperation } from './treeCrdt';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Set COLLAB_RELAY_URL (e.g. ws://localhost:3011) to sync across machines
+const COLLAB_RELAY_URL = process.env.COLLAB_RELAY_URL;
+
+const ROOM_PARAM = 'room';
+const CHANNEL_PREFIX = 'christmas-tree-room:';
+
+// WebSocket reconnect backoff
+const RECONNECT_BASE_DELAY = 500;
+const RECONNECT_MAX_DELAY = 10000;
+
+// ============================================
+// MESSAGE & TRANSPORT TYPES
+// ============================================
+
+export interface CollabMessage {
+  roomId: string;
+  senderId: string;
+  // Set for direct replies (e.g. the state snapshot sent to a newcomer)
+  targetId?: string;
+  event: OrnamentEvent;
+  // Document events: merge metadata (see TreeOperation)
+  stamp?: LamportTimestamp;
+  fields?: string[];
+  // Joins and welcomes: the sender's full replica
+  state?: TreeCrdtState;
+  sentAt: number;
+}
+
+export type CollabTransportStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface CollabTransport {
+  readonly kind: 'broadcast-channel' | 'websocket';
+  getStatus: () => CollabTransportStatus;
+  send: (message: CollabMessage) => void;
+  subscribe: (handler: (message: CollabMessage) => void) => () => void;
+  subscribeStatus: (listener: (status: CollabTransportStatus) => void) => () => void;
+  close: () => void;
+}
+
+export function createCollabMessage(
+  roomId: string,
+  senderId: string,
+  event: OrnamentEvent,
+  extras: Pick<CollabMessage, 'targetId' | 'stamp' | 'fields' | 'state'> = {}
+): CollabMessage {
+  return { roomId, senderId, ...extras, event, sentAt: Date.now() };
+}
+
+/**
+ * Wrap a stamped document operation for the wire
+ */
+export function createOperationMessage(
+  roomId: string,
+  senderId: string,
+  operation: TreeOperation
+): CollabMessage {
+  return createCollabMessage(roomId, senderId, operation.event, {
+    stamp: operation.stamp,
+    fields: operation.fields,
+  });
+}
+
+/**
+ * The stamped operation carried by a message, if any
+ */
+export function getMessageOperation(message: CollabMessage): TreeOperation | null {
+  if (!message.stamp) return null;
+  return { event: message.event, stamp: message.stamp, fields: message.fields };
+}
+
+function isCollabMessage(value: unknown): value is CollabMessage {
+  if (typeof value !== 'object' || value === null) return false;
+  const message = value as Partial<CollabMessage>;
+  return (
+    typeof message.roomId === 'string' &&
+    typeof message.senderId === 'string' &&
+    typeof message.event === 'object' &&
+    message.event !== null &&
+    typeof message.event.type === 'string'
+  );
+}
+
+// ============================================
+// TRANSPORTS
+// ============================================
+
+/**
+ * Same-browser transport. BroadcastChannel never delivers to the sender.
+ */
+export function createBroadcastChannelTransport(roomId: string): CollabTransport {
+  const channel = new BroadcastChannel(`${CHANNEL_PREFIX}${roomId}`);
+  const handlers = new Set<(message: CollabMessage) => void>();
+
+  channel.onmessage = (e: MessageEvent) => {
+    if (isCollabMessage(e.data)) {
+      handlers.forEach((handler) => handler(e.data));
+    }
+  };
+
+  return {
+    kind: 'broadcast-channel',
+    getStatus: () => 'connected',
+    send: (message) => channel.postMessage(message),
+    subscribe: (handler) => {
+      handlers.add(handler);
+      return () => handlers.delete(handler);
+    },
+    // Always connected, nothing to report
+    subscribeStatus: () => () => {},
+    close: () => {
+      handlers.clear();
+      channel.close();
+    },
+  };
+}
+
+/**
+ * Relay transport. Messages sent while disconnected are queued and flushed
+ * on (re)connect; the socket reconnects with exponential backoff.
+ */
+export function createWebSocketTransport(relayUrl: string, roomId: string): CollabTransport {
+  const handlers = new Set<(message: CollabMessage) => void>();
+  const statusListeners = new Set<(status: CollabTransportStatus) => void>();
+  const outbox: string[] = [];
+
+  let socket: WebSocket | null = null;
+  let status: CollabTransportStatus = 'connecting';
+  let attempts = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const setStatus = (next: CollabTransportStatus) => {
+    status = next;
+    statusListeners.forEach((listener) => listener(next));
+  };
+
+  const connect = () => {
+    const url = new URL(relayUrl);
+    url.searchParams.set(ROOM_PARAM, roomId);
+    setStatus('connecting');
+    socket = new WebSocket(url.toString());
+
+    socket.onopen = () => {
+      attempts = 0;
+      setStatus('connected');
+      while (outbox.length > 0 && socket?.readyState === WebSocket.OPEN) {
+        socket.send(outbox.shift()!);
+      }
+    };
+
+    socket.onmessage = (e: MessageEvent) => {
+      try {
+        const message = JSON.parse(e.data);
+        if (isCollabMessage(message)) {
+          handlers.forEach((handler) => handler(message));
+        }
+      } catch (error) {
+        console.error('Ignoring malformed relay message:', error);
+      }
+    };
+
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      setStatus('disconnected');
+      const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** attempts, RECONNECT_MAX_DELAY);
+      attempts++;
+      reconnectTimer = setTimeout(connect, delay);
+    };
+  };
+
+  connect();
+
+  return {
+    kind: 'websocket',
+    getStatus: () => status,
+    send: (message) => {
+      const payload = JSON.stringify(message);
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(payload);
+      } else {
+        outbox.push(payload);
+      }
+    },
+    subscribe: (handler) => {
+      handlers.add(handler);
+      return () => handlers.delete(handler);
+    },
+    subscribeStatus: (listener) => {
+      statusListeners.add(listener);
+      return () => statusListeners.delete(listener);
+    },
+    close: () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      // Let queued messages (e.g. participant_left) go out before closing
+      if (socket?.readyState === WebSocket.OPEN) {
+        while (outbox.length > 0) socket.send(outbox.shift()!);
+      }
+      socket?.close();
+      handlers.clear();
+      statusListeners.clear();
+    },
+  };
+}
+
+/**
+ * Pick the relay when one is configured, otherwise sync between local tabs
+ */
+export function createCollabTransport(roomId: string): CollabTransport {
+  if (COLLAB_RELAY_URL) {
+    return createWebSocketTransport(COLLAB_RELAY_URL, roomId);
+  }
+  return createBroadcastChannelTransport(roomId);
+}
+
+// ============================================
+// DOCUMENT EVENTS
+// ============================================
+
+/**
+ * Apply a remote event to a tree document. Presence events leave it unchanged.
+ * Ornaments and garlands are stored by reference so later diffs see them as already shared.
+ */
+export function applyOrnamentEvent(doc: TreeDocument, event: OrnamentEvent): TreeDocument {
+  switch (event.type) {
+    case 'ornament_added':
+    case 'ornament_updated': {
+      const index = doc.ornaments.findIndex((o) => o.id === event.ornament.id);
+      if (index === -1) {
+        return { ...doc, ornaments: [...doc.ornaments, event.ornament] };
+      }
+      const ornaments = [...doc.ornaments];
+      ornaments[index] = event.ornament;
+      return { ...doc, ornaments };
+    }
+    case 'ornament_removed':
+      return { ...doc, ornaments: doc.ornaments.filter((o) => o.id !== event.ornamentId) };
+    case 'garland_added':
+    case 'garland_updated': {
+      const index = doc.garlands.findIndex((g) => g.id === event.garland.id);
+      if (index === -1) {
+        return { ...doc, garlands: [...doc.garlands, event.garland] };
+      }
+      const garlands = [...doc.garlands];
+      garlands[index] = event.garland;
+      return { ...doc, garlands };
+    }
+    case 'garland_removed':
+      return { ...doc, garlands: doc.garlands.filter((g) => g.id !== event.garlandId) };
+    case 'topper_changed':
+      return { ...doc, topper: event.topper };
+    case 'tree_config_changed':
+      return { ...doc, treeConfig: event.config };
+    default:
+      return doc;
+  }
+}
+
+/**
+ * Events that turn `previous` into `next`
+ */
+export function diffTreeDocuments(previous: TreeDocument, next: TreeDocument): OrnamentEvent[] {
+  const events: OrnamentEvent[] = [];
+  const previousById = new Map<string, OrnamentData>(previous.ornaments.map((o) => [o.id, o]));
+  const nextIds = new Set(next.ornaments.map((o) => o.id));
+
+  previous.ornaments.forEach((ornament) => {
+    if (!nextIds.has(ornament.id)) {
+      events.push({ type: 'ornament_removed', ornamentId: ornament.id });
+    }
+  });
+
+  next.ornaments.forEach((ornament) => {
+    const before = previousById.get(ornament.id);
+    if (!before) {
+      events.push({ type: 'ornament_added', ornament });
+    } else if (before !== ornament) {
+      events.push({ type: 'ornament_updated', ornament });
+    }
+  });
+
+  const previousGarlands = new Map<string, GarlandData>(previous.garlands.map((g) => [g.id, g]));
+  const nextGarlandIds = new Set(next.garlands.map((g) => g.id));
+
+  previous.garlands.forEach((garland) => {
+    if (!nextGarlandIds.has(garland.id)) {
+      events.push({ type: 'garland_removed', garlandId: garland.id });
+    }
+  });
+
+  next.garlands.forEach((garland) => {
+    const before = previousGarlands.get(garland.id);
+    if (!before) {
+      events.push({ type: 'garland_added', garland });
+    } else if (before !== garland) {
+      events.push({ type: 'garland_updated', garland });
+    }
+  });
+
+  if (previous.topper !== next.topper) {
+    events.push({ type: 'topper_changed', topper: next.topper });
+  }
+
+  if (previous.treeConfig !== next.treeConfig) {
+    events.push({ type: 'tree_config_changed', config: next.treeConfig });
+  }
+
+  return events;
+}
+
+// ============================================
+// PARTICIPANTS & ROOMS
+// ============================================
+
+/**
+ * Each tab is its own participant, even for the same signed-in user
+ */
+export function generatePeerId(): string {
+  return `peer_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+export function createParticipant(
+  roomId: string,
+  peerId: string,
+  userName: string,
+  role: SessionRole,
+  avatarUrl?: string
+): SessionParticipant {
+  return {
+    sessionId: roomId,
+    userId: peerId,
+    userName,
+    avatarUrl,
+    role,
+    joinedAt: Date.now(),
+    isOnline: true,
+  };
+}
+
+/**
+ * Stable cursor color for a participant
+ */
+export function getParticipantColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return `hsl(${Math.abs(hash) % 360}, 80%, 60%)`;
+}
+
+/**
+ * Get the collaboration room from current URL
+ */
+export function getRoomFromURL(): string | null {
+  if (typeof window === 'undefined') return null;
+  const params = new URLSearchParams(window.location.search);
+  return params.get(ROOM_PARAM);
+}
+
+/**
+ * Set or clear the room parameter in URL without reload
+ */
+export function setRoomInURL(roomId: string | null): void {
+  if (typeof window === 'undefined') return;
+  const url = new URL(window.location.href);
+  if (roomId) {
+    url.searchParams.set(ROOM_PARAM, roomId);
+  } else {
+    url.searchParams.delete(ROOM_PARAM);
+  }
+  window.history.replaceState({}, '', url.toString());
+}
+
+/**
+ * Link that redeems an invite code (see pages/JoinPage.tsx)
+ */
+export function getInviteURL(code: string): string {
+  return `${window.location.origin}/join/${code}`;
+}
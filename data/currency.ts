@@ -0,0 +1,83 @@
+/**
+ * Currency - Display currencies, conversion and formatting
+ *
+ * Everything is priced in CHF (the base currency): the catalog, shipping
+ * rates and promo codes. Other currencies are converted from it:
+ *
+ *   - convertPrice: catalog prices, rounded to a whole unit and given the
+ *     currency's price ending (EUR 51.99 rather than EUR 52.43)
+ *   - convertAmount: everything else (shipping, thresholds, fixed discounts),
+ *     rounded to the cent
+ *
+ * The cart holds its items in one currency and is re-priced from the
+ * catalog when the customer switches (convex-dev/cart.ts).
+ *
+ * Usage:
+ *   const unitPrice = convertPrice(product.price.amount, 'eur');
+ *   formatPrice(unitPrice, 'eur'); // "51,99 €"
+ */
+
+import type { CurrencyCode } from '../types';
+
+export interface Currency {
+  code: CurrencyCode;
+  label: string;
+  locale: string;          // Used by Intl.NumberFormat
+  rate: number;            // Units per 1 CHF
+  priceEnding: number;     // Cents converted catalog prices end in (99 → 5.99)
+}
+
+export const BASE_CURRENCY: CurrencyCode = 'chf';
+
+// Rates are set with the price list, not live
+export const CURRENCIES: Record<CurrencyCode, Currency> = {
+  chf: { code: 'chf', label: 'Swiss franc', locale: 'de-CH', rate: 1, priceEnding: 0 },
+  eur: { code: 'eur', label: 'Euro', locale: 'de-DE', rate: 1.07, priceEnding: 99 },
+  usd: { code: 'usd', label: 'US dollar', locale: 'en-US', rate: 1.25, priceEnding: 99 },
+};
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return typeof value === 'string' && value in CURRENCIES;
+}
+
+// ============================================
+// CONVERSION
+// ============================================
+
+/**
+ * A CHF amount in another currency, to the cent
+ */
+export function convertAmount(cents: number, to: CurrencyCode): number {
+  return Math.round(cents * CURRENCIES[to].rate);
+}
+
+/**
+ * A CHF catalog price in another currency, rounded to the nearest whole
+ * unit and given the currency's price ending. CHF prices are unchanged.
+ */
+export function convertPrice(cents: number, to: CurrencyCode): number {
+  if (to === BASE_CURRENCY) return cents;
+  const { priceEnding } = CURRENCIES[to];
+  const units = Math.max(1, Math.round(convertAmount(cents, to) / 100));
+  return priceEnding > 0 ? (units - 1) * 100 + priceEnding : units * 100;
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Format cents for display, e.g. "CHF 49.00", "51,99 €", "$64.99"
+ */
+export function formatPrice(cents: number, currency: CurrencyCode = BASE_CURRENCY): string {
+  const { locale } = CURRENCIES[currency] ?? CURRENCIES[BASE_CURRENCY];
+  const key = `${locale}:${currency}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, { style: 'currency', currency: currency.toUpperCase() });
+    formatters.set(key, formatter);
+  }
+  return formatter.format(cents / 100);
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { CartItem, CartItemType, PromoCode } from '../types';
+import { formatPrice } from './currency';
+import { calculateDiscounts, checkPromoCode } from './discounts';
+
+// ============================================
+// FIXTURES
+// ============================================
+
+let nextItemId = 0;
+
+function item(productType: CartItemType, productId: string, unitPrice: number, quantity = 1): CartItem {
+  return { id: `item_${++nextItemId}`, productType, productId, quantity, unitPrice };
+}
+
+// orn-sphere and orn-diamond are both in the classic collection, orn-bell is festive
+const classicOrnaments = (spheres: number, diamonds: number) => [
+  item('ornament', 'orn-sphere', 500, spheres),
+  item('ornament', 'orn-diamond', 1000, diamonds),
+];
+
+function promo(fields: Partial<PromoCode> = {}): PromoCode {
+  return {
+    code: 'TEST',
+    description: 'Test code',
+    kind: 'percentage',
+    value: 10,
+    uses: 0,
+    active: true,
+    createdAt: 0,
+    ...fields,
+  };
+}
+
+const NOW = 1_800_000_000_000;
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('discounts', () => {
+  describe('bundle rules', () => {
+    it('take 15% off ten or more ornaments from one collection', () => {
+      const items = [...classicOrnaments(6, 4), item('ornament', 'orn-bell', 800, 9)];
+      const { lines, total } = calculateDiscounts(items);
+
+      expect(lines).toEqual([
+        {
+          id: 'auto:category_10:classic',
+          source: 'automatic',
+          label: '15% off 10 classic ornaments',
+          amount: 1050,
+          cartItemIds: [items[0].id, items[1].id],
+        },
+      ]);
+      expect(total).toBe(1050);
+    });
+
+    it('do not count ornaments from different collections together', () => {
+      const items = [item('ornament', 'orn-sphere', 500, 5), item('ornament', 'orn-bell', 800, 5)];
+      expect(calculateDiscounts(items).lines).toEqual([]);
+    });
+
+    it('halve the price of one topper bought with a tree', () => {
+      const topper = item('topper', 'top-star', 1499, 2);
+      const { lines } = calculateDiscounts([item('tree', 'tree-medium', 8900), topper]);
+
+      expect(lines).toEqual([
+        {
+          id: 'auto:tree_topper',
+          source: 'automatic',
+          label: 'Tree + Golden Star bundle',
+          amount: 750,
+          cartItemIds: [topper.id],
+        },
+      ]);
+      expect(calculateDiscounts([topper]).lines).toEqual([]);
+    });
+  });
+
+  describe('promo codes', () => {
+    it('apply to what is left after the bundles', () => {
+      const items = classicOrnaments(6, 4); // 7000, 1050 off in bundles
+      const { lines, total } = calculateDiscounts(items, promo({ value: 10 }), 'chf', NOW);
+
+      expect(lines.map((l) => [l.id, l.amount])).toEqual([
+        ['auto:category_10:classic', 1050],
+        ['promo:TEST', 595],
+      ]);
+      expect(total).toBe(1645);
+    });
+
+    it('check the minimum spend after the bundles', () => {
+      const items = classicOrnaments(6, 4); // 7000 before bundles, 5950 after
+      const code = promo({ code: 'SNOW20', kind: 'fixed', value: 2000, minSubtotal: 6000 });
+      const { lines, promoError } = calculateDiscounts(items, code, 'chf', NOW);
+
+      expect(lines.map((l) => l.id)).toEqual(['auto:category_10:classic']);
+      expect(promoError).toBe(`Spend ${formatPrice(50, 'chf')} more to use SNOW20`);
+      expect(calculateDiscounts(classicOrnaments(6, 5), code, 'chf', NOW).promoError).toBeUndefined();
+    });
+
+    it('convert fixed amounts and the minimum spend into the cart currency', () => {
+      const items = [item('tree', 'tree-medium', 9599)];
+      const code = promo({ kind: 'fixed', value: 2000, minSubtotal: 8900 }); // EUR 95.23, USD 111.25
+
+      expect(calculateDiscounts(items, code, 'eur', NOW).lines).toEqual([
+        { id: 'promo:TEST', source: 'promo', label: 'TEST: Test code', amount: 2140 },
+      ]);
+      expect(checkPromoCode(code, 9599, 'eur', NOW)).toEqual({ valid: true });
+      expect(checkPromoCode(code, 9599, 'usd', NOW)).toMatchObject({ valid: false, code: 'min_subtotal' });
+    });
+
+    it('never take off more than the items cost', () => {
+      const code = promo({ kind: 'fixed', value: 5000 });
+      expect(calculateDiscounts([item('ornament', 'orn-bell', 800, 2)], code, 'chf', NOW).total).toBe(1600);
+    });
+
+    it('are refused when missing, inactive, expired or used up', () => {
+      expect(checkPromoCode(null, 1000)).toMatchObject({ valid: false, code: 'not_found' });
+      expect(checkPromoCode(promo({ active: false }), 1000)).toMatchObject({ code: 'inactive' });
+      expect(checkPromoCode(promo({ expiresAt: NOW }), 1000, 'chf', NOW)).toMatchObject({ code: 'expired' });
+      expect(checkPromoCode(promo({ expiresAt: NOW + 1 }), 1000, 'chf', NOW).valid).toBe(true);
+      expect(checkPromoCode(promo({ maxUses: 3, uses: 3 }), 1000)).toMatchObject({ code: 'usage_limit' });
+    });
+
+    it('report why they were refused instead of applying', () => {
+      const { lines, promoError } = calculateDiscounts(
+        [item('ornament', 'orn-bell', 800)],
+        promo({ active: false }),
+        'chf',
+        NOW
+      );
+      expect(lines).toEqual([]);
+      expect(promoError).toBe('This code is no longer active');
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Discounts - Automatic bundle rules and promo codes
+ *
+ * Computed by convex-dev/cart.ts whenever the cart changes and stored on the
+ * cart as discount lines, which data/pricing.ts subtracts before VAT.
+ *
+ *   1. Automatic rules (BUNDLE_RULES) apply to matching items.
+ *   2. One promo code then applies to what is left. Minimum spend is checked
+ *      against that amount, so codes can't be met through bundle savings.
+ *
+ * Promo code amounts are in CHF and converted to the cart's currency.
+ *
+ * Usage:
+ *   const { lines, total, promoError } = calculateDiscounts(cart.items, promo, cart.currency);
+ */
+
+import { CartItem, CurrencyCode, DiscountLine, OrnamentCategory, PromoCode } from '../types';
+import { BASE_CURRENCY, convertAmount, formatPrice } from './currency';
+import { getOrnamentProduct, getTopperProduct } from './products';
+
+// ============================================
+// AUTOMATIC RULES
+// ============================================
+
+export interface BundleRule {
+  id: string;
+  type: 'category_quantity' | 'tree_topper';
+  // category_quantity: ornaments of one category needed
+  minQuantity?: number;
+  percent: number;
+  description: string;
+}
+
+export const BUNDLE_RULES: BundleRule[] = [
+  {
+    id: 'category_10',
+    type: 'category_quantity',
+    minQuantity: 10,
+    percent: 15,
+    description: '15% off 10 or more ornaments from the same collection',
+  },
+  {
+    id: 'tree_topper',
+    type: 'tree_topper',
+    percent: 50,
+    description: 'Half-price topper with a tree',
+  },
+];
+
+const percentOf = (amount: number, percent: number) => Math.round((amount * percent) / 100);
+const lineTotal = (items: CartItem[]) => items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
+
+function applyRule(rule: BundleRule, items: CartItem[]): DiscountLine[] {
+  switch (rule.type) {
+    case 'category_quantity': {
+      const byCategory = new Map<OrnamentCategory, CartItem[]>();
+      items.forEach((item) => {
+        const category =
+          item.productType === 'ornament' ? getOrnamentProduct(item.productId)?.category : undefined;
+        if (category) byCategory.set(category, [...(byCategory.get(category) ?? []), item]);
+      });
+
+      return [...byCategory].flatMap(([category, categoryItems]) => {
+        const quantity = categoryItems.reduce((sum, item) => sum + item.quantity, 0);
+        if (quantity < (rule.minQuantity ?? 1)) return [];
+        return [
+          {
+            id: `auto:${rule.id}:${category}`,
+            source: 'automatic' as const,
+            label: `${rule.percent}% off ${quantity} ${category} ornaments`,
+            amount: percentOf(lineTotal(categoryItems), rule.percent),
+            cartItemIds: categoryItems.map((item) => item.id),
+          },
+        ];
+      });
+    }
+
+    case 'tree_topper': {
+      const hasTree = items.some((item) => item.productType === 'tree');
+      const topper = items.find((item) => item.productType === 'topper');
+      if (!hasTree || !topper) return [];
+      // One topper per tree, so only one unit is discounted
+      return [
+        {
+          id: `auto:${rule.id}`,
+          source: 'automatic',
+          label: `Tree + ${getTopperProduct(topper.productId)?.name ?? 'topper'} bundle`,
+          amount: percentOf(topper.unitPrice, rule.percent),
+          cartItemIds: [topper.id],
+        },
+      ];
+    }
+  }
+}
+
+// ============================================
+// PROMO CODES
+// ============================================
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+export type PromoErrorCode = 'not_found' | 'inactive' | 'expired' | 'usage_limit' | 'min_subtotal';
+
+export interface PromoCheck {
+  valid: boolean;
+  code?: PromoErrorCode;
+  error?: string;
+}
+
+/**
+ * Whether a promo code can be used on this (already discounted) amount
+ */
+export function checkPromoCode(
+  promo: PromoCode | null,
+  eligibleSubtotal: number,
+  currency: CurrencyCode = BASE_CURRENCY,
+  now = Date.now()
+): PromoCheck {
+  if (!promo) return { valid: false, code: 'not_found', error: 'This code does not exist' };
+  if (!promo.active) return { valid: false, code: 'inactive', error: 'This code is no longer active' };
+  if (promo.expiresAt !== undefined && promo.expiresAt <= now) {
+    return { valid: false, code: 'expired', error: 'This code has expired' };
+  }
+  if (promo.maxUses !== undefined && promo.uses >= promo.maxUses) {
+    return { valid: false, code: 'usage_limit', error: 'This code has been fully redeemed' };
+  }
+  const minSubtotal = promo.minSubtotal !== undefined ? convertAmount(promo.minSubtotal, currency) : undefined;
+  if (minSubtotal !== undefined && eligibleSubtotal < minSubtotal) {
+    return {
+      valid: false,
+      code: 'min_subtotal',
+      error: `Spend ${formatPrice(minSubtotal - eligibleSubtotal, currency)} more to use ${promo.code}`,
+    };
+  }
+  return { valid: true };
+}
+
+/**
+ * Thrown when an order uses a promo code that is no longer valid
+ * (a ConvexError with the same data once on Convex)
+ */
+export class PromoCodeError extends Error {
+  readonly code: PromoErrorCode;
+  readonly promoCode: string;
+
+  constructor(promoCode: string, check: PromoCheck) {
+    super(check.error || 'Invalid promo code');
+    this.name = 'PromoCodeError';
+    this.code = check.code ?? 'not_found';
+    this.promoCode = promoCode;
+  }
+}
+
+// ============================================
+// CALCULATION
+// ============================================
+
+export interface DiscountResult {
+  lines: DiscountLine[];
+  total: number;
+  promoError?: string;
+}
+
+/**
+ * Discount lines for a cart: automatic rules first, then the promo code (if any)
+ */
+export function calculateDiscounts(
+  items: CartItem[],
+  promo: PromoCode | null = null,
+  currency: CurrencyCode = BASE_CURRENCY,
+  now = Date.now()
+): DiscountResult {
+  const subtotal = lineTotal(items);
+  const lines = BUNDLE_RULES.flatMap((rule) => applyRule(rule, items));
+  const automaticTotal = lines.reduce((sum, line) => sum + line.amount, 0);
+
+  let promoError: string | undefined;
+  if (promo) {
+    const eligible = subtotal - automaticTotal;
+    const check = checkPromoCode(promo, eligible, currency, now);
+    if (check.valid) {
+      const amount = Math.min(
+        eligible,
+        promo.kind === 'percentage' ? percentOf(eligible, promo.value) : convertAmount(promo.value, currency)
+      );
+      lines.push({
+        id: `promo:${promo.code}`,
+        source: 'promo',
+        label: `${promo.code}: ${promo.description}`,
+        amount,
+      });
+    } else {
+      promoError = check.error;
+    }
+  }
+
+  return { lines, total: lines.reduce((sum, line) => sum + line.amount, 0), promoError };
+}
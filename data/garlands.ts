@@ -0,0 +1,146 @@
+/**
+ * Garlands - Geometry and animation for string lights and bead garlands
+ *
+ * A garland is a strand drawn through a list of control points (clicked on
+ * the tree, or generated as a spiral from the base to the top). The strand
+ * is a Catmull-Rom spline through those points; bulbs or beads are spaced
+ * evenly along it. Garlands are sold by the meter, measured along the spline.
+ *
+ * Points are in the same space as ornament positions (see data/treeSurface.ts).
+ *
+ * Usage:
+ *   const points = createSpiralPoints(treeConfig);
+ *   const meters = getGarlandMeters(points);           // cart quantity
+ *   const bulbs = getStrandPositions(points, 'lights'); // instance positions
+ *   const brightness = getBulbBrightness('chase', i, elapsedTime);
+ */
+
+import * as THREE from 'three';
+import { GarlandType, LightPattern, TreeConfig } from '../types';
+import { getFoliageSpan, getSurfacePoint } from './treeSurface';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const LIGHT_PATTERNS: { id: LightPattern; label: string }[] = [
+  { id: 'steady', label: 'Steady' },
+  { id: 'chase', label: 'Chase' },
+  { id: 'twinkle', label: 'Twinkle' },
+  { id: 'fade', label: 'Fade' },
+];
+
+// A strand needs a start and an end
+export const MIN_GARLAND_POINTS = 2;
+
+// A 6ft tree is ~6 scene units tall
+export const METERS_PER_SCENE_UNIT = 0.3;
+
+// Distance between bulbs / beads along the strand, in scene units
+const STRAND_SPACING: Record<GarlandType, number> = {
+  lights: 0.25,
+  beads: 0.09,
+};
+
+// How far a garland sits off the foliage
+const SURFACE_OFFSET = 0.08;
+
+// ============================================
+// STRAND GEOMETRY
+// ============================================
+
+/**
+ * The spline through a garland's control points
+ */
+export function createGarlandCurve(points: [number, number, number][]): THREE.CatmullRomCurve3 {
+  return new THREE.CatmullRomCurve3(
+    points.map(([x, y, z]) => new THREE.Vector3(x, y, z)),
+    false,
+    'centripetal'
+  );
+}
+
+/**
+ * Length of the strand in scene units
+ */
+export function getGarlandLength(points: [number, number, number][]): number {
+  if (points.length < MIN_GARLAND_POINTS) return 0;
+  return createGarlandCurve(points).getLength();
+}
+
+/**
+ * Meters of garland to sell for a strand: rounded up, at least one
+ */
+export function getGarlandMeters(points: [number, number, number][]): number {
+  return Math.max(1, Math.ceil(getGarlandLength(points) * METERS_PER_SCENE_UNIT));
+}
+
+/**
+ * Evenly spaced bulb or bead positions along the strand
+ */
+export function getStrandPositions(
+  points: [number, number, number][],
+  type: GarlandType
+): THREE.Vector3[] {
+  if (points.length < MIN_GARLAND_POINTS) return [];
+  const curve = createGarlandCurve(points);
+  const count = Math.max(2, Math.round(curve.getLength() / STRAND_SPACING[type]));
+  return curve.getSpacedPoints(count - 1);
+}
+
+// ============================================
+// AUTO SPIRAL
+// ============================================
+
+/**
+ * Control points for a garland winding around the tree from the lowest tier
+ * to just below the top
+ */
+export function createSpiralPoints(
+  config: TreeConfig,
+  turns = 5,
+  pointsPerTurn = 12
+): [number, number, number][] {
+  const { bottom, top } = getFoliageSpan(config);
+  const count = turns * pointsPerTurn + 1;
+  const points: [number, number, number][] = [];
+  for (let i = 0; i < count; i++) {
+    const t = i / (count - 1);
+    const height = bottom + (top - bottom) * t;
+    points.push(getSurfacePoint(config, height, t * turns * Math.PI * 2, SURFACE_OFFSET));
+  }
+  return points;
+}
+
+// ============================================
+// LIGHT PATTERNS
+// ============================================
+
+// Stable per-bulb pseudo-random value in [0, 1)
+function bulbNoise(index: number): number {
+  const x = Math.sin(index * 12.9898) * 43758.5453;
+  return x - Math.floor(x);
+}
+
+/**
+ * Brightness (0-1) of bulb `index` at `time` seconds for a blink pattern
+ */
+export function getBulbBrightness(pattern: LightPattern, index: number, time: number): number {
+  switch (pattern) {
+    case 'steady':
+      return 1;
+    case 'chase': {
+      // A wave running along the strand, one bright bulb in every four
+      const phase = (((index - time * 6) % 4) + 4) % 4;
+      return phase < 1 ? 1 : 0.15;
+    }
+    case 'twinkle': {
+      // Each bulb flickers on its own rhythm
+      const speed = 1.5 + bulbNoise(index) * 2.5;
+      const wave = Math.sin(time * speed + bulbNoise(index + 101) * Math.PI * 2);
+      return wave > 0.6 ? 1 : 0.35;
+    }
+    case 'fade':
+      return 0.2 + 0.8 * (0.5 + 0.5 * Math.sin(time * 1.5));
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * glTF Export
+ *
+ * Exports the decorated tree (pine tree, ornaments and topper) as a binary
+ * GLB file that opens in Blender and standard glTF viewers.
+ *
+ * The export runs on a clone of the live scene graph, so procedural and
+ * GLB-based ornaments come out exactly as rendered. Before exporting:
+ *   - lights are removed (every ornament has a glow light, which would
+ *     import as hundreds of lamps)
+ *   - objects flagged `userData.excludeFromExport` are removed
+ *     (selection outlines, placement placeholders)
+ *   - objects flagged `userData.exportResetRotation` are reset to rest
+ *     (idle animations such as tree sway and topper spin)
+ *
+ * Usage:
+ *   const root = decoratedTreeRef.current; // <group> wrapping tree + ornaments
+ *   await downloadTreeAsGLB(root);
+ */
+
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+
+// ============================================
+// SCENE PREPARATION
+// ============================================
+
+/**
+ * Clone the decorated tree into a standalone scene ready for export
+ */
+export function prepareExportScene(root: THREE.Object3D): THREE.Scene {
+  const clone = root.clone(true);
+
+  const toRemove: THREE.Object3D[] = [];
+  clone.traverse((object) => {
+    if ((object as THREE.Light).isLight || object.userData.excludeFromExport) {
+      toRemove.push(object);
+      return;
+    }
+    if (object.userData.exportResetRotation) {
+      object.rotation.set(0, 0, 0);
+    }
+  });
+  toRemove.forEach((object) => object.removeFromParent());
+
+  // Drop groups left empty after pruning
+  const isEmpty = (object: THREE.Object3D): boolean =>
+    !(object as THREE.Mesh).isMesh && object.children.every(isEmpty);
+  const emptyGroups: THREE.Object3D[] = [];
+  clone.traverse((object) => {
+    if (object !== clone && isEmpty(object)) emptyGroups.push(object);
+  });
+  emptyGroups.forEach((object) => object.removeFromParent());
+
+  const scene = new THREE.Scene();
+  scene.name = 'Decorated Christmas Tree';
+  clone.name = clone.name || 'decorated-tree';
+  clone.position.set(0, 0, 0);
+  scene.add(clone);
+  return scene;
+}
+
+// ============================================
+// EXPORT FUNCTIONS
+// ============================================
+
+/**
+ * Export the decorated tree as a binary GLB
+ */
+export async function exportTreeAsGLB(root: THREE.Object3D): Promise<ArrayBuffer> {
+  const scene = prepareExportScene(root);
+  const exporter = new GLTFExporter();
+
+  const result = await exporter.parseAsync(scene, {
+    binary: true,
+    onlyVisible: true,
+  });
+
+  if (!(result instanceof ArrayBuffer)) {
+    throw new Error('GLB export did not produce binary output');
+  }
+  return result;
+}
+
+/**
+ * Export the decorated tree as a downloadable .glb file
+ */
+export async function downloadTreeAsGLB(root: THREE.Object3D, filename?: string): Promise<void> {
+  const glb = await exportTreeAsGLB(root);
+  const blob = new Blob([glb], { type: 'model/gltf-binary' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename || `christmas-tree-${Date.now()}.glb`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,60 @@
+/**
+ * Inventory - Stock helpers shared by the cart, checkout and shop UI
+ *
+ * Stock counts and reservations are stored by convex-dev/inventory.ts.
+ * Available = on hand - reserved by other carts in checkout.
+ */
+
+import { CartItem } from '../types';
+import { getProductById } from './products';
+
+// Below this many units the shop shows "Only N left"
+export const LOW_STOCK_THRESHOLD = 5;
+
+// How long a cart's stock is held while the customer pays
+export const RESERVATION_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * Units per product in a cart
+ */
+export function getProductQuantities(
+  items: Pick<CartItem, 'productId' | 'quantity'>[]
+): Map<string, number> {
+  const quantities = new Map<string, number>();
+  items.forEach((item) =>
+    quantities.set(item.productId, (quantities.get(item.productId) ?? 0) + item.quantity)
+  );
+  return quantities;
+}
+
+export function getStockLabel(available: number): string | null {
+  if (available <= 0) return 'Sold out';
+  if (available <= LOW_STOCK_THRESHOLD) return `Only ${available} left`;
+  return null;
+}
+
+// ============================================
+// ERRORS
+// ============================================
+
+export interface StockShortage {
+  productId: string;
+  requested: number;
+  available: number;
+}
+
+/**
+ * Thrown when a cart or checkout asks for more than is available
+ * (a ConvexError with the same data once on Convex)
+ */
+export class OutOfStockError extends Error {
+  readonly shortages: StockShortage[];
+
+  constructor(shortages: StockShortage[]) {
+    const [first] = shortages;
+    const name = getProductById(first.productId)?.name ?? first.productId;
+    super(first.available <= 0 ? `${name} is sold out` : `Only ${first.available} × ${name} available`);
+    this.name = 'OutOfStockError';
+    this.shortages = shortages;
+  }
+}
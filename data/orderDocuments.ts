@@ -0,0 +1,407 @@
+/**
+ * Order Documents - Printable invoice and packing slip
+ *
+ * Both render to a standalone, print-ready HTML page (inline CSS, no
+ * external assets), so the browser's "Save as PDF" produces the PDF:
+ *
+ *   - Invoice: line items, discounts, shipping and VAT from the order's
+ *     price breakdown, billing/shipping address and payment status.
+ *   - Packing slip: for the warehouse, no prices. Lists the tree, topper,
+ *     garlands (with their length) and every ornament with its color, numbered to match a placement diagram
+ *     (front and top view) drawn from ornamentsSnapshot.
+ *
+ * Usage:
+ *   printOrderDocument(renderInvoice(order));
+ *   downloadOrderDocument(renderPackingSlip(order));
+ */
+
+import { CurrencyCode, Order, OrnamentData, PriceLine, TreeConfig } from '../types';
+import { formatPrice } from './currency';
+import { ORDER_STATUS_LABELS } from './orderLifecycle';
+import { DESTINATIONS, formatTaxRate, getDisplayAmount } from './pricing';
+import {
+  getGarlandProductByType,
+  getOrnamentProductByType,
+  getProductById,
+  getTopperProductByType,
+} from './products';
+import { getGarlandMeters } from './garlands';
+
+export const SHOP_NAME = 'Christmas Tree Shop';
+
+export type OrderDocumentKind = 'invoice' | 'packing_slip';
+
+export interface OrderDocument {
+  kind: OrderDocumentKind;
+  title: string;
+  filename: string;
+  html: string;
+}
+
+// ============================================
+// HTML HELPERS
+// ============================================
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+
+const orderNumber = (order: Order) => order.id.toUpperCase();
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; color: #111; margin: 0; padding: 32px; font-size: 13px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 24px 0 8px; text-transform: uppercase; letter-spacing: 0.05em; color: #555; }
+  .header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #111; padding-bottom: 12px; }
+  .muted { color: #666; }
+  .columns { display: flex; gap: 48px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #ddd; vertical-align: top; }
+  th { font-size: 11px; text-transform: uppercase; color: #555; }
+  .num { text-align: right; white-space: nowrap; }
+  .totals td { border: none; padding: 3px 8px; }
+  .totals .grand td { border-top: 2px solid #111; font-weight: 600; font-size: 15px; padding-top: 8px; }
+  .swatch { display: inline-block; width: 12px; height: 12px; border-radius: 50%; border: 1px solid #999; vertical-align: middle; margin-right: 6px; }
+  .check { display: inline-block; width: 14px; height: 14px; border: 1px solid #333; }
+  .diagrams { display: flex; gap: 24px; }
+  .diagrams figure { margin: 0; text-align: center; }
+  .diagrams figcaption { font-size: 11px; color: #555; margin-top: 4px; }
+  @media print { body { padding: 0; } .no-print { display: none; } }
+`;
+
+function renderPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+function renderAddress(order: Order): string {
+  const a = order.shippingAddress;
+  return [
+    `<strong>${escapeHtml(a.fullName)}</strong>`,
+    escapeHtml(a.addressLine1),
+    a.addressLine2 ? escapeHtml(a.addressLine2) : '',
+    `${escapeHtml(a.postalCode)} ${escapeHtml(a.city)}${a.state ? `, ${escapeHtml(a.state)}` : ''}`,
+    escapeHtml(DESTINATIONS[a.country]?.name ?? a.country),
+  ]
+    .filter(Boolean)
+    .join('<br>');
+}
+
+// ============================================
+// INVOICE
+// ============================================
+
+/**
+ * Invoice lines: the stored price breakdown, or (orders placed before
+ * breakdowns were stored) the cart items with the order's totals
+ */
+function getInvoiceLines(order: Order): PriceLine[] {
+  if (order.priceBreakdown) return order.priceBreakdown.lines;
+  return order.cartSnapshot.items.map((item) => ({
+    id: `item_${item.id}`,
+    kind: 'item',
+    label: getProductById(item.productId)?.name ?? item.productId,
+    quantity: item.quantity,
+    net: item.unitPrice * item.quantity,
+    tax: 0,
+    cartItemId: item.id,
+  }));
+}
+
+export function renderInvoice(order: Order): OrderDocument {
+  const currency: CurrencyCode = order.currency;
+  const price = (cents: number) => escapeHtml(formatPrice(cents, currency));
+  const breakdown = order.priceBreakdown;
+  const taxDisplay = breakdown?.taxDisplay ?? 'exclusive';
+  const lines = getInvoiceLines(order);
+  const itemLines = lines.filter((line) => line.kind === 'item');
+  const otherLines = lines.filter((line) => line.kind !== 'item');
+  const refunded = (order.refunds ?? []).reduce((sum, refund) => sum + refund.amount, 0);
+  const title = `Invoice ${orderNumber(order)}`;
+
+  const itemRows = itemLines
+    .map((line) => {
+      const amount = getDisplayAmount(line, taxDisplay);
+      return `<tr>
+        <td>${escapeHtml(line.label)}</td>
+        <td class="num">${line.quantity}</td>
+        <td class="num">${price(Math.round(amount / line.quantity))}</td>
+        <td class="num">${price(amount)}</td>
+      </tr>`;
+    })
+    .join('');
+
+  const otherRows = otherLines
+    .map((line) => {
+      const label = line.quantity > 1 ? `${line.label} × ${line.quantity}` : line.label;
+      const amount = getDisplayAmount(line, taxDisplay);
+      return `<tr><td>${escapeHtml(label)}</td><td class="num">${
+        line.kind === 'shipping' && breakdown?.freeShipping ? 'Free' : price(amount)
+      }</td></tr>`;
+    })
+    .join('');
+
+  const taxRow = !breakdown
+    ? `<tr><td>Tax</td><td class="num">${price(order.tax)}</td></tr>`
+    : taxDisplay === 'exclusive'
+      ? `<tr><td>VAT ${formatTaxRate(breakdown.taxRate)}</td><td class="num">${price(order.tax)}</td></tr>`
+      : '';
+  const inclusiveNote =
+    breakdown && taxDisplay === 'inclusive'
+      ? `<tr><td class="muted">incl. VAT ${formatTaxRate(breakdown.taxRate)}</td><td class="num muted">${price(order.tax)}</td></tr>`
+      : '';
+
+  const body = `
+    <div class="header">
+      <div>
+        <h1>Invoice</h1>
+        <div class="muted">${escapeHtml(SHOP_NAME)}</div>
+      </div>
+      <div style="text-align: right">
+        <div>Invoice no. <strong>${orderNumber(order)}</strong></div>
+        <div class="muted">Date: ${formatDate(order.paidAt ?? order.createdAt)}</div>
+        <div class="muted">Status: ${ORDER_STATUS_LABELS[order.status]}</div>
+      </div>
+    </div>
+
+    <div class="columns">
+      <div>
+        <h2>Bill to / Ship to</h2>
+        ${renderAddress(order)}<br>
+        <span class="muted">${escapeHtml(order.shippingAddress.email)}</span>
+      </div>
+      <div>
+        <h2>Payment</h2>
+        ${order.paidAt ? `Paid by card on ${formatDate(order.paidAt)}` : 'Awaiting payment'}
+        ${order.promoCode ? `<br><span class="muted">Promo code: ${escapeHtml(order.promoCode)}</span>` : ''}
+      </div>
+    </div>
+
+    <h2>Items</h2>
+    <table>
+      <thead><tr><th>Description</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Amount</th></tr></thead>
+      <tbody>${itemRows}</tbody>
+    </table>
+
+    <table class="totals" style="width: 50%; margin-left: auto; margin-top: 12px">
+      <tbody>
+        <tr><td>Subtotal</td><td class="num">${price(
+          itemLines.reduce((sum, line) => sum + getDisplayAmount(line, taxDisplay), 0)
+        )}</td></tr>
+        ${otherRows}
+        ${taxRow}
+        <tr class="grand"><td>Total</td><td class="num">${price(order.total)}</td></tr>
+        ${inclusiveNote}
+        ${refunded > 0 ? `<tr><td>Refunded</td><td class="num">-${price(refunded)}</td></tr>` : ''}
+      </tbody>
+    </table>
+
+    <p class="muted" style="margin-top: 32px">
+      ${breakdown && taxDisplay === 'inclusive' ? 'Prices include VAT.' : 'Prices exclude VAT.'}
+      Thank you for your order.
+    </p>`;
+
+  return {
+    kind: 'invoice',
+    title,
+    filename: `invoice-${order.id}.html`,
+    html: renderPage(title, body),
+  };
+}
+
+// ============================================
+// PACKING SLIP
+// ============================================
+
+// The tree stands at y = -2 in the scene (App.tsx); ornament positions are
+// in scene coordinates
+const TREE_Y = -2;
+
+// Tree silhouette in tree units (matches the tiers drawn by PineTree)
+function getTreeBounds(config: TreeConfig) {
+  const base = 1.0;
+  const top = base + (config.tiers - 1) * config.height * 0.18 + config.height * 0.28;
+  return { base, top, radius: config.radius * 1.1 };
+}
+
+/**
+ * Front (x/y) or top (x/z) view of the tree with numbered ornament markers.
+ * In the front view, ornaments on the back half are drawn hollow.
+ */
+function renderPlacementDiagram(
+  config: TreeConfig,
+  ornaments: OrnamentData[],
+  view: 'front' | 'top'
+): string {
+  const size = 280;
+  const padding = 16;
+  const { base, top, radius } = getTreeBounds(config);
+  const extent = Math.max(top, radius * 2, ...ornaments.map((o) => Math.abs(o.position[0]) * 2)) || 1;
+  const scale = (size - padding * 2) / extent;
+  const cx = size / 2;
+
+  let outline: string;
+  let project: (p: [number, number, number]) => [number, number];
+  if (view === 'front') {
+    const ground = size - padding;
+    project = ([x, y]) => [cx + x * scale, ground - (y - TREE_Y) * scale];
+    outline = `
+      <rect x="${cx - 6}" y="${ground - base * scale}" width="12" height="${base * scale}" fill="#8b5a2b" />
+      <polygon points="${cx - radius * scale},${ground - base * scale} ${cx + radius * scale},${
+        ground - base * scale
+      } ${cx},${ground - top * scale}" fill="#e8f3ea" stroke="#2f6b3a" stroke-width="1.5" />`;
+  } else {
+    const cy = size / 2;
+    project = ([x, , z]) => [cx + x * scale, cy + z * scale];
+    outline = `
+      <circle cx="${cx}" cy="${cy}" r="${radius * scale}" fill="#e8f3ea" stroke="#2f6b3a" stroke-width="1.5" />
+      <text x="${cx}" y="${size - 4}" text-anchor="middle" font-size="9" fill="#777">front</text>`;
+  }
+
+  const markers = ornaments
+    .map((ornament, index) => {
+      const [x, y] = project(ornament.position);
+      const isBack = view === 'front' && ornament.position[2] < 0;
+      const color = escapeHtml(ornament.color);
+      return `<g>
+        <circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="7" fill="${isBack ? '#fff' : color}" stroke="${
+          isBack ? color : '#333'
+        }" stroke-width="${isBack ? 2 : 0.75}" />
+        <text x="${x.toFixed(1)}" y="${(y - 9).toFixed(1)}" text-anchor="middle" font-size="8" fill="#111">${
+          index + 1
+        }</text>
+      </g>`;
+    })
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" style="border: 1px solid #ddd">${outline}${markers}</svg>`;
+}
+
+export function renderPackingSlip(order: Order): OrderDocument {
+  const title = `Packing slip ${orderNumber(order)}`;
+  const tree = order.cartSnapshot.items.find((item) => item.productType === 'tree');
+  const treeProduct = tree ? getProductById(tree.productId) : undefined;
+  const topper = order.topperSnapshot;
+  const topperProduct = topper ? getTopperProductByType(topper.type) : undefined;
+  const ornaments = order.ornamentsSnapshot;
+  const garlands = order.garlandsSnapshot ?? [];
+  const swatch = (color: string) => `<span class="swatch" style="background: ${escapeHtml(color)}"></span>`;
+
+  const mainRows = [
+    treeProduct && `<tr><td><span class="check"></span></td><td>Tree</td><td>${escapeHtml(treeProduct.name)}</td><td></td></tr>`,
+    topper &&
+      `<tr><td><span class="check"></span></td><td>Topper</td><td>${escapeHtml(
+        topperProduct?.name ?? topper.type
+      )}</td><td>${swatch(topper.color)}${escapeHtml(topper.color)}</td></tr>`,
+    ...garlands.map(
+      (garland) =>
+        `<tr><td><span class="check"></span></td><td>Garland</td><td>${escapeHtml(
+          getGarlandProductByType(garland.type)?.name ?? garland.type
+        )}, ${getGarlandMeters(garland.points)} m${
+          garland.type === 'lights' ? ` (${escapeHtml(garland.pattern)})` : ''
+        }</td><td>${garland.colors.map((color) => `${swatch(color)}${escapeHtml(color)}`).join(' ')}</td></tr>`
+    ),
+  ]
+    .filter(Boolean)
+    .join('');
+
+  const ornamentRows = ornaments
+    .map((ornament, index) => {
+      const [x, y, z] = ornament.position.map((v) => v.toFixed(2));
+      return `<tr>
+        <td><span class="check"></span></td>
+        <td>${index + 1}</td>
+        <td>${escapeHtml(getOrnamentProductByType(ornament.type)?.name ?? ornament.type)}</td>
+        <td>${swatch(ornament.color)}${escapeHtml(ornament.color)}</td>
+        <td class="muted">${x}, ${y}, ${z}</td>
+      </tr>`;
+    })
+    .join('');
+
+  const body = `
+    <div class="header">
+      <div>
+        <h1>Packing slip</h1>
+        <div class="muted">${escapeHtml(SHOP_NAME)} · Order ${orderNumber(order)} · ${formatDate(order.createdAt)}</div>
+      </div>
+      <div style="text-align: right">${renderAddress(order)}</div>
+    </div>
+
+    <h2>Tree, topper &amp; garlands</h2>
+    <table>
+      <thead><tr><th></th><th>Item</th><th>Product</th><th>Color</th></tr></thead>
+      <tbody>${mainRows || '<tr><td colspan="4" class="muted">None</td></tr>'}</tbody>
+    </table>
+
+    <h2>Ornaments (${ornaments.length})</h2>
+    ${
+      ornaments.length > 0
+        ? `<div class="diagrams">
+            <figure>${renderPlacementDiagram(order.treeConfigSnapshot, ornaments, 'front')}
+              <figcaption>Front view (hollow markers hang on the back)</figcaption></figure>
+            <figure>${renderPlacementDiagram(order.treeConfigSnapshot, ornaments, 'top')}
+              <figcaption>Top view</figcaption></figure>
+          </div>
+          <table style="margin-top: 12px">
+            <thead><tr><th></th><th>#</th><th>Ornament</th><th>Color</th><th>Position (x, y, z)</th></tr></thead>
+            <tbody>${ornamentRows}</tbody>
+          </table>`
+        : '<p class="muted">No ornaments</p>'
+    }`;
+
+  return {
+    kind: 'packing_slip',
+    title,
+    filename: `packing-slip-${order.id}.html`,
+    html: renderPage(title, body),
+  };
+}
+
+// ============================================
+// OUTPUT
+// ============================================
+
+/**
+ * Open the document in a new window and show the print dialog (which can
+ * also save it as a PDF). Falls back to a download if popups are blocked.
+ */
+export function printOrderDocument(doc: OrderDocument): void {
+  const win = window.open('', '_blank');
+  if (!win) {
+    downloadOrderDocument(doc);
+    return;
+  }
+  win.document.open();
+  win.document.write(doc.html);
+  win.document.close();
+  win.focus();
+  win.print();
+}
+
+/**
+ * Save the document as a standalone .html file
+ */
+export function downloadOrderDocument(doc: OrderDocument): void {
+  const blob = new Blob([doc.html], { type: 'text/html' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = doc.filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
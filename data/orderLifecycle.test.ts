@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { CartItem, Order, OrderEvent, OrderStatus, Shipment } from '../types';
+import {
+  ORDER_TRANSITIONS,
+  canTransition,
+  getOrderTimeline,
+  getUnshippedLines,
+  isFinalStatus,
+} from './orderLifecycle';
+
+// ============================================
+// FIXTURES
+// ============================================
+
+const STATUSES = Object.keys(ORDER_TRANSITIONS) as OrderStatus[];
+
+// Every allowed change, as drawn at the top of orderLifecycle.ts
+const ALLOWED: [OrderStatus, OrderStatus][] = [
+  ['pending', 'paid'],
+  ['pending', 'cancelled'],
+  ['paid', 'processing'],
+  ['paid', 'cancelled'],
+  ['processing', 'partially_shipped'],
+  ['processing', 'shipped'],
+  ['processing', 'cancelled'],
+  ['partially_shipped', 'partially_shipped'],
+  ['partially_shipped', 'shipped'],
+  ['shipped', 'delivered'],
+];
+
+function item(id: string, quantity: number): CartItem {
+  return { id, productType: 'tree', productId: 'tree-medium', quantity, unitPrice: 8900 };
+}
+
+// Only the fields the shipment and timeline helpers read
+function order(items: CartItem[], shipments: Shipment[] = []): Order {
+  return { id: 'order_1', currency: 'chf', cartSnapshot: { items }, shipments } as unknown as Order;
+}
+
+function event(type: OrderEvent['type'], fields: Partial<OrderEvent> = {}): OrderEvent {
+  return { id: `event_${type}`, orderId: 'order_1', type, actor: { type: 'system' }, at: 0, ...fields };
+}
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('orderLifecycle', () => {
+  describe('transitions', () => {
+    it('allows exactly the changes in the diagram', () => {
+      const allowed = STATUSES.flatMap((from) =>
+        STATUSES.filter((to) => canTransition(from, to)).map((to) => [from, to])
+      );
+      expect(allowed).toEqual(ALLOWED);
+    });
+
+    it('no longer cancels once anything has shipped', () => {
+      expect(canTransition('partially_shipped', 'cancelled')).toBe(false);
+      expect(canTransition('shipped', 'cancelled')).toBe(false);
+      expect(canTransition('delivered', 'cancelled')).toBe(false);
+    });
+
+    it('never goes back to an earlier status', () => {
+      STATUSES.forEach((from, i) =>
+        STATUSES.slice(0, i).forEach((earlier) => expect(canTransition(from, earlier)).toBe(false))
+      );
+    });
+
+    it('treats delivered and cancelled as final', () => {
+      expect(STATUSES.filter(isFinalStatus)).toEqual(['delivered', 'cancelled']);
+    });
+  });
+
+  describe('getUnshippedLines', () => {
+    it('subtracts every shipment from the ordered quantities', () => {
+      const shipments: Shipment[] = [
+        { id: 's1', lines: [{ cartItemId: 'a', quantity: 1 }], shippedAt: 1 },
+        {
+          id: 's2',
+          lines: [
+            { cartItemId: 'a', quantity: 1 },
+            { cartItemId: 'b', quantity: 2 },
+          ],
+          shippedAt: 2,
+        },
+      ];
+      expect(getUnshippedLines(order([item('a', 3), item('b', 2), item('c', 1)], shipments))).toEqual([
+        { cartItemId: 'a', quantity: 1 },
+        { cartItemId: 'c', quantity: 1 },
+      ]);
+    });
+
+    it('is empty once everything has shipped', () => {
+      const shipments: Shipment[] = [{ id: 's1', lines: [{ cartItemId: 'a', quantity: 2 }], shippedAt: 1 }];
+      expect(getUnshippedLines(order([item('a', 2)], shipments))).toEqual([]);
+    });
+  });
+
+  describe('getOrderTimeline', () => {
+    it('hides staff notes and labels what the customer sees', () => {
+      const timeline = getOrderTimeline(order([item('a', 1)]), [
+        event('created', { to: 'pending' }),
+        event('note_added', { reason: 'Called the customer' }),
+        event('status_changed', { from: 'pending', to: 'paid' }),
+        event('cancelled', { from: 'paid', to: 'cancelled', reason: 'out_of_stock: sold out' }),
+      ]);
+      expect(timeline.map(({ title, detail }) => ({ title, detail }))).toEqual([
+        { title: 'Order placed' },
+        { title: 'Paid', detail: undefined },
+        { title: 'Cancelled', detail: 'Out of stock' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Order Lifecycle - Which status changes an order may go through
+ *
+ *   pending ──► paid ──► processing ──► partially_shipped ──► shipped ──► delivered
+ *      │          │           │   └──────────────────────────────▲
+ *      └──────────┴───────────┴──► cancelled
+ *
+ * Once anything has shipped an order can no longer be cancelled, and
+ * delivered / cancelled are final. Shipping is tracked per cart item so an
+ * order can go out in several shipments.
+ *
+ * Used by convex-dev/orders.ts to reject illegal changes, and by the UI to
+ * only offer the actions that are possible.
+ */
+
+import { CancellationReason, Order, OrderEvent, OrderStatus, ShipmentLine } from '../types';
+import { formatPrice } from './currency';
+
+// ============================================
+// TRANSITIONS
+// ============================================
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ['paid', 'cancelled'],
+  paid: ['processing', 'cancelled'],
+  processing: ['partially_shipped', 'shipped', 'cancelled'],
+  // Further partial shipments keep the status
+  partially_shipped: ['partially_shipped', 'shipped'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Awaiting payment',
+  paid: 'Paid',
+  processing: 'Processing',
+  partially_shipped: 'Partially shipped',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+export const CANCELLATION_REASON_LABELS: Record<CancellationReason, string> = {
+  customer_request: 'Requested by customer',
+  payment_failed: 'Payment failed',
+  payment_expired: 'Checkout not completed',
+  out_of_stock: 'Out of stock',
+  suspected_fraud: 'Suspected fraud',
+  other: 'Other',
+};
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+export function isFinalStatus(status: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[status].length === 0;
+}
+
+// ============================================
+// SHIPMENTS
+// ============================================
+
+/**
+ * Units of each cart item not yet shipped
+ */
+export function getUnshippedLines(order: Order): ShipmentLine[] {
+  const shipped = new Map<string, number>();
+  (order.shipments ?? []).forEach((shipment) =>
+    shipment.lines.forEach((line) =>
+      shipped.set(line.cartItemId, (shipped.get(line.cartItemId) ?? 0) + line.quantity)
+    )
+  );
+
+  return order.cartSnapshot.items
+    .map((item) => ({ cartItemId: item.id, quantity: item.quantity - (shipped.get(item.id) ?? 0) }))
+    .filter((line) => line.quantity > 0);
+}
+
+// ============================================
+// TIMELINE
+// ============================================
+
+export interface OrderTimelineEntry {
+  id: string;
+  at: number;
+  title: string;
+  detail?: string;
+}
+
+/**
+ * An order's history as the customer sees it, oldest first. Staff notes
+ * are left out.
+ */
+export function getOrderTimeline(order: Order, events: OrderEvent[]): OrderTimelineEntry[] {
+  return events
+    .filter((event) => event.type !== 'note_added')
+    .map((event) => {
+      const entry = { id: event.id, at: event.at };
+      switch (event.type) {
+        case 'created':
+          return { ...entry, title: 'Order placed' };
+        case 'shipment_recorded': {
+          const shipment = order.shipments?.find((s) => s.id === event.shipmentId);
+          const tracking = [shipment?.carrier, shipment?.trackingNumber].filter(Boolean).join(' ');
+          return {
+            ...entry,
+            title: event.to === 'partially_shipped' ? 'Part of your order shipped' : 'Shipped',
+            detail: tracking || undefined,
+          };
+        }
+        case 'cancelled': {
+          const reason = event.reason?.split(':')[0] as CancellationReason | undefined;
+          return { ...entry, title: 'Cancelled', detail: reason && CANCELLATION_REASON_LABELS[reason] };
+        }
+        case 'payment_failed':
+          return { ...entry, title: 'Payment failed', detail: event.reason };
+        case 'refunded':
+          return {
+            ...entry,
+            title: 'Refunded',
+            detail: event.amount !== undefined ? formatPrice(event.amount, order.currency) : undefined,
+          };
+        default:
+          return { ...entry, title: event.to ? ORDER_STATUS_LABELS[event.to] : 'Updated' };
+      }
+    });
+}
+
+// ============================================
+// ERRORS
+// ============================================
+
+export type OrderErrorCode =
+  | 'order_not_found'
+  | 'illegal_transition'
+  | 'invalid_shipment'
+  | 'reason_required';
+
+/**
+ * Thrown by order mutations that would break the lifecycle
+ * (a ConvexError with the same data once on Convex)
+ */
+export class OrderLifecycleError extends Error {
+  readonly code: OrderErrorCode;
+  readonly orderId: string;
+  readonly from?: OrderStatus;
+  readonly to?: OrderStatus;
+
+  constructor(
+    code: OrderErrorCode,
+    message: string,
+    details: { orderId: string; from?: OrderStatus; to?: OrderStatus }
+  ) {
+    super(message);
+    this.name = 'OrderLifecycleError';
+    this.code = code;
+    this.orderId = details.orderId;
+    this.from = details.from;
+    this.to = details.to;
+  }
+}
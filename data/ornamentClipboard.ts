@@ -0,0 +1,190 @@
+/**
+ * Ornament Clipboard - Copy and paste groups of ornaments
+ *
+ * Copied ornaments go on the system clipboard as JSON text, so they can be
+ * pasted into another tab or window. The clip keeps the tree config it was
+ * copied from: pasting onto a different size of tree moves the ornaments
+ * onto its foliage first (see reprojectPoint).
+ *
+ * A pasted group keeps its arrangement. It's turned around the trunk (the
+ * tree looks the same from every side) until it lands clear of the
+ * ornaments already there, so pasting on the same tree puts the copy beside
+ * the original.
+ *
+ * Usage:
+ *   await copyOrnamentsToClipboard(selected, treeConfig);
+ *   const clip = await readOrnamentClipFromClipboard();
+ *   if (clip) await store.addOrnaments(placeOrnamentClip(clip, treeConfig, ornaments));
+ */
+
+import * as THREE from 'three';
+import { ORNAMENT_TYPES, OrnamentData, TreeConfig } from '../types';
+import { reprojectPoint } from './treeSurface';
+import { findOverlaps, resolvePlacements } from './ornamentPlacement';
+
+// ============================================
+// CLIP FORMAT
+// ============================================
+
+// Marks clipboard text as ornaments from this app
+const CLIP_FORMAT = 'christmas-tree/ornaments';
+const CLIP_VERSION = 1;
+
+export type ClipOrnament = Omit<OrnamentData, 'id' | 'userId' | 'userName' | 'createdAt'>;
+
+export interface OrnamentClip {
+  format: typeof CLIP_FORMAT;
+  version: number;
+  treeConfig: TreeConfig;
+  ornaments: ClipOrnament[];
+}
+
+function isVector3(value: unknown): value is [number, number, number] {
+  return (
+    Array.isArray(value) &&
+    value.length === 3 &&
+    value.every((n) => typeof n === 'number' && Number.isFinite(n))
+  );
+}
+
+function isClipOrnament(value: unknown): value is ClipOrnament {
+  if (!value || typeof value !== 'object') return false;
+  const o = value as Record<string, unknown>;
+  return (
+    (ORNAMENT_TYPES as readonly unknown[]).includes(o.type) &&
+    typeof o.color === 'string' &&
+    isVector3(o.position) &&
+    typeof o.scale === 'number' &&
+    Number.isFinite(o.scale) &&
+    (o.rotation === undefined || isVector3(o.rotation))
+  );
+}
+
+/**
+ * Clipboard text for a group of ornaments
+ */
+export function serializeOrnamentClip(ornaments: OrnamentData[], treeConfig: TreeConfig): string {
+  const clip: OrnamentClip = {
+    format: CLIP_FORMAT,
+    version: CLIP_VERSION,
+    treeConfig,
+    // Who placed them and when belongs to the original, not the copy
+    ornaments: ornaments.map(({ type, color, position, scale, rotation }) => ({
+      type,
+      color,
+      position,
+      scale,
+      rotation,
+    })),
+  };
+  return JSON.stringify(clip);
+}
+
+/**
+ * The clip in clipboard text, or null if it's anything else
+ */
+export function parseOrnamentClip(text: string): OrnamentClip | null {
+  try {
+    const data = JSON.parse(text);
+    if (
+      !data ||
+      data.format !== CLIP_FORMAT ||
+      typeof data.version !== 'number' ||
+      data.version > CLIP_VERSION ||
+      !data.treeConfig ||
+      typeof data.treeConfig.height !== 'number' ||
+      typeof data.treeConfig.radius !== 'number' ||
+      !Array.isArray(data.ornaments) ||
+      data.ornaments.length === 0 ||
+      !data.ornaments.every(isClipOrnament)
+    ) {
+      return null;
+    }
+    return data as OrnamentClip;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================
+// PLACEMENT
+// ============================================
+
+// Pasting tries the group at these turns around the trunk, in order
+const PASTE_TURNS = Array.from({ length: 12 }, (_, i) => (i * Math.PI) / 6);
+
+function turnAroundTrunk(ornaments: ClipOrnament[], angle: number): ClipOrnament[] {
+  const turn = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), angle);
+  const euler = new THREE.Euler();
+  return ornaments.map((ornament) => {
+    const position = new THREE.Vector3(...ornament.position).applyQuaternion(turn);
+    const rotation = new THREE.Quaternion()
+      .setFromEuler(euler.set(...(ornament.rotation ?? [0, 0, 0])))
+      .premultiply(turn);
+    euler.setFromQuaternion(rotation);
+    return {
+      ...ornament,
+      position: [position.x, position.y, position.z],
+      rotation: [euler.x, euler.y, euler.z],
+    };
+  });
+}
+
+/**
+ * Where a pasted clip goes on a tree: on its foliage, turned to the first
+ * spot where the whole group is clear. If there's no such spot, ornaments
+ * that would overlap are nudged or left out.
+ */
+export function placeOrnamentClip(
+  clip: OrnamentClip,
+  treeConfig: TreeConfig,
+  ornaments: OrnamentData[]
+): ClipOrnament[] {
+  const onTree = clip.ornaments.map((ornament) => ({
+    ...ornament,
+    position: reprojectPoint(ornament.position, clip.treeConfig, treeConfig),
+  }));
+
+  for (const angle of PASTE_TURNS) {
+    const turned = turnAroundTrunk(onTree, angle);
+    if (turned.every((ornament) => findOverlaps(ornament, ornaments).length === 0)) {
+      return turned;
+    }
+  }
+  return resolvePlacements(treeConfig, turnAroundTrunk(onTree, PASTE_TURNS[1]), ornaments);
+}
+
+// ============================================
+// CLIPBOARD
+// ============================================
+
+// Last copy, for when the system clipboard can't be read (no permission)
+let lastCopied: string | null = null;
+
+/**
+ * Copy ornaments to the system clipboard
+ */
+export async function copyOrnamentsToClipboard(
+  ornaments: OrnamentData[],
+  treeConfig: TreeConfig
+): Promise<boolean> {
+  const text = serializeOrnamentClip(ornaments, treeConfig);
+  lastCopied = text;
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Ornaments on the system clipboard, falling back to the last copy in this tab
+ */
+export async function readOrnamentClipFromClipboard(): Promise<OrnamentClip | null> {
+  try {
+    return parseOrnamentClip(await navigator.clipboard.readText());
+  } catch {
+    return lastCopied ? parseOrnamentClip(lastCopied) : null;
+  }
+}
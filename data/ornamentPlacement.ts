@@ -0,0 +1,138 @@
+/**
+ * Ornament Placement - Keeping ornaments from overlapping
+ *
+ * Each ornament type has a bounding radius (at scale 1). A new placement
+ * that would sink into an ornament already on the tree is nudged along the
+ * foliage until it's clear; if that would move it too far from where the
+ * user aimed, the placement is rejected.
+ *
+ * Usage:
+ *   const position = resolvePlacement(treeConfig, { type, scale: 1, position: aimed }, ornaments);
+ *   if (position) await store.addOrnament({ ...ornament, position });
+ */
+
+import { OrnamentData, OrnamentType, TreeConfig } from '../types';
+import { getSurfaceCoordinates, snapToSurface } from './treeSurface';
+
+// ============================================
+// BOUNDING RADII
+// ============================================
+
+// Radius of each ornament's body at scale 1 (see components/Ornaments.tsx;
+// GLB sizes are after the scale each model is drawn at)
+export const ORNAMENT_RADII: Record<OrnamentType, number> = {
+  sphere: 0.15,
+  cube: 0.13,
+  diamond: 0.15,
+  giftBox: 0.14,
+  snowflake: 0.12,
+  heart: 0.12,
+  gift1: 0.1,
+  gift2: 0.1,
+  gift3: 0.1,
+  ball: 0.2,
+  bell: 0.16,
+  redball: 0.14,
+};
+
+type PlacedOrnament = Pick<OrnamentData, 'type' | 'scale' | 'position'>;
+
+export function getOrnamentRadius(ornament: Pick<OrnamentData, 'type' | 'scale'>): number {
+  return (ORNAMENT_RADII[ornament.type] ?? 0.15) * ornament.scale;
+}
+
+// ============================================
+// COLLISIONS
+// ============================================
+
+// Nudging gives up after this many steps...
+const MAX_NUDGE_STEPS = 8;
+
+// ...or once the ornament would end up more than this many of its own
+// radii away from where it was aimed
+const MAX_NUDGE_RADII = 2.5;
+
+// Extra gap left when pushing ornaments apart, so they don't end up touching
+const NUDGE_MARGIN = 0.005;
+
+function distance(a: [number, number, number], b: [number, number, number]): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+/**
+ * Ornaments on the tree that `ornament` would intersect
+ */
+export function findOverlaps<T extends PlacedOrnament>(ornament: PlacedOrnament, ornaments: T[]): T[] {
+  const radius = getOrnamentRadius(ornament);
+  return ornaments.filter(
+    (other) => distance(ornament.position, other.position) < radius + getOrnamentRadius(other)
+  );
+}
+
+/**
+ * Where to put an ornament so it doesn't intersect the ones already on the
+ * tree: where it was aimed if that's clear, nudged along the foliage if it
+ * isn't, or null when there's no room nearby
+ */
+export function resolvePlacement(
+  config: TreeConfig,
+  ornament: PlacedOrnament,
+  ornaments: PlacedOrnament[]
+): [number, number, number] | null {
+  const radius = getOrnamentRadius(ornament);
+  // Stay as far off the foliage as it was aimed
+  const offset = getSurfaceCoordinates(config, ornament.position).offset;
+  let position = ornament.position;
+
+  for (let step = 0; step <= MAX_NUDGE_STEPS; step++) {
+    const overlaps = findOverlaps({ ...ornament, position }, ornaments);
+    if (overlaps.length === 0) return position;
+    if (step === MAX_NUDGE_STEPS) break;
+
+    // Push directly away from each ornament it sinks into, by how far it sinks
+    const push: [number, number, number] = [0, 0, 0];
+    overlaps.forEach((other) => {
+      const gap = distance(position, other.position);
+      const depth = radius + getOrnamentRadius(other) - gap + NUDGE_MARGIN;
+      if (gap > 1e-6) {
+        push[0] += ((position[0] - other.position[0]) / gap) * depth;
+        push[1] += ((position[1] - other.position[1]) / gap) * depth;
+        push[2] += ((position[2] - other.position[2]) / gap) * depth;
+      } else {
+        // Dead center: push sideways around the trunk
+        const around = Math.hypot(position[0], position[2]) || 1;
+        push[0] += (-position[2] / around) * depth;
+        push[2] += (position[0] / around) * depth;
+      }
+    });
+
+    position = snapToSurface(
+      config,
+      [position[0] + push[0], position[1] + push[1], position[2] + push[2]],
+      offset
+    );
+    if (distance(position, ornament.position) > radius * MAX_NUDGE_RADII) break;
+  }
+  return null;
+}
+
+/**
+ * Resolve a batch of new ornaments one after another, each also keeping clear
+ * of the ones before it. Ornaments with no room are left out.
+ */
+export function resolvePlacements<T extends PlacedOrnament>(
+  config: TreeConfig,
+  candidates: T[],
+  ornaments: PlacedOrnament[]
+): T[] {
+  const placed: PlacedOrnament[] = [...ornaments];
+  const resolved: T[] = [];
+  candidates.forEach((candidate) => {
+    const position = resolvePlacement(config, candidate, placed);
+    if (!position) return;
+    const ornament = { ...candidate, position };
+    placed.push(ornament);
+    resolved.push(ornament);
+  });
+  return resolved;
+}
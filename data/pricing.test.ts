@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { CartItem, CartItemType, DiscountLine } from '../types';
+import {
+  PricingError,
+  calculatePricing,
+  formatTaxRate,
+  getDisplayAmount,
+  getShippingZone,
+} from './pricing';
+
+// ============================================
+// FIXTURES
+// ============================================
+
+let nextItemId = 0;
+
+function item(productId: string, unitPrice: number, quantity = 1, productType: CartItemType = 'tree'): CartItem {
+  return { id: `item_${++nextItemId}`, productType, productId, quantity, unitPrice };
+}
+
+const ornament = (unitPrice: number, quantity = 1) => item('orn-sphere', unitPrice, quantity, 'ornament');
+
+const ZURICH = { country: 'CH', postalCode: '8001' };
+const ZERMATT = { country: 'CH', postalCode: '3920' };
+const VADUZ = { country: 'LI', postalCode: '9490' };
+const BERLIN = { country: 'DE', postalCode: '10115' };
+
+function discount(amount: number): DiscountLine {
+  return { id: 'promo:TEST', source: 'promo', label: 'Test code', amount };
+}
+
+const shippingOf = (pricing: ReturnType<typeof calculatePricing>) =>
+  pricing.lines.find((l) => l.kind === 'shipping')!.net;
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('pricing', () => {
+  describe('getShippingZone', () => {
+    it('picks the zone from the country and, in Switzerland, the postal code', () => {
+      expect(getShippingZone(ZURICH)?.id).toBe('ch');
+      expect(getShippingZone(ZERMATT)?.id).toBe('ch_remote');
+      expect(getShippingZone({ country: 'CH', postalCode: ' 7500' })?.id).toBe('ch_remote');
+      expect(getShippingZone(VADUZ)?.id).toBe('ch');
+      expect(getShippingZone(BERLIN)?.id).toBe('eu');
+      expect(getShippingZone({ country: 'US', postalCode: '10001' })).toBeNull();
+    });
+
+    it('refuses to price orders to countries it does not ship to', () => {
+      expect(() => calculatePricing([ornament(1000)], { country: 'US', postalCode: '10001' })).toThrow(
+        PricingError
+      );
+    });
+  });
+
+  describe('shipping', () => {
+    it('charges the rate for the largest tree, or a parcel without one', () => {
+      expect(shippingOf(calculatePricing([ornament(1000)], BERLIN))).toBe(1900);
+      const trees = [item('tree-small', 5000), item('tree-medium', 8000)];
+      expect(shippingOf(calculatePricing(trees, BERLIN))).toBe(4900);
+      expect(shippingOf(calculatePricing([item('tree-medium', 8000)], ZERMATT))).toBe(2999);
+    });
+
+    it('is free from the threshold, counted after discounts', () => {
+      const items = [item('tree-medium', 25000, 2)];
+      expect(calculatePricing(items, ZURICH)).toMatchObject({ freeShipping: true, shippingCost: 0 });
+      expect(calculatePricing(items, ZURICH, [discount(1)])).toMatchObject({
+        freeShipping: false,
+        shippingCost: 1999,
+      });
+      // Europe has no threshold
+      expect(calculatePricing(items, BERLIN).freeShipping).toBe(false);
+    });
+
+    it('always adds the surcharge for bulky trees', () => {
+      const pricing = calculatePricing([item('tree-large', 30000, 2)], ZURICH);
+      expect(pricing.freeShipping).toBe(true);
+      expect(pricing.lines.find((l) => l.kind === 'surcharge')).toMatchObject({ quantity: 2, net: 5800 });
+      expect(pricing.shippingCost).toBe(5800);
+    });
+
+    it('converts rates into the cart currency', () => {
+      expect(shippingOf(calculatePricing([ornament(1000)], ZURICH, [], 'eur'))).toBe(963);
+    });
+
+    it('charges nothing for an empty cart', () => {
+      expect(calculatePricing([], ZURICH)).toMatchObject({ lines: [], shippingCost: 0, total: 0 });
+    });
+  });
+
+  describe('VAT', () => {
+    it("uses the destination's rate on items, discounts and shipping", () => {
+      const pricing = calculatePricing([ornament(1000, 3)], BERLIN, [discount(500)]);
+      expect(pricing.lines.map((l) => [l.kind, l.net, l.tax])).toEqual([
+        ['item', 3000, 570],
+        ['discount', -500, -95],
+        ['shipping', 1900, 361],
+      ]);
+      expect(pricing.tax).toBe(836);
+    });
+
+    it('rounds per line so the lines add up to the total', () => {
+      // 1999 * 8.1% = 161.919, 999 * 8.1% = 80.919
+      const pricing = calculatePricing([ornament(1999), ornament(999)], ZURICH);
+      expect(pricing.lines.map((l) => l.tax)).toEqual([162, 81, 73]);
+      expect(pricing.total).toBe(pricing.lines.reduce((sum, l) => sum + l.net + l.tax, 0));
+      expect(pricing.total).toBe(pricing.subtotal - pricing.discountTotal + pricing.shippingCost + pricing.tax);
+    });
+
+    it('shows prices with VAT where the destination requires it', () => {
+      const line = { net: 1000, tax: 190 };
+      expect(calculatePricing([ornament(1000)], BERLIN).taxDisplay).toBe('inclusive');
+      expect(calculatePricing([ornament(1000)], ZURICH).taxDisplay).toBe('exclusive');
+      expect(getDisplayAmount(line, 'inclusive')).toBe(1190);
+      expect(getDisplayAmount(line, 'exclusive')).toBe(1000);
+    });
+
+    it('formats rates without trailing zeros', () => {
+      expect(formatTaxRate(0.081)).toBe('8.1%');
+      expect(formatTaxRate(0.2)).toBe('20%');
+    });
+  });
+});
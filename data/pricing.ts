@@ -0,0 +1,258 @@
+/**
+ * Pricing - Shipping and VAT by destination
+ *
+ * Single source for order totals: the checkout form shows the breakdown and
+ * order creation stores it, so both always agree. Catalog prices are net
+ * (before VAT).
+ *
+ *   - Discounts (data/discounts.ts) come off the items before VAT.
+ *   - Shipping: zone rate for the largest tree in the cart (or a parcel rate
+ *     without a tree), waived when the discounted subtotal reaches the zone's
+ *     free-shipping threshold.
+ *     Bulky trees (8 ft) add a surcharge that is never waived.
+ *   - VAT: destination country's rate on items and shipping. Each country
+ *     decides whether prices are shown with VAT included or added on top.
+ *
+ * Items and discounts come in the cart's currency; shipping rates and
+ * thresholds here are CHF and converted (data/currency.ts).
+ *
+ * Usage:
+ *   const pricing = calculatePricing(cart.items, address, cart.discounts, cart.currency);
+ *   pricing.total; pricing.lines;
+ */
+
+import {
+  CartItem,
+  CurrencyCode,
+  DiscountLine,
+  PriceBreakdown,
+  PriceLine,
+  ShippingAddress,
+  ShippingZoneId,
+  TaxDisplay,
+  TreeSize,
+} from '../types';
+import { BASE_CURRENCY, convertAmount } from './currency';
+import { getProductById, getTreeProduct } from './products';
+
+// ============================================
+// DESTINATIONS
+// ============================================
+
+export interface Destination {
+  code: string;            // ISO 3166-1 alpha-2
+  name: string;
+  vatRate: number;
+  taxDisplay: TaxDisplay;
+  postalCodePattern: string;
+}
+
+// EU consumer prices must be shown with VAT included
+export const DESTINATIONS: Record<string, Destination> = {
+  CH: { code: 'CH', name: 'Switzerland', vatRate: 0.081, taxDisplay: 'exclusive', postalCodePattern: '[0-9]{4}' },
+  LI: { code: 'LI', name: 'Liechtenstein', vatRate: 0.081, taxDisplay: 'exclusive', postalCodePattern: '94[89][0-9]' },
+  DE: { code: 'DE', name: 'Germany', vatRate: 0.19, taxDisplay: 'inclusive', postalCodePattern: '[0-9]{5}' },
+  AT: { code: 'AT', name: 'Austria', vatRate: 0.2, taxDisplay: 'inclusive', postalCodePattern: '[0-9]{4}' },
+  FR: { code: 'FR', name: 'France', vatRate: 0.2, taxDisplay: 'inclusive', postalCodePattern: '[0-9]{5}' },
+  IT: { code: 'IT', name: 'Italy', vatRate: 0.22, taxDisplay: 'inclusive', postalCodePattern: '[0-9]{5}' },
+};
+
+export const DEFAULT_COUNTRY = 'CH';
+
+// ============================================
+// SHIPPING ZONES
+// ============================================
+
+// What the parcel is sized for: the largest tree in the cart, or just a parcel
+export type ShippingClass = 'parcel' | TreeSize;
+
+export interface ShippingZone {
+  id: ShippingZoneId;
+  label: string;
+  rates: Record<ShippingClass, number>;   // CHF cents
+  // Base shipping is free from this net subtotal on (CHF cents)
+  freeShippingThreshold?: number;
+  // Per bulky tree, on top of the rate
+  bulkySurcharge: number;
+}
+
+export const SHIPPING_ZONES: Record<ShippingZoneId, ShippingZone> = {
+  ch: {
+    id: 'ch',
+    label: 'Switzerland',
+    rates: { parcel: 900, small: 1999, medium: 1999, large: 1999 },
+    freeShippingThreshold: 50000,
+    bulkySurcharge: 2900,
+  },
+  ch_remote: {
+    id: 'ch_remote',
+    label: 'Switzerland (mountain regions)',
+    rates: { parcel: 900, small: 2999, medium: 2999, large: 2999 },
+    freeShippingThreshold: 50000,
+    bulkySurcharge: 3900,
+  },
+  eu: {
+    id: 'eu',
+    label: 'Europe',
+    rates: { parcel: 1900, small: 3900, medium: 4900, large: 6900 },
+    bulkySurcharge: 4900,
+  },
+};
+
+// First matching rule wins
+const ZONE_RULES: { zone: ShippingZoneId; countries: string[]; postalPrefixes?: string[] }[] = [
+  // Upper Valais and Graubünden need mountain freight
+  { zone: 'ch_remote', countries: ['CH'], postalPrefixes: ['39', '7'] },
+  { zone: 'ch', countries: ['CH', 'LI'] },
+  { zone: 'eu', countries: ['DE', 'AT', 'FR', 'IT'] },
+];
+
+// Trees at least this tall ship as bulky freight
+export const BULKY_TREE_HEIGHT_FT = 8;
+
+const SHIPPING_CLASS_ORDER: ShippingClass[] = ['parcel', 'small', 'medium', 'large'];
+
+export function getShippingZone(
+  address: Pick<ShippingAddress, 'country' | 'postalCode'>
+): ShippingZone | null {
+  const postalCode = address.postalCode.trim();
+  const rule = ZONE_RULES.find(
+    (r) =>
+      r.countries.includes(address.country) &&
+      (!r.postalPrefixes || r.postalPrefixes.some((prefix) => postalCode.startsWith(prefix)))
+  );
+  return rule ? SHIPPING_ZONES[rule.zone] : null;
+}
+
+// ============================================
+// ERRORS
+// ============================================
+
+export class PricingError extends Error {
+  readonly country: string;
+
+  constructor(country: string) {
+    super(`We don't ship to ${DESTINATIONS[country]?.name ?? country} yet`);
+    this.name = 'PricingError';
+    this.country = country;
+  }
+}
+
+// ============================================
+// CALCULATION
+// ============================================
+
+function getItemLabel(item: CartItem): string {
+  const name = getProductById(item.productId)?.name ?? item.productId;
+  // Garland quantities are meters
+  return item.productType === 'garland' ? `${name} (per m)` : name;
+}
+
+/**
+ * Itemized totals for shipping the cart to an address.
+ * Throws PricingError if the destination isn't served.
+ */
+export function calculatePricing(
+  items: CartItem[],
+  address: Pick<ShippingAddress, 'country' | 'postalCode'>,
+  discounts: DiscountLine[] = [],
+  currency: CurrencyCode = BASE_CURRENCY
+): PriceBreakdown {
+  const destination = DESTINATIONS[address.country];
+  const zone = getShippingZone(address);
+  if (!destination || !zone) throw new PricingError(address.country);
+
+  // VAT is rounded per line so the lines always add up to the total
+  const line = (fields: Omit<PriceLine, 'tax'>): PriceLine => ({
+    ...fields,
+    tax: Math.round(fields.net * destination.vatRate),
+  });
+
+  const itemLines = items.map((item) =>
+    line({
+      id: `item_${item.id}`,
+      kind: 'item',
+      label: getItemLabel(item),
+      quantity: item.quantity,
+      net: item.unitPrice * item.quantity,
+      cartItemId: item.id,
+    })
+  );
+  const subtotal = itemLines.reduce((sum, l) => sum + l.net, 0);
+
+  const discountLines = discounts.map((discount) =>
+    line({ id: discount.id, kind: 'discount', label: discount.label, quantity: 1, net: -discount.amount })
+  );
+  const discountTotal = -discountLines.reduce((sum, l) => sum + l.net, 0);
+
+  const trees = items.flatMap((item) => {
+    const tree = item.productType === 'tree' ? getTreeProduct(item.productId) : undefined;
+    return tree ? [{ tree, quantity: item.quantity }] : [];
+  });
+  const shippingClass = trees.reduce<ShippingClass>(
+    (largest, { tree }) =>
+      SHIPPING_CLASS_ORDER.indexOf(tree.size) > SHIPPING_CLASS_ORDER.indexOf(largest) ? tree.size : largest,
+    'parcel'
+  );
+  const freeShipping =
+    zone.freeShippingThreshold !== undefined &&
+    subtotal - discountTotal >= convertAmount(zone.freeShippingThreshold, currency);
+  const bulkyCount = trees
+    .filter(({ tree }) => tree.heightFt >= BULKY_TREE_HEIGHT_FT)
+    .reduce((sum, { quantity }) => sum + quantity, 0);
+
+  const shippingLines: PriceLine[] = [];
+  if (items.length > 0) {
+    shippingLines.push(
+      line({
+        id: 'shipping',
+        kind: 'shipping',
+        label: `Shipping to ${zone.label}`,
+        quantity: 1,
+        net: freeShipping ? 0 : convertAmount(zone.rates[shippingClass], currency),
+      })
+    );
+  }
+  if (bulkyCount > 0) {
+    shippingLines.push(
+      line({
+        id: 'bulky_surcharge',
+        kind: 'surcharge',
+        label: `Bulky item surcharge (${BULKY_TREE_HEIGHT_FT} ft tree)`,
+        quantity: bulkyCount,
+        net: convertAmount(zone.bulkySurcharge, currency) * bulkyCount,
+      })
+    );
+  }
+  const shippingCost = shippingLines.reduce((sum, l) => sum + l.net, 0);
+
+  const lines = [...itemLines, ...discountLines, ...shippingLines];
+  const tax = lines.reduce((sum, l) => sum + l.tax, 0);
+
+  return {
+    currency,
+    country: destination.code,
+    shippingZone: zone.id,
+    lines,
+    subtotal,
+    discountTotal,
+    shippingCost,
+    freeShipping,
+    taxRate: destination.vatRate,
+    taxDisplay: destination.taxDisplay,
+    tax,
+    total: subtotal - discountTotal + shippingCost + tax,
+  };
+}
+
+/**
+ * What to show for a line: with VAT when the destination displays
+ * prices inclusive, net otherwise
+ */
+export function getDisplayAmount(line: Pick<PriceLine, 'net' | 'tax'>, taxDisplay: TaxDisplay): number {
+  return taxDisplay === 'inclusive' ? line.net + line.tax : line.net;
+}
+
+export function formatTaxRate(rate: number): string {
+  return `${parseFloat((rate * 100).toFixed(2))}%`;
+}
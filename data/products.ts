@@ -1,4 +1,4 @@
-import { TreeProduct, OrnamentProduct, TopperProduct } from '../types';
+import { TreeProduct, OrnamentProduct, TopperProduct, GarlandProduct } from '../types';
 
 // ============================================
 // TREE PRODUCTS
@@ -139,7 +139,7 @@ export const ORNAMENT_PRODUCTS: OrnamentProduct[] = [
     description: 'Beautifully wrapped gift box with decorative bow.',
     price: {
       amount: 1099,
-      currency: 'usd',
+      currency: 'chf',
       stripePriceId: 'price_orn_gift1',
     },
     category: 'gifts',
@@ -152,7 +152,7 @@ export const ORNAMENT_PRODUCTS: OrnamentProduct[] = [
     description: 'Festive package ornament with ribbon details.',
     price: {
       amount: 1099,
-      currency: 'usd',
+      currency: 'chf',
       stripePriceId: 'price_orn_gift2',
     },
     category: 'gifts',
@@ -165,7 +165,7 @@ export const ORNAMENT_PRODUCTS: OrnamentProduct[] = [
     description: 'Elegant gift box ornament with premium detailing.',
     price: {
       amount: 1099,
-      currency: 'usd',
+      currency: 'chf',
       stripePriceId: 'price_orn_gift3',
     },
     category: 'gifts',
@@ -178,7 +178,7 @@ export const ORNAMENT_PRODUCTS: OrnamentProduct[] = [
     description: 'Detailed 3D ornament ball with intricate design.',
     price: {
       amount: 899,
-      currency: 'usd',
+      currency: 'chf',
       stripePriceId: 'price_orn_ball',
     },
     category: 'classic',
@@ -191,7 +191,7 @@ export const ORNAMENT_PRODUCTS: OrnamentProduct[] = [
     description: 'Traditional holiday bell ornament with festive charm.',
     price: {
       amount: 999,
-      currency: 'usd',
+      currency: 'chf',
       stripePriceId: 'price_orn_bell',
     },
     category: 'festive',
@@ -204,7 +204,7 @@ export const ORNAMENT_PRODUCTS: OrnamentProduct[] = [
     description: 'Elegant red bell ornament with stunning detail.',
     price: {
       amount: 1199,
-      currency: 'usd',
+      currency: 'chf',
       stripePriceId: 'price_orn_redball',
     },
     category: 'classic',
@@ -243,6 +243,37 @@ export const TOPPER_PRODUCTS: TopperProduct[] = [
   },
 ];
 
+// ============================================
+// GARLAND PRODUCTS (priced per meter)
+// ============================================
+
+export const GARLAND_PRODUCTS: GarlandProduct[] = [
+  {
+    id: 'garland-lights',
+    type: 'lights',
+    name: 'Fairy Lights',
+    description: 'Warm LED string lights with steady, chase, twinkle and fade modes.',
+    price: {
+      amount: 490,
+      currency: 'chf',
+      stripePriceId: 'price_garland_lights',
+    },
+    inStock: true,
+  },
+  {
+    id: 'garland-beads',
+    type: 'beads',
+    name: 'Bead Garland',
+    description: 'Glossy glass beads on a fine thread, draped from branch to branch.',
+    price: {
+      amount: 290,
+      currency: 'chf',
+      stripePriceId: 'price_garland_beads',
+    },
+    inStock: true,
+  },
+];
+
 // ============================================
 // PRODUCT LOOKUP HELPERS
 // ============================================
@@ -271,6 +302,29 @@ export function getTopperProductByType(type: string): TopperProduct | undefined
   return TOPPER_PRODUCTS.find((p) => p.type === type);
 }
 
+export function getGarlandProduct(id: string): GarlandProduct | undefined {
+  return GARLAND_PRODUCTS.find((p) => p.id === id);
+}
+
+export function getGarlandProductByType(type: string): GarlandProduct | undefined {
+  return GARLAND_PRODUCTS.find((p) => p.type === type);
+}
+
+export function getProductById(
+  id: string
+): TreeProduct | OrnamentProduct | TopperProduct | GarlandProduct | undefined {
+  return getTreeProduct(id) ?? getOrnamentProduct(id) ?? getTopperProduct(id) ?? getGarlandProduct(id);
+}
+
+/**
+ * Change a product's CHF price in the catalog above. Called with the prices
+ * staff set in the admin (convex-dev/catalog.ts).
+ */
+export function setProductPrice(id: string, amount: number): void {
+  const product = getProductById(id);
+  if (product) product.price = { ...product.price, amount };
+}
+
 // ============================================
 // PRODUCT CATEGORIES FOR UI
 // ============================================
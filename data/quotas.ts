@@ -0,0 +1,175 @@
+/**
+ * Quotas - What each subscription tier may put on a tree
+ *
+ * Shared by the client store (to explain limits before an action) and the
+ * mutation layer in lib/api.ts (which enforces them). Limits come from
+ * `DEFAULT_QUOTAS` in types.ts:
+ *   - maxOrnaments / maxToppers: how many the user can have placed at once
+ *   - canUseSpecialOrnaments: SPECIAL_ORNAMENT_TYPES
+ *   - canUseCustomColors: colors outside the palettes and scene themes
+ *
+ * Usage:
+ *   const check = checkOrnamentQuota(user.quota, { type, color });
+ *   if (!check.allowed) showUpgrade(check.requiredTier);
+ */
+
+import {
+  OrnamentType,
+  SubscriptionTier,
+  SUBSCRIPTION_TIERS,
+  UserQuota,
+  DEFAULT_QUOTAS,
+} from '../types';
+import { COLOR_PALETTES, SCENE_THEMES } from './themes';
+
+// ============================================
+// TIERS & FEATURES
+// ============================================
+
+export const TIER_LABELS: Record<SubscriptionTier, string> = {
+  free: 'Free',
+  basic: 'Basic',
+  premium: 'Premium',
+  unlimited: 'Unlimited',
+};
+
+// What upgrading to a tier costs, in BASE_CURRENCY cents (paid through Stripe Checkout)
+export const TIER_PRICES: Record<SubscriptionTier, number> = {
+  free: 0,
+  basic: 490,
+  premium: 990,
+  unlimited: 1990,
+};
+
+// Premium ornaments (ribbon and gingerbread join once their models ship)
+export const SPECIAL_ORNAMENT_TYPES: readonly OrnamentType[] = ['heart'];
+
+const PRESET_COLORS = new Set(
+  [
+    ...Object.values(COLOR_PALETTES).flat(),
+    ...Object.values(SCENE_THEMES).flatMap((theme) => theme.ornamentColors),
+  ].map((color) => color.toLowerCase())
+);
+
+export function isSpecialOrnament(type: OrnamentType): boolean {
+  return SPECIAL_ORNAMENT_TYPES.includes(type);
+}
+
+/**
+ * Whether a color is offered by a palette or scene theme (anything else is custom)
+ */
+export function isPresetColor(color: string): boolean {
+  return PRESET_COLORS.has(color.toLowerCase());
+}
+
+/**
+ * Fresh quota for a tier, keeping the current usage
+ */
+export function createQuota(
+  tier: SubscriptionTier,
+  usage: Pick<UserQuota, 'usedOrnaments' | 'usedToppers'> = { usedOrnaments: 0, usedToppers: 0 }
+): UserQuota {
+  return { ...DEFAULT_QUOTAS[tier], usedOrnaments: usage.usedOrnaments, usedToppers: usage.usedToppers };
+}
+
+// ============================================
+// CHECKS
+// ============================================
+
+export type QuotaViolation = 'ornament_limit' | 'topper_limit' | 'special_ornament' | 'custom_color';
+
+export interface QuotaCheck {
+  allowed: boolean;
+  violation?: QuotaViolation;
+  error?: string;
+  // Cheapest tier that would allow it
+  requiredTier?: SubscriptionTier;
+}
+
+function cheapestTier(allows: (quota: Omit<UserQuota, 'usedOrnaments' | 'usedToppers'>) => boolean) {
+  return SUBSCRIPTION_TIERS.find((tier) => allows(DEFAULT_QUOTAS[tier]));
+}
+
+function deny(violation: QuotaViolation, error: string, requiredTier?: SubscriptionTier): QuotaCheck {
+  return { allowed: false, violation, error, requiredTier };
+}
+
+/**
+ * Whether the color may be used. Preset colors are always allowed.
+ */
+export function checkColorQuota(quota: UserQuota, color: string): QuotaCheck {
+  if (quota.canUseCustomColors || isPresetColor(color)) return { allowed: true };
+  return deny(
+    'custom_color',
+    'Custom colors are a paid feature',
+    cheapestTier((q) => q.canUseCustomColors)
+  );
+}
+
+/**
+ * Whether `count` more ornaments of this type and color may be placed (more
+ * than one for a symmetric placement)
+ */
+export function checkOrnamentQuota(
+  quota: UserQuota,
+  ornament: { type: OrnamentType; color: string },
+  count = 1
+): QuotaCheck {
+  if (quota.usedOrnaments + count > quota.maxOrnaments) {
+    const remaining = Math.max(0, quota.maxOrnaments - quota.usedOrnaments);
+    return deny(
+      'ornament_limit',
+      count > 1 && remaining > 0
+        ? `Your plan allows ${quota.maxOrnaments} ornaments; only ${remaining} left for ${count} copies`
+        : `Your plan allows ${quota.maxOrnaments} ornaments`,
+      cheapestTier((q) => q.maxOrnaments >= quota.usedOrnaments + count)
+    );
+  }
+  if (isSpecialOrnament(ornament.type) && !quota.canUseSpecialOrnaments) {
+    return deny(
+      'special_ornament',
+      'Special ornaments are a paid feature',
+      cheapestTier((q) => q.canUseSpecialOrnaments)
+    );
+  }
+  return checkColorQuota(quota, ornament.color);
+}
+
+/**
+ * Whether a topper of this color may be set. Replacing the current topper
+ * doesn't count against the limit.
+ */
+export function checkTopperQuota(
+  quota: UserQuota,
+  topper: { color: string },
+  isReplacing = false
+): QuotaCheck {
+  if (!isReplacing && quota.usedToppers >= quota.maxToppers) {
+    return deny(
+      'topper_limit',
+      `Your plan allows ${quota.maxToppers} topper${quota.maxToppers === 1 ? '' : 's'}`,
+      cheapestTier((q) => q.maxToppers > quota.maxToppers)
+    );
+  }
+  return checkColorQuota(quota, topper.color);
+}
+
+// ============================================
+// ERRORS
+// ============================================
+
+/**
+ * Thrown by mutations that would exceed the caller's quota
+ * (a ConvexError with the same data once on Convex)
+ */
+export class QuotaExceededError extends Error {
+  readonly violation: QuotaViolation;
+  readonly requiredTier?: SubscriptionTier;
+
+  constructor(check: QuotaCheck) {
+    super(check.error || 'Quota exceeded');
+    this.name = 'QuotaExceededError';
+    this.violation = check.violation!;
+    this.requiredTier = check.requiredTier;
+  }
+}
@@ -1,3 +1,6 @@
+import { CurrencyCode } from '../types';
+import { BASE_CURRENCY, isCurrencyCode } from './currency';
+
 const SESSION_KEY = 'christmas-tree-session-id';
 
 export function getSessionId(): string {
@@ -31,3 +34,31 @@ export function hasExistingSession(): boolean {
   }
   return localStorage.getItem(SESSION_KEY) !== null;
 }
+
+// ============================================
+// CURRENCY
+// ============================================
+
+const CURRENCY_KEY = 'christmas-tree-currency';
+const currencyListeners: Set<(currency: CurrencyCode) => void> = new Set();
+
+/**
+ * Display currency chosen in this browser (CHF until the customer picks one)
+ */
+export function getCurrency(): CurrencyCode {
+  if (typeof window === 'undefined') return BASE_CURRENCY;
+  const stored = localStorage.getItem(CURRENCY_KEY);
+  return isCurrencyCode(stored) ? stored : BASE_CURRENCY;
+}
+
+export function setCurrency(currency: CurrencyCode): void {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(CURRENCY_KEY, currency);
+  }
+  currencyListeners.forEach((l) => l(currency));
+}
+
+export function subscribeCurrency(callback: (currency: CurrencyCode) => void): () => void {
+  currencyListeners.add(callback);
+  return () => currencyListeners.delete(callback);
+}
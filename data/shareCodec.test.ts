@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SHARE_CODEC_VERSION, decodeShareCode, encodeBinaryShareCode, encodeShareCodeV1 } from './shareCodec';
+import { TreeExportData, generateShareCode, parseShareCode } from './treeExport';
+
+// ============================================
+// FIXTURES
+// ============================================
+
+const EXPORT: TreeExportData = {
+  version: 3,
+  exportedAt: 1700000000123,
+  metadata: {
+    name: 'Living room',
+    authorName: 'Sam',
+    tags: ['cozy'],
+    thumbnail: 'data:image/png;base64,AAAA',
+  },
+  // A seed that f32 can't hold exactly
+  treeConfig: { seed: 0.1234567891, height: 5.25, radius: 2.1, tiers: 6, color: '#1A472A', snowAmount: 0.35 },
+  topper: { type: 'snowflake', color: '#ffd700', scale: 1.2, glow: true },
+  ornaments: [
+    {
+      type: 'sphere',
+      color: '#ff0000',
+      position: [1.23456, 2.5, -0.75],
+      scale: 1,
+      rotation: [0, Math.PI / 2, -1],
+    },
+    { type: 'bell', color: '#f00', position: [-3, 0.5, 2], scale: 0.8, rotation: [0, 0, 0] },
+  ],
+  garlands: [
+    {
+      type: 'lights',
+      colors: ['#ffe9b0', '#ff0000'],
+      pattern: 'chase',
+      points: [
+        [1, 1, 0],
+        [0, 2, 1],
+        [-1, 3, 0],
+      ],
+    },
+  ],
+};
+
+// Tolerances of the quantization in shareCodec.ts
+const POSITION_TOLERANCE = 0.0005;
+const ROTATION_TOLERANCE = Math.PI / 65536;
+
+function expectClose(actual: number[], expected: number[], tolerance: number) {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((value, i) => expect(Math.abs(value - expected[i])).toBeLessThanOrEqual(tolerance));
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('shareCodec', () => {
+  describe('binary codes', () => {
+    it('round-trip a tree within the quantization steps', () => {
+      const code = encodeBinaryShareCode(EXPORT);
+      expect(code.startsWith(`${SHARE_CODEC_VERSION}.`)).toBe(true);
+
+      const decoded = decodeShareCode(code) as TreeExportData;
+      expect(decoded.version).toBe(EXPORT.version);
+      expect(decoded.exportedAt).toBe(EXPORT.exportedAt);
+      expect(decoded.topper).toEqual({ type: 'snowflake', color: '#ffd700', scale: 1.2, glow: true });
+
+      decoded.ornaments.forEach((ornament, i) => {
+        const original = EXPORT.ornaments[i];
+        expect(ornament.type).toBe(original.type);
+        expectClose(ornament.position, original.position, POSITION_TOLERANCE);
+        expectClose(ornament.rotation, original.rotation, ROTATION_TOLERANCE);
+        expect(ornament.scale).toBeCloseTo(original.scale, 3);
+      });
+
+      expect(decoded.garlands).toHaveLength(1);
+      expect(decoded.garlands[0]).toMatchObject({
+        type: 'lights',
+        pattern: 'chase',
+        colors: ['#ffe9b0', '#ff0000'],
+      });
+      decoded.garlands[0].points.forEach((point, i) =>
+        expectClose(point, EXPORT.garlands[0].points[i], POSITION_TOLERANCE)
+      );
+    });
+
+    it('keep the tree config exactly, so the same tree grows from the seed', () => {
+      const decoded = decodeShareCode(encodeBinaryShareCode(EXPORT)) as TreeExportData;
+      expect(decoded.treeConfig).toEqual({ ...EXPORT.treeConfig, color: '#1a472a' });
+    });
+
+    it('store each color once, whatever way it was written', () => {
+      const decoded = decodeShareCode(encodeBinaryShareCode(EXPORT)) as TreeExportData;
+      expect(decoded.ornaments.map((o) => o.color)).toEqual(['#ff0000', '#ff0000']);
+    });
+
+    it('leave out the thumbnail', () => {
+      const decoded = decodeShareCode(encodeBinaryShareCode(EXPORT)) as TreeExportData;
+      expect(decoded.metadata).toEqual({ name: 'Living room', authorName: 'Sam', tags: ['cozy'] });
+    });
+
+    it('are much shorter than legacy codes for a busy tree', () => {
+      const busy: TreeExportData = {
+        ...EXPORT,
+        ornaments: Array.from({ length: 150 }, (_, i) => ({
+          type: 'sphere' as const,
+          color: ['#ff0000', '#00ff00', '#0000ff'][i % 3],
+          position: [Math.cos(i), i / 30, Math.sin(i)] as [number, number, number],
+          scale: 1,
+          rotation: [0, i / 10, 0] as [number, number, number],
+        })),
+      };
+      expect(encodeBinaryShareCode(busy).length * 3).toBeLessThan(encodeShareCodeV1(busy).length);
+    });
+
+    it('refuse trees they cannot represent', () => {
+      const namedColor = { ...EXPORT, treeConfig: { ...EXPORT.treeConfig, color: 'green' } };
+      expect(() => encodeBinaryShareCode(namedColor)).toThrow('cannot be palette-encoded');
+      const farAway = { ...EXPORT.ornaments[0], position: [40, 0, 0] as [number, number, number] };
+      expect(() => encodeBinaryShareCode({ ...EXPORT, ornaments: [farAway] })).toThrow(RangeError);
+    });
+  });
+
+  describe('legacy v1 codes', () => {
+    it('decode as the JSON they were made from', () => {
+      const decoded = decodeShareCode(encodeShareCodeV1(EXPORT));
+      expect(decoded).toEqual(JSON.parse(JSON.stringify(EXPORT)));
+    });
+
+    it('are used when the binary codec cannot represent the tree', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const named = { ...EXPORT, topper: { ...EXPORT.topper!, color: 'gold' } };
+
+      const code = generateShareCode(named);
+      expect(code).not.toContain('.');
+      expect(parseShareCode(code)).toEqual({ success: true, data: JSON.parse(JSON.stringify(named)) });
+    });
+
+    it('from before garlands still import, with none', () => {
+      const { garlands: _, ...oldExport } = EXPORT;
+      const result = parseShareCode(encodeShareCodeV1({ ...oldExport, version: 2 } as TreeExportData));
+      expect(result.success).toBe(true);
+      expect(result.data!.garlands).toEqual([]);
+    });
+  });
+
+  it('rejects codes from an unknown codec version', () => {
+    expect(() => decodeShareCode('9.AAAA')).toThrow('Unsupported share code version "9"');
+  });
+});
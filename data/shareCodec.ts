@@ -0,0 +1,467 @@
+/**
+ * Share Code Codec
+ *
+ * Compact binary encoding for tree share codes. Legacy (v1) codes are plain
+ * base64 JSON, which grows past what chat apps and QR codes can carry once a
+ * tree has ~100 ornaments. The v2 codec:
+ *   - quantizes positions (1mm) and rotations (~0.0001 rad)
+ *   - stores each distinct color once in a palette and references it by index
+ *   - maps ornament/topper/garland types to small integers
+ *   - deflates the result and encodes it as URL-safe base64
+ *
+ * v2 codes look like `2.<payload>`. The '.' never appears in legacy base64,
+ * so the two formats can always be told apart.
+ *
+ * v3 (`3.<payload>`) has the same layout but stores the tree config numbers
+ * as f64: the seed drives PineTree's sin-based randomness, so the rounding of
+ * an f32 turned a shared tree's snow and foliage into a different tree's.
+ *
+ * The metadata thumbnail is not included in v2 codes (it would dominate the size).
+ *
+ * Garlands (export version 3+) are appended after the ornaments, so codes
+ * made before garlands existed still decode; migration gives them none.
+ */
+
+import { deflateSync, inflateSync } from 'fflate';
+import { GarlandType, LightPattern, OrnamentType, TopperType } from '../types';
+import { TreeExportData, TreeExportMetadata } from './treeExport';
+
+// ============================================
+// CODEC CONSTANTS
+// ============================================
+
+export const SHARE_CODEC_VERSION = 3;
+
+// Codecs before this one stored the tree config as f32
+const F64_TREE_CONFIG_SINCE = 3;
+
+const CODE_SEPARATOR = '.';
+
+// Wire ids: APPEND ONLY. Reordering breaks every share code already in the wild.
+const ORNAMENT_TYPE_CODES: readonly OrnamentType[] = [
+  'sphere',
+  'cube',
+  'diamond',
+  'giftBox',
+  'snowflake',
+  'heart',
+  'gift1',
+  'gift2',
+  'gift3',
+  'ball',
+  'bell',
+  'redball',
+];
+
+const TOPPER_TYPE_CODES: readonly TopperType[] = ['star', 'snowflake'];
+
+const GARLAND_TYPE_CODES: readonly GarlandType[] = ['lights', 'beads'];
+
+const LIGHT_PATTERN_CODES: readonly LightPattern[] = ['steady', 'chase', 'twinkle', 'fade'];
+
+// First export version whose codes carry garlands
+const GARLANDS_SINCE_VERSION = 3;
+
+const POSITION_STEP = 0.001; // 1mm per unit, range ±32.767
+const SCALE_STEP = 0.001; // range 0..65.535
+const ROTATION_STEPS = 65536; // full turn split into u16 steps
+
+const MAX_PALETTE_SIZE = 255;
+const MAX_ORNAMENTS = 65535;
+const MAX_GARLANDS = 255;
+const MAX_GARLAND_COLORS = 255;
+const MAX_GARLAND_POINTS = 65535;
+
+const TOPPER_PRESENT = 1 << 0;
+const TOPPER_GLOW = 1 << 1;
+
+// ============================================
+// BYTE BUFFER HELPERS
+// ============================================
+
+class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private offset = 0;
+
+  private ensure(size: number): void {
+    if (this.offset + size <= this.buffer.length) return;
+    const next = new Uint8Array(Math.max(this.buffer.length * 2, this.offset + size));
+    next.set(this.buffer);
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  u8(value: number): void {
+    this.ensure(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  u16(value: number): void {
+    this.ensure(2);
+    this.view.setUint16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  i16(value: number): void {
+    this.ensure(2);
+    this.view.setInt16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  f32(value: number): void {
+    this.ensure(4);
+    this.view.setFloat32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  f64(value: number): void {
+    this.ensure(8);
+    this.view.setFloat64(this.offset, value, true);
+    this.offset += 8;
+  }
+
+  bytes(value: Uint8Array): void {
+    this.ensure(value.length);
+    this.buffer.set(value, this.offset);
+    this.offset += value.length;
+  }
+
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.offset);
+  }
+}
+
+class ByteReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private buffer: Uint8Array) {
+    this.view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  }
+
+  u8(): number {
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  u16(): number {
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  i16(): number {
+    const value = this.view.getInt16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  f32(): number {
+    const value = this.view.getFloat32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  f64(): number {
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  bytes(length: number): Uint8Array {
+    if (this.offset + length > this.buffer.length) {
+      throw new RangeError('Unexpected end of share code');
+    }
+    const value = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+}
+
+// ============================================
+// VALUE HELPERS
+// ============================================
+
+function parseHexColor(color: string): [number, number, number] | null {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) return null;
+  const hex =
+    match[1].length === 3
+      ? match[1].split('').map((c) => c + c).join('')
+      : match[1];
+  return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+function toHexColor([r, g, b]: [number, number, number]): string {
+  return `#${[r, g, b].map((c) => c.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function quantize(value: number, step: number, min: number, max: number): number {
+  const q = Math.round(value / step);
+  if (q < min || q > max) {
+    throw new RangeError(`Value ${value} is outside the encodable range`);
+  }
+  return q;
+}
+
+function encodeAngle(angle: number): number {
+  const turn = Math.PI * 2;
+  const normalized = ((angle % turn) + turn) % turn;
+  return Math.round((normalized / turn) * ROTATION_STEPS) % ROTATION_STEPS;
+}
+
+function decodeAngle(step: number): number {
+  const angle = (step / ROTATION_STEPS) * Math.PI * 2;
+  // Map back to (-π, π] so untouched rotations stay close to the originals
+  return angle > Math.PI ? angle - Math.PI * 2 : angle;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// ============================================
+// BINARY ENCODING (V2+)
+// ============================================
+
+/**
+ * Encode export data as a binary share code (current codec version).
+ * Throws if the data cannot be represented (e.g. non-hex colors, too many colors).
+ */
+export function encodeBinaryShareCode(data: TreeExportData): string {
+  // Build the color palette
+  const palette: string[] = [];
+  const paletteIndex = (color: string): number => {
+    const rgb = parseHexColor(color);
+    if (!rgb) throw new Error(`Color "${color}" cannot be palette-encoded`);
+    const hex = toHexColor(rgb);
+    let index = palette.indexOf(hex);
+    if (index === -1) {
+      index = palette.push(hex) - 1;
+      if (palette.length > MAX_PALETTE_SIZE) throw new Error('Too many distinct colors');
+    }
+    return index;
+  };
+
+  const treeColorIndex = paletteIndex(data.treeConfig.color);
+  const topperColorIndex = data.topper ? paletteIndex(data.topper.color) : 0;
+  const ornamentColorIndices = data.ornaments.map((o) => paletteIndex(o.color));
+  const { garlands } = data;
+  const garlandColorIndices = garlands.map((g) => g.colors.map(paletteIndex));
+
+  if (data.ornaments.length > MAX_ORNAMENTS) throw new Error('Too many ornaments');
+  if (garlands.length > MAX_GARLANDS) throw new Error('Too many garlands');
+
+  const w = new ByteWriter();
+
+  // Header
+  w.u8(data.version);
+  w.f64(data.exportedAt);
+
+  // Metadata (JSON, thumbnail dropped)
+  const { thumbnail: _, ...metadata } = data.metadata;
+  const metadataBytes = new TextEncoder().encode(JSON.stringify(metadata));
+  if (metadataBytes.length > 0xffff) throw new Error('Metadata too large');
+  w.u16(metadataBytes.length);
+  w.bytes(metadataBytes);
+
+  // Palette
+  w.u8(palette.length);
+  palette.forEach((hex) => parseHexColor(hex)!.forEach((c) => w.u8(c)));
+
+  // Tree config
+  w.f64(data.treeConfig.seed);
+  w.f64(data.treeConfig.height);
+  w.f64(data.treeConfig.radius);
+  w.u8(data.treeConfig.tiers);
+  w.u8(treeColorIndex);
+  w.f64(data.treeConfig.snowAmount);
+
+  // Topper
+  if (data.topper) {
+    const typeCode = TOPPER_TYPE_CODES.indexOf(data.topper.type);
+    if (typeCode === -1) throw new Error(`Unknown topper type "${data.topper.type}"`);
+    w.u8(TOPPER_PRESENT | (data.topper.glow ? TOPPER_GLOW : 0));
+    w.u8(typeCode);
+    w.u8(topperColorIndex);
+    w.u16(quantize(data.topper.scale, SCALE_STEP, 0, 0xffff));
+  } else {
+    w.u8(0);
+  }
+
+  // Ornaments
+  w.u16(data.ornaments.length);
+  data.ornaments.forEach((o, i) => {
+    const typeCode = ORNAMENT_TYPE_CODES.indexOf(o.type);
+    if (typeCode === -1) throw new Error(`Unknown ornament type "${o.type}"`);
+    w.u8(typeCode);
+    w.u8(ornamentColorIndices[i]);
+    o.position.forEach((p) => w.i16(quantize(p, POSITION_STEP, -0x8000, 0x7fff)));
+    (o.rotation ?? [0, 0, 0]).forEach((r) => w.u16(encodeAngle(r)));
+    w.u16(quantize(o.scale, SCALE_STEP, 0, 0xffff));
+  });
+
+  // Garlands
+  if (data.version >= GARLANDS_SINCE_VERSION) {
+    w.u8(garlands.length);
+    garlands.forEach((g, i) => {
+      const typeCode = GARLAND_TYPE_CODES.indexOf(g.type);
+      if (typeCode === -1) throw new Error(`Unknown garland type "${g.type}"`);
+      const patternCode = LIGHT_PATTERN_CODES.indexOf(g.pattern);
+      if (patternCode === -1) throw new Error(`Unknown light pattern "${g.pattern}"`);
+      if (g.colors.length > MAX_GARLAND_COLORS) throw new Error('Too many garland colors');
+      if (g.points.length > MAX_GARLAND_POINTS) throw new Error('Too many garland points');
+      w.u8(typeCode);
+      w.u8(patternCode);
+      w.u8(g.colors.length);
+      garlandColorIndices[i].forEach((index) => w.u8(index));
+      w.u16(g.points.length);
+      g.points.forEach((point) =>
+        point.forEach((p) => w.i16(quantize(p, POSITION_STEP, -0x8000, 0x7fff)))
+      );
+    });
+  }
+
+  const compressed = deflateSync(w.toBytes(), { level: 9 });
+  return `${SHARE_CODEC_VERSION}${CODE_SEPARATOR}${toBase64Url(compressed)}`;
+}
+
+/**
+ * Decode a binary payload (the part after `2.` or `3.`) into raw export data.
+ * The result is untyped: it still has to go through migration and validation.
+ */
+function decodeBinaryShareCode(payload: string, codecVersion: number): Record<string, unknown> {
+  const r = new ByteReader(inflateSync(fromBase64Url(payload)));
+  const configNumber = () => (codecVersion >= F64_TREE_CONFIG_SINCE ? r.f64() : r.f32());
+
+  const version = r.u8();
+  const exportedAt = r.f64();
+  const metadata = JSON.parse(new TextDecoder().decode(r.bytes(r.u16()))) as TreeExportMetadata;
+
+  const palette: string[] = [];
+  const paletteSize = r.u8();
+  for (let i = 0; i < paletteSize; i++) {
+    palette.push(toHexColor([r.u8(), r.u8(), r.u8()]));
+  }
+
+  const treeConfig = {
+    seed: configNumber(),
+    height: configNumber(),
+    radius: configNumber(),
+    tiers: r.u8(),
+    color: palette[r.u8()],
+    snowAmount: configNumber(),
+  };
+
+  let topper: Record<string, unknown> | null = null;
+  const topperFlags = r.u8();
+  if (topperFlags & TOPPER_PRESENT) {
+    topper = {
+      type: TOPPER_TYPE_CODES[r.u8()],
+      color: palette[r.u8()],
+      scale: r.u16() * SCALE_STEP,
+      glow: (topperFlags & TOPPER_GLOW) !== 0,
+    };
+  }
+
+  const ornaments: Record<string, unknown>[] = [];
+  const ornamentCount = r.u16();
+  for (let i = 0; i < ornamentCount; i++) {
+    ornaments.push({
+      type: ORNAMENT_TYPE_CODES[r.u8()],
+      color: palette[r.u8()],
+      position: [r.i16() * POSITION_STEP, r.i16() * POSITION_STEP, r.i16() * POSITION_STEP],
+      rotation: [decodeAngle(r.u16()), decodeAngle(r.u16()), decodeAngle(r.u16())],
+      scale: r.u16() * SCALE_STEP,
+    });
+  }
+
+  if (version < GARLANDS_SINCE_VERSION) {
+    return { version, exportedAt, metadata, treeConfig, topper, ornaments };
+  }
+
+  const garlands: Record<string, unknown>[] = [];
+  const garlandCount = r.u8();
+  for (let i = 0; i < garlandCount; i++) {
+    const type = GARLAND_TYPE_CODES[r.u8()];
+    const pattern = LIGHT_PATTERN_CODES[r.u8()];
+    const colors: string[] = [];
+    const colorCount = r.u8();
+    for (let c = 0; c < colorCount; c++) {
+      colors.push(palette[r.u8()]);
+    }
+    const points: [number, number, number][] = [];
+    const pointCount = r.u16();
+    for (let p = 0; p < pointCount; p++) {
+      points.push([r.i16() * POSITION_STEP, r.i16() * POSITION_STEP, r.i16() * POSITION_STEP]);
+    }
+    garlands.push({ type, colors, pattern, points });
+  }
+
+  return { version, exportedAt, metadata, treeConfig, topper, ornaments, garlands };
+}
+
+// ============================================
+// LEGACY V1 ENCODING
+// ============================================
+
+/**
+ * Legacy v1 share code: base64 of the raw JSON
+ */
+export function encodeShareCodeV1(data: TreeExportData): string {
+  const json = JSON.stringify(data);
+  return btoa(unescape(encodeURIComponent(json)));
+}
+
+function decodeShareCodeV1(code: string): unknown {
+  const json = decodeURIComponent(escape(atob(code)));
+  return JSON.parse(json);
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Decode a share code of any codec version into raw (unvalidated) export data.
+ * Throws if the code is malformed.
+ */
+export function decodeShareCode(code: string): unknown {
+  const trimmed = code.trim();
+  const separator = trimmed.indexOf(CODE_SEPARATOR);
+
+  // No version prefix: legacy v1 code
+  if (separator === -1) {
+    return decodeShareCodeV1(trimmed);
+  }
+
+  const codecVersion = Number(trimmed.slice(0, separator));
+  const payload = trimmed.slice(separator + 1);
+
+  switch (codecVersion) {
+    case 2:
+    case 3:
+      return decodeBinaryShareCode(payload, codecVersion);
+    default:
+      throw new Error(`Unsupported share code version "${trimmed.slice(0, separator)}"`);
+  }
+}
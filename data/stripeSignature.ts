@@ -0,0 +1,92 @@
+/**
+ * Stripe Webhook Signatures
+ *
+ * Same scheme as Stripe: the `Stripe-Signature` header is
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<payload>">` keyed with the
+ * endpoint secret. Used by the local simulator (convex-dev/stripe.ts) to sign
+ * events and by the webhook handler (convex-dev/webhooks.ts) to verify them.
+ *
+ * With real Stripe, verification is `stripe.webhooks.constructEvent` and the
+ * secret comes from the STRIPE_WEBHOOK_SECRET environment variable.
+ */
+
+import { StripeEvent } from '../types';
+
+// Local endpoint secret (a `whsec_...` from the Stripe dashboard in production)
+export const LOCAL_WEBHOOK_SECRET = 'whsec_local_christmas_tree_shop';
+
+// Reject events signed longer ago than this (replay protection)
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const encoder = new TextEncoder();
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+
+function fromHex(value: string): Uint8Array | null {
+  if (!/^(?:[0-9a-f]{2})+$/i.test(value)) return null;
+  return Uint8Array.from(value.match(/../g)!, (byte) => parseInt(byte, 16));
+}
+
+function importKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    usage,
+  ]);
+}
+
+/**
+ * Build the Stripe-Signature header for a payload
+ */
+export async function signPayload(
+  payload: string,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  const key = await importKey(secret, 'sign');
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${payload}`));
+  return `t=${timestamp},v1=${toHex(new Uint8Array(signature))}`;
+}
+
+// ============================================
+// VERIFICATION
+// ============================================
+
+export class WebhookSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookSignatureError';
+  }
+}
+
+/**
+ * Verify the signature header and parse the event.
+ * Throws WebhookSignatureError if the header is missing, malformed, stale or
+ * doesn't match the payload.
+ */
+export async function constructEvent(
+  payload: string,
+  header: string | null | undefined,
+  secret: string,
+  now = Math.floor(Date.now() / 1000)
+): Promise<StripeEvent> {
+  if (!header) throw new WebhookSignatureError('Missing Stripe-Signature header');
+
+  const parts = header.split(',').map((part) => part.split('=') as [string, string]);
+  const timestamp = Number(parts.find(([name]) => name === 't')?.[1]);
+  const signatures = parts.filter(([name]) => name === 'v1').map(([, value]) => fromHex(value ?? ''));
+  if (!Number.isInteger(timestamp) || signatures.length === 0) {
+    throw new WebhookSignatureError('Malformed Stripe-Signature header');
+  }
+  if (Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    throw new WebhookSignatureError('Signature timestamp outside the tolerance window');
+  }
+
+  // crypto.subtle.verify compares in constant time
+  const key = await importKey(secret, 'verify');
+  const signed = encoder.encode(`${timestamp}.${payload}`);
+  for (const signature of signatures) {
+    if (signature && (await crypto.subtle.verify('HMAC', key, signature, signed))) {
+      return JSON.parse(payload) as StripeEvent;
+    }
+  }
+  throw new WebhookSignatureError('No signature matches the payload');
+}
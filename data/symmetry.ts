@@ -0,0 +1,73 @@
+/**
+ * Symmetry - Repeating a placement around the trunk
+ *
+ * The tree is the same all the way round, so a point on the foliage turned
+ * about the trunk (the Y axis) is still on the foliage. A symmetric placement
+ * is the aimed point turned by 1/count of a full turn, count times. Mirror
+ * also reflects each copy across the vertical plane through the trunk that
+ * faces the front of the tree (x = 0), so a pattern reads the same both ways.
+ *
+ * Usage:
+ *   const copies = getSymmetricPlacements(position, rotationY, symmetry);
+ *   await store.addOrnaments(copies.map((copy) => ({ type, color, scale: 1, ...copy })));
+ */
+
+import { SymmetrySettings } from '../types';
+
+export const MIN_SYMMETRY = 2;
+export const MAX_SYMMETRY = 12;
+
+export const DEFAULT_SYMMETRY: SymmetrySettings = { enabled: false, count: 6, mirror: false };
+
+export interface SymmetricPlacement {
+  position: [number, number, number];
+  rotation: [number, number, number];
+}
+
+function clampCount(count: number): number {
+  return Math.min(MAX_SYMMETRY, Math.max(MIN_SYMMETRY, Math.round(count)));
+}
+
+/**
+ * How many ornaments one click places
+ */
+export function getSymmetryCopyCount(symmetry: SymmetrySettings): number {
+  if (!symmetry.enabled) return 1;
+  return clampCount(symmetry.count) * (symmetry.mirror ? 2 : 1);
+}
+
+/**
+ * Every copy of a placement, the aimed one first. `rotationY` is the aimed
+ * ornament's turn about its own vertical axis; copies keep it relative to the
+ * trunk, so they all face outward the same way.
+ */
+export function getSymmetricPlacements(
+  position: [number, number, number],
+  rotationY: number,
+  symmetry: SymmetrySettings
+): SymmetricPlacement[] {
+  const aimed: SymmetricPlacement = { position, rotation: [0, rotationY, 0] };
+  if (!symmetry.enabled) return [aimed];
+
+  const [x, y, z] = position;
+  const sources: SymmetricPlacement[] = symmetry.mirror
+    ? [aimed, { position: [-x, y, z], rotation: [0, -rotationY, 0] }]
+    : [aimed];
+  const count = clampCount(symmetry.count);
+
+  const placements: SymmetricPlacement[] = [];
+  for (let i = 0; i < count; i++) {
+    const angle = (i * 2 * Math.PI) / count;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    sources.forEach((source) => {
+      const [sx, sy, sz] = source.position;
+      placements.push({
+        // Same turn as a rotation of `angle` about +Y
+        position: [sx * cos + sz * sin, sy, -sx * sin + sz * cos],
+        rotation: [0, source.rotation[1] + angle, 0],
+      });
+    });
+  }
+  return placements;
+}
@@ -301,3 +301,18 @@ export const SCENE_THEMES: Record<string, SceneTheme> = {
 export const DEFAULT_THEME = SCENE_THEMES.winterNatural;
 
 export type ThemeId = keyof typeof SCENE_THEMES;
+
+// ============================================
+// COLOR PALETTES
+// ============================================
+
+export const COLOR_PALETTES = {
+  classic: ['#ff0000', '#ffd700', '#008000', '#c0c0c0', '#ffffff'],
+  winter: ['#87ceeb', '#b0e0e6', '#ffffff', '#add8e6', '#e0ffff'],
+  candy: ['#ff69b4', '#ff1493', '#ffffff', '#ff6b6b', '#ffd93d'],
+  royal: ['#4b0082', '#ffd700', '#800020', '#c0c0c0', '#1a1a2e'],
+  natural: ['#8b4513', '#228b22', '#daa520', '#f5deb3', '#2e8b57'],
+  modern: ['#000000', '#ffffff', '#ff0000', '#ffd700', '#c0c0c0'],
+};
+
+export type ColorPalette = keyof typeof COLOR_PALETTES;
@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'vitest';
+import { OrnamentData } from '../types';
+import { TreeDocument } from './treeHistory';
+import {
+  TreeCrdtState,
+  TreeOperation,
+  createLocalOperations,
+  createTreeCrdt,
+  materializeTree,
+  mergeTreeCrdt,
+  replayOperations,
+} from './treeCrdt';
+
+// ============================================
+// FIXTURES
+// ============================================
+
+function ornament(id: string, color: string, position: [number, number, number]): OrnamentData {
+  return { id, type: 'sphere', color, position, scale: 1, rotation: [0, 0, 0] };
+}
+
+const BASE_DOC: TreeDocument = {
+  ornaments: [
+    ornament('o1', '#ff0000', [1, 0, 0]),
+    ornament('o2', '#00ff00', [0, 1, 0]),
+    ornament('o3', '#0000ff', [0, 0, 1]),
+  ],
+  topper: null,
+  treeConfig: { seed: 42, height: 5, radius: 2, tiers: 5, color: '#1a472a', snowAmount: 0.3 },
+  garlands: [],
+};
+
+// Every replica starts from the same seeded state
+const baseState = () => createTreeCrdt(BASE_DOC, 'base');
+
+interface Peer {
+  id: string;
+  state: TreeCrdtState;
+  doc: TreeDocument;
+  // Operations this peer authored, in the order it made them
+  log: TreeOperation[];
+}
+
+function createPeer(id: string): Peer {
+  const state = baseState();
+  return { id, state, doc: materializeTree(state), log: [] };
+}
+
+// A local edit, stamped the way the collab layer does it
+function edit(peer: Peer, change: (doc: TreeDocument) => TreeDocument) {
+  const operations = createLocalOperations(peer.state, peer.id, peer.doc, change(peer.doc));
+  receive(peer, operations);
+  peer.log.push(...operations);
+}
+
+function receive(peer: Peer, operations: TreeOperation[]) {
+  peer.state = replayOperations(peer.state, operations);
+  peer.doc = materializeTree(peer.state);
+}
+
+const updateOrnament = (id: string, updates: Partial<OrnamentData>) => (doc: TreeDocument) => ({
+  ...doc,
+  ornaments: doc.ornaments.map((o) => (o.id === id ? { ...o, ...updates } : o)),
+});
+
+const addOrnament = (added: OrnamentData) => (doc: TreeDocument) => ({
+  ...doc,
+  ornaments: [...doc.ornaments, added],
+});
+
+const removeOrnament = (id: string) => (doc: TreeDocument) => ({
+  ...doc,
+  ornaments: doc.ornaments.filter((o) => o.id !== id),
+});
+
+/**
+ * Three peers editing at once: A and B work concurrently from the base tree;
+ * C hears A's edits first and then builds on them.
+ */
+function createScenario() {
+  const a = createPeer('peer-a');
+  const b = createPeer('peer-b');
+  const c = createPeer('peer-c');
+
+  edit(a, updateOrnament('o1', { position: [2, 0, 0] }));
+  edit(a, updateOrnament('o2', { color: '#ffff00' }));
+  edit(a, addOrnament(ornament('a1', '#ffffff', [1, 1, 0])));
+  edit(a, updateOrnament('a1', { position: [1, 2, 0] }));
+
+  edit(b, updateOrnament('o1', { color: '#00ffff' }));
+  edit(b, removeOrnament('o2'));
+  edit(b, addOrnament(ornament('b1', '#ff00ff', [0, 1, 1])));
+  edit(b, (doc) => ({ ...doc, treeConfig: { ...doc.treeConfig, snowAmount: 0.8 } }));
+
+  receive(c, a.log);
+  edit(c, removeOrnament('a1'));
+  edit(c, updateOrnament('o1', { position: [3, 0, 0] }));
+  edit(c, updateOrnament('o3', { color: '#123456' }));
+
+  return { peers: [a, b, c], operations: [...a.log, ...b.log, ...c.log] };
+}
+
+// ============================================
+// INTERLEAVINGS
+// ============================================
+
+function createRandom(seed: number) {
+  let t = seed >>> 0;
+  return () => {
+    t = (t + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r ^= r + Math.imul(r ^ (r >>> 7), 61 | r);
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], seed: number): T[] {
+  const random = createRandom(seed);
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Every operation delivered at least once, some twice, in a random order
+function withDuplicates(operations: TreeOperation[], seed: number): TreeOperation[] {
+  const random = createRandom(seed);
+  return shuffle([...operations, ...operations.filter(() => random() < 0.5)], seed + 1);
+}
+
+function interleavings(peers: Peer[], operations: TreeOperation[]): [string, TreeOperation[]][] {
+  const [a, b, c] = peers.map((peer) => peer.log);
+  return [
+    ['in causal order', operations],
+    ['peer by peer, last peer first', [...c, ...b, ...a]],
+    ['fully reversed', [...operations].reverse()],
+    ['round robin', Array.from({ length: 4 }, (_, i) => [a[i], b[i], c[i]]).flat().filter(Boolean)],
+    ...[1, 2, 3, 4, 5].map((seed): [string, TreeOperation[]] => [`shuffled (seed ${seed})`, shuffle(operations, seed)]),
+    ...[6, 7, 8].map((seed): [string, TreeOperation[]] => [
+      `shuffled with duplicates (seed ${seed})`,
+      withDuplicates(operations, seed),
+    ]),
+  ];
+}
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('treeCrdt', () => {
+  const { peers, operations } = createScenario();
+  const expected = materializeTree(replayOperations(baseState(), operations));
+
+  it('keeps concurrent edits to different fields and resolves conflicts by stamp', () => {
+    const byId = new Map(expected.ornaments.map((o) => [o.id, o]));
+
+    // A moved o1 and B recolored it at the same time; C's later move wins over A's
+    expect(byId.get('o1')).toMatchObject({ color: '#00ffff', position: [3, 0, 0] });
+    // B's remove wins over A's concurrent recolor
+    expect(byId.has('o2')).toBe(false);
+    // C removed a1 after seeing it added
+    expect(byId.has('a1')).toBe(false);
+    expect(byId.get('b1')).toMatchObject({ color: '#ff00ff' });
+    expect(byId.get('o3')).toMatchObject({ color: '#123456' });
+    expect(expected.treeConfig.snowAmount).toBe(0.8);
+  });
+
+  describe.each(interleavings(peers, operations))('replaying %s', (_, log) => {
+    it('materializes the same tree', () => {
+      expect(materializeTree(replayOperations(baseState(), log))).toEqual(expected);
+    });
+
+    it('materializes the same tree when split across two replicas and merged', () => {
+      const half = Math.floor(log.length / 2);
+      const first = replayOperations(baseState(), log.slice(0, half));
+      const second = replayOperations(baseState(), log.slice(half));
+      expect(materializeTree(mergeTreeCrdt(first, second))).toEqual(expected);
+      expect(materializeTree(mergeTreeCrdt(second, first))).toEqual(expected);
+    });
+  });
+
+  it('converges when peer replicas are merged in any order', () => {
+    const [a, b, c] = peers.map((peer) => peer.state);
+    const orders = [
+      [a, b, c],
+      [a, c, b],
+      [b, a, c],
+      [b, c, a],
+      [c, a, b],
+      [c, b, a],
+    ];
+    orders.forEach(([first, second, third]) => {
+      expect(materializeTree(mergeTreeCrdt(mergeTreeCrdt(first, second), third))).toEqual(expected);
+      expect(materializeTree(mergeTreeCrdt(first, mergeTreeCrdt(second, third)))).toEqual(expected);
+    });
+  });
+
+  it('is unchanged by merging a replica with itself or replaying a log twice', () => {
+    const state = replayOperations(baseState(), operations);
+    expect(materializeTree(mergeTreeCrdt(state, state))).toEqual(expected);
+    expect(materializeTree(replayOperations(state, operations))).toEqual(expected);
+  });
+
+  it('merges a replica with the log replayed on another', () => {
+    const [a, b, c] = peers;
+    const merged = mergeTreeCrdt(a.state, replayOperations(baseState(), [...c.log, ...b.log]));
+    expect(materializeTree(merged)).toEqual(expected);
+  });
+});
@@ -0,0 +1,420 @@
+/**
+ * Tree CRDT - Conflict-free merging of concurrent edits
+ *
+ * The shared tree is replicated as a set of last-writer-wins registers, one
+ * per ornament field, topper and tree config field, each tagged with a
+ * Lamport timestamp. Two people moving and recoloring the same ornament at
+ * once keep both changes; when they touch the same field the later stamp
+ * wins, with the peer ID breaking ties, so every replica picks the same
+ * value regardless of the order operations arrive in.
+ *
+ * Ornaments are keyed by `OrnamentData.id`:
+ *   - an ornament is visible once its add is seen and no later remove is
+ *   - remove wins over concurrent edits; re-adding it later (e.g. undo)
+ *     with a newer stamp brings it back
+ *   - edits that arrive before their add are kept and apply once it lands
+ *
+ * Garlands are keyed by `GarlandData.id` and merge the same way.
+ *
+ * Applying an operation is commutative and idempotent, and two states can be
+ * merged directly (used to bring a newcomer up to date), so replaying any
+ * interleaving of the same operation logs yields the same tree.
+ *
+ * Usage:
+ *   let state = createTreeCrdt(doc, peerId);
+ *   const ops = createLocalOperations(state, peerId, previousDoc, doc);
+ *   state = ops.reduce(applyTreeOperation, state);
+ *   const merged = materializeTree(state);
+ */
+
+import { GarlandData, OrnamentData, OrnamentEvent, TreeTopperData, TreeConfig } from '../types';
+import { TreeDocument } from './treeHistory';
+import { diffTreeDocuments } from './collabSync';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface LamportTimestamp {
+  counter: number;
+  peerId: string;
+}
+
+export interface LwwRegister<T> {
+  value: T;
+  stamp: LamportTimestamp;
+}
+
+type Registers<T> = { [K in keyof T]?: LwwRegister<T[K]> };
+
+export interface ItemRecord<T> {
+  id: string;
+  fields: Registers<T>;
+  // Latest add / remove seen for this item
+  addedAt?: LamportTimestamp;
+  removedAt?: LamportTimestamp;
+}
+
+export type OrnamentRecord = ItemRecord<OrnamentData>;
+export type GarlandRecord = ItemRecord<GarlandData>;
+
+export interface TreeCrdtState {
+  ornaments: Record<string, OrnamentRecord>;
+  // Missing in replicas from peers that predate garlands
+  garlands: Record<string, GarlandRecord>;
+  topper: LwwRegister<TreeTopperData | null>;
+  treeConfig: Registers<TreeConfig>;
+  // Highest Lamport counter seen so far
+  clock: number;
+}
+
+/**
+ * A document OrnamentEvent stamped for merging
+ */
+export interface TreeOperation {
+  event: OrnamentEvent;
+  stamp: LamportTimestamp;
+  // ornament_updated / garland_updated / tree_config_changed: the fields the author changed.
+  // The rest of the event payload is context and is not written.
+  fields?: string[];
+}
+
+// ============================================
+// TIMESTAMPS & REGISTERS
+// ============================================
+
+/**
+ * Total order on stamps: counter first, then peer ID
+ */
+export function compareStamps(a: LamportTimestamp, b: LamportTimestamp): number {
+  if (a.counter !== b.counter) return a.counter - b.counter;
+  if (a.peerId === b.peerId) return 0;
+  return a.peerId < b.peerId ? -1 : 1;
+}
+
+function laterStamp(
+  a: LamportTimestamp | undefined,
+  b: LamportTimestamp | undefined
+): LamportTimestamp | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return compareStamps(a, b) >= 0 ? a : b;
+}
+
+function writeRegister<T>(
+  current: LwwRegister<T> | undefined,
+  value: T,
+  stamp: LamportTimestamp
+): LwwRegister<T> {
+  // Equal stamps mean the same write seen twice
+  if (current && compareStamps(current.stamp, stamp) >= 0) return current;
+  return { value, stamp };
+}
+
+function mergeRegister<T>(a: LwwRegister<T> | undefined, b: LwwRegister<T> | undefined) {
+  if (!a) return b;
+  if (!b) return a;
+  return compareStamps(a.stamp, b.stamp) >= 0 ? a : b;
+}
+
+function writeFields<T extends object>(
+  registers: Registers<T>,
+  values: Partial<T>,
+  stamp: LamportTimestamp,
+  keys: Array<keyof T> = Object.keys(values) as Array<keyof T>
+): Registers<T> {
+  const next: Registers<T> = { ...registers };
+  keys.forEach((key) => {
+    if (key in values) {
+      next[key] = writeRegister(registers[key], values[key], stamp);
+    }
+  });
+  return next;
+}
+
+function mergeFields<T extends object>(a: Registers<T>, b: Registers<T>): Registers<T> {
+  const next: Registers<T> = { ...a };
+  (Object.keys(b) as Array<keyof T>).forEach((key) => {
+    next[key] = mergeRegister(a[key], b[key]);
+  });
+  return next;
+}
+
+function readFields<T extends object>(registers: Registers<T>): Partial<T> {
+  const values: Partial<T> = {};
+  (Object.keys(registers) as Array<keyof T>).forEach((key) => {
+    values[key] = registers[key]!.value;
+  });
+  return values;
+}
+
+// ============================================
+// STATE
+// ============================================
+
+/**
+ * Seed a replica from a local document. Everything is stamped with counter 0
+ * (or `baseCounter`), so any edit made in the room takes precedence.
+ */
+export function createTreeCrdt(doc: TreeDocument, peerId: string, baseCounter = 0): TreeCrdtState {
+  const stamp: LamportTimestamp = { counter: baseCounter, peerId };
+
+  const ornaments: Record<string, OrnamentRecord> = {};
+  doc.ornaments.forEach((ornament) => {
+    ornaments[ornament.id] = {
+      id: ornament.id,
+      fields: writeFields<OrnamentData>({}, ornament, stamp),
+      addedAt: stamp,
+    };
+  });
+
+  const garlands: Record<string, GarlandRecord> = {};
+  doc.garlands.forEach((garland) => {
+    garlands[garland.id] = {
+      id: garland.id,
+      fields: writeFields<GarlandData>({}, garland, stamp),
+      addedAt: stamp,
+    };
+  });
+
+  return {
+    ornaments,
+    garlands,
+    topper: { value: doc.topper, stamp },
+    treeConfig: writeFields<TreeConfig>({}, doc.treeConfig, stamp),
+    clock: 0,
+  };
+}
+
+/**
+ * Apply one operation. Presence events leave the state unchanged.
+ */
+export function applyTreeOperation(state: TreeCrdtState, operation: TreeOperation): TreeCrdtState {
+  const { event, stamp } = operation;
+  const next: TreeCrdtState = { ...state, clock: Math.max(state.clock, stamp.counter) };
+
+  const updateRecord = (id: string, update: (record: OrnamentRecord) => OrnamentRecord) => {
+    const record = state.ornaments[id] ?? { id, fields: {} };
+    next.ornaments = { ...state.ornaments, [id]: update(record) };
+  };
+
+  const garlands = state.garlands ?? {};
+  const updateGarlandRecord = (id: string, update: (record: GarlandRecord) => GarlandRecord) => {
+    const record = garlands[id] ?? { id, fields: {} };
+    next.garlands = { ...garlands, [id]: update(record) };
+  };
+
+  switch (event.type) {
+    case 'ornament_added':
+      updateRecord(event.ornament.id, (record) => ({
+        ...record,
+        fields: writeFields<OrnamentData>(record.fields, event.ornament, stamp),
+        addedAt: laterStamp(record.addedAt, stamp),
+      }));
+      break;
+    case 'ornament_updated':
+      updateRecord(event.ornament.id, (record) => ({
+        ...record,
+        fields: writeFields<OrnamentData>(
+          record.fields,
+          event.ornament,
+          stamp,
+          operation.fields as Array<keyof OrnamentData> | undefined
+        ),
+      }));
+      break;
+    case 'ornament_removed':
+      updateRecord(event.ornamentId, (record) => ({
+        ...record,
+        removedAt: laterStamp(record.removedAt, stamp),
+      }));
+      break;
+    case 'garland_added':
+      updateGarlandRecord(event.garland.id, (record) => ({
+        ...record,
+        fields: writeFields<GarlandData>(record.fields, event.garland, stamp),
+        addedAt: laterStamp(record.addedAt, stamp),
+      }));
+      break;
+    case 'garland_updated':
+      updateGarlandRecord(event.garland.id, (record) => ({
+        ...record,
+        fields: writeFields<GarlandData>(
+          record.fields,
+          event.garland,
+          stamp,
+          operation.fields as Array<keyof GarlandData> | undefined
+        ),
+      }));
+      break;
+    case 'garland_removed':
+      updateGarlandRecord(event.garlandId, (record) => ({
+        ...record,
+        removedAt: laterStamp(record.removedAt, stamp),
+      }));
+      break;
+    case 'topper_changed':
+      next.topper = writeRegister(state.topper, event.topper, stamp);
+      break;
+    case 'tree_config_changed':
+      next.treeConfig = writeFields<TreeConfig>(
+        state.treeConfig,
+        event.config,
+        stamp,
+        operation.fields as Array<keyof TreeConfig> | undefined
+      );
+      break;
+    default:
+      return state;
+  }
+
+  return next;
+}
+
+function mergeRecords<T extends object>(
+  a: Record<string, ItemRecord<T>>,
+  b: Record<string, ItemRecord<T>>
+): Record<string, ItemRecord<T>> {
+  const records: Record<string, ItemRecord<T>> = { ...a };
+  Object.values(b).forEach((theirs) => {
+    const ours = a[theirs.id];
+    records[theirs.id] = ours
+      ? {
+          id: theirs.id,
+          fields: mergeFields(ours.fields, theirs.fields),
+          addedAt: laterStamp(ours.addedAt, theirs.addedAt),
+          removedAt: laterStamp(ours.removedAt, theirs.removedAt),
+        }
+      : theirs;
+  });
+  return records;
+}
+
+/**
+ * Merge two replicas. Commutative, associative and idempotent.
+ */
+export function mergeTreeCrdt(a: TreeCrdtState, b: TreeCrdtState): TreeCrdtState {
+  return {
+    ornaments: mergeRecords(a.ornaments, b.ornaments),
+    garlands: mergeRecords(a.garlands ?? {}, b.garlands ?? {}),
+    topper: mergeRegister(a.topper, b.topper)!,
+    treeConfig: mergeFields(a.treeConfig, b.treeConfig),
+    clock: Math.max(a.clock, b.clock),
+  };
+}
+
+/**
+ * Replay an operation log on top of a replica
+ */
+export function replayOperations(state: TreeCrdtState, operations: TreeOperation[]): TreeCrdtState {
+  return operations.reduce(applyTreeOperation, state);
+}
+
+// ============================================
+// MATERIALIZATION
+// ============================================
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, i) => isSameValue(value, b[i]));
+  }
+  return a === b;
+}
+
+function isShallowEqual(a: object | null, b: object | null): boolean {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  const keys = Object.keys(a) as Array<keyof typeof a>;
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => isSameValue(a[key], b[key]))
+  );
+}
+
+function isVisible<T>(record: ItemRecord<T>): boolean {
+  if (!record.addedAt) return false;
+  return !record.removedAt || compareStamps(record.addedAt, record.removedAt) > 0;
+}
+
+/**
+ * Visible items in the order they were added
+ */
+function materializeItems<T extends { id: string }>(
+  records: Record<string, ItemRecord<T>>,
+  previous: T[] = []
+): T[] {
+  const previousById = new Map<string, T>(previous.map((item) => [item.id, item]));
+
+  return Object.values(records)
+    .filter(isVisible)
+    .sort((a, b) => compareStamps(a.addedAt!, b.addedAt!) || (a.id < b.id ? -1 : 1))
+    .map((record) => {
+      const item = { ...readFields(record.fields), id: record.id } as T;
+      const before = previousById.get(record.id);
+      return before && isShallowEqual(before, item) ? before : item;
+    });
+}
+
+/**
+ * The tree a replica currently shows. Objects equal to those in `previous`
+ * keep their identity so React and document diffs see them as unchanged.
+ */
+export function materializeTree(state: TreeCrdtState, previous?: TreeDocument): TreeDocument {
+  const ornaments = materializeItems<OrnamentData>(state.ornaments, previous?.ornaments);
+  const garlands = materializeItems<GarlandData>(state.garlands ?? {}, previous?.garlands);
+
+  const topper = state.topper.value;
+  const treeConfig = readFields(state.treeConfig) as TreeConfig;
+
+  return {
+    ornaments,
+    garlands,
+    topper: previous && isShallowEqual(previous.topper, topper) ? previous.topper : topper,
+    treeConfig:
+      previous && isShallowEqual(previous.treeConfig, treeConfig) ? previous.treeConfig : treeConfig,
+  };
+}
+
+// ============================================
+// LOCAL CHANGES
+// ============================================
+
+function changedKeys<T extends object>(before: T, after: T): string[] {
+  return (Object.keys(after) as Array<keyof T>)
+    .filter((key) => !isSameValue(before[key], after[key]))
+    .map(String);
+}
+
+/**
+ * Stamp the local changes between two documents as operations.
+ * Updates only carry the fields that actually changed.
+ */
+export function createLocalOperations(
+  state: TreeCrdtState,
+  peerId: string,
+  previous: TreeDocument,
+  next: TreeDocument
+): TreeOperation[] {
+  let counter = state.clock;
+  const previousOrnaments = new Map<string, OrnamentData>(previous.ornaments.map((o) => [o.id, o]));
+  const previousGarlands = new Map<string, GarlandData>(previous.garlands.map((g) => [g.id, g]));
+  const operations: TreeOperation[] = [];
+
+  diffTreeDocuments(previous, next).forEach((event) => {
+    let fields: string[] | undefined;
+    if (event.type === 'ornament_updated') {
+      fields = changedKeys(previousOrnaments.get(event.ornament.id)!, event.ornament);
+      if (fields.length === 0) return;
+    } else if (event.type === 'garland_updated') {
+      fields = changedKeys(previousGarlands.get(event.garland.id)!, event.garland);
+      if (fields.length === 0) return;
+    } else if (event.type === 'tree_config_changed') {
+      fields = changedKeys(previous.treeConfig, event.config);
+      if (fields.length === 0) return;
+    }
+    counter++;
+    operations.push({ event, stamp: { counter, peerId }, fields });
+  });
+
+  return operations;
+}
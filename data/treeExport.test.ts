@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { EXPORT_VERSION, formatImportErrors, migrateTreeExport, validateTreeExport } from './treeExport';
+
+// ============================================
+// FIXTURES
+// ============================================
+
+const TREE_CONFIG = { seed: 42, height: 5, radius: 2, tiers: 5, color: '#1a472a', snowAmount: 0.3 };
+
+// As written by the first release: rotation and metadata were optional
+const V1_EXPORT = {
+  version: 1,
+  exportedAt: 1700000000000,
+  treeConfig: TREE_CONFIG,
+  topper: { type: 'star', color: '#ffd700', scale: 1, glow: true },
+  ornaments: [
+    { type: 'sphere', color: '#ff0000', position: [1, 1, 0], scale: 1 },
+    { type: 'sphere', color: '#00ff00', position: [0, 2, 1], scale: 1, rotation: [0, 1, 0] },
+  ],
+};
+
+const V2_EXPORT = {
+  version: 2,
+  exportedAt: 1700000000000,
+  metadata: { name: 'Office tree', tags: ['work'] },
+  treeConfig: TREE_CONFIG,
+  topper: null,
+  ornaments: [{ type: 'sphere', color: '#ff0000', position: [1, 1, 0], scale: 1, rotation: [0, 0, 0] }],
+};
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('treeExport', () => {
+  describe('migrateTreeExport', () => {
+    it('upgrades a version 1 export to the current version', () => {
+      const result = migrateTreeExport(V1_EXPORT);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({
+        version: EXPORT_VERSION,
+        metadata: { name: 'My Christmas Tree', tags: [] },
+        garlands: [],
+      });
+      expect(result.data!.ornaments.map((o) => o.rotation)).toEqual([
+        [0, 0, 0],
+        [0, 1, 0],
+      ]);
+    });
+
+    it('upgrades a version 2 export, keeping its metadata', () => {
+      const result = migrateTreeExport(V2_EXPORT);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({
+        version: EXPORT_VERSION,
+        metadata: { name: 'Office tree', tags: ['work'] },
+        garlands: [],
+      });
+    });
+
+    it('leaves current exports unchanged', () => {
+      const current = migrateTreeExport(V1_EXPORT).data!;
+      expect(migrateTreeExport(current)).toEqual({ success: true, data: current });
+    });
+
+    it('does not modify the data it was given', () => {
+      const raw = structuredClone(V1_EXPORT);
+      migrateTreeExport(raw);
+      expect(raw).toEqual(V1_EXPORT);
+    });
+
+    it('rejects exports from a newer app', () => {
+      const result = migrateTreeExport({ ...V2_EXPORT, version: EXPORT_VERSION + 1 });
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([
+        { path: 'version', message: expect.stringContaining('created by a newer app') },
+      ]);
+    });
+
+    it('rejects versions it has no migration from', () => {
+      expect(migrateTreeExport({ ...V1_EXPORT, version: 0 }).errors).toEqual([
+        { path: 'version', message: 'No migration from version 0' },
+      ]);
+      expect(migrateTreeExport({ ...V1_EXPORT, version: 1.5 }).errors).toEqual([
+        { path: 'version', message: 'Expected an integer version' },
+      ]);
+      expect(migrateTreeExport([V1_EXPORT]).errors).toEqual([{ path: '', message: 'Expected an object' }]);
+    });
+
+    it('validates the migrated data and reports every failing field', () => {
+      const broken = {
+        ...V1_EXPORT,
+        ornaments: [{ type: 'teapot', color: '#ff0000', position: [1, 1], scale: 1 }],
+      };
+      const result = migrateTreeExport(broken);
+
+      expect(result.success).toBe(false);
+      expect(result.errors!.map((e) => e.path)).toEqual(['ornaments[0].type', 'ornaments[0].position']);
+      expect(formatImportErrors(result.errors)).toMatch(/^ornaments\[0\]\.type: .* \(\+1 more\)$/);
+    });
+  });
+
+  describe('validateTreeExport', () => {
+    it('accepts migrated data and checks garlands', () => {
+      const data = migrateTreeExport(V2_EXPORT).data!;
+      expect(validateTreeExport(data)).toEqual([]);
+
+      const withGarland = {
+        ...data,
+        garlands: [{ type: 'lights', colors: [], pattern: 'blink', points: [[0, 1, 0]] }],
+      };
+      expect(validateTreeExport(withGarland).map((e) => e.path)).toEqual([
+        'garlands[0].colors',
+        'garlands[0].pattern',
+        'garlands[0].points',
+      ]);
+    });
+  });
+});
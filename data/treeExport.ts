@@ -6,12 +6,13 @@
  *
  * Usage:
  *   // Export current tree
- *   const exportData = exportTree(ornaments, topper, treeConfig);
+ *   const exportData = exportTree(ornaments, topper, treeConfig, garlands);
  *   const shareCode = generateShareCode(exportData);
  *
- *   // Import from share code
- *   const importData = parseShareCode(shareCode);
- *   if (importData) restoreTree(importData, store);
+ *   // Import from share code (older versions are migrated automatically)
+ *   const result = parseShareCode(shareCode);
+ *   if (result.success) restoreTree(result.data, store);
+ *   else console.error(result.errors);
  */
 
 import {
@@ -20,7 +21,12 @@ import {
   TreeConfig,
   OrnamentType,
   TopperType,
+  GarlandData,
+  GarlandType,
+  LightPattern,
+  ORNAMENT_TYPES,
 } from '../types';
+import { encodeShareCodeV1, encodeBinaryShareCode, decodeShareCode } from './shareCodec';
 
 // ============================================
 // EXPORT DATA TYPES
@@ -33,6 +39,7 @@ export interface TreeExportData {
   treeConfig: TreeConfig;
   topper: TreeTopperExport | null;
   ornaments: OrnamentExport[];
+  garlands: GarlandExport[];
 }
 
 export interface TreeExportMetadata {
@@ -50,7 +57,7 @@ export interface OrnamentExport {
   color: string;
   position: [number, number, number];
   scale: number;
-  rotation?: [number, number, number];
+  rotation: [number, number, number];
 }
 
 // Stripped-down topper for export
@@ -61,11 +68,43 @@ export interface TreeTopperExport {
   glow: boolean;
 }
 
+// Stripped-down garland for export
+export interface GarlandExport {
+  type: GarlandType;
+  colors: string[];
+  pattern: LightPattern;
+  points: [number, number, number][];
+}
+
+/**
+ * A single validation or migration failure.
+ * `path` points at the offending field, e.g. 'ornaments[3].position'
+ */
+export interface TreeExportValidationError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Import operation result
+ */
+export interface TreeImportResult {
+  success: boolean;
+  data?: TreeExportData;
+  errors?: TreeExportValidationError[];
+}
+
 // ============================================
 // EXPORT VERSION
 // ============================================
 
-const EXPORT_VERSION = 1;
+/**
+ * Version history:
+ *   1 - initial format (rotation and metadata optional)
+ *   2 - every ornament has a rotation, metadata is always present
+ *   3 - garlands (string lights and bead garlands)
+ */
+export const EXPORT_VERSION = 3;
 
 // ============================================
 // EXPORT FUNCTIONS
@@ -78,6 +117,7 @@ export function exportTree(
   ornaments: OrnamentData[],
   topper: TreeTopperData | null,
   treeConfig: TreeConfig,
+  garlands: GarlandData[],
   metadata?: Partial<TreeExportMetadata>
 ): TreeExportData {
   return {
@@ -105,21 +145,31 @@ export function exportTree(
       color: o.color,
       position: [...o.position] as [number, number, number],
       scale: o.scale,
-      rotation: o.rotation ? ([...o.rotation] as [number, number, number]) : undefined,
+      rotation: o.rotation ? ([...o.rotation] as [number, number, number]) : [0, 0, 0],
+    })),
+    garlands: garlands.map((g) => ({
+      type: g.type,
+      colors: [...g.colors],
+      pattern: g.pattern,
+      points: g.points.map((p) => [...p] as [number, number, number]),
     })),
   };
 }
 
 /**
  * Generate a compact share code from export data
- * Uses base64 encoding of compressed JSON
+ * Uses the binary codec, falling back to legacy base64 JSON
+ * for trees the binary format cannot represent
  */
 export function generateShareCode(data: TreeExportData): string {
   try {
-    const json = JSON.stringify(data);
-    // Use base64 encoding (browser-safe)
-    const encoded = btoa(unescape(encodeURIComponent(json)));
-    return encoded;
+    return encodeBinaryShareCode(data);
+  } catch (error) {
+    console.warn('Falling back to legacy share code:', error);
+  }
+
+  try {
+    return encodeShareCodeV1(data);
   } catch (error) {
     console.error('Failed to generate share code:', error);
     throw new Error('Failed to generate share code');
@@ -159,116 +209,282 @@ export function downloadTreeAsJSON(data: TreeExportData, filename?: string): voi
 /**
  * Parse a share code back into tree export data
  */
-export function parseShareCode(code: string): TreeExportData | null {
+export function parseShareCode(code: string): TreeImportResult {
+  let raw: unknown;
   try {
-    const json = decodeURIComponent(escape(atob(code)));
-    const data = JSON.parse(json) as TreeExportData;
-
-    // Validate the data
-    if (!validateTreeExport(data)) {
-      console.error('Invalid tree export data');
-      return null;
-    }
-
-    return data;
+    raw = decodeShareCode(code);
   } catch (error) {
     console.error('Failed to parse share code:', error);
-    return null;
+    return importFailure('', 'Share code is not valid');
   }
+  return migrateTreeExport(raw);
 }
 
 /**
  * Parse a shareable URL to extract tree data
  */
-export function parseShareURL(url: string): TreeExportData | null {
+export function parseShareURL(url: string): TreeImportResult {
   try {
     const urlObj = new URL(url);
     const code = urlObj.searchParams.get('tree');
-    if (!code) return null;
+    if (!code) return importFailure('', 'URL does not contain a shared tree');
     return parseShareCode(decodeURIComponent(code));
   } catch (error) {
     console.error('Failed to parse share URL:', error);
-    return null;
+    return importFailure('', 'Share URL is not valid');
   }
 }
 
 /**
  * Import tree data from a JSON file
  */
-export function importTreeFromFile(file: File): Promise<TreeExportData | null> {
+export function importTreeFromFile(file: File): Promise<TreeImportResult> {
   return new Promise((resolve) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
         const json = e.target?.result as string;
-        const data = JSON.parse(json) as TreeExportData;
-        if (validateTreeExport(data)) {
-          resolve(data);
-        } else {
-          resolve(null);
-        }
+        resolve(migrateTreeExport(JSON.parse(json)));
       } catch {
-        resolve(null);
+        resolve(importFailure('', 'File is not valid JSON'));
       }
     };
-    reader.onerror = () => resolve(null);
+    reader.onerror = () => resolve(importFailure('', 'File could not be read'));
     reader.readAsText(file);
   });
 }
 
+function importFailure(path: string, message: string): TreeImportResult {
+  return { success: false, errors: [{ path, message }] };
+}
+
 // ============================================
-// VALIDATION
+// MIGRATIONS
 // ============================================
 
 /**
- * Validate tree export data structure
+ * A migration upgrades raw data from version N to N+1.
+ * It receives untyped data because older shapes no longer match TreeExportData.
  */
-export function validateTreeExport(data: unknown): data is TreeExportData {
-  if (!data || typeof data !== 'object') return false;
+type TreeExportMigration = (data: Record<string, unknown>) => Record<string, unknown>;
 
-  const d = data as Record<string, unknown>;
+function migrateV1ToV2(data: Record<string, unknown>): Record<string, unknown> {
+  const metadata = (data.metadata ?? {}) as Record<string, unknown>;
+  const ornaments = Array.isArray(data.ornaments) ? data.ornaments : [];
 
-  // Check required fields
-  if (typeof d.version !== 'number') return false;
-  if (typeof d.exportedAt !== 'number') return false;
-  if (!d.treeConfig || typeof d.treeConfig !== 'object') return false;
-  if (!Array.isArray(d.ornaments)) return false;
+  return {
+    ...data,
+    version: 2,
+    metadata: {
+      ...metadata,
+      name: metadata.name ?? 'My Christmas Tree',
+      tags: metadata.tags ?? [],
+    },
+    ornaments: ornaments.map((o) =>
+      o && typeof o === 'object'
+        ? { ...(o as Record<string, unknown>), rotation: (o as Record<string, unknown>).rotation ?? [0, 0, 0] }
+        : o
+    ),
+  };
+}
 
-  // Validate ornaments
-  for (const ornament of d.ornaments as unknown[]) {
-    if (!validateOrnamentExport(ornament)) return false;
+function migrateV2ToV3(data: Record<string, unknown>): Record<string, unknown> {
+  return { ...data, version: 3, garlands: [] };
+}
+
+/**
+ * Registry of migration steps keyed by the version they upgrade FROM.
+ * When bumping EXPORT_VERSION, add a `migrateVnToVn+1` step here.
+ */
+const MIGRATIONS: Record<number, TreeExportMigration> = {
+  1: migrateV1ToV2,
+  2: migrateV2ToV3,
+};
+
+/**
+ * Upgrade raw export data of any supported version to EXPORT_VERSION
+ * and validate the result against the current schema
+ */
+export function migrateTreeExport(raw: unknown): TreeImportResult {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return importFailure('', 'Expected an object');
   }
 
-  // Validate topper if present
-  if (d.topper !== null && !validateTopperExport(d.topper)) return false;
+  let data = raw as Record<string, unknown>;
 
-  return true;
-}
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version)) {
+    return importFailure('version', 'Expected an integer version');
+  }
+  if (data.version > EXPORT_VERSION) {
+    return importFailure(
+      'version',
+      `Version ${data.version} was created by a newer app (supported up to ${EXPORT_VERSION})`
+    );
+  }
 
-function validateOrnamentExport(data: unknown): data is OrnamentExport {
-  if (!data || typeof data !== 'object') return false;
+  while ((data.version as number) < EXPORT_VERSION) {
+    const fromVersion = data.version as number;
+    const migrate = MIGRATIONS[fromVersion];
+    if (!migrate) {
+      return importFailure('version', `No migration from version ${fromVersion}`);
+    }
 
-  const o = data as Record<string, unknown>;
+    try {
+      data = migrate(data);
+    } catch (error) {
+      console.error(`Migration from version ${fromVersion} failed:`, error);
+      return importFailure('version', `Migration from version ${fromVersion} failed`);
+    }
+  }
 
-  if (typeof o.type !== 'string') return false;
-  if (typeof o.color !== 'string') return false;
-  if (!Array.isArray(o.position) || o.position.length !== 3) return false;
-  if (typeof o.scale !== 'number') return false;
+  const errors = validateTreeExport(data);
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
 
-  return true;
+  return { success: true, data: data as unknown as TreeExportData };
 }
 
-function validateTopperExport(data: unknown): data is TreeTopperExport {
-  if (!data || typeof data !== 'object') return false;
+// ============================================
+// VALIDATION
+// ============================================
+
+const TOPPER_TYPES: readonly TopperType[] = ['star', 'snowflake'];
+const GARLAND_TYPES: readonly GarlandType[] = ['lights', 'beads'];
+const LIGHT_PATTERN_TYPES: readonly LightPattern[] = ['steady', 'chase', 'twinkle', 'fade'];
+
+type FieldCheck = (value: unknown) => string | null;
+
+const isNumber: FieldCheck = (v) =>
+  typeof v === 'number' && Number.isFinite(v) ? null : 'Expected a number';
+const isString: FieldCheck = (v) => (typeof v === 'string' ? null : 'Expected a string');
+const isBoolean: FieldCheck = (v) => (typeof v === 'boolean' ? null : 'Expected a boolean');
+const isVector3: FieldCheck = (v) =>
+  Array.isArray(v) && v.length === 3 && v.every((n) => typeof n === 'number' && Number.isFinite(n))
+    ? null
+    : 'Expected an array of 3 numbers';
+const isColorList: FieldCheck = (v) =>
+  Array.isArray(v) && v.length > 0 && v.every((c) => typeof c === 'string')
+    ? null
+    : 'Expected a non-empty array of colors';
+const isPointList: FieldCheck = (v) =>
+  Array.isArray(v) && v.length >= 2 && v.every((p) => isVector3(p) === null)
+    ? null
+    : 'Expected an array of at least 2 points';
+const isOneOf =
+  (allowed: readonly string[]): FieldCheck =>
+  (v) =>
+    typeof v === 'string' && allowed.includes(v) ? null : `Expected one of: ${allowed.join(', ')}`;
+
+function checkFields(
+  value: unknown,
+  path: string,
+  checks: Record<string, FieldCheck>,
+  errors: TreeExportValidationError[]
+): void {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push({ path, message: 'Expected an object' });
+    return;
+  }
+
+  const record = value as Record<string, unknown>;
+  Object.entries(checks).forEach(([key, check]) => {
+    const message = check(record[key]);
+    if (message) {
+      errors.push({ path: path ? `${path}.${key}` : key, message });
+    }
+  });
+}
+
+/**
+ * Validate tree export data against the current (EXPORT_VERSION) schema.
+ * Returns every failing field; an empty array means the data is valid.
+ */
+export function validateTreeExport(data: unknown): TreeExportValidationError[] {
+  const errors: TreeExportValidationError[] = [];
+
+  checkFields(data, '', { version: isNumber, exportedAt: isNumber }, errors);
+  if (errors.length > 0 && errors[0].path === '') return errors;
+
+  const d = data as Record<string, unknown>;
+
+  checkFields(d.metadata, 'metadata', {}, errors);
+
+  checkFields(
+    d.treeConfig,
+    'treeConfig',
+    {
+      seed: isNumber,
+      height: isNumber,
+      radius: isNumber,
+      tiers: isNumber,
+      color: isString,
+      snowAmount: isNumber,
+    },
+    errors
+  );
 
-  const t = data as Record<string, unknown>;
+  // Validate ornaments
+  if (!Array.isArray(d.ornaments)) {
+    errors.push({ path: 'ornaments', message: 'Expected an array' });
+  } else {
+    d.ornaments.forEach((ornament, i) =>
+      checkFields(
+        ornament,
+        `ornaments[${i}]`,
+        {
+          type: isOneOf(ORNAMENT_TYPES),
+          color: isString,
+          position: isVector3,
+          scale: isNumber,
+          rotation: isVector3,
+        },
+        errors
+      )
+    );
+  }
 
-  if (typeof t.type !== 'string') return false;
-  if (typeof t.color !== 'string') return false;
-  if (typeof t.scale !== 'number') return false;
-  if (typeof t.glow !== 'boolean') return false;
+  // Validate garlands
+  if (!Array.isArray(d.garlands)) {
+    errors.push({ path: 'garlands', message: 'Expected an array' });
+  } else {
+    d.garlands.forEach((garland, i) =>
+      checkFields(
+        garland,
+        `garlands[${i}]`,
+        {
+          type: isOneOf(GARLAND_TYPES),
+          colors: isColorList,
+          pattern: isOneOf(LIGHT_PATTERN_TYPES),
+          points: isPointList,
+        },
+        errors
+      )
+    );
+  }
 
-  return true;
+  // Validate topper if present
+  if (d.topper !== null) {
+    checkFields(
+      d.topper,
+      'topper',
+      { type: isOneOf(TOPPER_TYPES), color: isString, scale: isNumber, glow: isBoolean },
+      errors
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Human-readable summary of import errors for display in the UI
+ */
+export function formatImportErrors(errors: TreeExportValidationError[] = []): string {
+  const [first] = errors;
+  if (!first) return '';
+  const location = first.path ? `${first.path}: ` : '';
+  const more = errors.length > 1 ? ` (+${errors.length - 1} more)` : '';
+  return `${location}${first.message}${more}`;
 }
 
 // ============================================
@@ -296,12 +512,14 @@ export function prepareTreeRestore(data: TreeExportData): {
   treeConfig: TreeConfig;
   topper: TreeTopperExport | null;
   ornaments: OrnamentExport[];
+  garlands: GarlandExport[];
   metadata: TreeExportMetadata;
 } {
   return {
     treeConfig: data.treeConfig,
     topper: data.topper,
     ornaments: data.ornaments,
+    garlands: data.garlands,
     metadata: data.metadata,
   };
 }
@@ -322,7 +540,7 @@ export function hasSharedTreeInURL(): boolean {
 /**
  * Get shared tree data from current URL
  */
-export function getSharedTreeFromURL(): TreeExportData | null {
+export function getSharedTreeFromURL(): TreeImportResult | null {
   if (typeof window === 'undefined') return null;
   const params = new URLSearchParams(window.location.search);
   const code = params.get('tree');
@@ -373,12 +591,12 @@ export async function copyShareURLToClipboard(data: TreeExportData): Promise<boo
 /**
  * Read share code from clipboard
  */
-export async function readShareCodeFromClipboard(): Promise<TreeExportData | null> {
+export async function readShareCodeFromClipboard(): Promise<TreeImportResult> {
   try {
     const text = await navigator.clipboard.readText();
     return parseShareCode(text);
   } catch {
-    return null;
+    return importFailure('', 'Clipboard could not be read');
   }
 }
 
@@ -424,7 +642,21 @@ export const localStorageBackend: TreeStorageBackend = {
 
   async load(id: string): Promise<TreeExportData | null> {
     const trees = JSON.parse(localStorage.getItem('savedTrees') || '{}');
-    return trees[id]?.data || null;
+    if (!trees[id]) return null;
+
+    const result = migrateTreeExport(trees[id].data);
+    if (!result.success) {
+      console.error(`Saved tree "${id}" is invalid:`, result.errors);
+      return null;
+    }
+
+    // Persist the upgraded data so migrations only run once
+    if (trees[id].data.version !== result.data.version) {
+      trees[id].data = result.data;
+      localStorage.setItem('savedTrees', JSON.stringify(trees));
+    }
+
+    return result.data;
   },
 
   async list(options?: { limit?: number; offset?: number }) {
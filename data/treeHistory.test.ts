@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import { GarlandData, OrnamentData } from '../types';
+import {
+  EMPTY_HISTORY,
+  MAX_HISTORY_DEPTH,
+  TreeCommand,
+  TreeDocument,
+  addGarlandCommand,
+  addOrnamentCommand,
+  applyCommand,
+  clearOrnamentsCommand,
+  invertCommand,
+  pushHistory,
+  removeOrnamentCommand,
+  removeOrnamentsCommand,
+  setTopperCommand,
+  updateOrnamentCommand,
+  updateTreeConfigCommand,
+} from './treeHistory';
+
+// ============================================
+// FIXTURES
+// ============================================
+
+function ornament(id: string, color: string, position: [number, number, number]): OrnamentData {
+  return { id, type: 'sphere', color, position, scale: 1, rotation: [0, 0, 0] };
+}
+
+const GARLAND: GarlandData = {
+  id: 'g1',
+  type: 'lights',
+  colors: ['#ffe9b0'],
+  pattern: 'steady',
+  points: [
+    [1, 1, 0],
+    [0, 2, 1],
+  ],
+};
+
+const BASE_DOC: TreeDocument = {
+  ornaments: [
+    ornament('o1', '#ff0000', [1, 1, 0]),
+    ornament('o2', '#00ff00', [0, 2, 1]),
+    ornament('o3', '#0000ff', [-1, 3, 0]),
+  ],
+  topper: null,
+  treeConfig: { seed: 42, height: 5, radius: 2, tiers: 5, color: '#1a472a', snowAmount: 0.3 },
+  garlands: [GARLAND],
+};
+
+// Applying a command and then its inverse must give back the exact document
+function expectRoundTrip(command: TreeCommand | null, doc = BASE_DOC) {
+  expect(command).not.toBeNull();
+  const changed = applyCommand(doc, command!);
+  expect(changed).not.toEqual(doc);
+  expect(applyCommand(changed, invertCommand(command!))).toEqual(doc);
+}
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('treeHistory', () => {
+  describe('invertCommand', () => {
+    it('undoes adding and removing ornaments in place', () => {
+      expectRoundTrip(addOrnamentCommand(BASE_DOC, ornament('o4', '#ffffff', [0, 1, 0])));
+      expectRoundTrip(removeOrnamentCommand(BASE_DOC, 'o2'));
+      expectRoundTrip(removeOrnamentsCommand(BASE_DOC, ['o1', 'o3']));
+      expectRoundTrip(clearOrnamentsCommand(BASE_DOC));
+    });
+
+    it('undoes updates by restoring only the changed fields', () => {
+      const command = updateOrnamentCommand(BASE_DOC, 'o1', { color: '#123456', scale: 2 });
+      expect(command).toMatchObject({ before: { color: '#ff0000', scale: 1 } });
+      expectRoundTrip(command);
+    });
+
+    it('undoes topper and garland changes', () => {
+      const topper = { id: 't1', type: 'star' as const, color: '#ffd700', scale: 1, glow: true };
+      expectRoundTrip(setTopperCommand(BASE_DOC, topper));
+      expectRoundTrip(addGarlandCommand(BASE_DOC, { ...GARLAND, id: 'g2' }));
+    });
+
+    it('undoes a resize together with the decorations it moved', () => {
+      const command = updateTreeConfigCommand(BASE_DOC, { height: 7 });
+      expect(command?.type).toBe('batch');
+      expectRoundTrip(command);
+    });
+
+    it('inverts twice back to the original command', () => {
+      const command = removeOrnamentsCommand(BASE_DOC, ['o1', 'o2'])!;
+      expect(invertCommand(invertCommand(command))).toEqual(command);
+    });
+  });
+
+  describe('no-op commands', () => {
+    it('are not built for changes that change nothing', () => {
+      expect(updateOrnamentCommand(BASE_DOC, 'o1', { color: '#ff0000' })).toBeNull();
+      expect(updateOrnamentCommand(BASE_DOC, 'o1', { position: [1, 1, 0] })).toBeNull();
+      expect(updateOrnamentCommand(BASE_DOC, 'missing', { color: '#ffffff' })).toBeNull();
+      expect(removeOrnamentCommand(BASE_DOC, 'missing')).toBeNull();
+      expect(setTopperCommand(BASE_DOC, null)).toBeNull();
+      expect(updateTreeConfigCommand(BASE_DOC, { seed: 42 })).toBeNull();
+    });
+  });
+
+  describe('pushHistory', () => {
+    it('merges consecutive commands with the same coalesce key into one step', () => {
+      let doc = BASE_DOC;
+      let history = EMPTY_HISTORY;
+      [
+        [2, 1, 0],
+        [3, 1, 0],
+        [4, 1, 0],
+      ].forEach((position) => {
+        const command = updateOrnamentCommand(doc, 'o1', { position: position as [number, number, number] })!;
+        doc = applyCommand(doc, command);
+        history = pushHistory(history, command, 'Move ornament', 'drag:o1');
+      });
+
+      expect(history.past).toHaveLength(1);
+      const [step] = history.past;
+      expect(step.command).toMatchObject({ before: { position: [1, 1, 0] }, after: { position: [4, 1, 0] } });
+      expect(applyCommand(doc, invertCommand(step.command))).toEqual(BASE_DOC);
+    });
+
+    it('merges group drags per ornament', () => {
+      const move = (doc: TreeDocument, dx: number): TreeCommand => ({
+        type: 'batch',
+        commands: ['o1', 'o2'].map((id) => {
+          const [x, y, z] = doc.ornaments.find((o) => o.id === id)!.position;
+          return updateOrnamentCommand(doc, id, { position: [x + dx, y, z] })!;
+        }),
+      });
+
+      let doc = BASE_DOC;
+      let history = EMPTY_HISTORY;
+      [1, 1, 1].forEach((dx) => {
+        const command = move(doc, dx);
+        doc = applyCommand(doc, command);
+        history = pushHistory(history, command, 'Move ornaments', 'group-drag');
+      });
+
+      expect(history.past).toHaveLength(1);
+      const merged = history.past[0].command;
+      expect(merged.type === 'batch' && merged.commands).toHaveLength(2);
+      expect(applyCommand(doc, invertCommand(merged))).toEqual(BASE_DOC);
+    });
+
+    it('keeps commands with different or no coalesce keys apart', () => {
+      const first = updateOrnamentCommand(BASE_DOC, 'o1', { color: '#111111' })!;
+      const second = updateOrnamentCommand(BASE_DOC, 'o2', { color: '#222222' })!;
+
+      let history = pushHistory(EMPTY_HISTORY, first, 'Recolor', 'drag:o1');
+      history = pushHistory(history, second, 'Recolor', 'drag:o2');
+      history = pushHistory(history, second, 'Recolor');
+      history = pushHistory(history, second, 'Recolor');
+      expect(history.past).toHaveLength(4);
+    });
+
+    it('clears the redo stack on a new command', () => {
+      const command = removeOrnamentCommand(BASE_DOC, 'o1')!;
+      const history = pushHistory(
+        { past: [], future: [{ label: 'Undone', command, timestamp: 0 }] },
+        command,
+        'Remove ornament'
+      );
+      expect(history.future).toEqual([]);
+    });
+
+    it('drops the oldest entries beyond the maximum depth', () => {
+      let history = EMPTY_HISTORY;
+      for (let i = 0; i < MAX_HISTORY_DEPTH + 5; i++) {
+        history = pushHistory(history, removeOrnamentCommand(BASE_DOC, 'o1')!, `Step ${i}`);
+      }
+      expect(history.past).toHaveLength(MAX_HISTORY_DEPTH);
+      expect(history.past[0].label).toBe('Step 5');
+    });
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * Tree History - Command-based undo/redo
+ *
+ * Every tree store mutation is expressed as an invertible command that
+ * captures enough state to be replayed forwards and backwards. The store
+ * keeps a past/future stack of these commands; undo applies the inverse of
+ * the latest command, redo re-applies it.
+ *
+ * Commands are plain data so they can later be sent over the wire
+ * (Convex mutations, real-time sync) without changes.
+ */
+
+import { OrnamentData, TreeTopperData, TreeConfig, GarlandData } from '../types';
+import { reprojectPoint } from './treeSurface';
+
+// ============================================
+// DOCUMENT & COMMAND TYPES
+// ============================================
+
+/**
+ * The part of the tree state that is tracked by history
+ */
+export interface TreeDocument {
+  ornaments: OrnamentData[];
+  topper: TreeTopperData | null;
+  treeConfig: TreeConfig;
+  garlands: GarlandData[];
+}
+
+export type TreeCommand =
+  | { type: 'addOrnament'; ornament: OrnamentData; index: number }
+  | { type: 'removeOrnament'; ornament: OrnamentData; index: number }
+  | {
+      type: 'updateOrnament';
+      ornamentId: string;
+      before: Partial<OrnamentData>;
+      after: Partial<OrnamentData>;
+    }
+  | { type: 'addGarland'; garland: GarlandData; index: number }
+  | { type: 'removeGarland'; garland: GarlandData; index: number }
+  | {
+      type: 'updateGarland';
+      garlandId: string;
+      before: Partial<GarlandData>;
+      after: Partial<GarlandData>;
+    }
+  | { type: 'setTopper'; before: TreeTopperData | null; after: TreeTopperData | null }
+  | { type: 'updateTreeConfig'; before: Partial<TreeConfig>; after: Partial<TreeConfig> }
+  | { type: 'replaceDocument'; before: TreeDocument; after: TreeDocument }
+  | { type: 'batch'; commands: TreeCommand[] };
+
+export interface TreeHistoryEntry {
+  label: string;
+  command: TreeCommand;
+  timestamp: number;
+  // Consecutive entries with the same key are merged into one step
+  coalesceKey?: string;
+}
+
+export interface TreeHistory {
+  past: TreeHistoryEntry[];
+  future: TreeHistoryEntry[];
+}
+
+// Oldest entries are dropped beyond this depth
+export const MAX_HISTORY_DEPTH = 100;
+
+export const EMPTY_HISTORY: TreeHistory = { past: [], future: [] };
+
+// ============================================
+// VALUE HELPERS
+// ============================================
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, i) => isSameValue(value, b[i]));
+  }
+  return a === b;
+}
+
+/**
+ * Pick the current values of the keys present in `updates`
+ */
+function pickPrevious<T extends object>(current: T, updates: Partial<T>): Partial<T> {
+  const previous: Partial<T> = {};
+  (Object.keys(updates) as Array<keyof T>).forEach((key) => {
+    previous[key] = current[key];
+  });
+  return previous;
+}
+
+function hasChanges<T extends object>(current: T, updates: Partial<T>): boolean {
+  return (Object.keys(updates) as Array<keyof T>).some(
+    (key) => !isSameValue(current[key], updates[key])
+  );
+}
+
+// ============================================
+// COMMAND BUILDERS
+// ============================================
+
+export function addOrnamentCommand(doc: TreeDocument, ornament: OrnamentData): TreeCommand {
+  return { type: 'addOrnament', ornament, index: doc.ornaments.length };
+}
+
+export function addOrnamentsCommand(doc: TreeDocument, ornaments: OrnamentData[]): TreeCommand | null {
+  if (ornaments.length === 0) return null;
+  const commands: TreeCommand[] = ornaments.map((ornament, i) => ({
+    type: 'addOrnament',
+    ornament,
+    index: doc.ornaments.length + i,
+  }));
+  return { type: 'batch', commands };
+}
+
+export function removeOrnamentCommand(doc: TreeDocument, ornamentId: string): TreeCommand | null {
+  const index = doc.ornaments.findIndex((o) => o.id === ornamentId);
+  if (index === -1) return null;
+  return { type: 'removeOrnament', ornament: doc.ornaments[index], index };
+}
+
+export function removeOrnamentsCommand(doc: TreeDocument, ornamentIds: string[]): TreeCommand | null {
+  const ids = new Set(ornamentIds);
+  // From the end, as in clearOrnamentsCommand
+  const commands: TreeCommand[] = [];
+  doc.ornaments.forEach((ornament, index) => {
+    if (ids.has(ornament.id)) commands.unshift({ type: 'removeOrnament', ornament, index });
+  });
+  return commands.length === 0 ? null : { type: 'batch', commands };
+}
+
+export function updateOrnamentCommand(
+  doc: TreeDocument,
+  ornamentId: string,
+  updates: Partial<OrnamentData>
+): TreeCommand | null {
+  const ornament = doc.ornaments.find((o) => o.id === ornamentId);
+  if (!ornament || !hasChanges(ornament, updates)) return null;
+  return {
+    type: 'updateOrnament',
+    ornamentId,
+    before: pickPrevious(ornament, updates),
+    after: { ...updates },
+  };
+}
+
+export function clearOrnamentsCommand(doc: TreeDocument): TreeCommand | null {
+  if (doc.ornaments.length === 0) return null;
+  // Remove from the end so every recorded index stays valid when replayed
+  const commands: TreeCommand[] = doc.ornaments
+    .map((ornament, index): TreeCommand => ({ type: 'removeOrnament', ornament, index }))
+    .reverse();
+  return { type: 'batch', commands };
+}
+
+export function addGarlandCommand(doc: TreeDocument, garland: GarlandData): TreeCommand {
+  return { type: 'addGarland', garland, index: doc.garlands.length };
+}
+
+export function removeGarlandCommand(doc: TreeDocument, garlandId: string): TreeCommand | null {
+  const index = doc.garlands.findIndex((g) => g.id === garlandId);
+  if (index === -1) return null;
+  return { type: 'removeGarland', garland: doc.garlands[index], index };
+}
+
+export function updateGarlandCommand(
+  doc: TreeDocument,
+  garlandId: string,
+  updates: Partial<GarlandData>
+): TreeCommand | null {
+  const garland = doc.garlands.find((g) => g.id === garlandId);
+  if (!garland || !hasChanges(garland, updates)) return null;
+  return {
+    type: 'updateGarland',
+    garlandId,
+    before: pickPrevious(garland, updates),
+    after: { ...updates },
+  };
+}
+
+export function clearGarlandsCommand(doc: TreeDocument): TreeCommand | null {
+  if (doc.garlands.length === 0) return null;
+  const commands: TreeCommand[] = doc.garlands
+    .map((garland, index): TreeCommand => ({ type: 'removeGarland', garland, index }))
+    .reverse();
+  return { type: 'batch', commands };
+}
+
+export function setTopperCommand(doc: TreeDocument, topper: TreeTopperData | null): TreeCommand | null {
+  if (doc.topper === null && topper === null) return null;
+  return { type: 'setTopper', before: doc.topper, after: topper };
+}
+
+/**
+ * Change the tree config. When the tree's size changes, ornaments and
+ * garlands move with the foliage (see reprojectPoint) in the same step, so
+ * nothing floats off or sinks into the resized tree.
+ */
+export function updateTreeConfigCommand(
+  doc: TreeDocument,
+  updates: Partial<TreeConfig>
+): TreeCommand | null {
+  if (!hasChanges(doc.treeConfig, updates)) return null;
+  const command: TreeCommand = {
+    type: 'updateTreeConfig',
+    before: pickPrevious(doc.treeConfig, updates),
+    after: { ...updates },
+  };
+
+  const next = { ...doc.treeConfig, ...updates };
+  if (next.height === doc.treeConfig.height && next.radius === doc.treeConfig.radius) {
+    return command;
+  }
+
+  const moves = [
+    ...doc.ornaments.map((ornament) =>
+      updateOrnamentCommand(doc, ornament.id, {
+        position: reprojectPoint(ornament.position, doc.treeConfig, next),
+      })
+    ),
+    ...doc.garlands.map((garland) =>
+      updateGarlandCommand(doc, garland.id, {
+        points: garland.points.map((point) => reprojectPoint(point, doc.treeConfig, next)),
+      })
+    ),
+  ].filter((move): move is TreeCommand => move !== null);
+  return moves.length === 0 ? command : { type: 'batch', commands: [command, ...moves] };
+}
+
+export function replaceDocumentCommand(doc: TreeDocument, next: TreeDocument): TreeCommand {
+  return { type: 'replaceDocument', before: doc, after: next };
+}
+
+// ============================================
+// APPLY / INVERT
+// ============================================
+
+/**
+ * Apply a command to a document, returning the new document
+ */
+export function applyCommand(doc: TreeDocument, command: TreeCommand): TreeDocument {
+  switch (command.type) {
+    case 'addOrnament': {
+      const ornaments = [...doc.ornaments];
+      ornaments.splice(Math.min(command.index, ornaments.length), 0, command.ornament);
+      return { ...doc, ornaments };
+    }
+    case 'removeOrnament':
+      return { ...doc, ornaments: doc.ornaments.filter((o) => o.id !== command.ornament.id) };
+    case 'updateOrnament':
+      return {
+        ...doc,
+        ornaments: doc.ornaments.map((o) =>
+          o.id === command.ornamentId ? { ...o, ...command.after } : o
+        ),
+      };
+    case 'addGarland': {
+      const garlands = [...doc.garlands];
+      garlands.splice(Math.min(command.index, garlands.length), 0, command.garland);
+      return { ...doc, garlands };
+    }
+    case 'removeGarland':
+      return { ...doc, garlands: doc.garlands.filter((g) => g.id !== command.garland.id) };
+    case 'updateGarland':
+      return {
+        ...doc,
+        garlands: doc.garlands.map((g) => (g.id === command.garlandId ? { ...g, ...command.after } : g)),
+      };
+    case 'setTopper':
+      return { ...doc, topper: command.after };
+    case 'updateTreeConfig':
+      return { ...doc, treeConfig: { ...doc.treeConfig, ...command.after } };
+    case 'replaceDocument':
+      return command.after;
+    case 'batch':
+      return command.commands.reduce(applyCommand, doc);
+  }
+}
+
+/**
+ * Build the command that undoes `command`
+ */
+export function invertCommand(command: TreeCommand): TreeCommand {
+  switch (command.type) {
+    case 'addOrnament':
+      return { ...command, type: 'removeOrnament' };
+    case 'removeOrnament':
+      return { ...command, type: 'addOrnament' };
+    case 'addGarland':
+      return { ...command, type: 'removeGarland' };
+    case 'removeGarland':
+      return { ...command, type: 'addGarland' };
+    case 'updateOrnament':
+    case 'updateGarland':
+    case 'setTopper':
+    case 'updateTreeConfig':
+    case 'replaceDocument':
+      return { ...command, before: command.after, after: command.before } as TreeCommand;
+    case 'batch':
+      return { type: 'batch', commands: command.commands.map(invertCommand).reverse() };
+  }
+}
+
+/**
+ * Merge two consecutive commands into a single undo step
+ */
+function mergeCommands(first: TreeCommand, second: TreeCommand): TreeCommand {
+  if (
+    first.type === 'updateOrnament' &&
+    second.type === 'updateOrnament' &&
+    first.ornamentId === second.ornamentId
+  ) {
+    return {
+      ...first,
+      before: { ...second.before, ...first.before },
+      after: { ...first.after, ...second.after },
+    };
+  }
+
+  if (first.type === 'updateTreeConfig' && second.type === 'updateTreeConfig') {
+    return {
+      ...first,
+      before: { ...second.before, ...first.before },
+      after: { ...first.after, ...second.after },
+    };
+  }
+
+  // Group edits (a multi-select drag): one update per ornament, same ornaments each time
+  if (
+    first.type === 'batch' &&
+    second.type === 'batch' &&
+    first.commands.length === second.commands.length &&
+    first.commands.every((command, i) => {
+      const next = second.commands[i];
+      return (
+        command.type === 'updateOrnament' &&
+        next.type === 'updateOrnament' &&
+        command.ornamentId === next.ornamentId
+      );
+    })
+  ) {
+    return {
+      type: 'batch',
+      commands: first.commands.map((command, i) => mergeCommands(command, second.commands[i])),
+    };
+  }
+
+  const commands = first.type === 'batch' ? [...first.commands, second] : [first, second];
+  return { type: 'batch', commands };
+}
+
+// ============================================
+// HISTORY STACK
+// ============================================
+
+/**
+ * Record a newly executed command. Clears the redo stack.
+ */
+export function pushHistory(
+  history: TreeHistory,
+  command: TreeCommand,
+  label: string,
+  coalesceKey?: string
+): TreeHistory {
+  const last = history.past[history.past.length - 1];
+
+  if (coalesceKey && last && last.coalesceKey === coalesceKey) {
+    const merged: TreeHistoryEntry = {
+      ...last,
+      command: mergeCommands(last.command, command),
+      timestamp: Date.now(),
+    };
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+
+  const entry: TreeHistoryEntry = { label, command, timestamp: Date.now(), coalesceKey };
+  return { past: [...history.past, entry].slice(-MAX_HISTORY_DEPTH), future: [] };
+}
@@ -11,20 +11,22 @@
  * 3. Add real-time subscriptions for multi-user sync
  */
 
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useReducer, useRef } from 'react';
 import {
   OrnamentData,
   TreeTopperData,
   TreeConfig,
-  User,
-  UserQuota,
-  DEFAULT_QUOTAS,
+  UserProfile,
   OrnamentType,
+  OrnamentEvent,
+  SessionRole,
   TopperType,
+  GarlandData,
 } from '../types';
 import {
   TreeExportData,
   TreeExportMetadata,
+  TreeImportResult,
   exportTree,
   prepareTreeRestore,
   generateShareCode,
@@ -34,6 +36,39 @@ import {
   copyShareURLToClipboard,
   localStorageBackend,
 } from './treeExport';
+import {
+  TreeDocument,
+  TreeCommand,
+  TreeHistory,
+  EMPTY_HISTORY,
+  applyCommand,
+  invertCommand,
+  pushHistory,
+  addOrnamentCommand,
+  addOrnamentsCommand,
+  removeOrnamentCommand,
+  removeOrnamentsCommand,
+  updateOrnamentCommand,
+  clearOrnamentsCommand,
+  addGarlandCommand,
+  removeGarlandCommand,
+  updateGarlandCommand,
+  clearGarlandsCommand,
+  setTopperCommand,
+  updateTreeConfigCommand,
+  replaceDocumentCommand,
+} from './treeHistory';
+import { applyOrnamentEvent, diffTreeDocuments } from './collabSync';
+import {
+  QuotaCheck,
+  createQuota,
+  checkOrnamentQuota,
+  checkColorQuota,
+  checkTopperQuota,
+  isSpecialOrnament,
+  QuotaExceededError,
+} from './quotas';
+import { api } from '../lib/api';
 
 // ============================================
 // STORE INTERFACE (matches future Convex API)
@@ -44,31 +79,77 @@ export interface TreeStoreState {
   ornaments: OrnamentData[];
   topper: TreeTopperData | null;
   treeConfig: TreeConfig;
+  garlands: GarlandData[];
 
-  // User (will come from Convex auth)
-  currentUser: User | null;
+  // User (from auth; guests get the free tier)
+  currentUser: UserProfile;
+
+  // Role in the shared session, null when decorating alone
+  sessionRole: SessionRole | null;
 
   // Loading states
   isLoading: boolean;
   isSyncing: boolean;
 }
 
+export interface TreeMutationOptions {
+  // Consecutive mutations sharing a key collapse into one undo step (e.g. a gizmo drag)
+  coalesceKey?: string;
+}
+
 export interface TreeStoreActions {
   // Ornament mutations
   addOrnament: (ornament: Omit<OrnamentData, 'id' | 'userId' | 'createdAt'>) => Promise<OrnamentData | null>;
+  // Several at once (auto-decorate) as one undo step; stops at the ornament limit
+  addOrnaments: (ornaments: Omit<OrnamentData, 'id' | 'userId' | 'createdAt'>[]) => Promise<OrnamentData[]>;
   removeOrnament: (ornamentId: string) => Promise<boolean>;
-  updateOrnament: (ornamentId: string, updates: Partial<OrnamentData>) => Promise<boolean>;
+  updateOrnament: (
+    ornamentId: string,
+    updates: Partial<OrnamentData>,
+    options?: TreeMutationOptions
+  ) => Promise<boolean>;
+  // Group edits on a selection, each one undo step
+  updateOrnaments: (
+    changes: { id: string; updates: Partial<OrnamentData> }[],
+    options?: TreeMutationOptions
+  ) => Promise<boolean>;
+  removeOrnaments: (ornamentIds: string[]) => Promise<boolean>;
   clearOrnaments: () => Promise<void>;
 
   // Topper mutations
   setTopper: (topper: Omit<TreeTopperData, 'id' | 'userId' | 'createdAt'> | null) => Promise<void>;
 
+  // Garland mutations (string lights, bead garlands)
+  addGarland: (garland: Omit<GarlandData, 'id' | 'userId' | 'createdAt'>) => Promise<GarlandData | null>;
+  removeGarland: (garlandId: string) => Promise<boolean>;
+  updateGarland: (garlandId: string, updates: Partial<GarlandData>) => Promise<boolean>;
+  clearGarlands: () => Promise<void>;
+
   // Tree config mutations
-  updateTreeConfig: (updates: Partial<TreeConfig>) => void;
+  updateTreeConfig: (updates: Partial<TreeConfig>, options?: TreeMutationOptions) => void;
+
+  // History
+  undo: () => void;
+  redo: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  history: TreeHistory;
+
+  // Real-time sync: apply a change made by another participant (not undoable locally)
+  applyRemoteEvent: (event: OrnamentEvent) => void;
+
+  // Session role: viewers can look around but every tree mutation is rejected
+  setSessionRole: (role: SessionRole | null) => void;
+  canEdit: () => boolean;
+
+  // Signed-in user whose tier applies (and their session token), or null for a guest
+  setCurrentUser: (user: UserProfile | null, token?: string | null) => void;
 
   // Quota helpers
   canAddOrnament: () => boolean;
   canUseOrnamentType: (type: OrnamentType) => boolean;
+  canUseColor: (color: string) => boolean;
+  checkOrnament: (ornament: { type: OrnamentType; color: string }, count?: number) => QuotaCheck;
   getRemainingOrnaments: () => number;
 
   // Export/Import actions
@@ -77,7 +158,7 @@ export interface TreeStoreActions {
   getShareURL: () => string;
   copyShareURL: () => Promise<boolean>;
   downloadAsJSON: (filename?: string) => void;
-  importFromCode: (code: string) => Promise<boolean>;
+  importFromCode: (code: string) => Promise<TreeImportResult>;
   importFromData: (data: TreeExportData) => Promise<void>;
   saveToStorage: (metadata?: Partial<TreeExportMetadata>) => Promise<string>;
   loadFromStorage: (id: string) => Promise<boolean>;
@@ -98,15 +179,75 @@ const DEFAULT_TREE_CONFIG: TreeConfig = {
   snowAmount: 0.3,
 };
 
-const DEFAULT_USER: User = {
+const GUEST_USER: UserProfile = {
   id: 'local-user',
   name: 'Guest',
-  tier: 'unlimited', // For local dev, unlimited access
-  quota: {
-    ...DEFAULT_QUOTAS.unlimited,
-    usedOrnaments: 0,
-    usedToppers: 0,
-  },
+  email: '',
+  tier: 'free',
+  quota: createQuota('free'),
+};
+
+// ============================================
+// HISTORY REDUCER
+// ============================================
+
+interface LocalTreeState {
+  doc: TreeDocument;
+  history: TreeHistory;
+}
+
+type LocalTreeAction =
+  | {
+      type: 'execute';
+      label: string;
+      build: (doc: TreeDocument) => TreeCommand | null;
+      coalesceKey?: string;
+    }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'remote'; event: OrnamentEvent };
+
+function localTreeReducer(state: LocalTreeState, action: LocalTreeAction): LocalTreeState {
+  switch (action.type) {
+    case 'execute': {
+      const command = action.build(state.doc);
+      if (!command) return state;
+      return {
+        doc: applyCommand(state.doc, command),
+        history: pushHistory(state.history, command, action.label, action.coalesceKey),
+      };
+    }
+    case 'undo': {
+      const entry = state.history.past[state.history.past.length - 1];
+      if (!entry) return state;
+      return {
+        doc: applyCommand(state.doc, invertCommand(entry.command)),
+        history: {
+          past: state.history.past.slice(0, -1),
+          future: [entry, ...state.history.future],
+        },
+      };
+    }
+    case 'redo': {
+      const entry = state.history.future[0];
+      if (!entry) return state;
+      return {
+        doc: applyCommand(state.doc, entry.command),
+        history: {
+          past: [...state.history.past, entry],
+          future: state.history.future.slice(1),
+        },
+      };
+    }
+    case 'remote':
+      // Other participants' changes bypass the local undo stack
+      return { ...state, doc: applyOrnamentEvent(state.doc, action.event) };
+  }
+}
+
+const INITIAL_LOCAL_STATE: LocalTreeState = {
+  doc: { ornaments: [], topper: null, treeConfig: DEFAULT_TREE_CONFIG, garlands: [] },
+  history: EMPTY_HISTORY,
 };
 
 // ============================================
@@ -118,45 +259,122 @@ const DEFAULT_USER: User = {
  * Replace this with Convex hooks when backend is ready.
  */
 export function useLocalTreeStore(): TreeStore {
-  // State
-  const [ornaments, setOrnaments] = useState<OrnamentData[]>([]);
-  const [topper, setTopperState] = useState<TreeTopperData | null>(null);
-  const [treeConfig, setTreeConfig] = useState<TreeConfig>(DEFAULT_TREE_CONFIG);
-  const [currentUser] = useState<User>(DEFAULT_USER);
+  // State - every document change goes through the history reducer
+  const [{ doc, history }, dispatch] = useReducer(localTreeReducer, INITIAL_LOCAL_STATE);
+  const { ornaments, topper, treeConfig, garlands } = doc;
+  const [signedInUser, setSignedInUser] = useState<UserProfile | null>(null);
+  const [authToken, setAuthToken] = useState<string | null>(null);
   const [isLoading] = useState(false);
   const [isSyncing] = useState(false);
+  const [sessionRole, setSessionRole] = useState<SessionRole | null>(null);
+
+  const canEdit = useCallback((): boolean => sessionRole !== 'viewer', [sessionRole]);
+
+  const rejectReadOnly = useCallback(
+    (action: string): boolean => {
+      if (canEdit()) return false;
+      console.warn(`View only: viewers cannot ${action}`);
+      return true;
+    },
+    [canEdit]
+  );
+
+  const setCurrentUser = useCallback((user: UserProfile | null, token: string | null = null): void => {
+    setSignedInUser(user);
+    setAuthToken(token);
+  }, []);
+
+  // Document and history as of the last action, ahead of the next render
+  const stateRef = useRef<LocalTreeState>(INITIAL_LOCAL_STATE);
+  const update = useCallback((action: LocalTreeAction): void => {
+    stateRef.current = localTreeReducer(stateRef.current, action);
+    dispatch(action);
+  }, []);
+
+  // Local changes reach the mutation layer one at a time, each diffed
+  // against the document the one before it left
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const enqueue = useCallback(<T>(task: () => Promise<T>): Promise<T> => {
+    const result = queueRef.current.then(task);
+    queueRef.current = result.catch(() => undefined);
+    return result;
+  }, []);
+
+  /**
+   * Send a local change to the mutation layer, which enforces the quota.
+   * Returns false (with a warning) if it was refused. Call from a queued task.
+   */
+  const syncChange = useCallback(
+    async (command: TreeCommand): Promise<boolean> => {
+      const current = stateRef.current.doc;
+      const events = diffTreeDocuments(current, applyCommand(current, command));
+      try {
+        await api.tree.apply({ token: authToken ?? undefined, events });
+      } catch (error) {
+        if (!(error instanceof QuotaExceededError)) throw error;
+        console.warn(`Quota exceeded: ${error.message}`);
+        return false;
+      }
+      return true;
+    },
+    [authToken]
+  );
+
+  // Apply an undoable change once the mutation layer has accepted it
+  const execute = useCallback(
+    (
+      label: string,
+      build: (doc: TreeDocument) => TreeCommand | null,
+      coalesceKey?: string
+    ): Promise<boolean> =>
+      enqueue(async () => {
+        const command = build(stateRef.current.doc);
+        if (!command) return true;
+        if (!(await syncChange(command))) return false;
+        update({ type: 'execute', label, build: () => command, coalesceKey });
+        return true;
+      }),
+    [enqueue, syncChange, update]
+  );
 
   // Generate unique ID (will be replaced by Convex ID generation)
   const generateId = useCallback(() => {
     return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }, []);
 
-  // Quota calculations
+  // Quota calculations - usage is what's on this tree
   const usedOrnaments = ornaments.length;
   const usedToppers = topper ? 1 : 0;
 
+  const currentUser = useMemo((): UserProfile => {
+    const user = signedInUser ?? GUEST_USER;
+    return { ...user, quota: { ...user.quota, usedOrnaments, usedToppers } };
+  }, [signedInUser, usedOrnaments, usedToppers]);
+
   const canAddOrnament = useCallback((): boolean => {
-    if (!currentUser) return false;
     return usedOrnaments < currentUser.quota.maxOrnaments;
   }, [currentUser, usedOrnaments]);
 
   const canUseOrnamentType = useCallback(
     (type: OrnamentType): boolean => {
-      if (!currentUser) return false;
-
       // Special ornaments require permission
-      const specialTypes: OrnamentType[] = ['heart', 'ribbon', 'gingerbread'];
-      if (specialTypes.includes(type)) {
-        return currentUser.quota.canUseSpecialOrnaments;
-      }
-
-      return true;
+      return !isSpecialOrnament(type) || currentUser.quota.canUseSpecialOrnaments;
     },
     [currentUser]
   );
 
+  const canUseColor = useCallback(
+    (color: string): boolean => checkColorQuota(currentUser.quota, color).allowed,
+    [currentUser]
+  );
+
+  const checkOrnament = useCallback(
+    (ornament: { type: OrnamentType; color: string }, count = 1): QuotaCheck =>
+      checkOrnamentQuota(currentUser.quota, ornament, count),
+    [currentUser]
+  );
+
   const getRemainingOrnaments = useCallback((): number => {
-    if (!currentUser) return 0;
     return Math.max(0, currentUser.quota.maxOrnaments - usedOrnaments);
   }, [currentUser, usedOrnaments]);
 
@@ -165,13 +383,11 @@ export function useLocalTreeStore(): TreeStore {
     async (
       ornamentData: Omit<OrnamentData, 'id' | 'userId' | 'createdAt'>
     ): Promise<OrnamentData | null> => {
-      if (!canAddOrnament()) {
-        console.warn('Quota exceeded: Cannot add more ornaments');
-        return null;
-      }
+      if (rejectReadOnly('add ornaments')) return null;
 
-      if (!canUseOrnamentType(ornamentData.type)) {
-        console.warn(`Premium required: Cannot use ornament type "${ornamentData.type}"`);
+      const check = checkOrnament(ornamentData);
+      if (!check.allowed) {
+        console.warn(`Quota exceeded: ${check.error}`);
         return null;
       }
 
@@ -183,43 +399,127 @@ export function useLocalTreeStore(): TreeStore {
         createdAt: Date.now(),
       };
 
-      setOrnaments((prev) => [...prev, newOrnament]);
+      const added = await execute('Add ornament', (current) => addOrnamentCommand(current, newOrnament));
+      return added ? newOrnament : null;
+    },
+    [checkOrnament, generateId, currentUser, rejectReadOnly, execute]
+  );
+
+  const addOrnaments = useCallback(
+    async (
+      ornamentsData: Omit<OrnamentData, 'id' | 'userId' | 'createdAt'>[]
+    ): Promise<OrnamentData[]> => {
+      if (rejectReadOnly('add ornaments')) return [];
+
+      // Check each against the quota as if the ones before it were already placed
+      const added: OrnamentData[] = [];
+      for (const ornamentData of ornamentsData) {
+        const check = checkOrnamentQuota(
+          { ...currentUser.quota, usedOrnaments: usedOrnaments + added.length },
+          ornamentData
+        );
+        if (!check.allowed) {
+          console.warn(`Quota exceeded: ${check.error}`);
+          if (check.violation === 'ornament_limit') break;
+          continue;
+        }
+        added.push({
+          ...ornamentData,
+          id: generateId(),
+          userId: currentUser?.id,
+          userName: currentUser?.name,
+          createdAt: Date.now(),
+        });
+      }
+      if (added.length === 0) return [];
 
-      // In Convex: await ctx.runMutation(api.ornaments.add, newOrnament)
-      return newOrnament;
+      const accepted = await execute(`Add ${added.length} ornaments`, (current) =>
+        addOrnamentsCommand(current, added)
+      );
+      return accepted ? added : [];
     },
-    [canAddOrnament, canUseOrnamentType, generateId, currentUser]
+    [generateId, currentUser, usedOrnaments, rejectReadOnly, execute]
   );
 
   const removeOrnament = useCallback(async (ornamentId: string): Promise<boolean> => {
-    setOrnaments((prev) => prev.filter((o) => o.id !== ornamentId));
-    // In Convex: await ctx.runMutation(api.ornaments.remove, { id: ornamentId })
-    return true;
-  }, []);
+    if (rejectReadOnly('remove ornaments')) return false;
+    return execute('Remove ornament', (current) => removeOrnamentCommand(current, ornamentId));
+  }, [rejectReadOnly, execute]);
 
   const updateOrnament = useCallback(
-    async (ornamentId: string, updates: Partial<OrnamentData>): Promise<boolean> => {
-      setOrnaments((prev) =>
-        prev.map((o) => (o.id === ornamentId ? { ...o, ...updates } : o))
+    async (
+      ornamentId: string,
+      updates: Partial<OrnamentData>,
+      options?: TreeMutationOptions
+    ): Promise<boolean> => {
+      if (rejectReadOnly('edit ornaments')) return false;
+      if (updates.color !== undefined && !canUseColor(updates.color)) {
+        console.warn('Quota exceeded: Custom colors are a paid feature');
+        return false;
+      }
+      return execute(
+        'Edit ornament',
+        (current) => updateOrnamentCommand(current, ornamentId, updates),
+        options?.coalesceKey
+      );
+    },
+    [canUseColor, rejectReadOnly, execute]
+  );
+
+  const updateOrnaments = useCallback(
+    async (
+      changes: { id: string; updates: Partial<OrnamentData> }[],
+      options?: TreeMutationOptions
+    ): Promise<boolean> => {
+      if (rejectReadOnly('edit ornaments')) return false;
+      if (changes.some(({ updates }) => updates.color !== undefined && !canUseColor(updates.color))) {
+        console.warn('Quota exceeded: Custom colors are a paid feature');
+        return false;
+      }
+      return execute(
+        `Edit ${changes.length} ornaments`,
+        (current) => {
+          const commands = changes
+            .map(({ id, updates }) => updateOrnamentCommand(current, id, updates))
+            .filter((command): command is TreeCommand => command !== null);
+          return commands.length === 0 ? null : { type: 'batch', commands };
+        },
+        options?.coalesceKey
+      );
+    },
+    [canUseColor, rejectReadOnly, execute]
+  );
+
+  const removeOrnaments = useCallback(
+    async (ornamentIds: string[]): Promise<boolean> => {
+      if (rejectReadOnly('remove ornaments')) return false;
+      return execute(`Remove ${ornamentIds.length} ornaments`, (current) =>
+        removeOrnamentsCommand(current, ornamentIds)
       );
-      // In Convex: await ctx.runMutation(api.ornaments.update, { id: ornamentId, ...updates })
-      return true;
     },
-    []
+    [rejectReadOnly, execute]
   );
 
   const clearOrnaments = useCallback(async (): Promise<void> => {
-    setOrnaments([]);
-    // In Convex: await ctx.runMutation(api.ornaments.clearAll, { sessionId })
-  }, []);
+    if (rejectReadOnly('clear ornaments')) return;
+    await execute('Clear ornaments', clearOrnamentsCommand);
+  }, [rejectReadOnly, execute]);
 
   // Topper mutations
   const setTopper = useCallback(
     async (
       topperData: Omit<TreeTopperData, 'id' | 'userId' | 'createdAt'> | null
     ): Promise<void> => {
+      if (rejectReadOnly('change the topper')) return;
+
       if (topperData === null) {
-        setTopperState(null);
+        await execute('Remove topper', (current) => setTopperCommand(current, null));
+        return;
+      }
+
+      const check = checkTopperQuota(currentUser.quota, topperData, topper !== null);
+      if (!check.allowed) {
+        console.warn(`Quota exceeded: ${check.error}`);
         return;
       }
 
@@ -231,28 +531,103 @@ export function useLocalTreeStore(): TreeStore {
         createdAt: Date.now(),
       };
 
-      setTopperState(newTopper);
-      // In Convex: await ctx.runMutation(api.topper.set, newTopper)
+      await execute('Set topper', (current) => setTopperCommand(current, newTopper));
+    },
+    [generateId, currentUser, topper, rejectReadOnly, execute]
+  );
+
+  // Garland mutations
+  const addGarland = useCallback(
+    async (
+      garlandData: Omit<GarlandData, 'id' | 'userId' | 'createdAt'>
+    ): Promise<GarlandData | null> => {
+      if (rejectReadOnly('add garlands')) return null;
+
+      const newGarland: GarlandData = {
+        ...garlandData,
+        id: generateId(),
+        userId: currentUser?.id,
+        userName: currentUser?.name,
+        createdAt: Date.now(),
+      };
+
+      const added = await execute('Add garland', (current) => addGarlandCommand(current, newGarland));
+      // In Convex: await ctx.runMutation(api.garlands.add, newGarland)
+      return added ? newGarland : null;
     },
-    [generateId, currentUser]
+    [generateId, currentUser, rejectReadOnly, execute]
   );
 
+  const removeGarland = useCallback(async (garlandId: string): Promise<boolean> => {
+    if (rejectReadOnly('remove garlands')) return false;
+    // In Convex: await ctx.runMutation(api.garlands.remove, { id: garlandId })
+    return execute('Remove garland', (current) => removeGarlandCommand(current, garlandId));
+  }, [rejectReadOnly, execute]);
+
+  const updateGarland = useCallback(
+    async (garlandId: string, updates: Partial<GarlandData>): Promise<boolean> => {
+      if (rejectReadOnly('edit garlands')) return false;
+      // In Convex: await ctx.runMutation(api.garlands.update, { id: garlandId, ...updates })
+      return execute('Edit garland', (current) => updateGarlandCommand(current, garlandId, updates));
+    },
+    [rejectReadOnly, execute]
+  );
+
+  const clearGarlands = useCallback(async (): Promise<void> => {
+    if (rejectReadOnly('clear garlands')) return;
+    await execute('Clear garlands', clearGarlandsCommand);
+    // In Convex: await ctx.runMutation(api.garlands.clearAll, { sessionId })
+  }, [rejectReadOnly, execute]);
+
   // Tree config mutations
-  const updateTreeConfig = useCallback((updates: Partial<TreeConfig>): void => {
-    setTreeConfig((prev) => ({ ...prev, ...updates }));
-    // In Convex: await ctx.runMutation(api.session.updateConfig, updates)
-  }, []);
+  const updateTreeConfig = useCallback(
+    (updates: Partial<TreeConfig>, options?: TreeMutationOptions): void => {
+      if (rejectReadOnly('change the tree')) return;
+      execute('Change tree', (current) => updateTreeConfigCommand(current, updates), options?.coalesceKey).catch(
+        (error) => console.error('Failed to change the tree:', error)
+      );
+    },
+    [rejectReadOnly, execute]
+  );
+
+  // History
+  // Undo and redo are checked like any other change (redoing an add can hit
+  // the limit), and queued with them so each step is taken once
+  const undo = useCallback(async (): Promise<void> => {
+    if (rejectReadOnly('undo')) return;
+    await enqueue(async () => {
+      const { past } = stateRef.current.history;
+      const entry = past[past.length - 1];
+      if (entry && (await syncChange(invertCommand(entry.command)))) update({ type: 'undo' });
+    });
+  }, [rejectReadOnly, enqueue, syncChange, update]);
+
+  const redo = useCallback(async (): Promise<void> => {
+    if (rejectReadOnly('redo')) return;
+    await enqueue(async () => {
+      const entry = stateRef.current.history.future[0];
+      if (entry && (await syncChange(entry.command))) update({ type: 'redo' });
+    });
+  }, [rejectReadOnly, enqueue, syncChange, update]);
+
+  const canUndo = useCallback((): boolean => canEdit() && history.past.length > 0, [canEdit, history]);
+  const canRedo = useCallback((): boolean => canEdit() && history.future.length > 0, [canEdit, history]);
+
+  // Real-time sync
+  const applyRemoteEvent = useCallback((event: OrnamentEvent): void => {
+    update({ type: 'remote', event });
+  }, [update]);
 
   // Export/Import actions
   const exportTreeData = useCallback(
     (metadata?: Partial<TreeExportMetadata>): TreeExportData => {
-      return exportTree(ornaments, topper, treeConfig, {
+      return exportTree(ornaments, topper, treeConfig, garlands, {
         ...metadata,
         authorName: currentUser?.name,
         authorId: currentUser?.id,
       });
     },
-    [ornaments, topper, treeConfig, currentUser]
+    [ornaments, topper, treeConfig, garlands, currentUser]
   );
 
   const getShareCode = useCallback((): string => {
@@ -280,26 +655,20 @@ export function useLocalTreeStore(): TreeStore {
 
   const importFromData = useCallback(
     async (data: TreeExportData): Promise<void> => {
-      const restored = prepareTreeRestore(data);
+      if (rejectReadOnly('import trees')) return;
 
-      // Clear existing decorations
-      setOrnaments([]);
-      setTopperState(null);
-
-      // Restore tree config
-      setTreeConfig(restored.treeConfig);
+      const restored = prepareTreeRestore(data);
 
       // Restore topper
-      if (restored.topper) {
-        const newTopper: TreeTopperData = {
-          ...restored.topper,
-          id: generateId(),
-          userId: currentUser?.id,
-          userName: currentUser?.name,
-          createdAt: Date.now(),
-        };
-        setTopperState(newTopper);
-      }
+      const newTopper: TreeTopperData | null = restored.topper
+        ? {
+            ...restored.topper,
+            id: generateId(),
+            userId: currentUser?.id,
+            userName: currentUser?.name,
+            createdAt: Date.now(),
+          }
+        : null;
 
       // Restore ornaments
       const newOrnaments: OrnamentData[] = restored.ornaments.map((o) => ({
@@ -309,17 +678,36 @@ export function useLocalTreeStore(): TreeStore {
         userName: currentUser?.name,
         createdAt: Date.now(),
       }));
-      setOrnaments(newOrnaments);
+
+      // Restore garlands
+      const newGarlands: GarlandData[] = restored.garlands.map((g) => ({
+        ...g,
+        id: generateId(),
+        userId: currentUser?.id,
+        userName: currentUser?.name,
+        createdAt: Date.now(),
+      }));
+
+      // Replace the whole document in one undoable step
+      await execute('Import tree', (current) =>
+        replaceDocumentCommand(current, {
+          ornaments: newOrnaments,
+          topper: newTopper,
+          treeConfig: restored.treeConfig,
+          garlands: newGarlands,
+        })
+      );
     },
-    [generateId, currentUser]
+    [generateId, currentUser, rejectReadOnly, execute]
   );
 
   const importFromCode = useCallback(
-    async (code: string): Promise<boolean> => {
-      const data = parseShareCode(code);
-      if (!data) return false;
-      await importFromData(data);
-      return true;
+    async (code: string): Promise<TreeImportResult> => {
+      const result = parseShareCode(code);
+      if (result.success) {
+        await importFromData(result.data);
+      }
+      return result;
     },
     [importFromData]
   );
@@ -349,21 +737,45 @@ export function useLocalTreeStore(): TreeStore {
       ornaments,
       topper,
       treeConfig,
+      garlands,
       currentUser,
+      sessionRole,
       isLoading,
       isSyncing,
 
       // Actions
       addOrnament,
+      addOrnaments,
       removeOrnament,
       updateOrnament,
+      updateOrnaments,
+      removeOrnaments,
       clearOrnaments,
       setTopper,
+      addGarland,
+      removeGarland,
+      updateGarland,
+      clearGarlands,
       updateTreeConfig,
 
+      // History
+      undo,
+      redo,
+      canUndo,
+      canRedo,
+      history,
+
+      // Sync
+      applyRemoteEvent,
+      setSessionRole,
+      canEdit,
+
       // Helpers
+      setCurrentUser,
       canAddOrnament,
       canUseOrnamentType,
+      canUseColor,
+      checkOrnament,
       getRemainingOrnaments,
 
       // Export/Import
@@ -381,17 +793,35 @@ export function useLocalTreeStore(): TreeStore {
       ornaments,
       topper,
       treeConfig,
+      garlands,
       currentUser,
+      sessionRole,
       isLoading,
       isSyncing,
       addOrnament,
+      addOrnaments,
       removeOrnament,
       updateOrnament,
+      updateOrnaments,
+      removeOrnaments,
       clearOrnaments,
       setTopper,
+      addGarland,
+      removeGarland,
+      updateGarland,
+      clearGarlands,
       updateTreeConfig,
+      undo,
+      redo,
+      canUndo,
+      canRedo,
+      history,
+      applyRemoteEvent,
+      canEdit,
       canAddOrnament,
       canUseOrnamentType,
+      canUseColor,
+      checkOrnament,
       getRemainingOrnaments,
       exportTreeData,
       getShareCode,
@@ -0,0 +1,195 @@
+/**
+ * Tree Surface - Where the foliage is, without raycasting
+ *
+ * Mirrors the tier cones components/PineTree.tsx draws so decorations can be
+ * placed on the tree from data alone (auto spiral garlands, auto-decorate).
+ * Keep the numbers here in step with PineTree.
+ *
+ * Heights are measured from the trunk base; positions returned are in the
+ * same space as ornament positions (the scene, with the tree standing at
+ * y = TREE_BASE_Y).
+ *
+ * A point near the tree can also be expressed relative to the foliage
+ * (which tier, how far down it, angle, distance off the surface). Mapping
+ * those coordinates onto another config is how decorations follow the tree
+ * when it's resized.
+ *
+ * Usage:
+ *   const { bottom, top } = getFoliageSpan(treeConfig);
+ *   const position = getSurfacePoint(treeConfig, (bottom + top) / 2, angle, ORNAMENT_SURFACE_OFFSET);
+ *   const moved = reprojectPoint(position, oldConfig, newConfig);
+ */
+
+import { TreeConfig } from '../types';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Where PineTree's trunk meets the ground: its own offset plus the scene group's
+export const TREE_BASE_Y = -3;
+
+// PineTree always draws five tiers
+const TREE_TIERS = 5;
+
+// How far an ornament's center sits off the foliage (as placed by clicking)
+export const ORNAMENT_SURFACE_OFFSET = 0.15;
+
+interface Tier {
+  // Height of the cone's center above the trunk base
+  center: number;
+  height: number;
+  radius: number;
+}
+
+function getTiers(config: TreeConfig): Tier[] {
+  return Array.from({ length: TREE_TIERS }, (_, i) => {
+    const tierProgress = i / (TREE_TIERS - 1);
+    return {
+      center: 1.0 + i * (config.height * 0.18),
+      height: config.height * 0.28 * (1 - tierProgress * 0.15),
+      radius: config.radius * (1.1 - tierProgress * 0.7),
+    };
+  });
+}
+
+// ============================================
+// FOLIAGE
+// ============================================
+
+/**
+ * Outer radius of the foliage at a height above the trunk base. Tiers
+ * overlap, so the widest one wins.
+ */
+export function getFoliageRadius(config: TreeConfig, height: number): number {
+  let radius = 0;
+  getTiers(config).forEach((tier) => {
+    const fromTop = tier.center + tier.height / 2 - height;
+    if (fromTop >= 0 && fromTop <= tier.height) {
+      radius = Math.max(radius, (tier.radius * fromTop) / tier.height);
+    }
+  });
+  return radius;
+}
+
+/**
+ * Heights between which decorations look right: a little above the lowest
+ * tier's rim up to just below the tip
+ */
+export function getFoliageSpan(config: TreeConfig): { bottom: number; top: number } {
+  const tiers = getTiers(config);
+  const first = tiers[0];
+  const last = tiers[tiers.length - 1];
+  return {
+    bottom: first.center - first.height * 0.4,
+    top: last.center + last.height * 0.2,
+  };
+}
+
+/**
+ * Scene position `offset` out from the foliage at a height and angle around
+ * the trunk (angle 0 points along +x)
+ */
+export function getSurfacePoint(
+  config: TreeConfig,
+  height: number,
+  angle: number,
+  offset = 0
+): [number, number, number] {
+  const radius = getFoliageRadius(config, height) + offset;
+  return [Math.cos(angle) * radius, TREE_BASE_Y + height, Math.sin(angle) * radius];
+}
+
+// ============================================
+// SURFACE COORDINATES
+// ============================================
+
+export interface SurfaceCoordinates {
+  tier: number;
+  // Distance down from the tier's tip as a fraction of its height (0 tip, 1 rim)
+  along: number;
+  angle: number;
+  // Distance out from the foliage (negative inside it)
+  offset: number;
+}
+
+/**
+ * Where a scene position is relative to the foliage. It belongs to the tier
+ * that's outermost at its height, or the nearest tier when it's above or
+ * below the foliage.
+ */
+export function getSurfaceCoordinates(
+  config: TreeConfig,
+  position: [number, number, number]
+): SurfaceCoordinates {
+  const [x, y, z] = position;
+  const height = y - TREE_BASE_Y;
+  const tiers = getTiers(config);
+
+  let best = -1;
+  let bestRadius = -1;
+  let nearest = 0;
+  let nearestGap = Infinity;
+  tiers.forEach((tier, i) => {
+    const fromTop = tier.center + tier.height / 2 - height;
+    if (fromTop >= 0 && fromTop <= tier.height) {
+      const radius = (tier.radius * fromTop) / tier.height;
+      if (radius > bestRadius) {
+        best = i;
+        bestRadius = radius;
+      }
+    }
+    const gap = Math.max(-fromTop, fromTop - tier.height);
+    if (gap < nearestGap) {
+      nearest = i;
+      nearestGap = gap;
+    }
+  });
+
+  const tierIndex = best === -1 ? nearest : best;
+  const tier = tiers[tierIndex];
+  const along = (tier.center + tier.height / 2 - height) / tier.height;
+  const surfaceRadius = tier.radius * Math.min(1, Math.max(0, along));
+  return {
+    tier: tierIndex,
+    along,
+    angle: Math.atan2(z, x),
+    offset: Math.hypot(x, z) - surfaceRadius,
+  };
+}
+
+/**
+ * The scene position at surface coordinates on a tree
+ */
+export function getPositionFromCoordinates(
+  config: TreeConfig,
+  coords: SurfaceCoordinates
+): [number, number, number] {
+  const tier = getTiers(config)[coords.tier];
+  const height = tier.center + tier.height / 2 - coords.along * tier.height;
+  const radius = Math.max(0, tier.radius * Math.min(1, Math.max(0, coords.along)) + coords.offset);
+  return [Math.cos(coords.angle) * radius, TREE_BASE_Y + height, Math.sin(coords.angle) * radius];
+}
+
+/**
+ * Move a position from one tree config to the same spot on another: same
+ * tier, same place down it, same angle and distance off the foliage
+ */
+export function reprojectPoint(
+  position: [number, number, number],
+  from: TreeConfig,
+  to: TreeConfig
+): [number, number, number] {
+  return getPositionFromCoordinates(to, getSurfaceCoordinates(from, position));
+}
+
+/**
+ * The position `offset` off the foliage nearest to `position`
+ */
+export function snapToSurface(
+  config: TreeConfig,
+  position: [number, number, number],
+  offset = ORNAMENT_SURFACE_OFFSET
+): [number, number, number] {
+  return getPositionFromCoordinates(config, { ...getSurfaceCoordinates(config, position), offset });
+}
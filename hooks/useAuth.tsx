@@ -21,7 +21,9 @@
 
 import { useState, useEffect, useCallback, createContext, useContext, ReactNode } from 'react';
 import { api } from '../convex-dev';
-import { User, AuthResult, SignupData, LoginData } from '../types';
+import { getSessionId } from '../data/sessionStore';
+import { User, AuthResult, SignupData, LoginData, SubscriptionTier } from '../types';
+import { SubscriptionResult } from '../convex-dev/subscriptions';
 
 // ============================================
 // AUTH STATE
@@ -39,7 +41,11 @@ interface AuthActions {
   signup: (data: SignupData) => Promise<AuthResult>;
   logout: () => Promise<void>;
   updateProfile: (data: { name?: string }) => Promise<AuthResult>;
+  // Starts a Stripe checkout; the tier changes once the payment webhook arrives
+  upgradeSubscription: (tier: SubscriptionTier) => Promise<SubscriptionResult>;
   changePassword: (currentPassword: string, newPassword: string) => Promise<AuthResult>;
+  requestPasswordReset: (email: string) => Promise<{ success: boolean; error?: string }>;
+  resetPassword: (resetToken: string, newPassword: string) => Promise<AuthResult>;
   clearError: () => void;
 }
 
@@ -131,7 +137,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setState(prev => ({ ...prev, isLoading: true, error: null }));
 
     try {
-      const result = await api.auth.login(data);
+      const result = await api.auth.login({ clientId: getSessionId(), ...data });
 
       if (result.success && result.token && result.user) {
         localStorage.setItem(TOKEN_STORAGE_KEY, result.token);
@@ -219,6 +225,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, [state.token]);
 
+  const upgradeSubscription = useCallback(async (tier: SubscriptionTier): Promise<SubscriptionResult> => {
+    const { token } = state;
+    if (!token) {
+      return { success: false, error: 'Not authenticated' };
+    }
+
+    try {
+      return await api.subscriptions.startCheckout({ token, tier });
+    } catch (e) {
+      const error = e instanceof Error ? e.message : 'Could not start payment';
+      return { success: false, error };
+    }
+  }, [state.token]);
+
   const changePassword = useCallback(async (
     currentPassword: string,
     newPassword: string
@@ -240,6 +260,29 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, [state.token]);
 
+  const requestPasswordReset = useCallback(async (
+    email: string
+  ): Promise<{ success: boolean; error?: string }> => {
+    try {
+      return await api.auth.requestPasswordReset({ email });
+    } catch (e) {
+      const error = e instanceof Error ? e.message : 'Password reset request failed';
+      return { success: false, error };
+    }
+  }, []);
+
+  const resetPassword = useCallback(async (
+    resetToken: string,
+    newPassword: string
+  ): Promise<AuthResult> => {
+    try {
+      return await api.auth.resetPassword({ resetToken, newPassword });
+    } catch (e) {
+      const error = e instanceof Error ? e.message : 'Password reset failed';
+      return { success: false, error };
+    }
+  }, []);
+
   const clearError = useCallback(() => {
     setState(prev => ({ ...prev, error: null }));
   }, []);
@@ -250,7 +293,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     signup,
     logout,
     updateProfile,
+    upgradeSubscription,
     changePassword,
+    requestPasswordReset,
+    resetPassword,
     clearError,
   };
 
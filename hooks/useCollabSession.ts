@@ -0,0 +1,358 @@
+/**
+ * Collaborative Session Hook
+ *
+ * Connects the tree store to a shared room: local changes are broadcast as
+ * stamped OrnamentEvents, remote ones are merged into a replicated tree
+ * (treeCrdt.ts) whose result is applied to the store, and participants'
+ * presence and 3D cursors are tracked for rendering.
+ *
+ * A peer's role is looked up in the session record (convex-dev/sessions.ts)
+ * for the account it announces; the role it claims is ignored.
+ *
+ * USAGE:
+ * ```tsx
+ * const store = useTreeStore();
+ * const collab = useCollabSession(store, { roomId, userName: 'Alice' });
+ *
+ * <PineTree onPointerMove={(e) => collab.updateCursor(e.point.toArray())} />
+ * <RemoteCursors cursors={collab.cursors} />
+ * ```
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { api } from '../convex-dev';
+import { OrnamentEvent, SessionParticipant, SessionRole } from '../types';
+import { TreeStore } from '../data/treeStore';
+import { TreeDocument } from '../data/treeHistory';
+import {
+  CollabMessage,
+  CollabTransport,
+  CollabTransportStatus,
+  createCollabTransport,
+  createCollabMessage,
+  createOperationMessage,
+  getMessageOperation,
+  createParticipant,
+  diffTreeDocuments,
+  generatePeerId,
+  getParticipantColor,
+} from '../data/collabSync';
+import {
+  TreeCrdtState,
+  createTreeCrdt,
+  applyTreeOperation,
+  mergeTreeCrdt,
+  materializeTree,
+  createLocalOperations,
+} from '../data/treeCrdt';
+import { throttle } from '../utils/throttle';
+
+// Cursors are hidden after this long without movement
+const CURSOR_TIMEOUT = 5000;
+const CURSOR_THROTTLE = 50;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface RemoteCursor {
+  userId: string;
+  userName: string;
+  color: string;
+  position: [number, number, number];
+  updatedAt: number;
+}
+
+export interface CollabSessionOptions {
+  roomId: string | null;
+  // Signed-in account, null for guests
+  userId: string | null;
+  userName: string;
+  avatarUrl?: string;
+  // Viewers receive the room's tree but never send changes
+  role: SessionRole;
+}
+
+export interface CollabSession {
+  peerId: string;
+  isActive: boolean;
+  status: CollabTransportStatus;
+  participants: SessionParticipant[];
+  cursors: RemoteCursor[];
+  updateCursor: (position: [number, number, number]) => void;
+}
+
+// ============================================
+// HOOK
+// ============================================
+
+export function useCollabSession(store: TreeStore, options: CollabSessionOptions): CollabSession {
+  const { roomId, userId, userName, avatarUrl, role } = options;
+
+  const [peerId] = useState(generatePeerId);
+  const [status, setStatus] = useState<CollabTransportStatus>('disconnected');
+  const [participants, setParticipants] = useState<SessionParticipant[]>([]);
+  const [cursors, setCursors] = useState<RemoteCursor[]>([]);
+
+  const transportRef = useRef<CollabTransport | null>(null);
+  // Replicated tree (see treeCrdt.ts) and the document it was last reconciled with
+  const crdtRef = useRef<TreeCrdtState | null>(null);
+  const syncedRef = useRef<TreeDocument | null>(null);
+
+  const storeRef = useRef(store);
+  storeRef.current = store;
+
+  // Remote changes dispatched to the store vs. those included in the last
+  // render. Until they match, the rendered tree is missing remote changes
+  // and must not be diffed, or they would be broadcast back as reverts.
+  const remoteVersionRef = useRef(0);
+  const renderedRemoteVersionRef = useRef(0);
+  renderedRemoteVersionRef.current = remoteVersionRef.current;
+
+  const selfRef = useRef<SessionParticipant | null>(null);
+
+  const send = useCallback(
+    (event: OrnamentEvent) => {
+      if (!roomId || !transportRef.current) return;
+      transportRef.current.send(createCollabMessage(roomId, peerId, event));
+    },
+    [roomId, peerId]
+  );
+
+  /**
+   * Stamp and broadcast local changes made since the last sync
+   */
+  const flushLocalChanges = useCallback(() => {
+    const transport = transportRef.current;
+    if (!roomId || !transport || !crdtRef.current || !syncedRef.current) return;
+    if (role === 'viewer') return;
+    if (renderedRemoteVersionRef.current !== remoteVersionRef.current) return;
+
+    const { ornaments, topper, treeConfig, garlands } = storeRef.current;
+    const next: TreeDocument = { ornaments, topper, treeConfig, garlands };
+    const operations = createLocalOperations(crdtRef.current, peerId, syncedRef.current, next);
+
+    operations.forEach((operation) => {
+      crdtRef.current = applyTreeOperation(crdtRef.current!, operation);
+      transport.send(createOperationMessage(roomId, peerId, operation));
+    });
+    syncedRef.current = next;
+  }, [roomId, peerId, role]);
+
+  /**
+   * Adopt a new replica state and apply whatever it changed to the store
+   */
+  const integrate = useCallback(
+    (update: (state: TreeCrdtState) => TreeCrdtState) => {
+      if (!crdtRef.current || !syncedRef.current) return;
+      // Stamp pending local edits first so they take part in the merge
+      flushLocalChanges();
+
+      crdtRef.current = update(crdtRef.current);
+      const next = materializeTree(crdtRef.current, syncedRef.current);
+      const events = diffTreeDocuments(syncedRef.current, next);
+      syncedRef.current = next;
+      if (events.length === 0) return;
+      remoteVersionRef.current++;
+      events.forEach((event) => storeRef.current.applyRemoteEvent(event));
+    },
+    [flushLocalChanges]
+  );
+
+  // Connect to the room
+  useEffect(() => {
+    if (!roomId) return;
+
+    const transport = createCollabTransport(roomId);
+    transportRef.current = transport;
+    setStatus(transport.getStatus());
+
+    // Our tree is merged into the room's; edits made in the room win.
+    // Viewers contribute nothing and show the room's tree as soon as it arrives.
+    const { ornaments, topper, treeConfig, garlands } = storeRef.current;
+    syncedRef.current = { ornaments, topper, treeConfig, garlands };
+    crdtRef.current =
+      role === 'viewer'
+        ? createTreeCrdt({ ornaments: [], topper: null, treeConfig, garlands: [] }, peerId, -1)
+        : createTreeCrdt(syncedRef.current, peerId);
+
+    // Peers' roles in the session record; changes from anyone who isn't an
+    // editor or the owner there are dropped
+    const peerRoles = new Map<string, SessionRole>();
+    const lookUpRole = async (accountId?: string): Promise<SessionRole> => {
+      if (!accountId) return 'viewer';
+      const participant = await api.sessions.getParticipant({ sessionId: roomId, userId: accountId });
+      return participant?.role ?? 'viewer';
+    };
+
+    const self = createParticipant(roomId, peerId, userName, role, avatarUrl);
+    selfRef.current = self;
+    setParticipants([self]);
+
+    // Joins carry our full replica; peers answer with theirs
+    const announce = (targetId?: string) =>
+      transport.send(
+        createCollabMessage(
+          roomId,
+          peerId,
+          { type: 'participant_joined', participant: selfRef.current ?? self, accountId: userId ?? undefined },
+          { targetId, state: crdtRef.current ?? undefined }
+        )
+      );
+
+    // Role lookups are async, so messages are handled one at a time in order
+    let closed = false;
+    let pending = Promise.resolve();
+
+    const handleMessage = (message: CollabMessage) => {
+      if (message.roomId !== roomId || message.senderId === peerId) return;
+      if (message.targetId && message.targetId !== peerId) return;
+      pending = pending
+        .then(() => processMessage(message))
+        .catch((error) => console.error('Failed to handle collaboration message:', error));
+    };
+
+    const processMessage = async (message: CollabMessage) => {
+      const { event } = message;
+      if (event.type === 'participant_joined') {
+        peerRoles.set(message.senderId, await lookUpRole(event.accountId));
+      }
+      if (closed) return;
+      const senderRole = peerRoles.get(message.senderId);
+      const senderCanEdit = senderRole === 'editor' || senderRole === 'owner';
+
+      if (message.state && senderCanEdit) {
+        integrate((state) => mergeTreeCrdt(state, message.state!));
+      }
+
+      switch (event.type) {
+        case 'participant_joined':
+          setParticipants((current) => [
+            ...current.filter((p) => p.userId !== event.participant.userId),
+            { ...event.participant, role: senderRole ?? 'viewer' },
+          ]);
+          // Someone (re)joined: welcome them with our replica
+          if (!message.targetId && message.state) {
+            flushLocalChanges();
+            announce(message.senderId);
+          }
+          break;
+        case 'participant_left':
+          peerRoles.delete(event.participantId);
+          setParticipants((current) => current.filter((p) => p.userId !== event.participantId));
+          setCursors((current) => current.filter((c) => c.userId !== event.participantId));
+          break;
+        case 'cursor_moved':
+          setCursors((current) => [
+            ...current.filter((c) => c.userId !== event.userId),
+            {
+              userId: event.userId,
+              userName: 'Guest',
+              color: getParticipantColor(event.userId),
+              position: event.position,
+              updatedAt: Date.now(),
+            },
+          ]);
+          break;
+        default: {
+          const operation = getMessageOperation(message);
+          if (operation && senderCanEdit) {
+            integrate((state) => applyTreeOperation(state, operation));
+          }
+        }
+      }
+    };
+
+    const unsubscribe = transport.subscribe(handleMessage);
+
+    // The relay drops messages while we are away, so resync on reconnect
+    let wasDisconnected = false;
+    const unsubscribeStatus = transport.subscribeStatus((next) => {
+      setStatus(next);
+      if (next === 'disconnected') wasDisconnected = true;
+      if (next === 'connected' && wasDisconnected) {
+        wasDisconnected = false;
+        announce();
+      }
+    });
+
+    announce();
+
+    const handleUnload = () => {
+      transport.send(createCollabMessage(roomId, peerId, { type: 'participant_left', participantId: peerId }));
+    };
+    window.addEventListener('beforeunload', handleUnload);
+
+    return () => {
+      closed = true;
+      window.removeEventListener('beforeunload', handleUnload);
+      handleUnload();
+      unsubscribe();
+      unsubscribeStatus();
+      transport.close();
+      transportRef.current = null;
+      crdtRef.current = null;
+      syncedRef.current = null;
+      selfRef.current = null;
+      setStatus('disconnected');
+      setParticipants([]);
+      setCursors([]);
+    };
+    // userName/avatar changes are announced separately below
+  }, [roomId, peerId, role, userId]);
+
+  // Announce profile changes (e.g. signing in mid-session)
+  useEffect(() => {
+    const self = selfRef.current;
+    if (!self || (self.userName === userName && self.avatarUrl === avatarUrl)) return;
+    const updated = { ...self, userName, avatarUrl };
+    selfRef.current = updated;
+    setParticipants((current) => current.map((p) => (p.userId === peerId ? updated : p)));
+    // Sent without a replica, so peers only refresh the name
+    send({ type: 'participant_joined', participant: updated, accountId: userId ?? undefined });
+  }, [userName, avatarUrl, peerId, userId, send]);
+
+  // Broadcast local document changes
+  useEffect(() => {
+    flushLocalChanges();
+  }, [store.ornaments, store.topper, store.treeConfig, store.garlands, flushLocalChanges]);
+
+  // Hide idle cursors
+  useEffect(() => {
+    if (!roomId) return;
+    const interval = setInterval(() => {
+      const cutoff = Date.now() - CURSOR_TIMEOUT;
+      setCursors((current) =>
+        current.some((c) => c.updatedAt < cutoff) ? current.filter((c) => c.updatedAt >= cutoff) : current
+      );
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [roomId]);
+
+  const updateCursor = useMemo(
+    () =>
+      throttle((position: [number, number, number]) => {
+        send({ type: 'cursor_moved', userId: peerId, position });
+      }, CURSOR_THROTTLE),
+    [send, peerId]
+  );
+
+  // Cursor names come from the participant list
+  const namedCursors = useMemo(
+    () =>
+      cursors.map((cursor) => ({
+        ...cursor,
+        userName: participants.find((p) => p.userId === cursor.userId)?.userName ?? cursor.userName,
+      })),
+    [cursors, participants]
+  );
+
+  return {
+    peerId,
+    isActive: !!roomId,
+    status,
+    participants,
+    cursors: namedCursors,
+    updateCursor,
+  };
+}
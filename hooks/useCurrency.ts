@@ -0,0 +1,35 @@
+/**
+ * Currency Hook
+ *
+ * The display currency chosen in this browser, shared by every component
+ * and persisted with the session (data/sessionStore.ts). The cart follows
+ * it: useCartStore re-prices the cart when it changes.
+ *
+ * USAGE:
+ * ```tsx
+ * const { currency, setCurrency, price } = useCurrency();
+ * <PriceTag amount={price(product.price.amount)} />
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { CurrencyCode } from '../types';
+import { convertPrice } from '../data/currency';
+import { getCurrency, setCurrency, subscribeCurrency } from '../data/sessionStore';
+
+export interface CurrencyState {
+  currency: CurrencyCode;
+  setCurrency: (currency: CurrencyCode) => void;
+  // A CHF catalog price in the current currency
+  price: (cents: number) => number;
+}
+
+export function useCurrency(): CurrencyState {
+  const [currency, setCurrencyState] = useState<CurrencyCode>(getCurrency);
+
+  useEffect(() => subscribeCurrency(setCurrencyState), []);
+
+  const price = useCallback((cents: number) => convertPrice(cents, currency), [currency]);
+
+  return { currency, setCurrency, price };
+}
@@ -0,0 +1,52 @@
+/**
+ * Stock Hook
+ *
+ * Live stock for every product, from convex-dev/inventory.ts. Counts drop
+ * while other carts are in checkout and come back when they are released.
+ *
+ * USAGE:
+ * ```tsx
+ * const { getAvailable } = useStock();
+ * const label = getStockLabel(getAvailable(tree.id));
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../convex-dev';
+import { StockAvailability } from '../types';
+
+export interface StockState {
+  stock: Record<string, StockAvailability>;
+  isLoading: boolean;
+  // Units that can still be bought (Infinity until stock has loaded)
+  getAvailable: (productId: string) => number;
+}
+
+export function useStock(): StockState {
+  const [stock, setStock] = useState<Record<string, StockAvailability>>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const levels = await api.inventory.listStock();
+      if (cancelled) return;
+      setStock(Object.fromEntries(levels.map((level) => [level.productId, level])));
+      setIsLoading(false);
+    };
+
+    load();
+    const unsubscribe = api.inventory.subscribe(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  const getAvailable = useCallback(
+    (productId: string) => (isLoading ? Infinity : (stock[productId]?.available ?? 0)),
+    [stock, isLoading]
+  );
+
+  return { stock, isLoading, getAvailable };
+}
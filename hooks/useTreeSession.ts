@@ -0,0 +1,133 @@
+/**
+ * Shared Tree Session Hook
+ *
+ * Loads the current user's role in a shared tree session and exposes the
+ * owner's invite management. Uses the functions from convex-dev/sessions.ts.
+ *
+ * Changes are made with the signed-in user's token. Guests have no
+ * participation, so they can open a shared tree but only as viewers.
+ *
+ * USAGE:
+ * ```tsx
+ * const { role, isOwner, invites, createInvite } = useTreeSession(sessionId);
+ * store.setSessionRole(role);
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../convex-dev';
+import { useAuth } from './useAuth';
+import {
+  TreeConfig,
+  TreeSession,
+  SessionInvite,
+  SessionParticipant,
+  SessionResult,
+  SessionRole,
+} from '../types';
+
+export interface TreeSessionState {
+  session: TreeSession | null;
+  participant: SessionParticipant | null;
+  // Null when not in a session. Until a participation is found, treat as viewer.
+  role: SessionRole | null;
+  isOwner: boolean;
+  isLoading: boolean;
+  invites: SessionInvite[];
+  // Null for guests
+  userId: string | null;
+  userName: string;
+  createSession: (treeConfig: TreeConfig) => Promise<SessionResult>;
+  createInvite: (role: SessionInvite['role'], expiresInMs?: number) => Promise<SessionResult>;
+  revokeInvite: (code: string) => Promise<SessionResult>;
+}
+
+export function useTreeSession(sessionId: string | null): TreeSessionState {
+  const { user, token } = useAuth();
+  const userId = user?.id ?? null;
+  const userName = user?.name || user?.email || 'Guest';
+
+  const [session, setSession] = useState<TreeSession | null>(null);
+  const [participant, setParticipant] = useState<SessionParticipant | null>(null);
+  const [invites, setInvites] = useState<SessionInvite[]>([]);
+  // Which session/user the loaded state belongs to
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const loadKey = sessionId ? `${sessionId}:${userId}:${token}` : null;
+
+  // Load session, participation and invites; reload on any session change
+  useEffect(() => {
+    if (!sessionId) {
+      setSession(null);
+      setParticipant(null);
+      setInvites([]);
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      const [nextSession, nextParticipant, nextInvites] = await Promise.all([
+        api.sessions.get({ sessionId }),
+        userId ? api.sessions.getParticipant({ sessionId, userId }) : null,
+        token ? api.sessions.listInvites({ token, sessionId }) : [],
+      ]);
+      if (cancelled) return;
+      setSession(nextSession);
+      setParticipant(nextParticipant);
+      setInvites(nextInvites);
+      setLoadedKey(`${sessionId}:${userId}:${token}`);
+    };
+
+    load();
+    const unsubscribe = api.sessions.subscribe(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [sessionId, userId, token]);
+
+  const createSession = useCallback(
+    async (treeConfig: TreeConfig): Promise<SessionResult> => {
+      if (!token) return { success: false, error: 'Sign in to share your tree' };
+      return api.sessions.create({ token, treeConfig });
+    },
+    [token]
+  );
+
+  const createInvite = useCallback(
+    async (role: SessionInvite['role'], expiresInMs?: number): Promise<SessionResult> => {
+      if (!sessionId) return { success: false, error: 'Not in a session' };
+      if (!token) return { success: false, error: 'Not authenticated' };
+      return api.sessions.createInvite({ token, sessionId, role, expiresInMs });
+    },
+    [sessionId, token]
+  );
+
+  const revokeInvite = useCallback(
+    async (code: string): Promise<SessionResult> => {
+      if (!token) return { success: false, error: 'Not authenticated' };
+      return api.sessions.revokeInvite({ token, code });
+    },
+    [token]
+  );
+
+  const isLoading = loadKey !== null && loadKey !== loadedKey;
+  const role: SessionRole | null = !sessionId
+    ? null
+    : isLoading
+      ? 'viewer'
+      : participant?.role ?? 'viewer';
+
+  return {
+    session,
+    participant,
+    role,
+    isOwner: role === 'owner',
+    isLoading,
+    invites,
+    userId,
+    userName,
+    createSession,
+    createInvite,
+    revokeInvite,
+  };
+}
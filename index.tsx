@@ -4,7 +4,7 @@ import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { ConvexProvider } from './lib/convex';
 import { AuthProvider } from './hooks/useAuth';
 import App from './App';
-import { LoginPage, SignupPage } from './pages';
+import { LoginPage, SignupPage, ResetPasswordPage, JoinPage, OrdersPage, OrderDetailPage, AdminPage } from './pages';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -21,6 +21,11 @@ root.render(
             <Route path="/" element={<App />} />
             <Route path="/login" element={<LoginPage />} />
             <Route path="/signup" element={<SignupPage />} />
+            <Route path="/reset-password" element={<ResetPasswordPage />} />
+            <Route path="/join/:code" element={<JoinPage />} />
+            <Route path="/orders" element={<OrdersPage />} />
+            <Route path="/orders/:orderId" element={<OrderDetailPage />} />
+            <Route path="/admin" element={<AdminPage />} />
           </Routes>
         </ConvexProvider>
       </AuthProvider>
@@ -10,8 +10,69 @@
  * 3. Update this file to import from 'convex/react' and use real mutations/actions
  */
 
-import { OrnamentData, TreeTopperData, TreeConfig, OrnamentType, TopperType, GeneratedTheme } from '../types';
+import {
+  OrnamentData,
+  OrnamentEvent,
+  TreeTopperData,
+  TreeConfig,
+  OrnamentType,
+  TopperType,
+  GeneratedTheme,
+  User,
+  UserQuota,
+} from '../types';
 import { GoogleGenAI, Type } from "@google/genai";
+import * as auth from '../convex-dev/auth';
+import * as authInternal from '../convex-dev/authInternal';
+import {
+  QuotaCheck,
+  createQuota,
+  checkOrnamentQuota,
+  checkColorQuota,
+  checkTopperQuota,
+  QuotaExceededError,
+} from '../data/quotas';
+
+// ============================================
+// QUOTA ENFORCEMENT
+// ============================================
+
+type Caller = Omit<User, 'passwordHash'> | null;
+
+/**
+ * Who is calling, from their session token. Guests (no or expired token) are null.
+ */
+async function getCaller(token?: string): Promise<Caller> {
+  return token ? auth.validateSession({ token }) : null;
+}
+
+const ownedBy = (caller: Caller) => (item: { userId?: string }) => item.userId === caller?.id;
+
+/**
+ * The caller's quota, with usage counted from what they have placed.
+ * Guests get the free tier.
+ */
+function getCallerQuota(caller: Caller): UserQuota {
+  return {
+    ...(caller?.quota ?? createQuota('free')),
+    usedOrnaments: ornamentsStore.filter(ownedBy(caller)).length,
+    usedToppers: topperStore && ownedBy(caller)(topperStore) ? 1 : 0,
+  };
+}
+
+function enforce(check: QuotaCheck): void {
+  if (!check.allowed) throw new QuotaExceededError(check);
+}
+
+/** Keep the usage on the user record in step with the stores */
+async function recordUsage(userId?: string): Promise<void> {
+  if (!userId) return;
+  await authInternal.recordQuotaUsage({
+    userId,
+    usedOrnaments: ornamentsStore.filter(o => o.userId === userId).length,
+    usedToppers: topperStore && topperStore.userId === userId ? 1 : 0,
+  });
+}
 
 // ============================================
 // ORNAMENTS API
@@ -32,30 +93,41 @@ export const ornaments = {
   get: async (id: string): Promise<OrnamentData | null> =>
     ornamentsStore.find(o => o.id === id) ?? null,
 
-  /** Add ornament. Convex: mutation */
+  /** Add ornament. Throws QuotaExceededError past the caller's quota. Convex: mutation */
   add: async (data: {
+    token?: string;
     type: OrnamentType;
     color: string;
     position: [number, number, number];
     scale: number;
-    userId?: string;
-    userName?: string;
   }): Promise<OrnamentData> => {
+    const { token, ...fields } = data;
+    const caller = await getCaller(token);
+    enforce(checkOrnamentQuota(getCallerQuota(caller), fields));
+
     const ornament: OrnamentData = {
       id: generateId(),
-      ...data,
+      ...fields,
+      userId: caller?.id,
+      userName: caller?.name,
       createdAt: Date.now(),
     };
     ornamentsStore.push(ornament);
+    await recordUsage(caller?.id);
     notifyOrnamentListeners();
     return ornament;
   },
 
-  /** Update ornament. Convex: mutation */
-  update: async (id: string, updates: Partial<OrnamentData>): Promise<boolean> => {
+  /** Update ornament. Recoloring is checked against the caller's quota. Convex: mutation */
+  update: async (id: string, updates: Partial<OrnamentData>, token?: string): Promise<boolean> => {
     const index = ornamentsStore.findIndex(o => o.id === id);
     if (index === -1) return false;
-    ornamentsStore[index] = { ...ornamentsStore[index], ...updates };
+    if (updates.color !== undefined) {
+      enforce(checkColorQuota(getCallerQuota(await getCaller(token)), updates.color));
+    }
+    // The owner stays whoever placed it
+    const { userId: _, userName: __, ...fields } = updates;
+    ornamentsStore[index] = { ...ornamentsStore[index], ...fields };
     notifyOrnamentListeners();
     return true;
   },
@@ -64,14 +136,17 @@ export const ornaments = {
   remove: async (id: string): Promise<boolean> => {
     const index = ornamentsStore.findIndex(o => o.id === id);
     if (index === -1) return false;
-    ornamentsStore.splice(index, 1);
+    const [removed] = ornamentsStore.splice(index, 1);
+    await recordUsage(removed.userId);
     notifyOrnamentListeners();
     return true;
   },
 
   /** Clear all ornaments. Convex: mutation */
   clearAll: async (): Promise<void> => {
+    const owners = new Set(ornamentsStore.map(o => o.userId));
     ornamentsStore = [];
+    await Promise.all(Array.from(owners, recordUsage));
     notifyOrnamentListeners();
   },
 
@@ -95,25 +170,33 @@ export const topper = {
   /** Get current topper. Convex: query */
   get: async (): Promise<TreeTopperData | null> => topperStore,
 
-  /** Set topper. Convex: mutation */
+  /** Set topper. Throws QuotaExceededError past the caller's quota. Convex: mutation */
   set: async (data: {
     type: TopperType;
     color: string;
     scale: number;
     glow: boolean;
-    userId?: string;
-    userName?: string;
-  } | null): Promise<TreeTopperData | null> => {
+  } | null, token?: string): Promise<TreeTopperData | null> => {
+    const previousOwner = topperStore?.userId;
     if (data === null) {
       topperStore = null;
+      await recordUsage(previousOwner);
       notifyTopperListeners();
       return null;
     }
+
+    const caller = await getCaller(token);
+    enforce(checkTopperQuota(getCallerQuota(caller), data, topperStore !== null));
+
     topperStore = {
       id: generateId(),
       ...data,
+      userId: caller?.id,
+      userName: caller?.name,
       createdAt: Date.now(),
     };
+    await recordUsage(previousOwner);
+    if (caller?.id !== previousOwner) await recordUsage(caller?.id);
     notifyTopperListeners();
     return topperStore;
   },
@@ -159,6 +242,85 @@ export const session = {
   }
 };
 
+// ============================================
+// TREE API
+// ============================================
+
+export const tree = {
+  /**
+   * Apply one local edit to the tree, as the events diffTreeDocuments
+   * reports for it. The whole batch is checked against the caller's quota
+   * before anything is written, and throws QuotaExceededError if any of it
+   * would go past it. New ornaments and toppers belong to the caller.
+   * Garlands have no quota and aren't stored here yet. Convex: mutation
+   */
+  apply: async (args: { token?: string; events: OrnamentEvent[] }): Promise<void> => {
+    const caller = await getCaller(args.token);
+    const quota = getCallerQuota(caller);
+    const owned = ownedBy(caller);
+
+    let nextOrnaments = [...ornamentsStore];
+    let nextTopper = topperStore;
+    let nextTreeConfig = treeConfigStore;
+    let usedOrnaments = quota.usedOrnaments;
+    const owners = new Set<string | undefined>([caller?.id]);
+
+    for (const event of args.events) {
+      switch (event.type) {
+        case 'ornament_added':
+          enforce(checkOrnamentQuota({ ...quota, usedOrnaments }, event.ornament));
+          nextOrnaments.push({ ...event.ornament, userId: caller?.id, userName: caller?.name });
+          usedOrnaments++;
+          break;
+
+        case 'ornament_removed': {
+          const removed = nextOrnaments.find(o => o.id === event.ornamentId);
+          if (!removed) break;
+          nextOrnaments = nextOrnaments.filter(o => o !== removed);
+          owners.add(removed.userId);
+          if (owned(removed)) usedOrnaments--;
+          break;
+        }
+
+        case 'ornament_updated': {
+          const index = nextOrnaments.findIndex(o => o.id === event.ornament.id);
+          if (index === -1) break;
+          const existing = nextOrnaments[index];
+          if (event.ornament.color !== existing.color) {
+            enforce(checkColorQuota(quota, event.ornament.color));
+          }
+          nextOrnaments[index] = { ...event.ornament, userId: existing.userId, userName: existing.userName };
+          break;
+        }
+
+        case 'topper_changed':
+          owners.add(nextTopper?.userId);
+          if (event.topper) {
+            const usedToppers = nextTopper && owned(nextTopper) ? 1 : 0;
+            enforce(checkTopperQuota({ ...quota, usedToppers }, event.topper, nextTopper !== null));
+            nextTopper = { ...event.topper, userId: caller?.id, userName: caller?.name };
+          } else {
+            nextTopper = null;
+          }
+          break;
+
+        case 'tree_config_changed':
+          nextTreeConfig = event.config;
+          break;
+      }
+    }
+
+    ornamentsStore = nextOrnaments;
+    topperStore = nextTopper;
+    treeConfigStore = nextTreeConfig;
+    await Promise.all(Array.from(owners, recordUsage));
+
+    notifyOrnamentListeners();
+    notifyTopperListeners();
+    notifySessionListeners();
+  },
+};
+
 // ============================================
 // AI API
 // ============================================
@@ -221,6 +383,7 @@ export const api = {
   ornaments,
   topper,
   session,
+  tree,
   ai,
 } as const;
 
@@ -0,0 +1,478 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { api } from '../convex-dev';
+import { useAuth } from '../hooks/useAuth';
+import { GARLAND_PRODUCTS, ORNAMENT_PRODUCTS, TOPPER_PRODUCTS, TREE_PRODUCTS } from '../data/products';
+import { CANCELLATION_REASON_LABELS, ORDER_STATUS_LABELS, ORDER_TRANSITIONS } from '../data/orderLifecycle';
+import { TIER_LABELS } from '../data/quotas';
+import { OrderStatusBadge } from '../components/OrderStatusBadge';
+import { CancellationReason, Order, OrderStatus, StockAvailability, User, formatPrice } from '../types';
+
+type AdminTab = 'orders' | 'users' | 'catalog';
+
+const TABS: { id: AdminTab; label: string }[] = [
+  { id: 'orders', label: 'Orders' },
+  { id: 'users', label: 'Users' },
+  { id: 'catalog', label: 'Catalog' },
+];
+
+const CATALOG = [...TREE_PRODUCTS, ...TOPPER_PRODUCTS, ...GARLAND_PRODUCTS, ...ORNAMENT_PRODUCTS];
+
+const inputClass =
+  'px-2 py-1 bg-white/5 border border-white/10 rounded-lg text-white text-sm placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-green-500/50';
+const buttonClass =
+  'px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors disabled:opacity-50';
+
+// ============================================
+// ORDERS
+// ============================================
+
+const OrderRow: React.FC<{
+  order: Order;
+  token: string;
+  onError: (error: string | null) => void;
+}> = ({ order, token, onError }) => {
+  const [carrier, setCarrier] = useState('');
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [cancelReason, setCancelReason] = useState<CancellationReason>('customer_request');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const next = ORDER_TRANSITIONS[order.status];
+
+  const run = async (change: () => Promise<{ success: boolean; error?: string }>) => {
+    setIsSaving(true);
+    const result = await change();
+    setIsSaving(false);
+    onError(result.success ? null : result.error || 'Could not update the order');
+  };
+
+  return (
+    <tr className="border-t border-white/10 align-top">
+      <td className="py-3 pr-4">
+        <p className="font-mono text-white">{order.id.toUpperCase()}</p>
+        <p className="text-xs text-gray-400">{new Date(order.createdAt).toLocaleString()}</p>
+      </td>
+      <td className="py-3 pr-4">
+        <p className="text-white">{order.shippingAddress.fullName}</p>
+        <p className="text-xs text-gray-400">{order.shippingAddress.email}</p>
+      </td>
+      <td className="py-3 pr-4 text-green-400">{formatPrice(order.total, order.currency)}</td>
+      <td className="py-3 pr-4">
+        <OrderStatusBadge status={order.status} />
+        {order.shipments?.map((shipment) => (
+          <p key={shipment.id} className="mt-1 text-xs text-gray-400">
+            {[shipment.carrier, shipment.trackingNumber].filter(Boolean).join(' ') || 'Shipped'}
+          </p>
+        ))}
+      </td>
+      <td className="py-3 space-y-2">
+        <div className="flex flex-wrap gap-2">
+          {(['paid', 'processing', 'delivered'] as const)
+            .filter((to) => next.includes(to))
+            .map((to) => (
+              <button
+                key={to}
+                disabled={isSaving}
+                onClick={() => run(() => api.admin.advanceOrder({ token, orderId: order.id, to }))}
+                className={buttonClass}
+              >
+                Mark {ORDER_STATUS_LABELS[to].toLowerCase()}
+              </button>
+            ))}
+        </div>
+
+        {next.includes('shipped') && (
+          <div className="flex flex-wrap gap-2">
+            <input
+              value={carrier}
+              onChange={(e) => setCarrier(e.target.value)}
+              placeholder="Carrier"
+              className={`${inputClass} w-24`}
+            />
+            <input
+              value={trackingNumber}
+              onChange={(e) => setTrackingNumber(e.target.value)}
+              placeholder="Tracking number"
+              className={`${inputClass} w-36`}
+            />
+            <button
+              disabled={isSaving || !trackingNumber.trim()}
+              onClick={() =>
+                run(() => api.admin.shipOrder({ token, orderId: order.id, carrier, trackingNumber }))
+              }
+              className={buttonClass}
+            >
+              Ship
+            </button>
+          </div>
+        )}
+
+        {next.includes('cancelled') && (
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value as CancellationReason)}
+              className={inputClass}
+            >
+              {Object.entries(CANCELLATION_REASON_LABELS).map(([reason, label]) => (
+                <option key={reason} value={reason} className="bg-slate-800">
+                  {label}
+                </option>
+              ))}
+            </select>
+            <button
+              disabled={isSaving}
+              onClick={() =>
+                run(() => api.admin.cancelOrder({ token, orderId: order.id, reason: cancelReason }))
+              }
+              className={`${buttonClass} text-red-300`}
+            >
+              Cancel order
+            </button>
+          </div>
+        )}
+      </td>
+    </tr>
+  );
+};
+
+const OrdersTab: React.FC<{ token: string; onError: (error: string | null) => void }> = ({ token, onError }) => {
+  const [status, setStatus] = useState<OrderStatus | ''>('');
+  const [orders, setOrders] = useState<Order[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const result = await api.admin.listOrders({ token, status: status || undefined });
+      if (cancelled) return;
+      setOrders(result.orders ?? []);
+    };
+
+    load();
+    const unsubscribe = api.orders.subscribe(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [token, status]);
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-4">
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as OrderStatus | '')}
+          className={inputClass}
+        >
+          <option value="" className="bg-slate-800">
+            All statuses
+          </option>
+          {Object.entries(ORDER_STATUS_LABELS).map(([value, label]) => (
+            <option key={value} value={value} className="bg-slate-800">
+              {label}
+            </option>
+          ))}
+        </select>
+        <span className="text-sm text-gray-400">{orders.length} orders</span>
+      </div>
+
+      {orders.length === 0 ? (
+        <p className="text-center text-gray-400 py-8">No orders</p>
+      ) : (
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-gray-400">
+            <tr>
+              <th className="pb-2 font-medium">Order</th>
+              <th className="pb-2 font-medium">Customer</th>
+              <th className="pb-2 font-medium">Total</th>
+              <th className="pb-2 font-medium">Status</th>
+              <th className="pb-2 font-medium">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {orders.map((order) => (
+              <OrderRow key={order.id} order={order} token={token} onError={onError} />
+            ))}
+          </tbody>
+        </table>
+      )}
+    </>
+  );
+};
+
+// ============================================
+// USERS
+// ============================================
+
+const UsersTab: React.FC<{ token: string; userId: string; onError: (error: string | null) => void }> = ({
+  token,
+  userId,
+  onError,
+}) => {
+  const [users, setUsers] = useState<Array<Omit<User, 'passwordHash'>>>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const result = await api.admin.listUsers({ token });
+      if (cancelled) return;
+      setUsers(result.users ?? []);
+    };
+
+    load();
+    const unsubscribe = api.auth.subscribe(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [token]);
+
+  const toggleAdmin = async (account: Omit<User, 'passwordHash'>) => {
+    const result = await api.admin.setUserRole({
+      token,
+      userId: account.id,
+      role: account.role === 'admin' ? 'customer' : 'admin',
+    });
+    onError(result.success ? null : result.error || 'Could not change the role');
+  };
+
+  return (
+    <table className="w-full text-sm text-left">
+      <thead className="text-xs text-gray-400">
+        <tr>
+          <th className="pb-2 font-medium">User</th>
+          <th className="pb-2 font-medium">Tier</th>
+          <th className="pb-2 font-medium">Joined</th>
+          <th className="pb-2 font-medium">Role</th>
+        </tr>
+      </thead>
+      <tbody>
+        {users.map((account) => (
+          <tr key={account.id} className="border-t border-white/10">
+            <td className="py-3 pr-4">
+              <p className="text-white">{account.name || '—'}</p>
+              <p className="text-xs text-gray-400">{account.email}</p>
+            </td>
+            <td className="py-3 pr-4 text-gray-300">{TIER_LABELS[account.tier]}</td>
+            <td className="py-3 pr-4 text-gray-400">{new Date(account.createdAt).toLocaleDateString()}</td>
+            <td className="py-3">
+              <div className="flex items-center gap-3">
+                <span className={account.role === 'admin' ? 'text-green-400' : 'text-gray-300'}>
+                  {account.role === 'admin' ? 'Admin' : 'Customer'}
+                </span>
+                {account.id !== userId && (
+                  <button onClick={() => toggleAdmin(account)} className={buttonClass}>
+                    {account.role === 'admin' ? 'Remove admin' : 'Make admin'}
+                  </button>
+                )}
+              </div>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+// ============================================
+// CATALOG
+// ============================================
+
+const ProductRow: React.FC<{
+  product: (typeof CATALOG)[number];
+  stock: StockAvailability | undefined;
+  token: string;
+  onError: (error: string | null) => void;
+}> = ({ product, stock, token, onError }) => {
+  const [price, setPrice] = useState((product.price.amount / 100).toFixed(2));
+  const [onHand, setOnHand] = useState(String(stock?.onHand ?? 0));
+  const defaultPrice = api.catalog.getDefaultPrice(product.id);
+
+  useEffect(() => setOnHand(String(stock?.onHand ?? 0)), [stock?.onHand]);
+
+  const handleSave = async () => {
+    const amount = Math.round(parseFloat(price) * 100);
+    const priceResult =
+      amount !== product.price.amount
+        ? await api.admin.setPrice({ token, productId: product.id, amount })
+        : { success: true };
+    if (!priceResult.success) {
+      onError(priceResult.error || 'Could not change the price');
+      return;
+    }
+
+    const count = Number(onHand);
+    const stockResult =
+      count !== stock?.onHand
+        ? await api.admin.setStock({ token, productId: product.id, onHand: count })
+        : { success: true };
+    onError(stockResult.success ? null : stockResult.error || 'Could not change the stock');
+    setPrice((product.price.amount / 100).toFixed(2));
+  };
+
+  return (
+    <tr className="border-t border-white/10">
+      <td className="py-3 pr-4 text-white">
+        {product.name}
+        {GARLAND_PRODUCTS.some((p) => p.id === product.id) && (
+          <span className="text-xs text-gray-500"> (per meter)</span>
+        )}
+      </td>
+      <td className="py-3 pr-4">
+        <input
+          type="number"
+          min="0.01"
+          step="0.01"
+          value={price}
+          onChange={(e) => setPrice(e.target.value)}
+          className={`${inputClass} w-24`}
+        />
+        {defaultPrice !== undefined && defaultPrice !== product.price.amount && (
+          <p className="text-xs text-gray-500">was {formatPrice(defaultPrice)}</p>
+        )}
+      </td>
+      <td className="py-3 pr-4">
+        <input
+          type="number"
+          min="0"
+          step="1"
+          value={onHand}
+          onChange={(e) => setOnHand(e.target.value)}
+          className={`${inputClass} w-20`}
+        />
+      </td>
+      <td className="py-3 pr-4 text-gray-400">
+        {stock ? `${stock.available} available, ${stock.reserved} in checkout` : '—'}
+      </td>
+      <td className="py-3">
+        <button onClick={handleSave} className={buttonClass}>
+          Save
+        </button>
+      </td>
+    </tr>
+  );
+};
+
+const CatalogTab: React.FC<{ token: string; onError: (error: string | null) => void }> = ({ token, onError }) => {
+  const [stock, setStock] = useState<Record<string, StockAvailability>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const levels = await api.inventory.listStock();
+      if (cancelled) return;
+      setStock(Object.fromEntries(levels.map((level) => [level.productId, level])));
+    };
+
+    load();
+    // Prices are read from the catalog, so re-render when they change too
+    const unsubscribeStock = api.inventory.subscribe(load);
+    const unsubscribePrices = api.catalog.subscribe(load);
+    return () => {
+      cancelled = true;
+      unsubscribeStock();
+      unsubscribePrices();
+    };
+  }, []);
+
+  return (
+    <table className="w-full text-sm text-left">
+      <thead className="text-xs text-gray-400">
+        <tr>
+          <th className="pb-2 font-medium">Product</th>
+          <th className="pb-2 font-medium">Price (CHF)</th>
+          <th className="pb-2 font-medium">On hand</th>
+          <th className="pb-2 font-medium">Stock</th>
+          <th className="pb-2 font-medium" />
+        </tr>
+      </thead>
+      <tbody>
+        {CATALOG.map((product) => (
+          <ProductRow key={product.id} product={product} stock={stock[product.id]} token={token} onError={onError} />
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+// ============================================
+// PAGE
+// ============================================
+
+export function AdminPage() {
+  const { user, token, isLoading } = useAuth();
+  const [tab, setTab] = useState<AdminTab>('orders');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleError = useCallback((message: string | null) => setError(message), []);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-900 via-slate-800 to-slate-900 p-4">
+      <div className="w-full max-w-6xl mx-auto py-8">
+        {/* Logo/Header */}
+        <div className="text-center mb-8">
+          <Link to="/" className="inline-block">
+            <h1 className="text-3xl font-bold text-white mb-2">
+              <span className="text-green-400">Christmas</span> Tree Shop
+            </h1>
+          </Link>
+          <p className="text-gray-400">Admin</p>
+        </div>
+
+        {isLoading ? (
+          <p className="text-center text-gray-400">Loading...</p>
+        ) : !user || !token || user.role !== 'admin' ? (
+          <div className="max-w-md mx-auto p-4 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 text-sm text-center">
+            You need an admin account to see this page.{' '}
+            {!user && (
+              <Link to="/login" className="text-green-400 hover:text-green-300 transition-colors">
+                Sign in
+              </Link>
+            )}
+          </div>
+        ) : (
+          <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6 shadow-2xl">
+            <div className="flex gap-2 mb-6">
+              {TABS.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => {
+                    setTab(id);
+                    setError(null);
+                  }}
+                  className={`px-4 py-2 rounded-xl text-sm font-medium transition-colors ${
+                    tab === id ? 'bg-green-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="overflow-x-auto">
+              {tab === 'orders' && <OrdersTab token={token} onError={handleError} />}
+              {tab === 'users' && <UsersTab token={token} userId={user.id} onError={handleError} />}
+              {tab === 'catalog' && <CatalogTab token={token} onError={handleError} />}
+            </div>
+          </div>
+        )}
+
+        {/* Back to Home */}
+        <p className="text-center mt-6">
+          <Link
+            to="/"
+            className="text-sm text-gray-500 hover:text-gray-400 transition-colors"
+          >
+            &larr; Back to Tree Decorator
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
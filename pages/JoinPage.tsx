@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { api } from '../convex-dev';
+import { useAuth } from '../hooks/useAuth';
+import { SessionInvite, TreeSession } from '../types';
+
+const ROLE_DESCRIPTIONS: Record<SessionInvite['role'], string> = {
+  editor: 'You can add, move and remove decorations.',
+  viewer: 'You can watch the tree being decorated, but not change it.',
+};
+
+export function JoinPage() {
+  const navigate = useNavigate();
+  const { code = '' } = useParams<{ code: string }>();
+  const { user, token } = useAuth();
+
+  const [invite, setInvite] = useState<SessionInvite | null>(null);
+  const [session, setSession] = useState<TreeSession | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(true);
+  const [isJoining, setIsJoining] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsChecking(true);
+    api.sessions.getInvite({ code }).then((result) => {
+      if (cancelled) return;
+      setInvite(result.invite ?? null);
+      setSession(result.session ?? null);
+      setError(result.success ? null : result.error || 'Invalid invite');
+      setIsChecking(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [code]);
+
+  const handleJoin = async () => {
+    if (!token) return;
+    setIsJoining(true);
+    const result = await api.sessions.join({ token, code });
+    setIsJoining(false);
+
+    if (!result.success) {
+      setError(result.error || 'Could not join this tree');
+      return;
+    }
+    navigate(`/?room=${encodeURIComponent(result.session!.id)}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        {/* Logo/Header */}
+        <div className="text-center mb-8">
+          <Link to="/" className="inline-block">
+            <h1 className="text-3xl font-bold text-white mb-2">
+              <span className="text-green-400">Christmas</span> Tree Shop
+            </h1>
+          </Link>
+          <p className="text-gray-400">You've been invited to decorate together</p>
+        </div>
+
+        <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-8 shadow-2xl">
+          {isChecking ? (
+            <p className="text-center text-gray-400">Checking invite...</p>
+          ) : error ? (
+            <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 text-sm">
+              {error}
+            </div>
+          ) : (
+            invite &&
+            session && (
+              <>
+                <h2 className="text-xl font-semibold text-white mb-1">{session.name}</h2>
+                <p className="text-sm text-gray-400 mb-6">
+                  Invite <span className="font-mono text-gray-300">{invite.code}</span> · expires{' '}
+                  {new Date(invite.expiresAt).toLocaleString()}
+                </p>
+
+                <div className="mb-6 p-4 bg-white/5 border border-white/10 rounded-xl">
+                  <p className="text-sm text-white font-medium mb-1">
+                    Joining as {invite.role === 'editor' ? 'an editor' : 'a viewer'}
+                  </p>
+                  <p className="text-sm text-gray-400">{ROLE_DESCRIPTIONS[invite.role]}</p>
+                </div>
+
+                {!user ? (
+                  <Link
+                    to="/login"
+                    state={{ from: `/join/${encodeURIComponent(code)}` }}
+                    className="
+                      block w-full py-3 px-4 rounded-xl text-center
+                      bg-green-600 hover:bg-green-500
+                      text-white font-semibold
+                      shadow-lg shadow-green-500/25
+                      transition-all duration-200
+                      hover:scale-[1.02] active:scale-[0.98]
+                    "
+                  >
+                    Sign in to Join
+                  </Link>
+                ) : (
+                  <button
+                    onClick={handleJoin}
+                    disabled={isJoining}
+                    className="
+                      w-full py-3 px-4 rounded-xl
+                      bg-green-600 hover:bg-green-500
+                      disabled:bg-green-600/50 disabled:cursor-not-allowed
+                      text-white font-semibold
+                      shadow-lg shadow-green-500/25
+                      transition-all duration-200
+                      hover:scale-[1.02] active:scale-[0.98]
+                    "
+                  >
+                    {isJoining ? 'Joining...' : 'Join Tree'}
+                  </button>
+                )}
+              </>
+            )
+          )}
+        </div>
+
+        {/* Back to Home */}
+        <p className="text-center mt-6">
+          <Link
+            to="/"
+            className="text-sm text-gray-500 hover:text-gray-400 transition-colors"
+          >
+            &larr; Back to Tree Decorator
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,22 +1,46 @@
-import React, { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import React, { useEffect, useState } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
 
 export function LoginPage() {
   const navigate = useNavigate();
+  // Where to go after signing in, e.g. back to an invite (see JoinPage)
+  const from = (useLocation().state as { from?: string } | null)?.from ?? '/';
   const { login, isLoading, error, clearError } = useAuth();
 
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  // Set while login is throttled
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    if (!retryAt) return;
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= retryAt) {
+        setRetryAt(null);
+        clearError();
+      }
+    }, 250);
+    return () => clearInterval(interval);
+  }, [retryAt, clearError]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     const result = await login({ email, password });
     if (result.success) {
-      navigate('/');
+      navigate(from);
+    } else if (result.code === 'rate_limited' || result.code === 'account_locked') {
+      setNow(Date.now());
+      setRetryAt(result.retryAt ?? null);
     }
   };
 
+  const secondsLeft = retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+  const countdown = `${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, '0')}`;
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center p-4">
       <div className="w-full max-w-md">
@@ -35,8 +59,20 @@ export function LoginPage() {
           onSubmit={handleSubmit}
           className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-8 shadow-2xl"
         >
-          {/* Error Message */}
-          {error && (
+          {/* Throttled: count down to the next allowed attempt */}
+          {retryAt ? (
+            <div className="mb-6 p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-xl text-yellow-300 text-sm">
+              <p>{error}</p>
+              <p className="mt-1">
+                You can try again in <span className="font-mono font-semibold">{countdown}</span>
+                {' '}or{' '}
+                <Link to="/reset-password" className="underline hover:text-yellow-200">
+                  reset your password
+                </Link>
+                .
+              </p>
+            </div>
+          ) : error && (
             <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 text-sm">
               {error}
               <button
@@ -78,7 +114,7 @@ export function LoginPage() {
                 Password
               </label>
               <Link
-                to="/forgot-password"
+                to="/reset-password"
                 className="text-xs text-green-400 hover:text-green-300 transition-colors"
               >
                 Forgot password?
@@ -104,7 +140,7 @@ export function LoginPage() {
           {/* Submit Button */}
           <button
             type="submit"
-            disabled={isLoading}
+            disabled={isLoading || !!retryAt}
             className="
               w-full py-3 px-4 rounded-xl
               bg-green-600 hover:bg-green-500
@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { FileText, ClipboardList, RotateCcw } from 'lucide-react';
+import { api } from '../convex-dev';
+import { useAuth } from '../hooks/useAuth';
+import { getProductById } from '../data/products';
+import { getOrderTimeline } from '../data/orderLifecycle';
+import { printOrderDocument, renderInvoice, renderPackingSlip } from '../data/orderDocuments';
+import { OrderStatusBadge } from '../components/OrderStatusBadge';
+import { TreePreview } from '../components/TreePreview';
+import { Order, OrderEvent, formatPrice } from '../types';
+
+export function OrderDetailPage() {
+  const navigate = useNavigate();
+  const { orderId = '' } = useParams<{ orderId: string }>();
+  const { user, isLoading: authLoading } = useAuth();
+
+  const [order, setOrder] = useState<Order | null>(null);
+  const [events, setEvents] = useState<OrderEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const [result, history] = await Promise.all([
+        api.orders.getById({ orderId }),
+        api.orders.getEvents({ orderId }),
+      ]);
+      if (cancelled) return;
+      setOrder(result);
+      setEvents(history);
+      setIsLoading(false);
+    };
+
+    load();
+    const unsubscribe = api.orders.subscribe(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [orderId]);
+
+  // Only the account that placed the order may see it
+  const visibleOrder = order && user && order.userId === user.id ? order : null;
+
+  const handleReorder = () => {
+    navigate('/', { state: { reorderOrderId: orderId } });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-900 via-slate-800 to-slate-900 p-4">
+      <div className="w-full max-w-4xl mx-auto py-8">
+        {/* Logo/Header */}
+        <div className="text-center mb-8">
+          <Link to="/" className="inline-block">
+            <h1 className="text-3xl font-bold text-white mb-2">
+              <span className="text-green-400">Christmas</span> Tree Shop
+            </h1>
+          </Link>
+          <p className="text-gray-400">Order details</p>
+        </div>
+
+        {authLoading || isLoading ? (
+          <p className="text-center text-gray-400">Loading order...</p>
+        ) : !user ? (
+          <p className="text-center text-gray-400">
+            <Link to="/login" className="text-green-400 hover:text-green-300 transition-colors">
+              Sign in
+            </Link>{' '}
+            to see this order.
+          </p>
+        ) : !visibleOrder ? (
+          <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 text-sm">
+            Order not found
+          </div>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            {/* Decorated tree as ordered */}
+            <TreePreview
+              treeConfig={visibleOrder.treeConfigSnapshot}
+              ornaments={visibleOrder.ornamentsSnapshot}
+              topper={visibleOrder.topperSnapshot}
+              garlands={visibleOrder.garlandsSnapshot}
+              className="h-80 md:h-full min-h-[320px] rounded-2xl overflow-hidden border border-white/10"
+            />
+
+            <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6 shadow-2xl space-y-6">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="text-lg font-mono font-semibold text-white">{visibleOrder.id.toUpperCase()}</p>
+                  <p className="text-xs text-gray-400">
+                    Placed {new Date(visibleOrder.createdAt).toLocaleString()}
+                  </p>
+                </div>
+                <OrderStatusBadge status={visibleOrder.status} />
+              </div>
+
+              {/* Items */}
+              <div className="space-y-1">
+                {visibleOrder.cartSnapshot.items.map((item) => (
+                  <div key={item.id} className="flex justify-between gap-2 text-sm">
+                    <span className="text-white truncate">
+                      {item.productType === 'garland' ? `${item.quantity} m` : `${item.quantity} ×`}{' '}
+                      {getProductById(item.productId)?.name ?? item.productId}
+                    </span>
+                    <span className="text-gray-400 shrink-0">
+                      {formatPrice(item.unitPrice * item.quantity, visibleOrder.currency)}
+                    </span>
+                  </div>
+                ))}
+                <div className="flex justify-between pt-2 mt-2 border-t border-white/10 text-sm font-semibold">
+                  <span className="text-white">Total</span>
+                  <span className="text-green-400">{formatPrice(visibleOrder.total, visibleOrder.currency)}</span>
+                </div>
+              </div>
+
+              {/* Timeline */}
+              <ol className="relative border-l border-white/10 ml-1.5 space-y-4">
+                {getOrderTimeline(visibleOrder, events).map((entry) => (
+                  <li key={entry.id} className="ml-4">
+                    <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-green-500/60 border border-slate-900" />
+                    <p className="text-sm text-white">{entry.title}</p>
+                    {entry.detail && <p className="text-xs text-gray-400">{entry.detail}</p>}
+                    <p className="text-xs text-gray-500">{new Date(entry.at).toLocaleString()}</p>
+                  </li>
+                ))}
+              </ol>
+
+              {/* Actions */}
+              <div className="space-y-2">
+                <button
+                  onClick={handleReorder}
+                  className="
+                    w-full py-3 px-4 rounded-xl
+                    bg-green-600 hover:bg-green-500
+                    text-white font-semibold
+                    shadow-lg shadow-green-500/25
+                    transition-all duration-200
+                    hover:scale-[1.02] active:scale-[0.98]
+                    flex items-center justify-center gap-2
+                  "
+                >
+                  <RotateCcw size={16} />
+                  Reorder this tree
+                </button>
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => printOrderDocument(renderInvoice(visibleOrder))}
+                    className="py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white text-sm transition-colors flex items-center justify-center gap-2"
+                  >
+                    <FileText size={16} />
+                    Invoice
+                  </button>
+                  <button
+                    onClick={() => printOrderDocument(renderPackingSlip(visibleOrder))}
+                    className="py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white text-sm transition-colors flex items-center justify-center gap-2"
+                  >
+                    <ClipboardList size={16} />
+                    Packing Slip
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Back to Orders */}
+        <p className="text-center mt-6">
+          <Link
+            to="/orders"
+            className="text-sm text-gray-500 hover:text-gray-400 transition-colors"
+          >
+            &larr; Back to My Orders
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
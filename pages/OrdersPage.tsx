@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { api } from '../convex-dev';
+import { useAuth } from '../hooks/useAuth';
+import { getProductById } from '../data/products';
+import { OrderStatusBadge } from '../components/OrderStatusBadge';
+import { Order, formatPrice } from '../types';
+
+function getOrderTitle(order: Order): string {
+  const tree = order.cartSnapshot.items.find((item) => item.productType === 'tree');
+  const name = tree ? getProductById(tree.productId)?.name : undefined;
+  const ornamentCount = order.ornamentsSnapshot.length;
+  return `${name ?? 'Decorations'}${ornamentCount > 0 ? ` with ${ornamentCount} ornaments` : ''}`;
+}
+
+export function OrdersPage() {
+  const { user, isLoading: authLoading } = useAuth();
+
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    const load = async () => {
+      const result = await api.orders.getByUser({ userId: user.id });
+      if (cancelled) return;
+      setOrders(result);
+      setIsLoading(false);
+    };
+
+    load();
+    const unsubscribe = api.orders.subscribe(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [user]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-900 via-slate-800 to-slate-900 p-4">
+      <div className="w-full max-w-2xl mx-auto py-8">
+        {/* Logo/Header */}
+        <div className="text-center mb-8">
+          <Link to="/" className="inline-block">
+            <h1 className="text-3xl font-bold text-white mb-2">
+              <span className="text-green-400">Christmas</span> Tree Shop
+            </h1>
+          </Link>
+          <p className="text-gray-400">Your orders</p>
+        </div>
+
+        <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6 shadow-2xl">
+          {authLoading || (user && isLoading) ? (
+            <p className="text-center text-gray-400">Loading orders...</p>
+          ) : !user ? (
+            <p className="text-center text-gray-400">
+              <Link to="/login" className="text-green-400 hover:text-green-300 transition-colors">
+                Sign in
+              </Link>{' '}
+              to see your orders.
+            </p>
+          ) : orders.length === 0 ? (
+            <p className="text-center text-gray-400">
+              You haven't ordered a tree yet.{' '}
+              <Link to="/" className="text-green-400 hover:text-green-300 transition-colors">
+                Decorate one
+              </Link>
+            </p>
+          ) : (
+            <ul className="divide-y divide-white/10">
+              {orders.map((order) => (
+                <li key={order.id}>
+                  <Link
+                    to={`/orders/${order.id}`}
+                    className="flex items-center justify-between gap-4 py-4 px-2 -mx-2 rounded-xl hover:bg-white/5 transition-colors"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm text-white font-medium truncate">{getOrderTitle(order)}</p>
+                      <p className="text-xs text-gray-400">
+                        <span className="font-mono">{order.id.toUpperCase()}</span> ·{' '}
+                        {new Date(order.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex flex-col items-end gap-1 shrink-0">
+                      <OrderStatusBadge status={order.status} />
+                      <span className="text-sm text-green-400">{formatPrice(order.total, order.currency)}</span>
+                    </div>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Back to Home */}
+        <p className="text-center mt-6">
+          <Link
+            to="/"
+            className="text-sm text-gray-500 hover:text-gray-400 transition-colors"
+          >
+            &larr; Back to Tree Decorator
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { api } from '../convex-dev';
+import { useAuth } from '../hooks/useAuth';
+
+const INPUT_CLASS = `
+  w-full px-4 py-3 rounded-xl
+  bg-white/5 border border-white/10
+  text-white placeholder-gray-500
+  focus:outline-none focus:ring-2 focus:ring-green-500/50 focus:border-green-500/50
+  transition-all duration-200
+`;
+
+const SUBMIT_CLASS = `
+  w-full py-3 px-4 rounded-xl
+  bg-green-600 hover:bg-green-500
+  disabled:bg-green-600/50 disabled:cursor-not-allowed
+  text-white font-semibold
+  shadow-lg shadow-green-500/25
+  transition-all duration-200
+  hover:scale-[1.02] active:scale-[0.98]
+`;
+
+/**
+ * Without a token: ask for the account email and send a reset link.
+ * With `?token=`: choose a new password.
+ */
+export function ResetPasswordPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const resetToken = searchParams.get('token');
+  const { requestPasswordReset, resetPassword } = useAuth();
+
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [requestSent, setRequestSent] = useState(false);
+  // null while the token is being checked
+  const [tokenValid, setTokenValid] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (!resetToken) return;
+    let cancelled = false;
+    api.auth.validateResetToken({ resetToken }).then(({ valid }) => {
+      if (!cancelled) setTokenValid(valid);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [resetToken]);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    const result = await requestPasswordReset(email);
+    setIsSubmitting(false);
+    if (result.success) {
+      setRequestSent(true);
+    } else {
+      setError(result.error || 'Could not send reset link');
+    }
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await resetPassword(resetToken!, password);
+    setIsSubmitting(false);
+    if (result.success) {
+      navigate('/login', { replace: true });
+    } else {
+      setError(result.error || 'Password reset failed');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        {/* Logo/Header */}
+        <div className="text-center mb-8">
+          <Link to="/" className="inline-block">
+            <h1 className="text-3xl font-bold text-white mb-2">
+              <span className="text-green-400">Christmas</span> Tree Shop
+            </h1>
+          </Link>
+          <p className="text-gray-400">{resetToken ? 'Choose a new password' : 'Reset your password'}</p>
+        </div>
+
+        <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-8 shadow-2xl">
+          {/* Error Message */}
+          {error && (
+            <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 text-sm">
+              {error}
+              <button
+                type="button"
+                onClick={() => setError(null)}
+                className="float-right text-red-400/70 hover:text-red-400"
+              >
+                &times;
+              </button>
+            </div>
+          )}
+
+          {!resetToken ? (
+            requestSent ? (
+              <p className="text-gray-300 text-sm">
+                If an account exists for <span className="text-white">{email}</span>, a reset link is on
+                its way. The link works once and expires in an hour.
+              </p>
+            ) : (
+              <form onSubmit={handleRequest}>
+                <div className="mb-6">
+                  <label htmlFor="email" className="block text-sm font-medium text-gray-300 mb-2">
+                    Email
+                  </label>
+                  <input
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="you@example.com"
+                    required
+                    className={INPUT_CLASS}
+                  />
+                </div>
+                <button type="submit" disabled={isSubmitting} className={SUBMIT_CLASS}>
+                  {isSubmitting ? 'Sending...' : 'Send Reset Link'}
+                </button>
+              </form>
+            )
+          ) : tokenValid === null ? (
+            <p className="text-center text-gray-400">Checking reset link...</p>
+          ) : !tokenValid ? (
+            <p className="text-gray-300 text-sm">
+              This reset link is invalid, has expired or was already used.{' '}
+              <Link to="/reset-password" className="text-green-400 hover:text-green-300 transition-colors">
+                Request a new one
+              </Link>
+              .
+            </p>
+          ) : (
+            <form onSubmit={handleReset}>
+              <div className="mb-5">
+                <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-2">
+                  New Password
+                </label>
+                <input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="At least 8 characters"
+                  required
+                  minLength={8}
+                  className={INPUT_CLASS}
+                />
+              </div>
+              <div className="mb-6">
+                <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-300 mb-2">
+                  Confirm Password
+                </label>
+                <input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  placeholder="Confirm your password"
+                  required
+                  className={INPUT_CLASS}
+                />
+              </div>
+              <p className="mb-6 text-xs text-gray-500">
+                You'll be signed out on all devices and can sign in with your new password.
+              </p>
+              <button type="submit" disabled={isSubmitting} className={SUBMIT_CLASS}>
+                {isSubmitting ? 'Saving...' : 'Set New Password'}
+              </button>
+            </form>
+          )}
+        </div>
+
+        {/* Back to Login */}
+        <p className="text-center mt-6">
+          <Link
+            to="/login"
+            className="text-sm text-gray-500 hover:text-gray-400 transition-colors"
+          >
+            &larr; Back to Sign In
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
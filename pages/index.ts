@@ -1,2 +1,7 @@
 export { LoginPage } from './LoginPage';
 export { SignupPage } from './SignupPage';
+export { ResetPasswordPage } from './ResetPasswordPage';
+export { JoinPage } from './JoinPage';
+export { OrdersPage } from './OrdersPage';
+export { OrderDetailPage } from './OrderDetailPage';
+export { AdminPage } from './AdminPage';
@@ -0,0 +1,59 @@
+/**
+ * Collaboration Relay
+ *
+ * Minimal WebSocket relay for real-time decorating across machines.
+ * Clients connect to ws://host:port/?room=CODE and every message is
+ * forwarded verbatim to the other clients in the same room. The relay
+ * keeps no tree state: newcomers get the tree from existing peers.
+ *
+ * Usage:
+ *   npm run relay                      # listens on 3011
+ *   COLLAB_RELAY_PORT=4000 npm run relay
+ *
+ * Then start the app with COLLAB_RELAY_URL=ws://localhost:3011 in .env.local
+ */
+
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.COLLAB_RELAY_PORT) || 3011;
+const MAX_MESSAGE_BYTES = 256 * 1024;
+
+/** @type {Map<string, Set<import('ws').WebSocket>>} */
+const rooms = new Map();
+
+const wss = new WebSocketServer({ port: PORT, maxPayload: MAX_MESSAGE_BYTES });
+
+wss.on('connection', (socket, request) => {
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  const roomId = url.searchParams.get('room');
+
+  if (!roomId) {
+    socket.close(1008, 'Missing room');
+    return;
+  }
+
+  let peers = rooms.get(roomId);
+  if (!peers) {
+    peers = new Set();
+    rooms.set(roomId, peers);
+  }
+  peers.add(socket);
+
+  socket.on('message', (data, isBinary) => {
+    if (isBinary) return;
+    peers.forEach((peer) => {
+      if (peer !== socket && peer.readyState === peer.OPEN) {
+        peer.send(data.toString());
+      }
+    });
+  });
+
+  socket.on('close', () => {
+    peers.delete(socket);
+    if (peers.size === 0) {
+      rooms.delete(roomId);
+    }
+  });
+});
+
+console.log(`Collaboration relay listening on ws://localhost:${PORT}`);
@@ -76,6 +76,29 @@ export interface TreeTopperData {
   createdAt?: number;
 }
 
+// ============================================
+// GARLANDS (string lights & bead garlands, see data/garlands.ts)
+// ============================================
+
+export type GarlandType = 'lights' | 'beads';
+
+// How string light bulbs animate; beads ignore it
+export type LightPattern = 'steady' | 'chase' | 'twinkle' | 'fade';
+
+export interface GarlandData {
+  id: string;
+  type: GarlandType;
+  colors: string[];        // Bulbs/beads cycle through these along the strand
+  pattern: LightPattern;
+  // Control points of the strand, in the same space as ornament positions
+  points: [number, number, number][];
+
+  // Multi-user fields
+  userId?: string;
+  userName?: string;
+  createdAt?: number;
+}
+
 // ============================================
 // TREE CONFIGURATION
 // ============================================
@@ -93,6 +116,9 @@ export interface TreeConfig {
 // AUTHENTICATION TYPES
 // ============================================
 
+// Admins can open /admin (see bootstrapAdmin in convex-dev/authInternal.ts)
+export type UserRole = 'customer' | 'admin';
+
 /**
  * User for authentication - contains password hash
  * NOTE: Never send passwordHash to the client
@@ -103,6 +129,12 @@ export interface User {
   passwordHash: string;  // Hashed password - never expose to client
   name?: string;
   avatarUrl?: string;
+  role?: UserRole;       // 'customer' if not set
+
+  // Subscription & usage (see DEFAULT_QUOTAS)
+  tier: SubscriptionTier;
+  quota: UserQuota;
+
   createdAt: number;
   updatedAt: number;
 }
@@ -118,6 +150,19 @@ export interface AuthSession {
   createdAt: number;
 }
 
+/**
+ * Password reset token - single use, short lived
+ * Only a hash of the token is stored; the token itself is sent to the user
+ */
+export interface PasswordResetToken {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  expiresAt: number;
+  createdAt: number;
+  usedAt?: number;
+}
+
 /**
  * Signup request data
  */
@@ -133,14 +178,31 @@ export interface SignupData {
 export interface LoginData {
   email: string;
   password: string;
+  // Identifies the browser for per-client throttling (an IP on a real backend)
+  clientId?: string;
+}
+
+/**
+ * Failed login attempts for one email or client, within the throttling window
+ */
+export interface LoginThrottle {
+  key: string;
+  failures: number[];  // Timestamps of recent failed attempts
+  lockedUntil?: number;
 }
 
 /**
  * Auth operation result
  */
+export type AuthErrorCode = 'invalid_credentials' | 'rate_limited' | 'account_locked';
+
 export interface AuthResult {
   success: boolean;
   error?: string;
+  // Set when the UI should react to the kind of failure
+  code?: AuthErrorCode;
+  // rate_limited / account_locked: when the next attempt is allowed
+  retryAt?: number;
   token?: string;
   user?: Omit<User, 'passwordHash'>;
 }
@@ -163,9 +225,14 @@ export interface UserProfile {
   quota: UserQuota;
 
   // Subscription tier
-  tier: 'free' | 'basic' | 'premium' | 'unlimited';
+  tier: SubscriptionTier;
 }
 
+export type SubscriptionTier = 'free' | 'basic' | 'premium' | 'unlimited';
+
+// Cheapest first
+export const SUBSCRIPTION_TIERS: SubscriptionTier[] = ['free', 'basic', 'premium', 'unlimited'];
+
 export interface UserQuota {
   maxOrnaments: number;
   usedOrnaments: number;
@@ -178,7 +245,7 @@ export interface UserQuota {
   canUseAnimations: boolean;
 }
 
-export const DEFAULT_QUOTAS: Record<User['tier'], Omit<UserQuota, 'usedOrnaments' | 'usedToppers'>> = {
+export const DEFAULT_QUOTAS: Record<SubscriptionTier, Omit<UserQuota, 'usedOrnaments' | 'usedToppers'>> = {
   free: {
     maxOrnaments: 10,
     maxToppers: 1,
@@ -231,17 +298,39 @@ export interface TreeSession {
   updatedAt: number;
 }
 
+export type SessionRole = 'owner' | 'editor' | 'viewer';
+
 export interface SessionParticipant {
   sessionId: string;
   userId: string;
   userName: string;
   avatarUrl?: string;
-  role: 'owner' | 'editor' | 'viewer';
+  role: SessionRole;
   joinedAt: number;
   isOnline: boolean;
   cursorPosition?: [number, number, number];
 }
 
+export interface SessionInvite {
+  code: string;
+  sessionId: string;
+  // Role granted on joining (ownership is never handed out by invite)
+  role: Exclude<SessionRole, 'owner'>;
+  createdBy: string;
+  createdAt: number;
+  expiresAt: number;
+  revokedAt?: number;
+  uses: number;
+}
+
+export interface SessionResult {
+  success: boolean;
+  session?: TreeSession;
+  participant?: SessionParticipant;
+  invite?: SessionInvite;
+  error?: string;
+}
+
 // ============================================
 // AI THEME GENERATION
 // ============================================
@@ -266,8 +355,16 @@ export interface GeneratedTheme {
 // UI STATE
 // ============================================
 
-export type EditorMode = 'view' | 'decorate' | 'topper' | 'edit';
-export type TransformMode = 'translate' | 'rotate';
+export type EditorMode = 'view' | 'decorate' | 'topper' | 'garland' | 'edit';
+export type TransformMode = 'translate' | 'rotate' | 'scale';
+
+// Decorate mode: each click places `count` copies evenly around the trunk,
+// plus their mirror images when `mirror` is on
+export interface SymmetrySettings {
+  enabled: boolean;
+  count: number;
+  mirror: boolean;
+}
 
 export interface EditorState {
   mode: EditorMode;
@@ -275,8 +372,9 @@ export interface EditorState {
   selectedTopperType: TopperType;
   selectedColor: string;
   activePlacement: [number, number, number] | null;
-  selectedOrnamentId: string | null;
+  selectedOrnamentIds: string[];
   transformMode: TransformMode;
+  symmetry: SymmetrySettings;
 }
 
 // ============================================
@@ -288,8 +386,12 @@ export type OrnamentEvent =
   | { type: 'ornament_removed'; ornamentId: string }
   | { type: 'ornament_updated'; ornament: OrnamentData }
   | { type: 'topper_changed'; topper: TreeTopperData | null }
+  | { type: 'garland_added'; garland: GarlandData }
+  | { type: 'garland_removed'; garlandId: string }
+  | { type: 'garland_updated'; garland: GarlandData }
   | { type: 'tree_config_changed'; config: TreeConfig }
-  | { type: 'participant_joined'; participant: SessionParticipant }
+  // accountId: the signed-in user, whose role peers look up in the session
+  | { type: 'participant_joined'; participant: SessionParticipant; accountId?: string }
   | { type: 'participant_left'; participantId: string }
   | { type: 'cursor_moved'; userId: string; position: [number, number, number] };
 
@@ -299,9 +401,12 @@ export type OrnamentEvent =
 
 export type TreeSize = 'small' | 'medium' | 'large';
 
+// Catalog prices are in CHF; see data/currency.ts for the others
+export type CurrencyCode = 'chf' | 'eur' | 'usd';
+
 export interface ProductPrice {
   amount: number;        // Price in cents (e.g., 4900 = CHF 49.00)
-  currency: string;      // 'chf'
+  currency: CurrencyCode; // Always the base currency, 'chf'
   stripePriceId: string; // Stripe Price ID for checkout
 }
 
@@ -313,7 +418,7 @@ export interface TreeProduct {
   description: string;
   price: ProductPrice;
   imageUrl?: string;
-  inStock: boolean;
+  inStock: boolean;        // Listed for sale; live counts are in convex-dev/inventory.ts
   leadTimeDays: number;    // 5-7, 7-10, 10-14
 }
 
@@ -338,11 +443,65 @@ export interface TopperProduct {
   inStock: boolean;
 }
 
+// Sold by the meter: price and stock are per meter
+export interface GarlandProduct {
+  id: string;
+  type: GarlandType;
+  name: string;
+  description: string;
+  price: ProductPrice;
+  imageUrl?: string;
+  inStock: boolean;
+}
+
+// ============================================
+// INVENTORY (see convex-dev/inventory.ts)
+// ============================================
+
+export interface StockLevel {
+  productId: string;
+  onHand: number;          // Units in the warehouse, not yet sold
+  updatedAt: number;
+}
+
+export interface StockAvailability {
+  productId: string;
+  onHand: number;
+  reserved: number;        // Held by carts in checkout
+  available: number;
+}
+
+export type ReservationStatus = 'active' | 'committed' | 'released' | 'expired';
+
+/**
+ * Stock held for a cart between entering checkout and paying
+ */
+export interface StockReservation {
+  id: string;
+  sessionId: string;
+  lines: { productId: string; quantity: number }[];
+  status: ReservationStatus;
+  expiresAt: number;
+  createdAt: number;
+  resolvedAt?: number;
+}
+
+/**
+ * A catalog price changed by staff, replacing the one in data/products.ts
+ */
+export interface PriceOverride {
+  productId: string;
+  amount: number;          // In CHF cents
+  updatedAt: number;
+  updatedBy?: string;      // User ID
+}
+
 // ============================================
 // SHOPPING CART
 // ============================================
 
-export type CartItemType = 'tree' | 'ornament' | 'topper';
+// Garland quantities are in meters
+export type CartItemType = 'tree' | 'ornament' | 'topper' | 'garland';
 
 export interface CartItemCustomization {
   color: string;
@@ -361,13 +520,45 @@ export interface CartItem {
 
 export interface Cart {
   id: string;
-  sessionId: string;
+  sessionId: string;       // Browser session that started the cart
+  userId?: string;         // Account the cart belongs to (guests: none)
   items: CartItem[];
-  subtotal: number;        // In cents
+  currency: CurrencyCode;  // Of unitPrice, subtotal and discounts
+  subtotal: number;        // In cents, before discounts
+  promoCode?: string;
+  // Why the promo code doesn't apply right now (e.g. minimum spend not reached)
+  promoError?: string;
+  discounts?: DiscountLine[];
+  discountTotal?: number;  // In cents
   createdAt: number;
   updatedAt: number;
 }
 
+// ============================================
+// DISCOUNTS (see data/discounts.ts)
+// ============================================
+
+export interface PromoCode {
+  code: string;            // Uppercase
+  description: string;
+  kind: 'percentage' | 'fixed';
+  value: number;           // Percent (15 = 15% off) or cents off
+  minSubtotal?: number;    // Minimum spend in cents, after automatic discounts
+  expiresAt?: number;
+  maxUses?: number;
+  uses: number;            // Redemptions by placed orders
+  active: boolean;
+  createdAt: number;
+}
+
+export interface DiscountLine {
+  id: string;              // 'promo:<CODE>' or 'auto:<rule>[:<group>]'
+  source: 'promo' | 'automatic';
+  label: string;
+  amount: number;          // In cents, money off
+  cartItemIds?: string[];  // Items the discount is for (all items if absent)
+}
+
 // ============================================
 // CHECKOUT & ORDERS
 // ============================================
@@ -384,33 +575,152 @@ export interface ShippingAddress {
   country: string;
 }
 
+// ============================================
+// PRICING (tax & shipping, see data/pricing.ts)
+// ============================================
+
+export type ShippingZoneId = 'ch' | 'ch_remote' | 'eu';
+
+// Whether shown prices include VAT or VAT is added at the end. The total is the same.
+export type TaxDisplay = 'inclusive' | 'exclusive';
+
+export interface PriceLine {
+  id: string;
+  kind: 'item' | 'discount' | 'shipping' | 'surcharge';
+  label: string;
+  quantity: number;
+  net: number;             // In cents, before VAT (negative for discounts)
+  tax: number;             // VAT on this line, in cents
+  cartItemId?: string;
+}
+
+export interface PriceBreakdown {
+  currency: CurrencyCode;
+  country: string;
+  shippingZone: ShippingZoneId;
+  lines: PriceLine[];
+  subtotal: number;        // Items, net
+  discountTotal: number;   // Net money off the items
+  shippingCost: number;    // Shipping and surcharges, net
+  freeShipping: boolean;   // Base shipping waived (bulky surcharges still apply)
+  taxRate: number;         // e.g. 0.081
+  taxDisplay: TaxDisplay;
+  tax: number;
+  total: number;
+}
+
 export type OrderStatus =
   | 'pending'
   | 'paid'
   | 'processing'
+  | 'partially_shipped'
   | 'shipped'
   | 'delivered'
   | 'cancelled';
 
+export type CancellationReason =
+  | 'customer_request'
+  | 'payment_failed'
+  | 'payment_expired'  // Checkout abandoned or left to expire
+  | 'out_of_stock'
+  | 'suspected_fraud'
+  | 'other';
+
+export interface OrderCancellation {
+  reason: CancellationReason;
+  note?: string;
+  cancelledAt: number;
+  cancelledBy: OrderActor;
+}
+
+/**
+ * Units of one cart item
+ */
+export interface ShipmentLine {
+  cartItemId: string;
+  quantity: number;
+}
+
+export interface Shipment {
+  id: string;
+  lines: ShipmentLine[];
+  carrier?: string;
+  trackingNumber?: string;
+  shippedAt: number;
+}
+
+/**
+ * Who caused an order change
+ */
+export interface OrderActor {
+  type: 'customer' | 'staff' | 'payment' | 'system';
+  id?: string;
+  name?: string;
+}
+
+export type OrderEventType =
+  | 'created'
+  | 'status_changed'
+  | 'payment_failed'
+  | 'refunded'
+  | 'shipment_recorded'
+  | 'cancelled'
+  | 'note_added';
+
+/**
+ * Audit log entry - order events are append-only
+ */
+export interface OrderEvent {
+  id: string;
+  orderId: string;
+  type: OrderEventType;
+  from?: OrderStatus;
+  to?: OrderStatus;
+  actor: OrderActor;
+  reason?: string;
+  shipmentId?: string;
+  amount?: number;         // Refunded cents
+  at: number;
+}
+
+/**
+ * Money returned to the customer, keyed by the payment provider's refund ID
+ */
+export interface OrderRefund {
+  id: string;
+  amount: number;
+  refundedAt: number;
+}
+
 export interface Order {
   id: string;
   sessionId: string;
+  userId?: string;         // Account that placed the order (guests: none)
   cartSnapshot: Cart;
   shippingAddress: ShippingAddress;
   stripeSessionId: string;
   stripePaymentIntentId?: string;
   status: OrderStatus;
+  currency: CurrencyCode;  // Of all amounts on the order
   subtotal: number;
   shippingCost: number;
   tax: number;
   total: number;
+  priceBreakdown?: PriceBreakdown;
+  promoCode?: string;
+  discounts?: DiscountLine[];
+  reservationId?: string;
   treeConfigSnapshot: TreeConfig;
   ornamentsSnapshot: OrnamentData[];
   topperSnapshot: TreeTopperData | null;
+  garlandsSnapshot?: GarlandData[];
   createdAt: number;
   paidAt?: number;
-  shippedAt?: number;
+  shippedAt?: number;      // When the last item shipped
   deliveredAt?: number;
+  shipments?: Shipment[];
+  cancellation?: OrderCancellation;
+  refunds?: OrderRefund[];
 }
 
 export interface CheckoutRequest {
@@ -422,13 +732,74 @@ export interface CheckoutRequest {
 }
 
 // ============================================
-// PRICE UTILITIES
+// PAYMENTS (Stripe wire format, hence snake_case)
 // ============================================
 
-export function formatPrice(cents: number): string {
-  return `CHF ${(cents / 100).toFixed(2)}`;
+export type StripeEventType =
+  | 'checkout.session.completed'
+  | 'checkout.session.expired'
+  | 'payment_intent.payment_failed'
+  | 'charge.refunded';
+
+export interface StripeCheckoutSession {
+  id: string;
+  object: 'checkout.session';
+  status: 'open' | 'complete' | 'expired';
+  payment_status: 'unpaid' | 'paid';
+  amount_total: number;
+  currency: string;
+  customer_email: string;
+  client_reference_id: string;
+  payment_intent: string;
+  url: string;
+  expires_at: number;      // Unix seconds
+  metadata: Record<string, string>;
+}
+
+export interface StripePaymentIntent {
+  id: string;
+  object: 'payment_intent';
+  amount: number;
+  currency: string;
+  status: 'requires_payment_method' | 'succeeded' | 'canceled';
+  last_payment_error?: { code: string; decline_code?: string; message: string };
+  metadata: Record<string, string>;
+}
+
+export interface StripeRefund {
+  id: string;
+  object: 'refund';
+  amount: number;
+  charge: string;
+  payment_intent: string;
+  created: number;
+}
+
+export interface StripeCharge {
+  id: string;
+  object: 'charge';
+  amount: number;
+  amount_refunded: number;
+  refunded: boolean;
+  payment_intent: string;
+  refunds: { data: StripeRefund[] };
+  metadata: Record<string, string>;
 }
 
+export interface StripeEvent {
+  id: string;
+  object: 'event';
+  type: StripeEventType;
+  created: number;
+  data: { object: StripeCheckoutSession | StripePaymentIntent | StripeCharge };
+}
+
+// ============================================
+// PRICE UTILITIES
+// ============================================
+
+export { formatPrice } from './data/currency';
+
 export function calculateCartTotal(items: CartItem[]): number {
   return items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
 }